@@ -13,10 +13,13 @@ import {
   IPublicTypeNodeData,
   IPublicTypeNpmInfo,
 } from '@alilc/lowcode-types';
+// 入口文件包含 React 相关模块，这里只引入不依赖 React 的校验器
+import { validateProjectSchema } from '@alilc/lowcode-utils/schema-validator';
 import {
   IPageMeta,
   CodeGeneratorError,
   CompatibilityError,
+  SchemaValidationError,
   DependencyType,
   IContainerInfo,
   IDependency,
@@ -112,6 +115,15 @@ export class SchemaParser implements ISchemaParser {
       throw new CompatibilityError(`Not support schema with version [${schema.version}]`);
     }
 
+    const { valid, diagnostics } = validateProjectSchema(schema);
+    if (!valid) {
+      const errors = diagnostics.filter((item) => item.level === 'error');
+      throw new SchemaValidationError(
+        `Schema is invalid: ${errors.map((item) => `${item.path} ${item.message}`).join('; ')}`,
+        errors,
+      );
+    }
+
     return true;
   }
 
@@ -14,4 +14,6 @@ export class ComponentValidationError extends CodeGeneratorError {}
 
 export class CompatibilityError extends CodeGeneratorError {}
 
+export class SchemaValidationError extends CodeGeneratorError {}
+
 export class PublisherError extends CodeGeneratorError {}
@@ -22,7 +22,7 @@ const jestConfig = {
   transformIgnorePatterns: [
     `/node_modules/(?!${esModules})/`,
   ],
-  setupFiles: ['./tests/fixtures/unhandled-rejection.ts'],
+  setupFiles: ['./tests/fixtures/unhandled-rejection.ts', './tests/fixtures/webcrypto.ts'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'json'],
   collectCoverage: false,
   collectCoverageFrom: [
@@ -47,5 +47,7 @@ const jestConfig = {
 // 只对本仓库内的 pkg 做 mapping
 jestConfig.moduleNameMapper = {};
 jestConfig.moduleNameMapper[`^@alilc/lowcode\\-(${pkgNames.join('|')})$`] = '<rootDir>/../$1/src';
+// yjs 的入口为 .cjs 文件，会被当作静态资源处理，这里改用其 ES Module 源码
+jestConfig.moduleNameMapper['^yjs$'] = require.resolve('yjs/src/index.js');
 
 module.exports = jestConfig;
\ No newline at end of file
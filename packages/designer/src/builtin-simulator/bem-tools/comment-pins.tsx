@@ -0,0 +1,98 @@
+import React, { Component, Fragment } from 'react';
+import { observer, computed } from '@alilc/lowcode-editor-core';
+import { IPublicTypeCommentThread } from '@alilc/lowcode-types';
+import { BuiltinSimulatorHost } from '../host';
+import { INode, OffsetObserver } from '../../designer';
+
+@observer
+export class CommentPinInstance extends Component<{
+  observed: OffsetObserver;
+  threads: IPublicTypeCommentThread[];
+}> {
+  componentWillUnmount() {
+    this.props.observed.purge();
+  }
+
+  render() {
+    const { observed, threads } = this.props;
+    if (!observed.hasOffset) {
+      return null;
+    }
+    const { offsetWidth, offsetTop, offsetLeft, node } = observed;
+    const title = threads.map((thread) => thread.comments[0]?.content).join('\n');
+    return (
+      <div
+        className="lc-comment-pin"
+        style={{ transform: `translate3d(${offsetLeft + offsetWidth}px, ${offsetTop}px, 0)` }}
+        title={title}
+        onClick={() => node.select()}
+      >
+        {threads.length}
+      </div>
+    );
+  }
+}
+
+@observer
+export class CommentPinsForNode extends Component<{
+  host: BuiltinSimulatorHost;
+  node: INode;
+  threads: IPublicTypeCommentThread[];
+}> {
+  @computed get instances() {
+    return this.props.host.getComponentInstances(this.props.node);
+  }
+
+  render() {
+    const { instances } = this;
+    const { host, node, threads } = this.props;
+    if (!instances || instances.length < 1) {
+      return null;
+    }
+    // 多个实例时只在第一个实例上展示
+    const observed = host.designer.createOffsetObserver({ node, instance: instances[0] });
+    if (!observed) {
+      return null;
+    }
+    return <CommentPinInstance key={observed.id} observed={observed} threads={threads} />;
+  }
+}
+
+/**
+ * 节点上未解决评论的标记，点击选中节点
+ */
+@observer
+export class CommentPins extends Component<{ host: BuiltinSimulatorHost }> {
+  @computed get pins(): Array<{ node: INode; threads: IPublicTypeCommentThread[] }> {
+    const { host } = this.props;
+    const doc = host.currentDocument;
+    if (!doc || doc.suspensed || host.designer.dragon.dragging) {
+      return [];
+    }
+    const pins = new Map<INode, IPublicTypeCommentThread[]>();
+    doc.comments.threads.forEach((thread) => {
+      if (thread.resolved || doc.comments.isOrphaned(thread.id)) {
+        return;
+      }
+      const node = doc.getNode(thread.nodeId);
+      if (node) {
+        pins.set(node, [...(pins.get(node) || []), thread]);
+      }
+    });
+    return Array.from(pins.entries()).map(([node, threads]) => ({ node, threads }));
+  }
+
+  render() {
+    const { pins } = this;
+    if (pins.length < 1) {
+      return null;
+    }
+    return (
+      <Fragment>
+        {pins.map(({ node, threads }) => (
+          <CommentPinsForNode key={node.id} host={this.props.host} node={node} threads={threads} />
+        ))}
+      </Fragment>
+    );
+  }
+}
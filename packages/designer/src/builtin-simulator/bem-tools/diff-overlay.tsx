@@ -0,0 +1,120 @@
+import React, { Component, Fragment } from 'react';
+import classNames from 'classnames';
+import { observer, computed } from '@alilc/lowcode-editor-core';
+import { IPublicTypeSchemaDiffHunk, IPublicTypeSchemaDiffHunkType } from '@alilc/lowcode-types';
+import { intl } from '../../locale';
+import { BuiltinSimulatorHost } from '../host';
+import { INode, OffsetObserver } from '../../designer';
+
+const HUNK_SIGNS: Record<IPublicTypeSchemaDiffHunkType, string> = {
+  added: '+',
+  removed: '-',
+  moved: '↕',
+  changed: '~',
+};
+
+/**
+ * 同一节点上有多处变化时，边框颜色按此顺序取第一个
+ */
+const HUNK_PRIORITY: IPublicTypeSchemaDiffHunkType[] = ['removed', 'changed', 'moved', 'added'];
+
+@observer
+export class DiffMarkerInstance extends Component<{
+  observed: OffsetObserver;
+  hunks: IPublicTypeSchemaDiffHunk[];
+}> {
+  componentWillUnmount() {
+    this.props.observed.purge();
+  }
+
+  render() {
+    const { observed, hunks } = this.props;
+    if (!observed.hasOffset) {
+      return null;
+    }
+    const { offsetWidth, offsetHeight, offsetTop, offsetLeft, node } = observed;
+    const { diffReview } = node.document!;
+    const type = HUNK_PRIORITY.find((item) => hunks.some((hunk) => hunk.type === item));
+    return (
+      <div
+        className={classNames('lc-borders', 'lc-borders-diff', `lc-borders-diff-${type}`)}
+        style={{
+          width: offsetWidth,
+          height: offsetHeight,
+          transform: `translate3d(${offsetLeft}px, ${offsetTop}px, 0)`,
+        }}
+      >
+        <div className="lc-borders-diff-hunks">
+          {hunks.map((hunk) => (
+            <div key={hunk.id} className={`lc-borders-diff-hunk lc-borders-diff-hunk-${hunk.type}`}>
+              <span>{`${HUNK_SIGNS[hunk.type]} ${hunk.componentName}`}</span>
+              <a title={intl('Accept')} onClick={() => diffReview.accept(hunk.id)}>✓</a>
+              <a title={intl('Reject')} onClick={() => diffReview.reject(hunk.id)}>✕</a>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+}
+
+@observer
+export class DiffMarkerForNode extends Component<{
+  host: BuiltinSimulatorHost;
+  node: INode;
+  hunks: IPublicTypeSchemaDiffHunk[];
+}> {
+  @computed get instances() {
+    return this.props.host.getComponentInstances(this.props.node);
+  }
+
+  render() {
+    const { instances } = this;
+    const { host, node, hunks } = this.props;
+    if (!instances || instances.length < 1) {
+      return null;
+    }
+    // 多个实例时只在第一个实例上展示
+    const observed = host.designer.createOffsetObserver({ node, instance: instances[0] });
+    if (!observed) {
+      return null;
+    }
+    return <DiffMarkerInstance key={observed.id} observed={observed} hunks={hunks} />;
+  }
+}
+
+/**
+ * 对比 schema 时在画布上标记变化，新增的节点标记在其父节点上，可在标记上接受或拒绝变化
+ */
+@observer
+export class DiffOverlay extends Component<{ host: BuiltinSimulatorHost }> {
+  @computed get markers(): Array<{ node: INode; hunks: IPublicTypeSchemaDiffHunk[] }> {
+    const { host } = this.props;
+    const doc = host.currentDocument;
+    if (!doc || doc.suspensed || !doc.diffReview.active || host.designer.dragon.dragging) {
+      return [];
+    }
+    const markers = new Map<INode, IPublicTypeSchemaDiffHunk[]>();
+    doc.diffReview.hunks.forEach((hunk) => {
+      const node = doc.getNode(hunk.type === 'added' ? hunk.parentId! : hunk.nodeId);
+      if (node) {
+        markers.set(node, [...(markers.get(node) || []), hunk]);
+      }
+    });
+    return Array.from(markers.entries()).map(([node, hunks]) => ({ node, hunks }));
+  }
+
+  render() {
+    const { markers } = this;
+    if (markers.length < 1) {
+      return null;
+    }
+    return (
+      <Fragment>
+        {markers.map(({ node, hunks }) => (
+          <DiffMarkerForNode key={node.id} host={this.props.host} node={node} hunks={hunks} />
+        ))}
+      </Fragment>
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { ISimulatorHost } from '../../simulator';
-import { Designer, Point } from '../../designer';
+import { Designer, Point, getPageRect, ISnapRect } from '../../designer';
 import { cursor } from '@alilc/lowcode-utils';
 import { makeEventsHandler } from '../../utils/misc';
 import { createModuleEventBus, IEventBus } from '@alilc/lowcode-editor-core';
@@ -30,6 +30,7 @@ export default class DragResizeEngine {
   from(shell: Element, direction: string, boost: (e: MouseEvent) => any) {
     let node: any;
     let startEvent: Point;
+    let startRect: ISnapRect | null = null;
 
     if (!shell) {
       return () => {};
@@ -37,8 +38,13 @@ export default class DragResizeEngine {
 
     const move = (e: MouseEvent) => {
       const x = createResizeEvent(e);
-      const moveX = x.clientX - startEvent.clientX;
-      const moveY = x.clientY - startEvent.clientY;
+      // 换算为画布内容的尺寸，保证缩放后拖动距离与组件尺寸一致
+      const scale = masterSensors[0]?.viewport.scale || 1;
+      let moveX = (x.clientX - startEvent.clientX) / scale;
+      let moveY = (x.clientY - startEvent.clientY) / scale;
+      if (startRect) {
+        ({ dx: moveX, dy: moveY } = this.designer.snapping.snapResize(node, startRect, direction, moveX, moveY));
+      }
 
       this.emitter.emit('resize', e, direction, node, moveX, moveY);
     };
@@ -68,6 +74,7 @@ export default class DragResizeEngine {
 
       this.dragResizing = false;
       this.designer.detecting.enable = true;
+      this.designer.snapping.clear();
       cursor.release();
 
       this.emitter.emit('resizeEnd', e, direction, node);
@@ -76,6 +83,7 @@ export default class DragResizeEngine {
     const mousedown = (e: MouseEvent) => {
       node = boost(e);
       startEvent = createResizeEvent(e);
+      startRect = node?.isNode && this.designer.snapping.enabled ? getPageRect(node) : null;
       const handleEvents = makeEventsHandler(e, masterSensors);
       handleEvents(doc => {
         doc.addEventListener('mousemove', move, true);
@@ -6,6 +6,9 @@ import { BuiltinSimulatorHost } from '../host';
 import { BorderSelecting } from './border-selecting';
 import BorderResizing from './border-resizing';
 import { InsertionView } from './insertion';
+import { SnapLines } from './snap-lines';
+import { CommentPins } from './comment-pins';
+import { DiffOverlay } from './diff-overlay';
 import './bem-tools.less';
 import './borders.less';
 
@@ -14,17 +17,20 @@ export class BemTools extends Component<{ host: BuiltinSimulatorHost }> {
   render() {
     const { host } = this.props;
     const { designMode } = host;
-    const { scrollX, scrollY, scale } = host.viewport;
+    const { scrollX, scrollY, scale, panX } = host.viewport;
     if (designMode === 'live') {
       return null;
     }
     return (
-      <div className="lc-bem-tools" style={{ transform: `translate(${-scrollX * scale}px,${-scrollY * scale}px)` }}>
+      <div className="lc-bem-tools" style={{ transform: `translate(${panX - scrollX * scale}px,${-scrollY * scale}px)` }}>
         { !engineConfig.get('disableDetecting') && <BorderDetecting key="hovering" host={host} /> }
         <BorderSelecting key="selecting" host={host} />
         { engineConfig.get('enableReactiveContainer') && <BorderContainer key="reactive-container-border" host={host} /> }
         <InsertionView key="insertion" host={host} />
         <BorderResizing key="resizing" host={host} />
+        { host.designer.snapping.enabled && <SnapLines key="snap-lines" host={host} /> }
+        <CommentPins key="comment-pins" host={host} />
+        <DiffOverlay key="diff-overlay" host={host} />
         {
           host.designer.bemToolsManager.getAllBemTools().map(tools => {
             const ToolsCls = tools.item;
@@ -0,0 +1,48 @@
+import React, { Component, Fragment } from 'react';
+import { observer } from '@alilc/lowcode-editor-core';
+import { BuiltinSimulatorHost } from '../host';
+import { ISnapLine } from '../../designer';
+
+function getLineStyle(line: ISnapLine, scale: number): React.CSSProperties {
+  const position = line.position * scale;
+  const start = line.start * scale;
+  const length = (line.end - line.start) * scale;
+  return line.direction === 'vertical'
+    ? { transform: `translate(${position}px, ${start}px)`, height: length }
+    : { transform: `translate(${start}px, ${position}px)`, width: length };
+}
+
+/**
+ * 拖动、缩放节点时的吸附对齐线及间距标注
+ */
+@observer
+export class SnapLines extends Component<{ host: BuiltinSimulatorHost }> {
+  render() {
+    const { host } = this.props;
+    const { lines, distances } = host.designer.snapping;
+    const { scale } = host.viewport;
+    if (lines.length < 1 && distances.length < 1) {
+      return null;
+    }
+    return (
+      <Fragment>
+        {lines.map((line) => (
+          <div
+            key={`${line.direction}-${line.position}`}
+            className={`lc-snap-line lc-snap-line-${line.direction}`}
+            style={getLineStyle(line, scale)}
+          />
+        ))}
+        {distances.map((distance) => (
+          <div
+            key={`${distance.direction}-${distance.start}-${distance.end}`}
+            className={`lc-snap-distance lc-snap-distance-${distance.direction}`}
+            style={getLineStyle(distance, scale)}
+          >
+            <span className="lc-snap-distance-value">{Math.round(distance.value)}</span>
+          </div>
+        ))}
+      </Fragment>
+    );
+  }
+}
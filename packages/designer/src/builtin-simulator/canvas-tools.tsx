@@ -0,0 +1,244 @@
+import React, { Component } from 'react';
+import classNames from 'classnames';
+import { observer, engineConfig, reaction } from '@alilc/lowcode-editor-core';
+import { BuiltinSimulatorHost } from './host';
+import { intl } from '../locale';
+import './canvas-tools.less';
+
+const ZOOM_PRESETS = [0.5, 1, 2];
+
+const MINIMAP_WIDTH = 160;
+
+const MINIMAP_MAX_HEIGHT = 240;
+
+interface IBlock {
+  id: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function toPercent(zoom: number): string {
+  return `${Math.round(zoom * 100)}%`;
+}
+
+/**
+ * 页面缩略图，展示页面顶层节点及当前可见区域，点击或拖动可快速定位
+ */
+@observer
+class Minimap extends Component<{ host: BuiltinSimulatorHost }> {
+  state = {
+    pageHeight: 0,
+    blocks: [] as IBlock[],
+  };
+
+  private frame?: number;
+
+  private container?: HTMLDivElement | null;
+
+  private disposeReaction?: () => void;
+
+  private disposeObserver?: () => void;
+
+  componentDidMount() {
+    // 画布 iframe 重新加载后重新监听
+    this.disposeReaction = reaction(
+      () => this.props.host.contentDocument,
+      (doc) => this.observe(doc),
+      { fireImmediately: true },
+    );
+  }
+
+  componentWillUnmount() {
+    this.disposeReaction?.();
+    this.disposeObserver?.();
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+    }
+  }
+
+  get ratio(): number {
+    const { pageWidth, pageHeight } = this;
+    return Math.min(MINIMAP_WIDTH / pageWidth, MINIMAP_MAX_HEIGHT / pageHeight);
+  }
+
+  get pageWidth(): number {
+    const { viewport } = this.props.host;
+    return typeof viewport.contentWidth === 'number' ? viewport.contentWidth : viewport.width / viewport.scale;
+  }
+
+  get visibleHeight(): number {
+    const { viewport } = this.props.host;
+    return typeof viewport.contentHeight === 'number' ? viewport.contentHeight : viewport.height / viewport.scale;
+  }
+
+  get pageHeight(): number {
+    return Math.max(this.state.pageHeight, this.visibleHeight);
+  }
+
+  /**
+   * 页面内容变化时没有统一的通知，监听画布的 DOM 及尺寸变化，在下一帧重新测量
+   */
+  observe(doc?: Document) {
+    this.disposeObserver?.();
+    this.disposeObserver = undefined;
+    this.measure();
+    const body = doc?.body;
+    if (!body) {
+      return;
+    }
+    const mutationObserver = new MutationObserver(this.scheduleMeasure);
+    mutationObserver.observe(body, { childList: true, subtree: true, attributes: true, characterData: true });
+    const resizeObserver = typeof ResizeObserver === 'undefined' ? undefined : new ResizeObserver(this.scheduleMeasure);
+    resizeObserver?.observe(body);
+    this.disposeObserver = () => {
+      mutationObserver.disconnect();
+      resizeObserver?.disconnect();
+    };
+  }
+
+  scheduleMeasure = () => {
+    if (this.frame !== undefined) {
+      return;
+    }
+    this.frame = requestAnimationFrame(() => {
+      this.frame = undefined;
+      this.measure();
+    });
+  };
+
+  measure = () => {
+    const { viewport, project } = this.props.host;
+    const { scrollX, scrollY } = viewport;
+    const blocks: IBlock[] = [];
+    project.currentDocument?.rootNode?.children?.forEach((child) => {
+      const rect = child.getRect();
+      if (rect) {
+        blocks.push({
+          id: child.id,
+          left: rect.left + scrollX,
+          top: rect.top + scrollY,
+          width: rect.width,
+          height: rect.height,
+        });
+      }
+    });
+    const pageHeight = viewport.scrollTarget?.scrollHeight || 0;
+    if (pageHeight !== this.state.pageHeight || JSON.stringify(blocks) !== JSON.stringify(this.state.blocks)) {
+      this.setState({ pageHeight, blocks });
+    }
+  };
+
+  /**
+   * 将可见区域的中心移动到鼠标位置
+   */
+  locate(e: MouseEvent | React.MouseEvent) {
+    const { viewport } = this.props.host;
+    const rect = this.container?.getBoundingClientRect();
+    if (!rect) {
+      return;
+    }
+    const { ratio } = this;
+    const { zoom, panX, scrollY } = viewport;
+    const left = (e.clientX - rect.left) / ratio - viewport.width / zoom / 2;
+    const top = (e.clientY - rect.top) / ratio - this.visibleHeight / 2;
+    viewport.panBy(-left * zoom - panX, (scrollY - top) * zoom);
+  }
+
+  handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    this.locate(e);
+    const move = (evt: MouseEvent) => this.locate(evt);
+    const over = () => {
+      document.removeEventListener('mousemove', move, true);
+      document.removeEventListener('mouseup', over, true);
+    };
+    document.addEventListener('mousemove', move, true);
+    document.addEventListener('mouseup', over, true);
+  };
+
+  render() {
+    const { viewport } = this.props.host;
+    const { ratio, pageWidth, pageHeight } = this;
+    const { zoom, panX, scrollY } = viewport;
+    const frameLeft = Math.max(0, -panX / zoom);
+    return (
+      <div
+        className="lc-simulator-minimap"
+        ref={(ref) => { this.container = ref; }}
+        style={{ width: pageWidth * ratio, height: pageHeight * ratio }}
+        onMouseDown={this.handleMouseDown}
+      >
+        {this.state.blocks.map((block) => (
+          <div
+            key={block.id}
+            className="lc-simulator-minimap-block"
+            style={{
+              left: block.left * ratio,
+              top: block.top * ratio,
+              width: block.width * ratio,
+              height: block.height * ratio,
+            }}
+          />
+        ))}
+        <div
+          className="lc-simulator-minimap-frame"
+          style={{
+            left: frameLeft * ratio,
+            top: scrollY * ratio,
+            width: Math.min(pageWidth - frameLeft, viewport.width / zoom) * ratio,
+            height: this.visibleHeight * ratio,
+          }}
+        />
+      </div>
+    );
+  }
+}
+
+/**
+ * 画布缩放工具条及缩略图
+ */
+@observer
+export class CanvasTools extends Component<{ host: BuiltinSimulatorHost }> {
+  render() {
+    const { host } = this.props;
+    const { viewport } = host;
+    if (host.designMode === 'live') {
+      return null;
+    }
+    return (
+      <div className="lc-simulator-tools">
+        {engineConfig.get('enableCanvasMinimap') && <Minimap host={host} />}
+        <div className="lc-simulator-zoom">
+          <span
+            className={classNames('lc-simulator-zoom-action', { 'lc-simulator-zoom-action-active': host.handTool })}
+            title={intl('Hand Tool')}
+            onClick={() => host.setHandTool(!host.handTool)}
+          >
+            {intl('Hand')}
+          </span>
+          <span className="lc-simulator-zoom-action" title={intl('Zoom Out')} onClick={() => viewport.zoomOut()}>
+            -
+          </span>
+          <span className="lc-simulator-zoom-value">
+            {toPercent(viewport.zoom)}
+            <div className="lc-simulator-zoom-presets">
+              {ZOOM_PRESETS.map((zoom) => (
+                <div key={zoom} className="lc-simulator-zoom-preset" onClick={() => viewport.setZoom(zoom)}>
+                  {toPercent(zoom)}
+                </div>
+              ))}
+              <div className="lc-simulator-zoom-preset" onClick={() => viewport.fitToScreen()}>
+                {intl('Fit to Screen')}
+              </div>
+            </div>
+          </span>
+          <span className="lc-simulator-zoom-action" title={intl('Zoom In')} onClick={() => viewport.zoomIn()}>
+            +
+          </span>
+        </div>
+      </div>
+    );
+  }
+}
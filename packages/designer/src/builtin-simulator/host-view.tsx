@@ -1,7 +1,10 @@
 import React, { Component } from 'react';
 import { observer, globalContext } from '@alilc/lowcode-editor-core';
 import { BuiltinSimulatorHost, BuiltinSimulatorProps } from './host';
+import classNames from 'classnames';
 import { BemTools } from './bem-tools';
+import { CanvasTools } from './canvas-tools';
+import { Rulers } from './rulers';
 import { Project } from '../project';
 import './host.less';
 
@@ -34,11 +37,16 @@ export class BuiltinSimulatorHostView extends Component<SimulatorHostProps> {
     return false;
   }
 
+  componentWillUnmount() {
+    this.host.purge();
+  }
+
   render() {
     return (
       <div className="lc-simulator">
         {/* progressing.visible ? <PreLoaderView /> : null */}
         <Canvas host={this.host} />
+        <CanvasTools host={this.host} />
       </div>
     );
   }
@@ -46,6 +54,19 @@ export class BuiltinSimulatorHostView extends Component<SimulatorHostProps> {
 
 @observer
 class Canvas extends Component<{ host: BuiltinSimulatorHost }> {
+  private viewportElement: HTMLDivElement | null = null;
+
+  // React 合成事件中的 wheel 无法阻止浏览器缩放，需要直接监听
+  private handleWheel = (e: WheelEvent) => this.props.host.handleWheel(e, false);
+
+  componentDidMount() {
+    this.viewportElement?.addEventListener('wheel', this.handleWheel, { passive: false });
+  }
+
+  componentWillUnmount() {
+    this.viewportElement?.removeEventListener('wheel', this.handleWheel);
+  }
+
   render() {
     const sim = this.props.host;
     let className = 'lc-simulator-canvas';
@@ -58,9 +79,23 @@ class Canvas extends Component<{ host: BuiltinSimulatorHost }> {
 
     return (
       <div className={className} style={canvas}>
-        <div ref={(elmt) => sim.mountViewport(elmt)} className="lc-simulator-canvas-viewport" style={viewport}>
+        <div
+          ref={(elmt) => {
+            this.viewportElement = elmt;
+            sim.mountViewport(elmt);
+          }}
+          className="lc-simulator-canvas-viewport"
+          style={viewport}
+        >
           <BemTools host={sim} />
           <Content host={sim} />
+          {sim.handTool && (
+            <div
+              className={classNames('lc-simulator-hand-tool', { 'lc-simulator-hand-tool-panning': sim.panning })}
+              onMouseDown={(e) => sim.startPan(e.nativeEvent)}
+            />
+          )}
+          {sim.designer.snapping.enabled && sim.designMode !== 'live' && <Rulers host={sim} />}
         </div>
       </div>
     );
@@ -100,7 +135,7 @@ class Content extends Component<{ host: BuiltinSimulatorHost }> {
     const { disabledEvents } = this.state;
     const { viewport, designer } = sim;
     const frameStyle: any = {
-      transform: `scale(${viewport.scale})`,
+      transform: `translate(${viewport.panX}px, 0) scale(${viewport.scale})`,
       height: viewport.contentHeight,
       width: viewport.contentWidth,
     };
@@ -49,6 +49,10 @@ import {
   CanvasPoint,
   Designer,
   IDesigner,
+  isFreeLayoutNode,
+  startMoveNodes,
+  getPageRect,
+  ISnapRect,
 } from '../designer';
 import { parseMetadata } from './utils/parse-metadata';
 import { getClosestClickableNode } from './utils/clickable';
@@ -63,6 +67,8 @@ import {
   IPublicTypeLocationDetailType,
   IPublicTypeRect,
   IPublicModelNode,
+  IPublicTypeExpressionEvaluator,
+  IPublicTypeExpressionEvaluatorType,
 } from '@alilc/lowcode-types';
 import { BuiltinSimulatorRenderer } from './renderer';
 import { clipboard } from '../designer/clipboard';
@@ -162,6 +168,11 @@ const defaultRaxEnvironment = [
   ),
 ];
 
+/**
+ * 滚轮缩放的灵敏度
+ */
+const ZOOM_WHEEL_SENSITIVITY = 0.002;
+
 export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProps> {
   readonly isSimulator = true;
 
@@ -222,6 +233,10 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
     return engineConfig.get('thisRequiredInJSE') ?? true;
   }
 
+  get expressionEvaluator(): IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator | undefined {
+    return engineConfig.get('expressionEvaluator');
+  }
+
   get enableStrictNotFoundMode(): any {
     return engineConfig.get('enableStrictNotFoundMode') ?? false;
   }
@@ -255,6 +270,28 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
     return this.get('deviceStyle');
   }
 
+  @obx.ref private _handTool = false;
+
+  @obx.ref private _spacePressed = false;
+
+  @obx.ref private _panning = false;
+
+  private removeSpaceKeyup?: () => void;
+
+  /**
+   * 是否处于抓手工具状态，此时拖动画布为平移画布，按住空格键时临时开启
+   */
+  @computed get handTool(): boolean {
+    return this._handTool || this._spacePressed;
+  }
+
+  /**
+   * 是否正在平移画布
+   */
+  get panning(): boolean {
+    return this._panning;
+  }
+
   @obx.ref _props: BuiltinSimulatorProps = {};
 
   @obx.ref private _contentWindow?: Window;
@@ -384,12 +421,126 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
 
   purge(): void {
     // todo
+    this.removeSpaceKeyup?.();
   }
 
   mountViewport(viewport: HTMLElement | null) {
     this.viewport.mount(viewport);
   }
 
+  setHandTool(enabled: boolean) {
+    this._handTool = enabled;
+  }
+
+  /**
+   * 开始平移画布，跟随鼠标移动直到松开
+   */
+  startPan(downEvent: MouseEvent) {
+    downEvent.preventDefault();
+    const docs = [document, this.contentDocument].filter(Boolean) as Document[];
+    let lastX = downEvent.screenX;
+    let lastY = downEvent.screenY;
+    const move = (e: MouseEvent) => {
+      this.viewport.panBy(e.screenX - lastX, e.screenY - lastY);
+      lastX = e.screenX;
+      lastY = e.screenY;
+    };
+    const over = () => {
+      docs.forEach((doc) => {
+        doc.removeEventListener('mousemove', move, true);
+        doc.removeEventListener('mouseup', over, true);
+      });
+      this._panning = false;
+    };
+    docs.forEach((doc) => {
+      doc.addEventListener('mousemove', move, true);
+      doc.addEventListener('mouseup', over, true);
+    });
+    this._panning = true;
+  }
+
+  /**
+   * 开启画布吸附时，拖动同一父节点下自由布局的节点直接修改其位置，并吸附到父节点、兄弟节点及参考线
+   * @returns 是否由此处理拖动
+   */
+  startFreeMove(nodes: INode[], downEvent: MouseEvent): boolean {
+    const { snapping, detecting } = this.designer;
+    const parent = nodes[0]?.parent;
+    if (!snapping.enabled || !parent || nodes.some((node) => node.parent !== parent || !isFreeLayoutNode(node))) {
+      return false;
+    }
+    const rects = nodes.map((node) => getPageRect(node));
+    const mover = startMoveNodes(nodes);
+    if (!mover || rects.some((rect) => !rect)) {
+      return false;
+    }
+    const left = Math.min(...rects.map((rect) => rect!.left));
+    const top = Math.min(...rects.map((rect) => rect!.top));
+    const box: ISnapRect = {
+      left,
+      top,
+      width: Math.max(...rects.map((rect) => rect!.left + rect!.width)) - left,
+      height: Math.max(...rects.map((rect) => rect!.top + rect!.height)) - top,
+    };
+    const docs = [document, this.contentDocument].filter(Boolean) as Document[];
+    let moving = false;
+    const move = (e: MouseEvent) => {
+      if (!moving) {
+        if (!isShaken(downEvent, e)) {
+          return;
+        }
+        moving = true;
+        const { selection } = parent.document!;
+        if (nodes.some((node) => !selection.has(node.id))) {
+          selection.selectAll(nodes.map((node) => node.id));
+        }
+        detecting.enable = false;
+      }
+      const { scale } = this.viewport;
+      const { dx, dy } = snapping.snapMove(
+        nodes,
+        box,
+        (e.screenX - downEvent.screenX) / scale,
+        (e.screenY - downEvent.screenY) / scale,
+      );
+      mover.move(dx, dy);
+    };
+    const over = () => {
+      docs.forEach((doc) => {
+        doc.removeEventListener('mousemove', move, true);
+        doc.removeEventListener('mouseup', over, true);
+      });
+      if (moving) {
+        mover.end();
+        detecting.enable = true;
+      }
+      snapping.clear();
+    };
+    docs.forEach((doc) => {
+      doc.addEventListener('mousemove', move, true);
+      doc.addEventListener('mouseup', over, true);
+    });
+    return true;
+  }
+
+  /**
+   * ctrl / command + 滚轮及触控板双指缩放时缩放画布，以鼠标位置为缩放中心，
+   * fromContent 为 false 时事件来自画布缩小后视口中的空白区域
+   */
+  handleWheel(e: WheelEvent, fromContent: boolean) {
+    const { viewport } = this;
+    if (e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      const origin = fromContent ? viewport.toGlobalPoint(e) : e;
+      viewport.setZoom(viewport.zoom * Math.exp(-e.deltaY * ZOOM_WHEEL_SENSITIVITY), origin);
+    } else if (!fromContent) {
+      e.preventDefault();
+      viewport.panBy(-e.deltaX, -e.deltaY);
+    } else if (e.deltaX) {
+      viewport.panBy(-e.deltaX);
+    }
+  }
+
   /**
    * {
    *   "title":"BizCharts",
@@ -531,6 +682,7 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
     // TODO: Thinkof move events control to simulator renderer
     //       just listen special callback
     // because iframe maybe reload
+    this.setupZoomAndPan();
     this.setupDragAndClick();
     this.setupDetecting();
     this.setupLiveEditing();
@@ -541,6 +693,41 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
     this.emitter.emit(eventName, ...data);
   }
 
+  setupZoomAndPan() {
+    const doc = this.contentDocument!;
+    doc.addEventListener('wheel', (e: WheelEvent) => this.handleWheel(e, true), { passive: false });
+    // 鼠标中键拖动平移画布，捕获阶段处理以免触发选中
+    doc.addEventListener(
+      'mousedown',
+      (e: MouseEvent) => {
+        if (e.button === 1) {
+          e.stopPropagation();
+          this.startPan(e);
+        }
+      },
+      true,
+    );
+    doc.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isFormEvent(e) && !this.liveEditing.editing) {
+        e.preventDefault();
+        this._spacePressed = true;
+      }
+    });
+    // 开始平移后焦点可能在宿主文档中，iframe 重新加载时先移除上一次的监听
+    const onKeyup = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        this._spacePressed = false;
+      }
+    };
+    const targets = [doc, document];
+    this.removeSpaceKeyup?.();
+    targets.forEach((target) => target.addEventListener('keyup', onKeyup));
+    this.removeSpaceKeyup = () => {
+      targets.forEach((target) => target.removeEventListener('keyup', onKeyup));
+      this.removeSpaceKeyup = undefined;
+    };
+  }
+
   setupDragAndClick() {
     const { designer } = this;
     const doc = this.contentDocument!;
@@ -654,14 +841,16 @@ export class BuiltinSimulatorHost implements ISimulatorHost<BuiltinSimulatorProp
           } else {
             // will clear current selection & select dragment in dragstart
           }
-          designer.dragon.boost(
-            {
-              type: IPublicEnumDragObjectType.Node,
-              nodes,
-            },
-            downEvent,
-            isRGLNode ? rglNode : undefined,
-          );
+          if (isRGLNode || !this.startFreeMove(nodes, downEvent)) {
+            designer.dragon.boost(
+              {
+                type: IPublicEnumDragObjectType.Node,
+                nodes,
+              },
+              downEvent,
+              isRGLNode ? rglNode : undefined,
+            );
+          }
           if (ignoreUpSelected) {
             // multi select mode has add selected, should return
             return;
@@ -0,0 +1,160 @@
+import React, { Component, Fragment } from 'react';
+import classNames from 'classnames';
+import { observer } from '@alilc/lowcode-editor-core';
+import { IPublicTypeGuide } from '@alilc/lowcode-types';
+import { BuiltinSimulatorHost } from './host';
+import './rulers.less';
+
+const RULER_SIZE = 16;
+
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+/**
+ * 刻度标签之间至少间隔的屏幕像素
+ */
+const MIN_STEP_WIDTH = 50;
+
+interface IDraggingGuide extends IPublicTypeGuide {
+  index?: number;
+}
+
+function getStep(scale: number): number {
+  return RULER_STEPS.find((step) => step * scale >= MIN_STEP_WIDTH) || RULER_STEPS[RULER_STEPS.length - 1];
+}
+
+/**
+ * 画布标尺及参考线，从标尺上拖出新建参考线，将参考线拖回标尺删除
+ */
+@observer
+export class Rulers extends Component<{ host: BuiltinSimulatorHost }> {
+  state = {
+    dragging: null as IDraggingGuide | null,
+  };
+
+  /**
+   * 页面坐标转换为相对于视口的屏幕坐标
+   */
+  toScreen(direction: IPublicTypeGuide['direction'], position: number): number {
+    const { scale, panX, scrollX, scrollY } = this.props.host.viewport;
+    return direction === 'vertical' ? (position - scrollX) * scale + panX : (position - scrollY) * scale;
+  }
+
+  toPage(direction: IPublicTypeGuide['direction'], e: React.MouseEvent): number {
+    const { viewport } = this.props.host;
+    const local = viewport.toLocalPoint({ clientX: e.clientX, clientY: e.clientY });
+    return direction === 'vertical' ? local.clientX + viewport.scrollX : local.clientY + viewport.scrollY;
+  }
+
+  /**
+   * 松开鼠标时是否在标尺上
+   */
+  isOverRuler(direction: IPublicTypeGuide['direction'], e: React.MouseEvent): boolean {
+    const { bounds } = this.props.host.viewport;
+    return direction === 'vertical' ? e.clientX - bounds.left < RULER_SIZE : e.clientY - bounds.top < RULER_SIZE;
+  }
+
+  startDrag(e: React.MouseEvent, direction: IPublicTypeGuide['direction'], index?: number) {
+    e.preventDefault();
+    e.stopPropagation();
+    this.setState({ dragging: { direction, index, position: this.toPage(direction, e) } });
+  }
+
+  handleMouseMove = (e: React.MouseEvent) => {
+    const { dragging } = this.state;
+    if (dragging) {
+      this.setState({ dragging: { ...dragging, position: this.toPage(dragging.direction, e) } });
+    }
+  };
+
+  handleMouseUp = (e: React.MouseEvent) => {
+    const { dragging } = this.state;
+    const { snapping } = this.props.host.designer;
+    this.setState({ dragging: null });
+    if (!dragging) {
+      return;
+    }
+    const remove = this.isOverRuler(dragging.direction, e);
+    const position = this.toPage(dragging.direction, e);
+    if (dragging.index == null) {
+      if (!remove) {
+        snapping.addGuide({ direction: dragging.direction, position });
+      }
+    } else if (remove) {
+      snapping.removeGuide(dragging.index);
+    } else {
+      snapping.updateGuide(dragging.index, position);
+    }
+  };
+
+  renderRuler(direction: IPublicTypeGuide['direction']) {
+    const { viewport } = this.props.host;
+    const step = getStep(viewport.scale);
+    const size = direction === 'vertical' ? viewport.width : viewport.height;
+    const scroll = direction === 'vertical' ? viewport.scrollX : viewport.scrollY;
+    const offset = direction === 'vertical' ? viewport.panX : 0;
+    const first = Math.ceil((scroll - offset / viewport.scale) / step);
+    const last = Math.floor((scroll + (size - offset) / viewport.scale) / step);
+    const ticks: number[] = [];
+    for (let i = first; i <= last; i++) {
+      ticks.push(i * step);
+    }
+    // 从水平标尺拖出垂直参考线，从垂直标尺拖出水平参考线
+    const isTop = direction === 'vertical';
+    return (
+      <div
+        className={classNames('lc-simulator-ruler', isTop ? 'lc-simulator-ruler-top' : 'lc-simulator-ruler-left')}
+        onMouseDown={(e) => this.startDrag(e, direction)}
+      >
+        {ticks.map((tick) => (
+          <span
+            key={tick}
+            className="lc-simulator-ruler-tick"
+            style={isTop ? { left: this.toScreen(direction, tick) } : { top: this.toScreen(direction, tick) }}
+          >
+            {tick}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  renderGuide(guide: IDraggingGuide, key: string, dragging?: boolean) {
+    const position = this.toScreen(guide.direction, guide.position);
+    return (
+      <div
+        key={key}
+        className={classNames('lc-simulator-guide', `lc-simulator-guide-${guide.direction}`, {
+          'lc-simulator-guide-dragging': dragging,
+        })}
+        style={guide.direction === 'vertical' ? { left: position } : { top: position }}
+        onMouseDown={(e) => this.startDrag(e, guide.direction, guide.index)}
+      >
+        {dragging && <span className="lc-simulator-guide-value">{Math.round(guide.position)}</span>}
+      </div>
+    );
+  }
+
+  render() {
+    const { host } = this.props;
+    const { dragging } = this.state;
+    const guides = host.designer.snapping.getGuides(host.currentDocument);
+    return (
+      <Fragment>
+        {this.renderRuler('vertical')}
+        {this.renderRuler('horizontal')}
+        <div className="lc-simulator-ruler-corner" />
+        {guides.map((guide, index) => (
+          dragging?.index === index ? null : this.renderGuide({ ...guide, index }, `${guide.direction}-${index}`)
+        ))}
+        {dragging && (
+          <div
+            className={`lc-simulator-guide-mask lc-simulator-guide-mask-${dragging.direction}`}
+            onMouseMove={this.handleMouseMove}
+            onMouseUp={this.handleMouseUp}
+          />
+        )}
+        {dragging && this.renderGuide(dragging, 'dragging', true)}
+      </Fragment>
+    );
+  }
+}
@@ -2,9 +2,27 @@ import { obx, computed, makeObservable } from '@alilc/lowcode-editor-core';
 import { Point, ScrollTarget } from '../designer';
 import { AutoFit, IViewport } from '../simulator';
 
+/**
+ * 缩放范围
+ */
+export const MIN_ZOOM = 0.1;
+
+export const MAX_ZOOM = 4;
+
+/**
+ * 逐级放大缩小时使用的缩放比例
+ */
+export const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
 export default class Viewport implements IViewport {
   @obx.ref private rect?: DOMRect;
 
+  @obx.ref private _panX = 0;
+
   private _bounds?: DOMRect;
 
   get bounds(): DOMRect {
@@ -19,8 +37,13 @@ export default class Viewport implements IViewport {
   }
 
   get contentBounds(): DOMRect {
-    const { bounds, scale } = this;
-    return new DOMRect(0, 0, bounds.width / scale, bounds.height / scale);
+    const { bounds, scale, contentWidth, contentHeight } = this;
+    return new DOMRect(
+      0,
+      0,
+      typeof contentWidth === 'number' ? contentWidth : bounds.width / scale,
+      typeof contentHeight === 'number' ? contentHeight : bounds.height / scale,
+    );
   }
 
   private viewportElement?: HTMLElement;
@@ -90,6 +113,103 @@ export default class Viewport implements IViewport {
     this._scale = newScale;
     this._contentWidth = this.width / this.scale;
     this._contentHeight = this.height / this.scale;
+    this.setPanX(this._panX);
+  }
+
+  /**
+   * 画布缩放比例，与 scale 不同的是缩放时保持页面的设计宽度不变，超出视口的部分通过平移查看
+   */
+  @computed get zoom(): number {
+    return this._scale;
+  }
+
+  /**
+   * 内容在视口中的水平平移距离，垂直方向通过滚动内容实现
+   */
+  @computed get panX(): number {
+    return this._panX;
+  }
+
+  /**
+   * 设置缩放比例，指定 origin 时保持该点（全局坐标）下的内容位置不变，否则以视口中心为基准
+   */
+  setZoom(zoom: number, origin?: Point) {
+    if (isNaN(zoom) || zoom <= 0) {
+      return;
+    }
+    const newZoom = clampZoom(zoom);
+    const update = () => {
+      this._scale = newZoom;
+      this._contentWidth = newZoom === 1 ? AutoFit : this.width;
+      this._contentHeight = newZoom === 1 ? AutoFit : this.height / newZoom;
+    };
+    if (!this.viewportElement) {
+      update();
+      return;
+    }
+    const { bounds } = this;
+    const anchor = origin || {
+      clientX: bounds.left + bounds.width / 2,
+      clientY: bounds.top + bounds.height / 2,
+    };
+    const local = this.toLocalPoint(anchor);
+    const contentY = local.clientY + this.scrollY;
+    update();
+    this.setPanX(anchor.clientX - bounds.left - local.clientX * newZoom);
+    this.scrollTarget?.scrollTo({
+      top: contentY - (anchor.clientY - bounds.top) / newZoom,
+    });
+  }
+
+  /**
+   * 放大到下一级缩放比例
+   */
+  zoomIn(origin?: Point) {
+    const next = ZOOM_STEPS.find((step) => step > this.zoom + 0.001);
+    this.setZoom(next || MAX_ZOOM, origin);
+  }
+
+  /**
+   * 缩小到上一级缩放比例
+   */
+  zoomOut(origin?: Point) {
+    const prev = ZOOM_STEPS.slice().reverse().find((step) => step < this.zoom - 0.001);
+    this.setZoom(prev || MIN_ZOOM, origin);
+  }
+
+  /**
+   * 缩放到能完整显示整个页面，最大不超过 100%
+   */
+  fitToScreen() {
+    const pageHeight = this.scrollTarget?.scrollHeight || 0;
+    const zoom = pageHeight > 0 ? Math.min(1, this.height / pageHeight) : 1;
+    this.setZoom(zoom);
+    this.scrollTarget?.scrollTo({ top: 0 });
+  }
+
+  /**
+   * 平移画布，dx 为水平平移距离，dy 通过滚动内容实现，单位均为屏幕像素
+   */
+  panBy(dx: number, dy = 0) {
+    if (dx) {
+      this.setPanX(this._panX + dx);
+    }
+    if (dy) {
+      this.scrollTarget?.scrollTo({ top: this.scrollY - dy / this.zoom });
+    }
+  }
+
+  /**
+   * 内容宽度小于视口时居中，否则不允许内容边缘离开视口
+   */
+  private setPanX(panX: number) {
+    const { width, zoom } = this;
+    const visibleWidth = (typeof this._contentWidth === 'number' ? this._contentWidth : width / zoom) * zoom;
+    if (visibleWidth <= width) {
+      this._panX = (width - visibleWidth) / 2;
+    } else {
+      this._panX = Math.min(0, Math.max(width - visibleWidth, panX));
+    }
   }
 
   @obx.ref private _contentWidth: number | AutoFit = AutoFit;
@@ -167,7 +287,7 @@ export default class Viewport implements IViewport {
 
     const rect = this.bounds;
     return {
-      clientX: point.clientX * this.scale + rect.left,
+      clientX: point.clientX * this.scale + rect.left + this.panX,
       clientY: point.clientY * this.scale + rect.top,
     };
   }
@@ -179,7 +299,7 @@ export default class Viewport implements IViewport {
 
     const rect = this.bounds;
     return {
-      clientX: (point.clientX - rect.left) / this.scale,
+      clientX: (point.clientX - rect.left - this.panX) / this.scale,
       clientY: (point.clientY - rect.top) / this.scale,
     };
   }
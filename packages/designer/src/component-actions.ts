@@ -7,6 +7,7 @@ import {
   IconRemove,
   IconClone,
   IconHidden,
+  IconComponent,
 } from './icons';
 import { Node } from './document';
 import { componentDefaults, legacyIssues } from './transducers';
@@ -73,6 +74,28 @@ export class ComponentActions {
       },
       important: true,
     },
+    {
+      name: 'extract',
+      content: {
+        icon: IconComponent,
+        title: intlNode('extract'),
+        /* istanbul ignore next */
+        action(node: Node) {
+          const { selection, project } = node.document;
+          // 当前节点在多选中时提取所有选中的节点
+          const nodes = selection.has(node.id) ? selection.getTopNodes() : [node];
+          const result = project.extractComponent(nodes);
+          if (result.success) {
+            node.document.getNode(result.nodeId!)?.select();
+          }
+        },
+      },
+      /* istanbul ignore next */
+      condition: (node: Node) => {
+        return !!node.parent && !node.isSlot();
+      },
+      important: true,
+    },
     {
       name: 'lock',
       content: {
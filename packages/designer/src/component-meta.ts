@@ -311,7 +311,7 @@ export class ComponentMeta implements IComponentMeta {
     let { disableBehaviors, actions } = this._transformedMetadata?.configure.component || {};
     const disabled =
       ensureAList(disableBehaviors) ||
-      (this.isRootComponent(false) ? ['copy', 'remove', 'lock', 'unlock'] : null);
+      (this.isRootComponent(false) ? ['copy', 'remove', 'extract', 'lock', 'unlock'] : null);
     actions = this.designer.componentActions.actions.concat(
       this.designer.getGlobalComponentActions() || [],
       actions || [],
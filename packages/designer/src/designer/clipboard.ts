@@ -1,4 +1,20 @@
-import { IPublicModelClipboard } from '@alilc/lowcode-types';
+import {
+  IPublicModelClipboard,
+  IPublicEnumTransformStage,
+  IPublicTypeClipboardData,
+  IPublicTypeClipboardMergeResult,
+  IPublicTypeClipboardMergedReference,
+  IPublicTypeClipboardReferences,
+  IPublicTypeComponentsMap,
+  IPublicTypeNodeSchema,
+} from '@alilc/lowcode-types';
+import { runInAction } from '@alilc/lowcode-editor-core';
+import type { IDocumentModel } from '../document';
+import type { INode } from '../document/node/node';
+import { recordDocumentChange } from '../document/patch-history';
+import { collectSchema } from '../project/schema-linter';
+import { collectMemberReferences, renameMemberReferences } from '../project/reference-index';
+import { collectExpressions, mapExpressions } from '../utils';
 
 function getDataFromPasteEvent(event: ClipboardEvent) {
   const { clipboardData } = event;
@@ -20,16 +36,63 @@ function getDataFromPasteEvent(event: ClipboardEvent) {
       };
     }
   } catch (error) {
-    // TODO: open the parser implement
-    return { };
+    // 不是节点数据时返回 HTML，由粘贴方决定是否转换为节点
+    const html = clipboardData.getData('text/html');
+    return html ? { html } : { };
   }
 }
 
-export interface IClipboard extends IPublicModelClipboard {
+function pick(obj: any, keys: string[]): any {
+  const result: any = {};
+  keys.forEach((key) => {
+    result[key] = obj[key];
+  });
+  return result;
+}
+
+/**
+ * 收集节点引用的 state、方法及数据源
+ */
+function getReferences(doc: IDocumentModel, componentsTree: IPublicTypeNodeSchema[]): IPublicTypeClipboardReferences {
+  const schema: any = doc.export(IPublicEnumTransformStage.Serilize) || {};
+  const { state, methods, dataSource } = collectMemberReferences(collectExpressions(componentsTree), schema);
+  const references: IPublicTypeClipboardReferences = { documentId: doc.id };
+  if (state.length > 0) {
+    references.state = pick(schema.state, state);
+  }
+  if (methods.length > 0) {
+    references.methods = pick(schema.methods, methods);
+  }
+  if (dataSource.length > 0) {
+    references.dataSource = schema.dataSource.list.filter((item: any) => dataSource.indexOf(item?.id) > -1);
+  }
+  return references;
+}
+
+function isSame(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 生成不与已有名称冲突的名称
+ */
+function getUniqueName(name: string, exists: (newName: string) => boolean): string {
+  let index = 1;
+  while (exists(`${name}${index}`)) {
+    index++;
+  }
+  return `${name}${index}`;
+}
+
+export interface IClipboard extends Omit<IPublicModelClipboard, 'createData' | 'mergeReferences'> {
 
   initCopyPaster(el: HTMLTextAreaElement): void;
 
   injectCopyPaster(document: Document): void;
+
+  createData(nodes: INode[]): IPublicTypeClipboardData;
+
+  mergeReferences(doc: IDocumentModel, data: IPublicTypeClipboardData): IPublicTypeClipboardMergeResult;
 }
 class Clipboard implements IClipboard {
   private copyPasters: HTMLTextAreaElement[] = [];
@@ -100,6 +163,116 @@ class Clipboard implements IClipboard {
       this.waitFn = cb;
     }
   }
+
+  createData(nodes: INode[]): IPublicTypeClipboardData {
+    const componentsTree = nodes.map((node) => node.export(IPublicEnumTransformStage.Clone));
+    const doc = nodes[0]?.document;
+    if (!doc) {
+      return { type: 'nodeSchema', componentsMap: [], componentsTree };
+    }
+    const componentNames: string[] = [];
+    componentsTree.forEach((schema) => {
+      collectSchema(schema as any).nodes.forEach((item) => componentNames.push(item.schema.componentName));
+    });
+    const componentsMap = doc.getComponentsMap() as IPublicTypeComponentsMap;
+    return {
+      type: 'nodeSchema',
+      componentsMap: componentsMap.filter((item) => componentNames.indexOf(item.componentName!) > -1),
+      componentsTree,
+      references: getReferences(doc, componentsTree),
+    };
+  }
+
+  /**
+   * 合并引用的 state、方法及数据源，与目标文档中已有的同名成员不同时重命名
+   */
+  mergeReferences(doc: IDocumentModel, data: IPublicTypeClipboardData): IPublicTypeClipboardMergeResult {
+    const { componentsTree = [], references } = data;
+    const { rootNode } = doc;
+    if (!references || references.documentId === doc.id || !rootNode) {
+      return { componentsTree, merged: [] };
+    }
+    const target: any = doc.export(IPublicEnumTransformStage.Serilize) || {};
+    const state = { ...target.state };
+    const methods = { ...target.methods };
+    const dataSourceList: any[] = (target.dataSource?.list || []).slice();
+    // 数据源的请求结果也挂载在 state 上，与 state 共用名称
+    const isStateName = (name: string) => name in state || dataSourceList.some((item) => item?.id === name);
+    const merged: IPublicTypeClipboardMergedReference[] = [];
+    const renames: Record<'state' | 'method' | 'dataSource', Record<string, string>> = { state: {}, method: {}, dataSource: {} };
+    const resolve = (type: IPublicTypeClipboardMergedReference['type'], name: string, existing: any, value: any) => {
+      if (existing === undefined) {
+        merged.push({ type, name });
+        return name;
+      }
+      if (isSame(existing, value)) {
+        return null;
+      }
+      const newName = getUniqueName(name, type === 'method' ? (item) => item in methods : isStateName);
+      renames[type][name] = newName;
+      merged.push({ type, name, newName });
+      return newName;
+    };
+    const added: Array<{ type: IPublicTypeClipboardMergedReference['type']; name: string; value: any }> = [];
+    Object.keys(references.state || {}).forEach((name) => {
+      const value = references.state![name];
+      const newName = resolve('state', name, isStateName(name) ? state[name] ?? null : undefined, value);
+      if (newName) {
+        state[newName] = value;
+        added.push({ type: 'state', name: newName, value });
+      }
+    });
+    Object.keys(references.methods || {}).forEach((name) => {
+      const value = references.methods![name];
+      const newName = resolve('method', name, methods[name], value);
+      if (newName) {
+        methods[newName] = value;
+        added.push({ type: 'method', name: newName, value });
+      }
+    });
+    (references.dataSource || []).forEach((item: any) => {
+      const existing = dataSourceList.find((dataSource) => dataSource?.id === item.id);
+      const newName = resolve('dataSource', item.id, isStateName(item.id) ? existing ?? null : undefined, item);
+      if (newName) {
+        const value = { ...item, id: newName };
+        dataSourceList.push(value);
+        added.push({ type: 'dataSource', name: newName, value });
+      }
+    });
+    if (merged.length < 1) {
+      return { componentsTree, merged };
+    }
+
+    // 按复制时的文档成员识别引用，再按重命名改写
+    const source = {
+      state: references.state,
+      methods: references.methods,
+      dataSource: { list: references.dataSource },
+    };
+    const rewrite = (value: any) => mapExpressions(value, (code) => renameMemberReferences(code, source, renames));
+    added.forEach((item) => {
+      const value = rewrite(item.value);
+      if (item.type === 'state') {
+        state[item.name] = value;
+      } else if (item.type === 'method') {
+        methods[item.name] = value;
+      } else {
+        dataSourceList[dataSourceList.findIndex((dataSource) => dataSource?.id === item.name)] = value;
+      }
+    });
+    recordDocumentChange(doc, () => runInAction(() => {
+      if (added.some((item) => item.type === 'state')) {
+        rootNode.getExtraProp('state', true)?.setValue(state);
+      }
+      if (added.some((item) => item.type === 'method')) {
+        rootNode.getExtraProp('methods', true)?.setValue(methods);
+      }
+      if (added.some((item) => item.type === 'dataSource')) {
+        rootNode.getExtraProp('dataSource', true)?.setValue({ ...target.dataSource, list: dataSourceList });
+      }
+    }));
+    return { componentsTree: rewrite(componentsTree), merged };
+  }
 }
 
 export const clipboard = new Clipboard();
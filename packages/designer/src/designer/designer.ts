@@ -27,6 +27,7 @@ import { Scroller } from './scroller';
 import { Dragon, IDragon } from './dragon';
 import { ActiveTracker, IActiveTracker } from './active-tracker';
 import { Detecting } from './detecting';
+import { Snapping } from './snapping';
 import { DropLocation } from './location';
 import { OffsetObserver, createOffsetObserver } from './offset-observer';
 import { ISettingTopEntry, SettingTopEntry } from './setting';
@@ -76,6 +77,8 @@ export interface IDesigner {
 
   get detecting(): Detecting;
 
+  get snapping(): Snapping;
+
   get simulatorComponent(): ComponentType<any> | undefined;
 
   createScroller(scrollable: IPublicTypeScrollable): IPublicModelScroller;
@@ -102,6 +105,8 @@ export interface IDesigner {
 
   createComponentMeta(data: IPublicTypeComponentMetadata): IComponentMeta | null;
 
+  removeComponentMeta(componentName: string): void;
+
   getComponentMetasMap(): Map<string, IComponentMeta>;
 
   addPropsReducer(reducer: IPublicTypePropsTransducer, stage: IPublicEnumTransformStage): void;
@@ -126,6 +131,8 @@ export class Designer implements IDesigner {
 
   readonly detecting = new Detecting();
 
+  readonly snapping: Snapping = new Snapping(this);
+
   readonly project: IProject;
 
   readonly editor: IPublicModelEditor;
@@ -553,6 +560,18 @@ export class Designer implements IDesigner {
     return meta;
   }
 
+  /**
+   * 移除组件物料，移除后 componentsMap 中不再包含该组件
+   */
+  removeComponentMeta(componentName: string) {
+    if (!this._componentMetasMap.has(componentName)) {
+      return;
+    }
+    const map = new Map(this._componentMetasMap);
+    map.delete(componentName);
+    this._componentMetasMap = map;
+  }
+
   getGlobalComponentActions(): IPublicTypeComponentAction[] | null {
     return this.props?.globalComponentActions || null;
   }
@@ -9,3 +9,5 @@ export * from './setting';
 export * from './active-tracker';
 export * from '../document';
 export * from './clipboard';
+export * from './node-layout';
+export * from './snapping';
@@ -0,0 +1,279 @@
+import { runInAction } from '@alilc/lowcode-editor-core';
+import { IPublicTypeNodeAlignment, IPublicTypeNodeDistribution } from '@alilc/lowcode-types';
+import { isJSExpression, isPlainObject } from '@alilc/lowcode-utils';
+import type { INode } from '../document';
+
+interface IBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface ILayoutItem {
+  node: INode;
+  box: IBox;
+}
+
+const FREE_POSITIONS = ['absolute', 'fixed'];
+
+function getStyle(node: INode): Record<string, any> {
+  const style = node.getPropValue('style');
+  return isPlainObject(style) && !isJSExpression(style) ? style : {};
+}
+
+function parsePx(value: any): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && /^-?\d+(\.\d+)?(px)?$/.test(value.trim())) {
+    return parseFloat(value);
+  }
+  return null;
+}
+
+function getBox(node: INode | null): IBox | null {
+  const rect = node?.getRect();
+  if (!rect) {
+    return null;
+  }
+  const { left, top, width, height } = rect;
+  return { left, top, width, height };
+}
+
+function unionBox(boxes: IBox[]): IBox {
+  const left = Math.min(...boxes.map((box) => box.left));
+  const top = Math.min(...boxes.map((box) => box.top));
+  const right = Math.max(...boxes.map((box) => box.left + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+/**
+ * 节点相对于定位父节点的偏移，优先取 style 上的 left / top，否则由画布中的位置推算
+ */
+function getOffset(node: INode, box: IBox): { left: number; top: number } {
+  const style = getStyle(node);
+  const parentBox = getBox(node.parent);
+  return {
+    left: parsePx(style.left) ?? box.left - (parentBox?.left || 0),
+    top: parsePx(style.top) ?? box.top - (parentBox?.top || 0),
+  };
+}
+
+function setOffset(node: INode, left: number, top: number) {
+  node.setPropValue('style', {
+    ...getStyle(node),
+    left: `${Math.round(left)}px`,
+    top: `${Math.round(top)}px`,
+  });
+}
+
+function moveBy(item: ILayoutItem, dx: number, dy: number) {
+  if (!dx && !dy) {
+    return;
+  }
+  const { left, top } = getOffset(item.node, item.box);
+  setOffset(item.node, left + dx, top + dy);
+}
+
+/**
+ * 收集节点及其在画布中的位置，节点需都为自由布局且能计算出位置
+ */
+function getLayoutItems(nodes: INode[]): ILayoutItem[] | null {
+  const items: ILayoutItem[] = [];
+  for (const node of nodes) {
+    const box = isFreeLayoutNode(node) ? getBox(node) : null;
+    if (!box) {
+      return null;
+    }
+    items.push({ node, box });
+  }
+  return items;
+}
+
+/**
+ * 在一个事务中执行修改，并标记为一条历史记录
+ */
+function applyLayout(nodes: INode[], label: string, layout: () => void) {
+  runInAction(layout);
+  nodes[0].document?.history.markChange(label, nodes.map((node) => node.id));
+}
+
+/**
+ * 是否为绝对定位（自由布局）的节点
+ */
+export function isFreeLayoutNode(node: INode): boolean {
+  return FREE_POSITIONS.includes(getStyle(node).position);
+}
+
+/**
+ * 开始平移自由布局的节点，move 传入相对于开始位置的偏移，结束时调用 end 记录一条历史记录
+ * @returns 节点不是自由布局或无法计算位置时返回 null
+ */
+export function startMoveNodes(nodes: INode[]): {
+  move: (dx: number, dy: number) => void;
+  end: () => void;
+} | null {
+  const items = nodes.length > 0 ? getLayoutItems(nodes) : null;
+  if (!items) {
+    return null;
+  }
+  const offsets = items.map((item) => ({ node: item.node, ...getOffset(item.node, item.box) }));
+  const history = nodes[0].document?.history;
+  // 开始和结束时都结束历史会话，一次拖动单独成为一条记录
+  history?.endSession();
+  let moved = false;
+  return {
+    move: (dx: number, dy: number) => {
+      runInAction(() => {
+        offsets.forEach(({ node, left, top }) => setOffset(node, left + dx, top + dy));
+      });
+      moved = true;
+    },
+    end: () => {
+      if (moved) {
+        history?.markChange('Move nodes', nodes.map((node) => node.id));
+      }
+      history?.endSession();
+    },
+  };
+}
+
+/**
+ * 对齐自由布局的节点，多个节点时相对于它们的外接矩形对齐，只有一个节点时相对于父节点对齐
+ */
+export function alignNodes(nodes: INode[], alignment: IPublicTypeNodeAlignment): boolean {
+  const items = nodes.length > 0 ? getLayoutItems(nodes) : null;
+  if (!items) {
+    return false;
+  }
+  const bounds = items.length === 1 ? getBox(items[0].node.parent) : unionBox(items.map((item) => item.box));
+  if (!bounds) {
+    return false;
+  }
+  applyLayout(nodes, `Align ${alignment}`, () => {
+    items.forEach((item) => {
+      const { box } = item;
+      switch (alignment) {
+        case 'left':
+          moveBy(item, bounds.left - box.left, 0);
+          break;
+        case 'center':
+          moveBy(item, bounds.left + (bounds.width - box.width) / 2 - box.left, 0);
+          break;
+        case 'right':
+          moveBy(item, bounds.left + bounds.width - box.width - box.left, 0);
+          break;
+        case 'top':
+          moveBy(item, 0, bounds.top - box.top);
+          break;
+        case 'middle':
+          moveBy(item, 0, bounds.top + (bounds.height - box.height) / 2 - box.top);
+          break;
+        case 'bottom':
+          moveBy(item, 0, bounds.top + bounds.height - box.height - box.top);
+          break;
+        default:
+      }
+    });
+  });
+  return true;
+}
+
+/**
+ * 均匀分布自由布局的节点，首尾节点位置不变，至少需要三个节点
+ */
+export function distributeNodes(nodes: INode[], direction: IPublicTypeNodeDistribution): boolean {
+  const items = nodes.length > 2 ? getLayoutItems(nodes) : null;
+  if (!items) {
+    return false;
+  }
+  const horizontal = direction === 'horizontal';
+  const start = (box: IBox) => (horizontal ? box.left : box.top);
+  const size = (box: IBox) => (horizontal ? box.width : box.height);
+  items.sort((a, b) => start(a.box) - start(b.box));
+  const first = items[0].box;
+  const last = items[items.length - 1].box;
+  const total = items.reduce((sum, item) => sum + size(item.box), 0);
+  const gap = (start(last) + size(last) - start(first) - total) / (items.length - 1);
+  applyLayout(nodes, `Distribute ${direction}`, () => {
+    let position = start(first);
+    items.forEach((item) => {
+      const delta = position - start(item.box);
+      moveBy(item, horizontal ? delta : 0, horizontal ? 0 : delta);
+      position += size(item.box) + gap;
+    });
+  });
+  return true;
+}
+
+/**
+ * 将同一父节点下的节点编组到一个新的容器中，自由布局的节点会保持在画布中的位置
+ */
+export function groupNodes(nodes: INode[], componentName = 'Div'): INode | null {
+  const parent = nodes[0]?.parent;
+  const document = parent?.document;
+  if (!parent || !document || nodes.some((node) => node.parent !== parent || node.isSlot())) {
+    return null;
+  }
+  const sorted = Array.from(new Set(nodes)).sort((a, b) => a.index! - b.index!);
+  const items = getLayoutItems(sorted);
+  const offsets = items?.map((item) => ({ ...getOffset(item.node, item.box), item }));
+  const bounds = offsets && unionBox(offsets.map(({ left, top, item }) => ({ ...item.box, left, top })));
+  let group: INode | null = null;
+  applyLayout(sorted, 'Group nodes', () => {
+    group = document.insertNode(parent, {
+      componentName,
+      props: bounds ? {
+        style: {
+          position: 'absolute',
+          left: `${Math.round(bounds.left)}px`,
+          top: `${Math.round(bounds.top)}px`,
+          width: `${Math.round(bounds.width)}px`,
+          height: `${Math.round(bounds.height)}px`,
+        },
+      } : {},
+    }, sorted[0].index);
+    if (!group) {
+      return;
+    }
+    sorted.forEach((node) => {
+      document.insertNode(group!, node);
+    });
+    offsets?.forEach(({ left, top, item }) => {
+      setOffset(item.node, left - Math.round(bounds!.left), top - Math.round(bounds!.top));
+    });
+  });
+  (group as INode | null)?.select();
+  return group;
+}
+
+/**
+ * 解散编组，将子节点移动到编组所在位置，自由布局的子节点会保持在画布中的位置
+ */
+export function ungroupNode(node: INode): INode[] {
+  const { parent, document } = node;
+  const children = node.children?.map((child) => child) || [];
+  if (!parent || !document || node.isSlot() || children.length < 1) {
+    return [];
+  }
+  const style = getStyle(node);
+  const offset = isFreeLayoutNode(node) ? {
+    left: parsePx(style.left) || 0,
+    top: parsePx(style.top) || 0,
+  } : null;
+  applyLayout([node, ...children], 'Ungroup node', () => {
+    const index = node.index!;
+    children.forEach((child, i) => {
+      document.insertNode(parent, child, index + i);
+      if (offset && isFreeLayoutNode(child)) {
+        const childStyle = getStyle(child);
+        setOffset(child, (parsePx(childStyle.left) || 0) + offset.left, (parsePx(childStyle.top) || 0) + offset.top);
+      }
+    });
+    document.removeNode(node);
+  });
+  document.selection.selectAll(children.map((child) => child.id));
+  return children;
+}
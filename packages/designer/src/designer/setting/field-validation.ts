@@ -0,0 +1,110 @@
+import {
+  IPublicTypeFieldExtraProps,
+  IPublicTypeFieldConfig,
+  IPublicTypeCustomView,
+  IPublicTypeFieldValidationRule,
+  IPublicModelSettingField,
+} from '@alilc/lowcode-types';
+import { isCustomView, isJSExpression, isJSFunction, isJSSlot } from '@alilc/lowcode-utils';
+import { intl } from '../../locale';
+
+function isEmptyValue(value: any): boolean {
+  return value == null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * 变量、函数及插槽在设计态无法得到真实值，不做静态规则校验
+ */
+function isDynamicValue(value: any): boolean {
+  return isJSExpression(value) || isJSFunction(value) || isJSSlot(value);
+}
+
+function checkRange(value: any, rule: IPublicTypeFieldValidationRule): string | null {
+  const { min, max } = rule;
+  let size: number;
+  let isLength = true;
+  if (typeof value === 'number') {
+    size = value;
+    isLength = false;
+  } else if (typeof value === 'string' || Array.isArray(value)) {
+    size = value.length;
+  } else {
+    return null;
+  }
+  if (min != null && size < min) {
+    return intl(isLength ? 'Length must be at least {min}' : 'Value must be at least {min}', { min });
+  }
+  if (max != null && size > max) {
+    return intl(isLength ? 'Length must be at most {max}' : 'Value must be at most {max}', { max });
+  }
+  return null;
+}
+
+async function checkRule(
+  value: any,
+  rule: IPublicTypeFieldValidationRule,
+  field: IPublicModelSettingField,
+): Promise<string | null> {
+  const { required, pattern, message, validator } = rule;
+  if (isEmptyValue(value)) {
+    return required ? message || intl('This field is required') : null;
+  }
+  // 非法的 pattern 及 validator 抛出的异常都作为校验失败处理
+  try {
+    if (!isDynamicValue(value)) {
+      const rangeError = checkRange(value, rule);
+      if (rangeError) {
+        return message || rangeError;
+      }
+      if (pattern && !new RegExp(pattern).test(String(value))) {
+        return message || intl('Invalid format');
+      }
+      if (rule.enum && !rule.enum.includes(value)) {
+        return message || intl('Value is not allowed');
+      }
+    }
+    if (!validator) {
+      return null;
+    }
+    const result = await validator(value, field);
+    if (typeof result === 'string' && result) {
+      return result;
+    }
+    return result === false ? message || intl('Invalid value') : null;
+  } catch (e) {
+    return message || (e as Error)?.message || intl('Invalid value');
+  }
+}
+
+/**
+ * 获取配置项的校验规则，validate 等同于只包含 validator 的规则
+ */
+export function getFieldValidationRules(extraProps: IPublicTypeFieldExtraProps): IPublicTypeFieldValidationRule[] {
+  const { rules = [], validate } = extraProps;
+  return validate ? [...rules, { validator: validate }] : rules;
+}
+
+/**
+ * 配置项及其子项中是否声明了校验规则
+ */
+export function hasFieldValidationRules(configs: Array<IPublicTypeFieldConfig | IPublicTypeCustomView>): boolean {
+  return configs.some((config) => {
+    if (isCustomView(config)) {
+      return false;
+    }
+    const extraProps = { ...config, ...config.extraProps };
+    return getFieldValidationRules(extraProps).length > 0 || hasFieldValidationRules(config.items || []);
+  });
+}
+
+/**
+ * 按规则依次校验值，返回所有错误信息
+ */
+export async function validateFieldValue(
+  value: any,
+  rules: IPublicTypeFieldValidationRule[],
+  field: IPublicModelSettingField,
+): Promise<string[]> {
+  const errors = await Promise.all(rules.map((rule) => checkRule(value, rule, field)));
+  return errors.filter((error): error is string => !!error);
+}
@@ -14,12 +14,15 @@ import type {
   IPublicTypeSetValueOptions,
 } from '@alilc/lowcode-types';
 import { Transducer } from './utils';
+import { getFieldValidationRules, validateFieldValue } from './field-validation';
 import { ISettingPropEntry, SettingPropEntry } from './setting-prop-entry';
-import { computed, obx, makeObservable, action, untracked, intl } from '@alilc/lowcode-editor-core';
-import { cloneDeep, isCustomView, isDynamicSetter, isJSExpression } from '@alilc/lowcode-utils';
+import { computed, obx, makeObservable, action, untracked, intl, runInAction } from '@alilc/lowcode-editor-core';
+import { cloneDeep, isCustomView, isDynamicSetter, isJSExpression, Logger } from '@alilc/lowcode-utils';
 import { ISettingTopEntry } from './setting-top-entry';
 import { IComponentMeta, INode } from '@alilc/lowcode-designer';
 
+const logger = new Logger({ level: 'warn', bizName: 'designer:setting-field' });
+
 function getSettingFieldCollectorKey(parent: ISettingTopEntry | ISettingField, config: IPublicTypeFieldConfig) {
   let cur = parent;
   const path = [config.name];
@@ -76,6 +79,10 @@ export interface ISettingField extends ISettingPropEntry, Omit<IBaseModelSetting
   onEffect(action: () => void): IPublicTypeDisposable;
 
   internalToShellField(): IPublicModelSettingField;
+
+  get validationErrors(): string[];
+
+  validate(): Promise<string[]>;
 }
 
 export class SettingField extends SettingPropEntry implements ISettingField {
@@ -108,6 +115,10 @@ export class SettingField extends SettingPropEntry implements ISettingField {
 
   private _items: Array<ISettingField | IPublicTypeCustomView> = [];
 
+  @obx.ref private _validationErrors: string[] = [];
+
+  private validateCount = 0;
+
   constructor(
     parent: ISettingTopEntry | ISettingField,
     config: IPublicTypeFieldConfig,
@@ -232,6 +243,43 @@ export class SettingField extends SettingPropEntry implements ISettingField {
       return;
     }
     super.setValue(val, false, false, extraOptions);
+    this.validateSilently();
+  }
+
+  clearValue() {
+    super.clearValue();
+    this.validateSilently();
+  }
+
+  get validationErrors(): string[] {
+    return this._validationErrors;
+  }
+
+  /**
+   * 按 extraProps 中的 rules / validate 校验当前值，异步校验以最后一次为准
+   */
+  async validate(): Promise<string[]> {
+    const rules = getFieldValidationRules(this.extraProps);
+    if (!rules.length) {
+      return [];
+    }
+    const count = ++this.validateCount;
+    const errors = await validateFieldValue(this.getValue(), rules, this.internalToShellField());
+    if (count === this.validateCount) {
+      runInAction(() => {
+        this._validationErrors = errors;
+      });
+    }
+    return errors;
+  }
+
+  /**
+   * 值变更后触发校验，校验异常时只输出日志
+   */
+  private validateSilently() {
+    this.validate().catch((e) => {
+      logger.error(`failed to validate field ${String(this.name)}`, e);
+    });
   }
 
   getHotValue(): any {
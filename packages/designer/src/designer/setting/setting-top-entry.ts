@@ -1,13 +1,21 @@
-import { IPublicTypeCustomView, IPublicModelEditor, IPublicModelSettingTopEntry } from '@alilc/lowcode-types';
-import { isCustomView } from '@alilc/lowcode-utils';
-import { computed, IEventBus, createModuleEventBus } from '@alilc/lowcode-editor-core';
+import { isValidElement } from 'react';
+import { IPublicTypeCustomView, IPublicModelEditor, IPublicModelSettingTopEntry, IPublicTypeFieldConfig, IPublicTypeBreakpoint } from '@alilc/lowcode-types';
+import { isCustomView, isSetterConfig, mergeResponsiveValue } from '@alilc/lowcode-utils';
+import { computed, IEventBus, createModuleEventBus, runInAction } from '@alilc/lowcode-editor-core';
 import { ISettingEntry } from './setting-entry-type';
 import { ISettingField, SettingField } from './setting-field';
-import { INode } from '../../document';
+import { INode, IProp } from '../../document';
 import type { IComponentMeta } from '../../component-meta';
 import { IDesigner } from '../designer';
 import { Setters } from '@alilc/lowcode-shell';
 
+/**
+ * 节点在断点下的覆盖属性，存储在节点的 responsive 中
+ */
+function getResponsiveProp(node: INode, breakpoint: string, propName: string | number, createIfNone: boolean): IProp | null {
+  return node.getExtraProp('responsive', createIfNone)?.get(`${breakpoint}.${propName}`, createIfNone) || null;
+}
+
 function generateSessionId(nodes: INode[]) {
   return nodes
     .map((node) => node.id)
@@ -15,6 +23,52 @@ function generateSessionId(nodes: INode[]) {
     .join(',');
 }
 
+function getFieldKey(config: IPublicTypeFieldConfig) {
+  return `${config.type || 'field'}:${config.name ?? JSON.stringify(config.title)}`;
+}
+
+function getSetterKey(setter: IPublicTypeFieldConfig['setter']): any {
+  if (Array.isArray(setter)) {
+    return setter.map(getSetterKey).join('|');
+  }
+  if (isValidElement(setter)) {
+    return setter.type;
+  }
+  return isSetterConfig(setter) ? setter.componentName : setter;
+}
+
+/**
+ * 取多个组件配置项的交集，名称与设置器都相同的配置项视为兼容，分组取其子配置项的交集
+ */
+function intersectConfigure(configures: Array<Array<IPublicTypeFieldConfig | IPublicTypeCustomView>>): IPublicTypeFieldConfig[] {
+  const [first, ...others] = configures;
+  const result: IPublicTypeFieldConfig[] = [];
+  first.forEach((item) => {
+    if (isCustomView(item)) {
+      return;
+    }
+    const key = getFieldKey(item as IPublicTypeFieldConfig);
+    const matched = others.map((configure) => configure.find((other) =>
+      !isCustomView(other) && getFieldKey(other as IPublicTypeFieldConfig) === key) as IPublicTypeFieldConfig | undefined);
+    if (matched.some((other) => !other)) {
+      return;
+    }
+    const config = item as IPublicTypeFieldConfig;
+    if (config.type === 'group') {
+      const items = intersectConfigure([config.items || [], ...matched.map((other) => other!.items || [])]);
+      if (items.length > 0) {
+        result.push({ ...config, items });
+      }
+      return;
+    }
+    const setterKey = getSetterKey(config.setter);
+    if (matched.every((other) => getSetterKey(other!.setter) === setterKey)) {
+      result.push(config);
+    }
+  });
+  return result;
+}
+
 export interface ISettingTopEntry extends ISettingEntry, IPublicModelSettingTopEntry<
   INode,
   ISettingField
@@ -34,6 +88,8 @@ export interface ISettingTopEntry extends ISettingEntry, IPublicModelSettingTopE
   getExtraPropValue(propName: string): void;
 
   setExtraPropValue(propName: string, value: any): void;
+
+  get breakpoint(): IPublicTypeBreakpoint | null;
 }
 
 export class SettingTopEntry implements ISettingTopEntry {
@@ -136,25 +192,46 @@ export class SettingTopEntry implements ISettingTopEntry {
     }
   }
 
+  private get componentMetas(): IComponentMeta[] {
+    return Array.from(new Set(this.nodes.map((node) => node.componentMeta)));
+  }
+
   private setupItems() {
-    if (this.componentMeta) {
-      const settingFieldMap: { [prop: string]: ISettingField } = {};
-      const settingFieldCollector = (name: string | number, field: ISettingField) => {
-        settingFieldMap[name] = field;
-      };
-      this._items = this.componentMeta.configure.map((item) => {
-        if (isCustomView(item)) {
-          return item;
-        }
-        return new SettingField(this, item as any, settingFieldCollector);
-      });
-      this._settingFieldMap = settingFieldMap;
-    }
+    // 不同类型的节点只展示相互兼容的配置项
+    const configure = this.componentMeta
+      ? this.componentMeta.configure
+      : intersectConfigure(this.componentMetas.map((meta) => meta.configure));
+    const settingFieldMap: { [prop: string]: ISettingField } = {};
+    const settingFieldCollector = (name: string | number, field: ISettingField) => {
+      settingFieldMap[name] = field;
+    };
+    this._items = configure.map((item) => {
+      if (isCustomView(item)) {
+        return item;
+      }
+      return new SettingField(this, item as any, settingFieldCollector);
+    });
+    this._settingFieldMap = settingFieldMap;
   }
 
   private setupEvents() {
-    return this.componentMeta?.onMetadataChange(() => {
+    const disposers = this.componentMetas.map((meta) => meta.onMetadataChange(() => {
       this.setupItems();
+    }));
+    return () => disposers.forEach((dispose) => dispose());
+  }
+
+  /**
+   * 在同一个事务中修改所有节点，多个节点时生成一条单独的历史记录
+   */
+  private batchUpdate(label: string, update: (node: INode) => void) {
+    const history = this.first.document?.history;
+    if (this.isMultiple && history) {
+      history.transact(label, () => this.nodes.forEach(update), this.nodes.map((node) => node.id));
+      return;
+    }
+    runInAction(() => {
+      this.nodes.forEach(update);
     });
   }
 
@@ -185,25 +262,48 @@ export class SettingTopEntry implements ISettingTopEntry {
    * 设置子级属性值
    */
   setPropValue(propName: string | number, value: any) {
-    this.nodes.forEach((node) => {
-      node.setPropValue(propName.toString(), value);
+    const breakpoint = this.breakpoint?.name;
+    this.batchUpdate(`Set ${propName}`, (node) => {
+      if (breakpoint) {
+        getResponsiveProp(node, breakpoint, propName, true)?.setValue(value);
+      } else {
+        node.setPropValue(propName.toString(), value);
+      }
     });
   }
 
   /**
-   * 清除已设置值
+   * 清除已设置值，编辑断点时清除该断点下的覆盖值
    */
   clearPropValue(propName: string | number) {
-    this.nodes.forEach((node) => {
-      node.clearPropValue(propName.toString());
+    const breakpoint = this.breakpoint?.name;
+    this.batchUpdate(`Clear ${propName}`, (node) => {
+      if (breakpoint) {
+        getResponsiveProp(node, breakpoint, propName, false)?.remove();
+      } else {
+        node.clearPropValue(propName.toString());
+      }
     });
   }
 
   /**
-   * 获取子级属性值
+   * 获取子级属性值，编辑断点时返回合并了覆盖值的结果
    */
   getPropValue(propName: string | number): any {
-    return this.first.getProp(propName.toString(), true)?.getValue();
+    const value = this.first.getProp(propName.toString(), true)?.getValue();
+    const breakpoint = this.breakpoint?.name;
+    const override = breakpoint ? getResponsiveProp(this.first, breakpoint, propName, false) : null;
+    if (!override || override.isUnset()) {
+      return value;
+    }
+    return mergeResponsiveValue(value, override.getValue());
+  }
+
+  /**
+   * 当前编辑的断点，属性的修改会写入节点在该断点下的覆盖值
+   */
+  get breakpoint(): IPublicTypeBreakpoint | null {
+    return this.designer?.project.currentBreakpoint || null;
   }
 
   /**
@@ -217,21 +317,21 @@ export class SettingTopEntry implements ISettingTopEntry {
    * 设置顶层附属属性值
    */
   setExtraPropValue(propName: string, value: any) {
-    this.nodes.forEach((node) => {
+    this.batchUpdate(`Set ${propName}`, (node) => {
       node.getExtraProp(propName, true)?.setValue(value);
     });
   }
 
   // 设置多个属性值，替换原有值
   setProps(data: object) {
-    this.nodes.forEach((node) => {
+    this.batchUpdate('Set props', (node) => {
       node.setProps(data as any);
     });
   }
 
   // 设置多个属性值，和原有值合并
   mergeProps(data: object) {
-    this.nodes.forEach((node) => {
+    this.batchUpdate('Merge props', (node) => {
       node.mergeProps(data as any);
     });
   }
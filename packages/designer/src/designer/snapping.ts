@@ -0,0 +1,344 @@
+import { obx, makeObservable, engineConfig } from '@alilc/lowcode-editor-core';
+import { IPublicTypeGuide } from '@alilc/lowcode-types';
+import type { IDesigner } from './designer';
+import type { IDocumentModel, INode } from '../document';
+
+export interface ISnapRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 吸附对齐线，vertical 为垂直线，position 为 x 坐标，start / end 为 y 方向的范围；horizontal 反之
+ */
+export interface ISnapLine {
+  direction: 'horizontal' | 'vertical';
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * 与相邻节点的间距标注，horizontal 标注水平方向的间距
+ */
+export interface ISnapDistance extends ISnapLine {
+  value: number;
+}
+
+export interface ISnapResult {
+  dx: number;
+  dy: number;
+  lines: ISnapLine[];
+  distances: ISnapDistance[];
+}
+
+/**
+ * 参与吸附的边，start 为左 / 上边，center 为中线，end 为右 / 下边
+ */
+export type SnapEdge = 'start' | 'center' | 'end';
+
+const ALL_EDGES: SnapEdge[] = ['start', 'center', 'end'];
+
+const PRECISION = 0.5;
+
+interface IAxis {
+  start: 'left' | 'top';
+  size: 'width' | 'height';
+  guide: IPublicTypeGuide['direction'];
+}
+
+const AXIS_X: IAxis = { start: 'left', size: 'width', guide: 'vertical' };
+
+const AXIS_Y: IAxis = { start: 'top', size: 'height', guide: 'horizontal' };
+
+function getEdgeValue(rect: ISnapRect, axis: IAxis, edge: SnapEdge): number {
+  const start = rect[axis.start];
+  if (edge === 'start') {
+    return start;
+  }
+  return edge === 'center' ? start + rect[axis.size] / 2 : start + rect[axis.size];
+}
+
+function getAxisTargets(targets: ISnapRect[], guides: IPublicTypeGuide[], axis: IAxis): number[] {
+  const values: number[] = [];
+  targets.forEach((target) => {
+    ALL_EDGES.forEach((edge) => values.push(getEdgeValue(target, axis, edge)));
+  });
+  guides.forEach((guide) => {
+    if (guide.direction === axis.guide) {
+      values.push(guide.position);
+    }
+  });
+  return values;
+}
+
+/**
+ * 计算一个方向上的吸附偏移，找不到距离在 threshold 内的目标时返回 0
+ */
+function snapAxis(rect: ISnapRect, values: number[], axis: IAxis, edges: SnapEdge[], threshold: number): number {
+  let offset = 0;
+  let min = threshold + 1;
+  edges.forEach((edge) => {
+    const source = getEdgeValue(rect, axis, edge);
+    values.forEach((value) => {
+      const distance = Math.abs(value - source);
+      if (distance <= threshold && distance < min) {
+        min = distance;
+        offset = value - source;
+      }
+    });
+  });
+  return offset;
+}
+
+function moveRect(rect: ISnapRect, dx: number, dy: number): ISnapRect {
+  return { ...rect, left: rect.left + dx, top: rect.top + dy };
+}
+
+/**
+ * 收集吸附后与目标重合的对齐线，线的范围覆盖节点及所有重合的目标
+ */
+function getLines(rect: ISnapRect, targets: ISnapRect[], guides: IPublicTypeGuide[], axis: IAxis, edges: SnapEdge[]) {
+  const cross = axis === AXIS_X ? AXIS_Y : AXIS_X;
+  const lines: ISnapLine[] = [];
+  edges.forEach((edge) => {
+    const position = getEdgeValue(rect, axis, edge);
+    if (lines.some((line) => Math.abs(line.position - position) < PRECISION)) {
+      return;
+    }
+    let start = getEdgeValue(rect, cross, 'start');
+    let end = getEdgeValue(rect, cross, 'end');
+    let matched = guides.some((guide) => guide.direction === axis.guide && Math.abs(guide.position - position) < PRECISION);
+    targets.forEach((target) => {
+      if (ALL_EDGES.some((targetEdge) => Math.abs(getEdgeValue(target, axis, targetEdge) - position) < PRECISION)) {
+        matched = true;
+        start = Math.min(start, getEdgeValue(target, cross, 'start'));
+        end = Math.max(end, getEdgeValue(target, cross, 'end'));
+      }
+    });
+    if (matched) {
+      lines.push({ direction: axis === AXIS_X ? 'vertical' : 'horizontal', position, start, end });
+    }
+  });
+  return lines;
+}
+
+/**
+ * 标注与两侧最近的、在另一方向上有重叠的目标之间的间距
+ */
+function getDistances(rect: ISnapRect, targets: ISnapRect[], axis: IAxis): ISnapDistance[] {
+  const cross = axis === AXIS_X ? AXIS_Y : AXIS_X;
+  const rectStart = getEdgeValue(rect, axis, 'start');
+  const rectEnd = getEdgeValue(rect, axis, 'end');
+  let before: ISnapDistance | null = null;
+  let after: ISnapDistance | null = null;
+  for (const target of targets) {
+    const overlapStart = Math.max(getEdgeValue(rect, cross, 'start'), getEdgeValue(target, cross, 'start'));
+    const overlapEnd = Math.min(getEdgeValue(rect, cross, 'end'), getEdgeValue(target, cross, 'end'));
+    if (overlapStart > overlapEnd) {
+      continue;
+    }
+    const direction = axis === AXIS_X ? 'horizontal' : 'vertical';
+    const position = (overlapStart + overlapEnd) / 2;
+    const targetStart = getEdgeValue(target, axis, 'start');
+    const targetEnd = getEdgeValue(target, axis, 'end');
+    if (targetEnd <= rectStart && (!before || rectStart - targetEnd < before.value)) {
+      before = { direction, position, start: targetEnd, end: rectStart, value: rectStart - targetEnd };
+    }
+    if (targetStart >= rectEnd && (!after || targetStart - rectEnd < after.value)) {
+      after = { direction, position, start: rectEnd, end: targetStart, value: targetStart - rectEnd };
+    }
+  }
+  return [before, after].filter((distance): distance is ISnapDistance => !!distance && distance.value > 0);
+}
+
+/**
+ * 将矩形吸附到目标矩形的边、中线及参考线上，edges 指定参与吸附的边，缩放时只有被拖动的边参与吸附
+ */
+export function snapRect(
+  rect: ISnapRect,
+  targets: ISnapRect[],
+  guides: IPublicTypeGuide[],
+  threshold: number,
+  edges: { x?: SnapEdge[]; y?: SnapEdge[] } = {},
+): ISnapResult {
+  const { x = ALL_EDGES, y = ALL_EDGES } = edges;
+  const dx = snapAxis(rect, getAxisTargets(targets, guides, AXIS_X), AXIS_X, x, threshold);
+  const dy = snapAxis(rect, getAxisTargets(targets, guides, AXIS_Y), AXIS_Y, y, threshold);
+  const snapped = moveRect(rect, dx, dy);
+  return {
+    dx,
+    dy,
+    lines: [
+      ...getLines(snapped, targets, guides, AXIS_X, x),
+      ...getLines(snapped, targets, guides, AXIS_Y, y),
+    ],
+    distances: [
+      ...getDistances(snapped, targets, AXIS_X),
+      ...getDistances(snapped, targets, AXIS_Y),
+    ],
+  };
+}
+
+/**
+ * 画布吸附及参考线，坐标均为页面坐标，即不受画布滚动及缩放影响
+ */
+export class Snapping {
+  @obx.ref private _lines: ISnapLine[] = [];
+
+  @obx.ref private _distances: ISnapDistance[] = [];
+
+  /**
+   * 当前显示的对齐线
+   */
+  get lines(): ISnapLine[] {
+    return this._lines;
+  }
+
+  /**
+   * 当前显示的间距标注
+   */
+  get distances(): ISnapDistance[] {
+    return this._distances;
+  }
+
+  get enabled(): boolean {
+    return !!engineConfig.get('enableCanvasSnapping');
+  }
+
+  constructor(readonly designer: IDesigner) {
+    makeObservable(this);
+  }
+
+  /**
+   * 获取文档的参考线，参考线保存在根节点的 guides 中
+   */
+  getGuides(document?: IDocumentModel | null): IPublicTypeGuide[] {
+    const rootNode = (document || this.designer.project.currentDocument)?.rootNode;
+    const guides = rootNode?.getExtraProp('guides', false)?.getValue();
+    return Array.isArray(guides) ? guides : [];
+  }
+
+  setGuides(guides: IPublicTypeGuide[], document?: IDocumentModel | null) {
+    const rootNode = (document || this.designer.project.currentDocument)?.rootNode;
+    if (!rootNode) {
+      return;
+    }
+    if (guides.length > 0) {
+      rootNode.getExtraProp('guides', true)?.setValue(guides as any);
+    } else {
+      rootNode.getExtraProp('guides', false)?.remove();
+    }
+  }
+
+  addGuide(guide: IPublicTypeGuide) {
+    this.setGuides([...this.getGuides(), { ...guide, position: Math.round(guide.position) }]);
+  }
+
+  updateGuide(index: number, position: number) {
+    const guides = this.getGuides().slice();
+    if (!guides[index]) {
+      return;
+    }
+    guides[index] = { ...guides[index], position: Math.round(position) };
+    this.setGuides(guides);
+  }
+
+  removeGuide(index: number) {
+    this.setGuides(this.getGuides().filter((_, i) => i !== index));
+  }
+
+  /**
+   * 平移节点时吸附，rect 为节点开始平移时的外接矩形，返回吸附后的偏移
+   */
+  snapMove(nodes: INode[], rect: ISnapRect, dx: number, dy: number): { dx: number; dy: number } {
+    return this.snap(nodes, moveRect(rect, dx, dy), dx, dy);
+  }
+
+  /**
+   * 缩放节点时吸附，direction 为拖动的方向（n / e / s / w 及其组合），返回吸附后的拖动距离
+   */
+  snapResize(node: INode, rect: ISnapRect, direction: string, dx: number, dy: number): { dx: number; dy: number } {
+    const x: SnapEdge[] = [];
+    const y: SnapEdge[] = [];
+    const resized = { ...rect };
+    if (direction.includes('w')) {
+      x.push('start');
+      resized.left += dx;
+      resized.width -= dx;
+    } else if (direction.includes('e')) {
+      x.push('end');
+      resized.width += dx;
+    }
+    if (direction.includes('n')) {
+      y.push('start');
+      resized.top += dy;
+      resized.height -= dy;
+    } else if (direction.includes('s')) {
+      y.push('end');
+      resized.height += dy;
+    }
+    return this.snap([node], resized, dx, dy, { x, y });
+  }
+
+  clear() {
+    this._lines = [];
+    this._distances = [];
+  }
+
+  private snap(nodes: INode[], rect: ISnapRect, dx: number, dy: number, edges?: { x?: SnapEdge[]; y?: SnapEdge[] }) {
+    if (!this.enabled) {
+      return { dx, dy };
+    }
+    const document = nodes[0]?.document;
+    const scale = document?.simulator?.viewport.scale || 1;
+    const threshold = (engineConfig.get('canvasSnapThreshold') ?? 5) / scale;
+    const result = snapRect(rect, this.getTargets(nodes), this.getGuides(document), threshold, edges);
+    this._lines = result.lines;
+    this._distances = result.distances;
+    return { dx: dx + result.dx, dy: dy + result.dy };
+  }
+
+  /**
+   * 吸附目标为父节点及兄弟节点
+   */
+  private getTargets(nodes: INode[]): ISnapRect[] {
+    const parent = nodes[0]?.parent;
+    if (!parent) {
+      return [];
+    }
+    const targets: ISnapRect[] = [];
+    const parentRect = getPageRect(parent);
+    if (parentRect) {
+      targets.push(parentRect);
+    }
+    parent.children?.forEach((child) => {
+      const rect = nodes.includes(child) ? null : getPageRect(child);
+      if (rect) {
+        targets.push(rect);
+      }
+    });
+    return targets;
+  }
+}
+
+/**
+ * 节点在页面中的位置，getRect 得到的是相对于画布可视区域的位置（根节点除外）
+ */
+export function getPageRect(node: INode): ISnapRect | null {
+  const rect = node.getRect();
+  if (!rect) {
+    return null;
+  }
+  const viewport = node.document?.simulator?.viewport;
+  const scrollX = node.isRoot() ? 0 : viewport?.scrollX || 0;
+  const scrollY = node.isRoot() ? 0 : viewport?.scrollY || 0;
+  return {
+    left: rect.left + scrollX,
+    top: rect.top + scrollY,
+    width: rect.width,
+    height: rect.height,
+  };
+}
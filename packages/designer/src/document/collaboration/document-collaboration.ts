@@ -0,0 +1,587 @@
+import * as Y from 'yjs';
+import { observable, reaction, runInAction } from '@alilc/lowcode-editor-core';
+import {
+  IPublicEnumTransformStage,
+  IPublicTypeDisposable,
+  IPublicTypeNodeSchema,
+  IPublicTypeRootSchema,
+} from '@alilc/lowcode-types';
+import { isPlainObject, Logger } from '@alilc/lowcode-utils';
+import type { IDocumentModel } from '../document-model';
+import { isNodeAttached } from '../history';
+import type { IHistoryUndoDelegate } from '../history';
+import type { INode } from '../node/node';
+import { EDITOR_EVENT } from '../../types';
+import {
+  ICollaborationMessage,
+  ICollaborationTransport,
+  ICollaborationUser,
+  ICollaborationUserState,
+} from './transport';
+
+const logger = new Logger({ level: 'warn', bizName: 'collaboration' });
+
+/**
+ * 用本地文档初始化协作文档时的 origin，不计入撤销栈
+ */
+const INIT_ORIGIN = 'collaboration-init';
+
+/**
+ * 应用远端更新时的 origin
+ */
+const REMOTE_ORIGIN = 'collaboration-remote';
+
+export interface IDocumentCollaborationOptions {
+
+  /**
+   * 当前用户
+   */
+  user: ICollaborationUser;
+
+  /**
+   * 该时间间隔内的连续变更会合并为一次撤销，默认 500ms
+   */
+  captureTimeout?: number;
+}
+
+/**
+ * 文档协同编辑，将 DocumentModel 映射到 Yjs 文档上：
+ *
+ *  nodes: Y.Map<nodeId, Y.Map>
+ *    fields    Y.Map    除 id、props 之外的 schema 字段，如 componentName、condition、loop 等
+ *    props     Y.Map    节点属性，以属性名为粒度合并
+ *    children  Y.Array  子节点 id
+ *  meta: Y.Map
+ *    rootId             根节点 id
+ *
+ * 本地变更根据节点及子节点的变更事件，只将发生变更的节点写入 Yjs 文档；远端更新只比对 Yjs 文档中发生变更的节点，
+ * 通过节点的变更 API 应用到 DocumentModel 上，不生成历史记录。
+ * 协同期间文档 History 的撤销重做由 Y.UndoManager 接管，只作用于当前用户自己的变更。
+ */
+export class DocumentCollaboration implements IHistoryUndoDelegate {
+  readonly ydoc: Y.Doc;
+
+  readonly undoManager: Y.UndoManager;
+
+  private nodes: Y.Map<Y.Map<any>>;
+
+  private meta: Y.Map<any>;
+
+  private applyingRemote = false;
+
+  /**
+   * 本地变更计数，同一批次中的多次变更只同步一次
+   */
+  private localChanges = observable.box(0);
+
+  /**
+   * 待同步的本地节点
+   */
+  private changedNodes = new Set<INode>();
+
+  private remoteStates = new Map<number, ICollaborationUserState>();
+
+  private disposers: IPublicTypeDisposable[] = [];
+
+  get clientId(): number {
+    return this.ydoc.clientID;
+  }
+
+  constructor(
+      readonly document: IDocumentModel,
+      private transport: ICollaborationTransport,
+      private options: IDocumentCollaborationOptions,
+    ) {
+    this.ydoc = new Y.Doc();
+    this.nodes = this.ydoc.getMap('nodes');
+    this.meta = this.ydoc.getMap('meta');
+    this.undoManager = new Y.UndoManager([this.nodes, this.meta], {
+      trackedOrigins: new Set([this]),
+      captureTimeout: options.captureTimeout ?? 500,
+    });
+
+    const handleUpdate = (update: Uint8Array, origin: any) => {
+      if (origin !== REMOTE_ORIGIN) {
+        this.transport.send({ type: 'update', clientId: this.clientId, update });
+      }
+    };
+    this.ydoc.on('update', handleUpdate);
+    this.disposers.push(() => this.ydoc.off('update', handleUpdate));
+    // 远端更新以及撤销重做产生的更新需要应用到本地文档
+    const handleNodesChange = (events: Array<Y.YEvent<any>>, transaction: Y.Transaction) => {
+      if (transaction.origin !== this && transaction.origin !== INIT_ORIGIN) {
+        this.applyRemoteChanges(getChangedIds(events));
+      }
+    };
+    this.nodes.observeDeep(handleNodesChange);
+    this.disposers.push(() => this.nodes.unobserveDeep(handleNodesChange));
+    this.disposers.push(reaction(
+      () => this.localChanges.get(),
+      () => this.syncLocalChanges(),
+    ));
+    const handleLocalChange = ({ node }: { node: INode }) => {
+      if (this.applyingRemote || node?.document !== this.document) {
+        return;
+      }
+      this.changedNodes.add(node);
+      this.localChanges.set(this.localChanges.get() + 1);
+    };
+    this.disposers.push(this.document.designer.editor.eventBus.on(EDITOR_EVENT.NODE_CHANGE, handleLocalChange));
+    this.disposers.push(this.document.onChangeNodeChildren(handleLocalChange));
+    this.disposers.push(this.document.history.setUndoDelegate(this));
+    this.disposers.push(this.document.selection.onSelectionChange(() => this.sendUserState()));
+    this.disposers.push(this.transport.onMessage((message) => this.handleMessage(message)));
+
+    this.transport.send({
+      type: 'sync-step1',
+      clientId: this.clientId,
+      stateVector: Y.encodeStateVector(this.ydoc),
+      reply: true,
+    });
+    this.sendUserState();
+  }
+
+  /**
+   * 撤销当前用户的变更
+   */
+  undo() {
+    this.undoManager.undo();
+  }
+
+  /**
+   * 重做当前用户的变更
+   */
+  redo() {
+    this.undoManager.redo();
+  }
+
+  canUndo(): boolean {
+    return this.undoManager.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.undoManager.canRedo();
+  }
+
+  /**
+   * 监听撤销重做栈的变更
+   */
+  onStateChange(func: () => void): IPublicTypeDisposable {
+    this.undoManager.on('stack-item-added', func);
+    this.undoManager.on('stack-item-popped', func);
+    this.undoManager.on('stack-cleared', func);
+    return () => {
+      this.undoManager.off('stack-item-added', func);
+      this.undoManager.off('stack-item-popped', func);
+      this.undoManager.off('stack-cleared', func);
+    };
+  }
+
+  /**
+   * 其他在线用户的状态
+   */
+  getRemoteStates(): ICollaborationUserState[] {
+    return Array.from(this.remoteStates.values());
+  }
+
+  /**
+   * 退出协同编辑
+   */
+  destroy() {
+    this.transport.send({ type: 'awareness', clientId: this.clientId, state: null });
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+    this.transport.destroy?.();
+    this.undoManager.destroy();
+    this.ydoc.destroy();
+    this.remoteStates.clear();
+    this.document.selection.setRemoteSelections([]);
+  }
+
+  private handleMessage(message: ICollaborationMessage) {
+    if (message.clientId === this.clientId) {
+      return;
+    }
+    switch (message.type) {
+      case 'sync-step1':
+        this.ensureInitialized();
+        this.transport.send({
+          type: 'sync-step2',
+          clientId: this.clientId,
+          update: Y.encodeStateAsUpdate(this.ydoc, message.stateVector),
+        });
+        if (message.reply) {
+          this.transport.send({
+            type: 'sync-step1',
+            clientId: this.clientId,
+            stateVector: Y.encodeStateVector(this.ydoc),
+            reply: false,
+          });
+          this.sendUserState();
+        }
+        break;
+      case 'sync-step2':
+      case 'update':
+        Y.applyUpdate(this.ydoc, message.update, REMOTE_ORIGIN);
+        break;
+      case 'awareness':
+        if (message.state) {
+          this.remoteStates.set(message.clientId, message.state);
+        } else {
+          this.remoteStates.delete(message.clientId);
+        }
+        this.updateRemoteSelections();
+        break;
+      default:
+    }
+  }
+
+  private sendUserState() {
+    this.transport.send({
+      type: 'awareness',
+      clientId: this.clientId,
+      state: {
+        user: this.options.user,
+        selected: this.document.selection.selected.slice(),
+      },
+    });
+  }
+
+  private updateRemoteSelections() {
+    const remoteSelections = this.getRemoteStates().map(({ user, selected }) => ({
+      userId: user.id,
+      userName: user.name,
+      color: user.color,
+      selected,
+    }));
+    this.document.selection.setRemoteSelections(remoteSelections);
+  }
+
+  /**
+   * 协作文档为空时，使用本地文档进行初始化。
+   * 只在需要向其他用户同步或本地产生变更时进行，避免覆盖其他用户尚未同步过来的内容
+   */
+  private ensureInitialized() {
+    if (this.nodes.size > 0 || !this.document.rootNode) {
+      return;
+    }
+    this.ydoc.transact(() => {
+      const { rootNode } = this.document;
+      this.meta.set('rootId', rootNode!.id);
+      this.writeNode(rootNode!, new Set());
+    }, INIT_ORIGIN);
+  }
+
+  private syncLocalChanges() {
+    const changedNodes = Array.from(this.changedNodes);
+    this.changedNodes.clear();
+    const { rootNode } = this.document;
+    if (this.applyingRemote || !rootNode || !changedNodes.length) {
+      return;
+    }
+    this.ensureInitialized();
+    this.ydoc.transact(() => {
+      if (this.meta.get('rootId') !== rootNode.id) {
+        this.meta.set('rootId', rootNode.id);
+      }
+      const removedIds = new Set<string>();
+      const written = new Set<string>();
+      changedNodes.forEach((node) => {
+        const target = getSyncNode(node);
+        if (target && !written.has(target.id)) {
+          written.add(target.id);
+          this.writeNode(target, removedIds);
+        }
+      });
+      // 移出的节点可能只是移动到了其他位置，仍在文档中的节点不删除
+      removedIds.forEach((id) => {
+        if (!this.hasNode(id)) {
+          this.deleteNode(id);
+        }
+      });
+    }, this);
+  }
+
+  /**
+   * 写入节点自身的数据及子节点 id，协作文档中还不存在的子节点连同其子树一并写入
+   * @param removedIds 收集从子节点列表中移出的节点 id
+   */
+  private writeNode(node: INode, removedIds: Set<string>) {
+    const { fields, props } = exportNode(node);
+    let ynode = this.nodes.get(node.id);
+    if (!ynode) {
+      ynode = new Y.Map();
+      this.nodes.set(node.id, ynode);
+      ynode.set('fields', new Y.Map());
+      ynode.set('props', new Y.Map());
+      ynode.set('children', new Y.Array<string>());
+    }
+    writeMap(ynode.get('fields'), fields);
+    writeMap(ynode.get('props'), props);
+    if (node.isLeaf() || !node.children) {
+      return;
+    }
+    const childIds = node.children.map((child) => child.id) || [];
+    const ychildren: Y.Array<string> = ynode.get('children');
+    ychildren.forEach((id) => {
+      if (childIds.indexOf(id) < 0) {
+        removedIds.add(id);
+      }
+    });
+    writeArray(ychildren, childIds);
+    node.children.forEach((child) => {
+      if (!this.nodes.has(child.id)) {
+        this.writeNode(child, removedIds);
+      }
+    });
+  }
+
+  private deleteNode(id: string) {
+    const ynode = this.nodes.get(id);
+    if (!ynode) {
+      return;
+    }
+    const childIds: string[] = ynode.get('children').toArray();
+    this.nodes.delete(id);
+    childIds.forEach((childId) => {
+      if (!this.hasNode(childId)) {
+        this.deleteNode(childId);
+      }
+    });
+  }
+
+  /**
+   * 节点是否仍在本地文档中
+   */
+  private hasNode(id: string): boolean {
+    const node = this.document.getNode(id);
+    return !!node && isNodeAttached(node);
+  }
+
+  /**
+   * 将协作文档中发生变更的节点应用到本地文档
+   */
+  private applyRemoteChanges(changedIds: string[]) {
+    const rootId = this.meta.get('rootId');
+    if (!rootId || !this.nodes.has(rootId)) {
+      return;
+    }
+
+    this.applyingRemote = true;
+    try {
+      this.document.history.silent(() => runInAction(() => {
+        const { rootNode } = this.document;
+        if (!rootNode || rootNode.id !== rootId) {
+          this.document.import(this.toSchema(rootId) as IPublicTypeRootSchema, true);
+          return;
+        }
+        // 先完成所有节点的插入和移动，再移除多余的子节点，避免移动中的节点被提前销毁
+        const placed = new Set<INode>();
+        const nodes = changedIds
+          .map((id) => this.document.getNode(id))
+          .filter((node): node is INode => !!node && this.nodes.has(node.id));
+        nodes.forEach((node) => this.applyNode(node, placed));
+        nodes.forEach((node) => this.removeStaleChildren(node));
+      }));
+    } catch (e) /* istanbul ignore next */ {
+      logger.error(e);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /**
+   * 应用节点自身的数据及子节点顺序，新增的子节点根据协作文档创建
+   * @param placed 本次已确定位置的节点，同一节点出现在多个子节点列表中时以先处理的为准
+   */
+  private applyNode(node: INode, placed: Set<INode>) {
+    const ynode = this.nodes.get(node.id)!;
+    const { fields, props } = exportNode(node);
+    diffKeys(fields, readMap(ynode.get('fields')), (key, value) => {
+      if (key === 'componentName') {
+        return;
+      }
+      if (key === 'children') {
+        // Leaf 节点的文本内容
+        node.setPropValue('children', value);
+      } else if (value === undefined) {
+        node.getExtraProp(key, false)?.remove();
+      } else {
+        node.getExtraProp(key, true)?.setValue(value);
+      }
+    });
+    if (node.isLeaf()) {
+      return;
+    }
+    diffKeys(props, readMap(ynode.get('props')), (key, value) => {
+      if (value === undefined) {
+        node.getProp(key, false)?.remove();
+      } else {
+        node.getProp(key, true)?.setValue(value);
+      }
+    });
+
+    const childIds: string[] = ynode.get('children').toArray();
+    childIds.forEach((childId, index) => {
+      if (!this.nodes.has(childId)) {
+        return;
+      }
+      let child = this.document.getNode(childId);
+      if (child && (placed.has(child) || child.contains(node))) {
+        return;
+      }
+      if (!child) {
+        child = this.document.createNode(this.toSchema(childId));
+        if (!child) {
+          return;
+        }
+      }
+      placed.add(child);
+      if (node.children?.get(index) !== child) {
+        node.children?.insert(child, index);
+      }
+    });
+  }
+
+  private removeStaleChildren(node: INode) {
+    const ynode = this.nodes.get(node.id);
+    if (!ynode || node.isLeaf() || !node.children) {
+      return;
+    }
+    const childIds: string[] = ynode.get('children').toArray();
+    const staleChildren: INode[] = [];
+    node.children.forEach((child) => {
+      if (childIds.indexOf(child.id) < 0) {
+        staleChildren.push(child);
+      }
+    });
+    staleChildren.forEach((child) => child.remove());
+  }
+
+  private toSchema(id: string): IPublicTypeNodeSchema {
+    const ynode = this.nodes.get(id)!;
+    const schema: any = {
+      ...readMap(ynode.get('fields')),
+      id,
+    };
+    if (schema.componentName !== 'Leaf') {
+      schema.props = readMap(ynode.get('props'));
+      schema.children = ynode.get('children').toArray()
+        .filter((childId: string) => this.nodes.has(childId))
+        .map((childId: string) => this.toSchema(childId));
+    }
+    return schema;
+  }
+}
+
+/**
+ * 获取需要同步的节点，Slot 中节点的变更同步到 Slot 所属的节点上
+ */
+function getSyncNode(node: INode): INode | null {
+  let target: INode | null = node;
+  let current: INode | null = node;
+  while (current) {
+    if (current.isSlot()) {
+      target = current.parent;
+    }
+    current = current.parent;
+  }
+  return target && isNodeAttached(target) ? target : null;
+}
+
+/**
+ * 获取协作文档中发生变更的节点 id
+ */
+function getChangedIds(events: Array<Y.YEvent<any>>): string[] {
+  const ids = new Set<string>();
+  events.forEach((event) => {
+    if (event.path.length > 0) {
+      ids.add(event.path[0] as string);
+    } else {
+      event.changes.keys.forEach((change, key) => ids.add(key));
+    }
+  });
+  return Array.from(ids);
+}
+
+/**
+ * 导出节点自身的数据，不包括子节点。list 类型的 props 仅在 vision 协议中使用，不参与协同
+ */
+function exportNode(node: INode): { fields: Record<string, any>; props: Record<string, any> } {
+  // Leaf 节点的 children 为文本内容，需要一并导出
+  const { id, props, ...fields } = node.export(IPublicEnumTransformStage.Serilize, {
+    bypassChildren: !node.isLeaf(),
+  });
+  return {
+    fields,
+    props: isPlainObject(props) ? props as Record<string, any> : {},
+  };
+}
+
+function diffKeys(
+    local: Record<string, any>,
+    remote: Record<string, any>,
+    apply: (key: string, value: any) => void,
+  ) {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  keys.forEach((key) => {
+    if (JSON.stringify(local[key]) !== JSON.stringify(remote[key])) {
+      apply(key, remote[key]);
+    }
+  });
+}
+
+/**
+ * 属性值以 JSON 字符串形式存储：Yjs 会校验对象的构造函数，而 lifeCycles 等对象中可能含有 constructor 字段
+ */
+function readMap(ymap: Y.Map<any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  ymap.forEach((value: string, key: string) => {
+    result[key] = JSON.parse(value);
+  });
+  return result;
+}
+
+function writeMap(ymap: Y.Map<any>, data: Record<string, any>) {
+  Object.keys(data).forEach((key) => {
+    if (data[key] === undefined) {
+      return;
+    }
+    const value = JSON.stringify(data[key]);
+    if (ymap.get(key) !== value) {
+      ymap.set(key, value);
+    }
+  });
+  Array.from(ymap.keys()).forEach((key) => {
+    if (data[key] === undefined) {
+      ymap.delete(key);
+    }
+  });
+}
+
+/**
+ * 只替换首尾相同部分之外的区间，尽量保留其他用户的并发插入
+ */
+function writeArray(yarray: Y.Array<string>, ids: string[]) {
+  const current = yarray.toArray();
+  let start = 0;
+  while (start < current.length && start < ids.length && current[start] === ids[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < ids.length - start &&
+    current[current.length - 1 - end] === ids[ids.length - 1 - end]
+  ) {
+    end++;
+  }
+  const deleteCount = current.length - start - end;
+  if (deleteCount > 0) {
+    yarray.delete(start, deleteCount);
+  }
+  const inserted = ids.slice(start, ids.length - end);
+  if (inserted.length > 0) {
+    yarray.insert(start, inserted);
+  }
+}
@@ -0,0 +1,114 @@
+import { IPublicTypeDisposable } from '@alilc/lowcode-types';
+
+/**
+ * 协作用户信息
+ */
+export interface ICollaborationUser {
+  id: string;
+  name?: string;
+  color?: string;
+}
+
+/**
+ * 用户状态，目前包括用户信息和选区
+ */
+export interface ICollaborationUserState {
+  user: ICollaborationUser;
+  selected: string[];
+}
+
+/**
+ * 协作消息，update 均为 Yjs 的 update 编码格式
+ *
+ *  sync-step1  携带本地的 state vector，请求对端缺失的更新；reply 为 true 时对端需要反向请求
+ *  sync-step2  对 sync-step1 的应答，携带对端缺失的更新
+ *  update      本地产生的增量更新
+ *  awareness   用户状态，为 null 时表示用户已离开
+ */
+export type ICollaborationMessage =
+  | { type: 'sync-step1'; clientId: number; stateVector: Uint8Array; reply: boolean }
+  | { type: 'sync-step2'; clientId: number; update: Uint8Array }
+  | { type: 'update'; clientId: number; update: Uint8Array }
+  | { type: 'awareness'; clientId: number; state: ICollaborationUserState | null };
+
+/**
+ * 协作消息的传输层，可基于 WebSocket、WebRTC 等实现
+ */
+export interface ICollaborationTransport {
+
+  /**
+   * 向其他用户广播消息
+   */
+  send(message: ICollaborationMessage): void;
+
+  /**
+   * 监听其他用户的消息
+   */
+  onMessage(fn: (message: ICollaborationMessage) => void): IPublicTypeDisposable;
+
+  /**
+   * 断开连接
+   */
+  destroy?(): void;
+}
+
+class InProcessTransport implements ICollaborationTransport {
+  private listeners: Array<(message: ICollaborationMessage) => void> = [];
+
+  private hub: InProcessCollaborationHub;
+
+  constructor(hub: InProcessCollaborationHub) {
+    this.hub = hub;
+  }
+
+  send(message: ICollaborationMessage) {
+    this.hub.broadcast(this, message);
+  }
+
+  onMessage(fn: (message: ICollaborationMessage) => void): IPublicTypeDisposable {
+    this.listeners.push(fn);
+    return () => {
+      const i = this.listeners.indexOf(fn);
+      if (i > -1) {
+        this.listeners.splice(i, 1);
+      }
+    };
+  }
+
+  receive(message: ICollaborationMessage) {
+    this.listeners.slice().forEach((fn) => fn(message));
+  }
+
+  destroy() {
+    this.hub.remove(this);
+    this.listeners = [];
+  }
+}
+
+/**
+ * 进程内的消息中心，同一进程中的多个文档通过它创建的 transport 互相同步，便于测试和本地调试
+ */
+export class InProcessCollaborationHub {
+  private transports: InProcessTransport[] = [];
+
+  createTransport(): ICollaborationTransport {
+    const transport = new InProcessTransport(this);
+    this.transports.push(transport);
+    return transport;
+  }
+
+  broadcast(from: ICollaborationTransport, message: ICollaborationMessage) {
+    this.transports.slice().forEach((transport) => {
+      if (transport !== from) {
+        transport.receive(message);
+      }
+    });
+  }
+
+  remove(transport: ICollaborationTransport) {
+    const i = this.transports.indexOf(transport as InProcessTransport);
+    if (i > -1) {
+      this.transports.splice(i, 1);
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import { obx, action, makeObservable, createModuleEventBus, IEventBus } from '@alilc/lowcode-editor-core';
+import {
+  IPublicModelComments,
+  IPublicTypeComment,
+  IPublicTypeCommentThread,
+  IPublicTypeDisposable,
+} from '@alilc/lowcode-types';
+import type { IDocumentModel } from './document-model';
+
+export interface IDocumentComments extends IPublicModelComments {
+  purge(): void;
+}
+
+function cloneThreads(threads: IPublicTypeCommentThread[]): IPublicTypeCommentThread[] {
+  return threads.map((thread) => ({
+    ...thread,
+    comments: thread.comments.map((comment) => ({ ...comment })),
+  }));
+}
+
+/**
+ * 节点评论，评论串按节点 id 挂载，节点移动后仍然有效，节点被删除后成为孤立评论
+ */
+export class DocumentComments implements IDocumentComments {
+  @obx.ref private _threads: IPublicTypeCommentThread[] = [];
+
+  /**
+   * 节点增删时递增，使孤立评论的计算可以响应节点变化
+   */
+  @obx.ref private nodesVersion = 0;
+
+  private seqId = 0;
+
+  private emitter: IEventBus = createModuleEventBus('DocumentComments');
+
+  private disposers: IPublicTypeDisposable[];
+
+  get threads(): IPublicTypeCommentThread[] {
+    return this._threads;
+  }
+
+  constructor(readonly document: IDocumentModel) {
+    makeObservable(this);
+    this.disposers = [
+      document.onNodeCreate(() => this.updateNodesVersion()),
+      document.onNodeDestroy(() => this.updateNodesVersion()),
+    ];
+  }
+
+  @action
+  private updateNodesVersion() {
+    this.nodesVersion++;
+  }
+
+  private getThread(threadId: string): IPublicTypeCommentThread | undefined {
+    return this._threads.find((thread) => thread.id === threadId);
+  }
+
+  private nextId(prefix: string, used: Array<{ id: string }>): string {
+    const ids = new Set(used.map((item) => item.id));
+    let id: string;
+    do {
+      id = `${prefix}_${Date.now().toString(36)}${(++this.seqId).toString(36)}`;
+    } while (ids.has(id));
+    return id;
+  }
+
+  private createComment(used: IPublicTypeComment[], content: string, author?: string): IPublicTypeComment {
+    const comment: IPublicTypeComment = {
+      id: this.nextId('comment', used),
+      content,
+      createdAt: Date.now(),
+    };
+    if (author) {
+      comment.author = author;
+    }
+    return comment;
+  }
+
+  @action
+  private updateThread(threadId: string, update: (thread: IPublicTypeCommentThread) => IPublicTypeCommentThread | null) {
+    const thread = this.getThread(threadId);
+    if (!thread) {
+      return null;
+    }
+    const next = update(thread);
+    this._threads = next
+      ? this._threads.map((item) => (item === thread ? next : item))
+      : this._threads.filter((item) => item !== thread);
+    this.emitter.emit('change');
+    return next;
+  }
+
+  getThreads(nodeId: string): IPublicTypeCommentThread[] {
+    return this._threads.filter((thread) => thread.nodeId === nodeId);
+  }
+
+  getOrphanedThreads(): IPublicTypeCommentThread[] {
+    return this._threads.filter((thread) => this.isOrphaned(thread.id));
+  }
+
+  isOrphaned(threadId: string): boolean {
+    const thread = this.getThread(threadId);
+    // 读取 nodesVersion 以便在节点增删后重新计算
+    return !!thread && this.nodesVersion >= 0 && !this.document.hasNode(thread.nodeId);
+  }
+
+  @action
+  addThread(nodeId: string, content: string, author?: string): IPublicTypeCommentThread | null {
+    const node = this.document.getNode(nodeId);
+    if (!node) {
+      return null;
+    }
+    const thread: IPublicTypeCommentThread = {
+      id: this.nextId('thread', this._threads),
+      nodeId,
+      componentName: node.componentName,
+      resolved: false,
+      comments: [this.createComment([], content, author)],
+    };
+    this._threads = [...this._threads, thread];
+    this.emitter.emit('change');
+    return thread;
+  }
+
+  reply(threadId: string, content: string, author?: string): IPublicTypeCommentThread | null {
+    return this.updateThread(threadId, (thread) => ({
+      ...thread,
+      comments: [...thread.comments, this.createComment(thread.comments, content, author)],
+    }));
+  }
+
+  resolve(threadId: string, resolved = true): void {
+    this.updateThread(threadId, (thread) => ({ ...thread, resolved }));
+  }
+
+  attach(threadId: string, nodeId: string): void {
+    const node = this.document.getNode(nodeId);
+    if (!node) {
+      return;
+    }
+    this.updateThread(threadId, (thread) => ({ ...thread, nodeId, componentName: node.componentName }));
+  }
+
+  removeThread(threadId: string): void {
+    this.updateThread(threadId, () => null);
+  }
+
+  removeComment(threadId: string, commentId: string): void {
+    this.updateThread(threadId, (thread) => {
+      if (thread.comments[0]?.id === commentId) {
+        return null;
+      }
+      return { ...thread, comments: thread.comments.filter((comment) => comment.id !== commentId) };
+    });
+  }
+
+  export(): IPublicTypeCommentThread[] {
+    return cloneThreads(this._threads);
+  }
+
+  @action
+  import(threads: IPublicTypeCommentThread[]): void {
+    this._threads = cloneThreads(threads || []);
+    this.emitter.emit('change');
+  }
+
+  onChange(fn: () => void): IPublicTypeDisposable {
+    this.emitter.on('change', fn);
+    return () => {
+      this.emitter.removeListener('change', fn);
+    };
+  }
+
+  purge() {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+    this.emitter.removeAllListeners();
+  }
+}
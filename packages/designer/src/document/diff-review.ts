@@ -0,0 +1,149 @@
+import { obx, action, makeObservable, runInAction } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage, IPublicTypeNodeSchema, IPublicTypeSchemaDiffHunk } from '@alilc/lowcode-types';
+import { diffSchema } from '../utils/schema-diff';
+import type { IDocumentModel } from './document-model';
+import type { INode } from './node';
+
+/**
+ * 将新版本 schema 与当前文档对比，文档保持为旧版本，逐个接受的变化应用到文档上
+ */
+export class DiffReview {
+  @obx.ref private _hunks: IPublicTypeSchemaDiffHunk[] = [];
+
+  @obx.ref private _active = false;
+
+  /**
+   * 待处理的变化
+   */
+  get hunks(): IPublicTypeSchemaDiffHunk[] {
+    return this._hunks;
+  }
+
+  /**
+   * 是否正在对比
+   */
+  get active(): boolean {
+    return this._active;
+  }
+
+  constructor(readonly document: IDocumentModel) {
+    makeObservable(this);
+  }
+
+  diff(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    const base = this.document.export(IPublicEnumTransformStage.Serilize) as IPublicTypeNodeSchema;
+    return base ? diffSchema(base, schema) : [];
+  }
+
+  @action
+  start(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    this._hunks = this.diff(schema);
+    this._active = true;
+    return this._hunks;
+  }
+
+  @action
+  stop() {
+    this._hunks = [];
+    this._active = false;
+  }
+
+  getHunk(id: string): IPublicTypeSchemaDiffHunk | undefined {
+    return this._hunks.find((hunk) => hunk.id === id);
+  }
+
+  /**
+   * 接受变化，应用到文档并记录一条历史记录，无法应用时（如目标父节点不存在）返回 false
+   */
+  accept(id: string): boolean {
+    const hunk = this.getHunk(id);
+    if (!hunk) {
+      return false;
+    }
+    const nodeIds = this.apply(hunk);
+    if (!nodeIds) {
+      return false;
+    }
+    this.document.history.markChange(`Accept ${hunk.type} ${hunk.componentName}`, nodeIds);
+    this.drop(id);
+    return true;
+  }
+
+  /**
+   * 拒绝变化，文档保持不变
+   */
+  reject(id: string) {
+    this.drop(id);
+  }
+
+  @action
+  private drop(id: string) {
+    this._hunks = this._hunks.filter((hunk) => hunk.id !== id);
+  }
+
+  /**
+   * 新增、移动节点在父节点中的位置，前一个兄弟节点在父节点中时插入到其后，否则按新版本中的位置
+   */
+  private getInsertIndex(parent: INode, hunk: IPublicTypeSchemaDiffHunk, node?: INode | null): number {
+    const siblings = parent.children?.children.filter((child) => child !== node) || [];
+    const prev = hunk.prevSiblingId ? siblings.find((child) => child.id === hunk.prevSiblingId) : undefined;
+    if (prev) {
+      return siblings.indexOf(prev) + 1;
+    }
+    return hunk.prevSiblingId === undefined ? 0 : Math.min(hunk.index || 0, siblings.length);
+  }
+
+  private apply(hunk: IPublicTypeSchemaDiffHunk): string[] | null {
+    const { document } = this;
+    const node = hunk.type === 'added' ? null : document.getNode(hunk.nodeId);
+    const parent = hunk.parentId ? document.getNode(hunk.parentId) : null;
+    switch (hunk.type) {
+      case 'added': {
+        if (!parent || !hunk.schema) {
+          return null;
+        }
+        const index = this.getInsertIndex(parent, hunk);
+        const added = runInAction(() => document.insertNode(parent, hunk.schema!, index));
+        return added ? [added.id] : null;
+      }
+      case 'removed':
+        if (!node) {
+          return null;
+        }
+        runInAction(() => node.remove());
+        return [hunk.nodeId];
+      case 'moved': {
+        // 不能移动到自身的子树中
+        if (!node || !parent || node.contains(parent)) {
+          return null;
+        }
+        const siblings = parent.children?.children.filter((child) => child !== node) || [];
+        const ref = siblings[this.getInsertIndex(parent, hunk, node)];
+        runInAction(() => parent.insertBefore(node, ref));
+        return [hunk.nodeId];
+      }
+      case 'changed':
+        if (!node) {
+          return null;
+        }
+        runInAction(() => {
+          (hunk.changes || []).forEach(({ name, extra, after }) => {
+            if (extra) {
+              if (after === undefined) {
+                node.getExtraProp(name, false)?.remove();
+              } else {
+                node.getExtraProp(name, true)?.setValue(after);
+              }
+            } else if (after === undefined) {
+              node.clearPropValue(name);
+            } else {
+              node.setPropValue(name, after);
+            }
+          });
+        });
+        return [hunk.nodeId];
+      default:
+        return null;
+    }
+  }
+}
@@ -7,6 +7,7 @@ import {
   wrapWithEventSwitch,
   createModuleEventBus,
   IEventBus,
+  runInAction,
 } from '@alilc/lowcode-editor-core';
 import {
   IPublicTypeNodeData,
@@ -19,6 +20,15 @@ import {
   IPublicEnumTransformStage,
   IPublicTypeOnChangeOptions,
   IPublicTypeDisposable,
+  IPublicTypeLintProblem,
+  IPublicTypeExpressionVariable,
+  IPublicTypeExpressionCompletionResult,
+  IPublicTypeExpressionHover,
+  IPublicTypeExpressionDiagnostic,
+  IPublicTypeFieldValidationError,
+  IPublicTypeCustomView,
+  IPublicTypeDataSourceMock,
+  IPublicTypeSchemaDiffHunk,
 } from '@alilc/lowcode-types';
 import type {
   IPublicTypeRootSchema,
@@ -36,6 +46,9 @@ import {
   isDragNodeObject,
   isDragNodeDataObject,
   isNode,
+  validateNodeSchema,
+  isCustomView,
+  Logger,
 } from '@alilc/lowcode-utils';
 import { IProject } from '../project';
 import { ISimulatorHost } from '../simulator';
@@ -45,8 +58,29 @@ import { insertChildren, insertChild, IRootNode } from './node/node';
 import type { INode } from './node/node';
 import { Selection, ISelection } from './selection';
 import { History } from './history';
+import { PatchHistory, recordDocumentChange } from './patch-history';
 import { IModalNodesManager, ModalNodesManager, Node } from './node';
+import { ExpressionService, IExpressionService } from './expression-service';
+import { DocumentComments, IDocumentComments } from './comments';
+import { DiffReview } from './diff-review';
 import { EDITOR_EVENT } from '../types';
+import type { ISettingField } from '../designer/setting';
+import { hasFieldValidationRules } from '../designer/setting/field-validation';
+
+const logger = new Logger({ level: 'warn', bizName: 'designer:document' });
+
+/**
+ * 配置项是否展示，不展示的配置项不参与校验
+ */
+function isFieldVisible(field: ISettingField): boolean {
+  const { condition } = field.extraProps;
+  try {
+    return typeof condition === 'function' ? condition(field.internalToShellField()) !== false : true;
+  } catch (e) {
+    logger.warn('exception when condition is executed', e);
+    return true;
+  }
+}
 
 export type GetDataType<T, NodeType> = T extends undefined
   ? NodeType extends {
@@ -86,6 +120,10 @@ export interface IDocumentModel extends Omit<IPublicModelDocumentModel<
 
   selection: ISelection;
 
+  comments: IDocumentComments;
+
+  diffReview: DiffReview;
+
   get rootNode(): INode | null;
 
   get simulator(): ISimulatorHost | null;
@@ -110,6 +148,8 @@ export interface IDocumentModel extends Omit<IPublicModelDocumentModel<
    */
   getNode(id: string): INode | null;
 
+  hasNode(id: string): boolean;
+
   getRoot(): INode | null;
 
   getHistory(): IHistory;
@@ -176,6 +216,18 @@ export class DocumentModel implements IDocumentModel {
    */
   modalNodesManager: IModalNodesManager;
 
+  /**
+   * 表达式语言服务
+   */
+  readonly expressionService: IExpressionService = new ExpressionService(this);
+
+  /**
+   * 节点评论
+   */
+  readonly comments: IDocumentComments;
+
+  readonly diffReview: DiffReview;
+
   private _nodesMap = new Map<string, INode>();
 
   readonly project: IProject;
@@ -270,6 +322,19 @@ export class DocumentModel implements IDocumentModel {
     return this.rootNode?.schema as any;
   }
 
+  @obx.ref private _dataSourceMockEnabled = false;
+
+  /**
+   * 设计态下数据源是否使用 mock 响应
+   */
+  get dataSourceMockEnabled(): boolean {
+    return this._dataSourceMockEnabled;
+  }
+
+  set dataSourceMockEnabled(enabled: boolean) {
+    this._dataSourceMockEnabled = enabled;
+  }
+
   @obx.ref private _opened = false;
 
   @obx.ref private _suspensed = false;
@@ -327,16 +392,22 @@ export class DocumentModel implements IDocumentModel {
       },
     );
 
-    this.history = new History(
-      () => this.export(IPublicEnumTransformStage.Serilize),
-      (schema) => {
-        this.import(schema as IPublicTypeRootSchema, true);
-        this.simulator?.rerender();
-      },
-    );
+    if (engineConfig.get('historyMode') === 'patch') {
+      this.history = new PatchHistory(this);
+    } else {
+      this.history = new History(
+        () => this.export(IPublicEnumTransformStage.Serilize),
+        (schema) => {
+          this.import(schema as IPublicTypeRootSchema, true);
+          this.simulator?.rerender();
+        },
+      );
+    }
 
     this.setupListenActiveNodes();
     this.modalNodesManager = new ModalNodesManager(this);
+    this.comments = new DocumentComments(this);
+    this.diffReview = new DiffReview(this);
     this.inited = true;
   }
 
@@ -532,8 +603,12 @@ export class DocumentModel implements IDocumentModel {
 
   @action
   import(schema: IPublicTypeRootSchema, checkId = false) {
+    const { valid, diagnostics } = validateNodeSchema(schema);
+    if (!valid) {
+      logger.error('invalid schema:', diagnostics.filter((item) => item.level === 'error'));
+    }
     const drillDownNodeId = this._drillDownNode?.id;
-    runWithGlobalEventOff(() => {
+    recordDocumentChange(this, () => runWithGlobalEventOff(() => {
       // TODO: 暂时用饱和式删除，原因是 Slot 节点并不是树节点，无法正常递归删除
       this.nodes.forEach(node => {
         if (node.isRoot()) return;
@@ -545,7 +620,9 @@ export class DocumentModel implements IDocumentModel {
       if (drillDownNodeId) {
         this.drillDown(this.getNode(drillDownNodeId));
       }
-    });
+    }));
+    // 构造过程中 history 尚未创建
+    this.history?.markChange('Import schema');
   }
 
   export(stage: IPublicEnumTransformStage = IPublicEnumTransformStage.Serilize): IPublicTypeRootSchema | undefined {
@@ -564,6 +641,111 @@ export class DocumentModel implements IDocumentModel {
     return currentSchema;
   }
 
+  /**
+   * 使用 project 中注册的 lint 规则检查当前文档
+   */
+  lint(): IPublicTypeLintProblem[] {
+    return this.project.lintSchema(this.export(IPublicEnumTransformStage.Serilize));
+  }
+
+  getExpressionScope(node?: INode | null): IPublicTypeExpressionVariable[] {
+    return this.expressionService.getScope(node);
+  }
+
+  getExpressionCompletions(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionCompletionResult {
+    return this.expressionService.getCompletions(expression, offset, node);
+  }
+
+  getExpressionHover(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionHover | null {
+    return this.expressionService.getHover(expression, offset, node);
+  }
+
+  getExpressionDiagnostics(expression: string, node?: INode | null): IPublicTypeExpressionDiagnostic[] {
+    return this.expressionService.getDiagnostics(expression, node);
+  }
+
+  async getValidationErrors(): Promise<IPublicTypeFieldValidationError[]> {
+    const errors: IPublicTypeFieldValidationError[] = [];
+    const validateFields = async (node: INode, items: Array<ISettingField | IPublicTypeCustomView>) => {
+      for (const field of items) {
+        if (isCustomView(field) || !isFieldVisible(field)) {
+          continue;
+        }
+        const messages = await field.validate();
+        messages.forEach((message) => {
+          errors.push({ nodeId: node.id, path: field.path.join('.'), message });
+        });
+        await validateFields(node, field.items);
+      }
+    };
+    for (const node of Array.from(this._nodesMap.values())) {
+      // 没有声明校验规则的组件不创建 settingEntry
+      if (hasFieldValidationRules(node.componentMeta.configure)) {
+        await validateFields(node, node.settingEntry.items);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * 设置数据源的 mock 响应，传入 undefined 时移除
+   */
+  setDataSourceMock(id: string, mock: IPublicTypeDataSourceMock | undefined): boolean {
+    const { rootNode } = this;
+    const dataSource: any = rootNode?.getExtraProp('dataSource', false)?.getValue();
+    const list: any[] = dataSource?.list || [];
+    const index = list.findIndex((item) => item?.id === id);
+    if (!rootNode || index < 0) {
+      return false;
+    }
+    const { mock: _, ...item } = list[index];
+    const nextList = list.slice();
+    nextList[index] = mock === undefined ? item : { ...item, mock };
+    recordDocumentChange(this, () => runInAction(() => {
+      rootNode.getExtraProp('dataSource', true)?.setValue({ ...dataSource, list: nextList });
+    }));
+    this.history.markChange(`${mock === undefined ? 'Remove' : 'Set'} mock of data source ${id}`);
+    return true;
+  }
+
+  /**
+   * 将画布中数据源最近一次的真实响应记录为 mock
+   */
+  recordDataSourceMock(id: string): boolean {
+    const instances: any[] = (this.rootNode && this.simulator?.getComponentInstances(this.rootNode)) || [];
+    const instance = instances.find((item) => typeof item?.getDataSourceResponse === 'function');
+    const response = instance?.getDataSourceResponse(id);
+    if (response === undefined) {
+      return false;
+    }
+    // 只保留可以序列化的部分
+    return this.setDataSourceMock(id, JSON.parse(JSON.stringify(response)));
+  }
+
+  diffSchema(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    return this.diffReview.diff(schema);
+  }
+
+  startDiffReview(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    return this.diffReview.start(schema);
+  }
+
+  get diffHunks(): IPublicTypeSchemaDiffHunk[] {
+    return this.diffReview.hunks;
+  }
+
+  acceptDiffHunk(id: string): boolean {
+    return this.diffReview.accept(id);
+  }
+
+  rejectDiffHunk(id: string): void {
+    this.diffReview.reject(id);
+  }
+
+  stopDiffReview(): void {
+    this.diffReview.stop();
+  }
+
   /**
    * 导出节点数据
    */
@@ -652,6 +834,7 @@ export class DocumentModel implements IDocumentModel {
   }
 
   purge() {
+    this.comments.purge();
     this.rootNode?.purge();
     this.nodes.clear();
     this._nodesMap.clear();
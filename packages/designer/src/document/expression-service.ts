@@ -0,0 +1,470 @@
+import {
+  IPublicTypeExpressionCompletionItem,
+  IPublicTypeExpressionCompletionResult,
+  IPublicTypeExpressionDiagnostic,
+  IPublicTypeExpressionHover,
+  IPublicTypeExpressionVariable,
+  IPublicTypeExpressionVariableKind,
+} from '@alilc/lowcode-types';
+import { isJSExpression, isJSFunction, isPlainObject } from '@alilc/lowcode-utils';
+import type { IDocumentModel } from './document-model';
+import type { INode } from './node/node';
+import { maskLiterals } from '../utils/expression';
+
+export interface IExpressionService {
+  getScope(node?: INode | null): IPublicTypeExpressionVariable[];
+
+  getCompletions(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionCompletionResult;
+
+  getHover(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionHover | null;
+
+  getDiagnostics(expression: string, node?: INode | null): IPublicTypeExpressionDiagnostic[];
+}
+
+/**
+ * 渲染时 this 上由引擎提供的成员
+ */
+const CONTEXT_VARIABLES: IPublicTypeExpressionVariable[] = [
+  { name: 'props', kind: 'context', type: 'object', description: '组件属性' },
+  { name: 'setState', kind: 'context', type: 'function', description: '更新 state' },
+  { name: 'forceUpdate', kind: 'context', type: 'function', description: '强制重新渲染' },
+  { name: 'reloadDataSource', kind: 'context', type: 'function', description: '重新请求初始化数据源' },
+  { name: '$', kind: 'context', type: 'function', description: '通过 ref 获取组件实例' },
+  { name: '$$', kind: 'context', type: 'function', description: '通过 ref 获取所有组件实例' },
+  { name: 'getLocale', kind: 'context', type: 'function', description: '获取当前语言' },
+  { name: 'setLocale', kind: 'context', type: 'function', description: '设置当前语言' },
+  { name: 'location', kind: 'context', type: 'object' },
+  { name: 'history', kind: 'context', type: 'object' },
+  { name: 'match', kind: 'context', type: 'object' },
+];
+
+const DATA_SOURCE_MEMBERS: IPublicTypeExpressionVariable[] = [
+  { name: 'load', kind: 'dataSource', type: 'function', description: '请求数据源' },
+  { name: 'status', kind: 'dataSource', type: 'string', description: '请求状态' },
+  { name: 'data', kind: 'dataSource', type: 'any', description: '请求结果' },
+  { name: 'error', kind: 'dataSource', type: 'any', description: '请求错误' },
+];
+
+function isIdentifierChar(char: string | undefined) {
+  return !!char && /[\w$]/.test(char);
+}
+
+function inferLiteralType(code: string): string {
+  const trimmed = code.trim();
+  if (/^['"`]/.test(trimmed)) {
+    return 'string';
+  }
+  if (/^\[/.test(trimmed)) {
+    return 'array';
+  }
+  if (/^\{/.test(trimmed)) {
+    return 'object';
+  }
+  if (/^-?(\d|\.\d)/.test(trimmed)) {
+    return 'number';
+  }
+  if (trimmed === 'true' || trimmed === 'false') {
+    return 'boolean';
+  }
+  if (/^(async\s+)?function\b/.test(trimmed) || /^(\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>/.test(trimmed)) {
+    return 'function';
+  }
+  return 'any';
+}
+
+function createVariable(
+  name: string,
+  kind: IPublicTypeExpressionVariableKind,
+  value: any,
+): IPublicTypeExpressionVariable {
+  if (isJSExpression(value)) {
+    try {
+      return createVariable(name, kind, JSON.parse(value.value));
+    } catch (e) {
+      return { name, kind, type: inferLiteralType(value.value) };
+    }
+  }
+  if (isJSFunction(value) || typeof value === 'function') {
+    return { name, kind, type: 'function' };
+  }
+  if (Array.isArray(value)) {
+    return { name, kind, type: 'array' };
+  }
+  if (isPlainObject(value)) {
+    return {
+      name,
+      kind,
+      type: 'object',
+      members: Object.keys(value).map((key) => createVariable(key, kind, value[key])),
+    };
+  }
+  if (value == null) {
+    return { name, kind, type: 'any' };
+  }
+  return { name, kind, type: typeof value };
+}
+
+interface IMemberAccess {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 读取 start 处开始的 .a.b 形式的成员访问链，支持可选链
+ */
+function readMemberChain(code: string, start: number): { members: IMemberAccess[]; end: number } {
+  const members: IMemberAccess[] = [];
+  let end = start;
+  const reg = /^\s*\??\.\s*([A-Za-z_$][\w$]*)/;
+  let match = reg.exec(code.slice(end));
+  while (match) {
+    const nameEnd = end + match[0].length;
+    members.push({ name: match[1], start: nameEnd - match[1].length, end: nameEnd });
+    end = nameEnd;
+    match = reg.exec(code.slice(end));
+  }
+  return { members, end };
+}
+
+function findMember(members: IPublicTypeExpressionVariable[] | undefined, name: string) {
+  return members?.find((item) => item.name === name);
+}
+
+function toCompletionItem({ name, kind, type, description }: IPublicTypeExpressionVariable): IPublicTypeExpressionCompletionItem {
+  return {
+    label: name,
+    kind,
+    type,
+    description,
+  };
+}
+
+/**
+ * 表达式语言服务，基于根容器 schema 构建表达式中 this 的作用域，提供补全、悬浮提示及诊断
+ */
+export class ExpressionService implements IExpressionService {
+  readonly document: IDocumentModel;
+
+  /**
+   * 开启 CSP（不允许 unsafe-eval）时 new Function 不可用，之后不再做语法检查
+   */
+  private syntaxCheckDisabled = false;
+
+  constructor(document: IDocumentModel) {
+    this.document = document;
+  }
+
+  /**
+   * 只读取根容器上的单个属性，避免每次请求都导出整个文档
+   */
+  private getRootValue(key: string): any {
+    return this.document.root?.getExtraProp(key, false)?.getValue();
+  }
+
+  getScope(node?: INode | null): IPublicTypeExpressionVariable[] {
+    const { project } = this.document;
+    const rootState = this.getRootValue('state');
+    const methods = this.getRootValue('methods');
+    const dataSource: any = this.getRootValue('dataSource');
+    const variables: IPublicTypeExpressionVariable[] = [];
+    const add = (variable: IPublicTypeExpressionVariable) => {
+      if (!findMember(variables, variable.name)) {
+        variables.push(variable);
+      }
+    };
+
+    // 内层循环及插槽的参数会覆盖外层的同名变量
+    this.getLocalVariables(node).forEach(add);
+
+    const dataSources: any[] = (dataSource?.list || []).filter((item: any) => item && typeof item.id === 'string');
+    const state = createVariable('state', 'state', isPlainObject(rootState) ? rootState : {});
+    // 初始化请求的数据源结果会以数据源 id 写入 state
+    dataSources.forEach(({ id }) => {
+      if (!findMember(state.members, id)) {
+        state.members!.push({ name: id, kind: 'dataSource', type: 'any' });
+      }
+    });
+    add({ ...state, kind: 'context' });
+
+    Object.keys(isPlainObject(methods) ? methods : {}).forEach((name) => add({ name, kind: 'method', type: 'function' }));
+
+    add({
+      name: 'dataSourceMap',
+      kind: 'context',
+      type: 'object',
+      members: dataSources.map(({ id, type }) => ({
+        name: id,
+        kind: 'dataSource',
+        type: 'object',
+        description: type,
+        members: DATA_SOURCE_MEMBERS,
+      })),
+    });
+
+    const utils = project?.get('utils');
+    add({
+      name: 'utils',
+      kind: 'context',
+      type: 'object',
+      members: (Array.isArray(utils) ? utils : [])
+        .filter((item: any) => item && typeof item.name === 'string')
+        .map((item: any) => ({
+          name: item.name,
+          kind: 'util',
+          type: item.type === 'function' ? 'function' : 'any',
+        })),
+    });
+
+    const constants = project?.get('constants');
+    add({
+      ...createVariable('constants', 'constant', isPlainObject(constants) ? constants : {}),
+      kind: 'context',
+    });
+
+    add({ name: 'i18n', kind: 'i18n', type: 'function', description: 'this.i18n(key, params) 获取国际化文案' });
+
+    CONTEXT_VARIABLES.forEach(add);
+    return variables;
+  }
+
+  /**
+   * 节点及其祖先上的循环变量和插槽参数，由内向外
+   */
+  private getLocalVariables(node?: INode | null): IPublicTypeExpressionVariable[] {
+    const variables: IPublicTypeExpressionVariable[] = [];
+    let current = node;
+    while (current) {
+      const loop = current.getExtraProp('loop', false)?.getValue();
+      if (loop != null && !current.isRoot()) {
+        const loopArgs = current.getExtraProp('loopArgs', false)?.getValue() || [];
+        const item = Array.isArray(loop) && loop.length ? createVariable('', 'loop', loop[0]) : null;
+        variables.push({
+          ...item,
+          name: loopArgs[0] || 'item',
+          kind: 'loop',
+          type: item?.type || 'any',
+          description: '循环的当前项',
+        });
+        variables.push({
+          name: loopArgs[1] || 'index',
+          kind: 'loop',
+          type: 'number',
+          description: '循环的当前索引',
+        });
+      }
+      if (current.isSlot()) {
+        const params = current.getExtraProp('params', false)?.getValue();
+        if (Array.isArray(params)) {
+          params.filter((name) => typeof name === 'string' && name).forEach((name) => {
+            variables.push({ name, kind: 'slot', type: 'any', description: '插槽参数' });
+          });
+        }
+        current = current.slotFor?.owner;
+      } else {
+        current = current.parent;
+      }
+    }
+    return variables;
+  }
+
+  private getI18nKeys(): string[] {
+    const i18n = this.document.project?.i18n || {};
+    const keys = new Set<string>();
+    Object.keys(i18n).forEach((locale) => {
+      Object.keys(i18n[locale] || {}).forEach((key) => keys.add(key));
+    });
+    return Array.from(keys);
+  }
+
+  /**
+   * 按 this.a.b 的访问路径查找变量，找不到时返回 null
+   */
+  private resolve(scope: IPublicTypeExpressionVariable[], path: string[]): IPublicTypeExpressionVariable | null {
+    if (path[0] !== 'this') {
+      return null;
+    }
+    let variable: IPublicTypeExpressionVariable | undefined = {
+      name: 'this',
+      kind: 'context',
+      type: 'object',
+      members: scope,
+    };
+    for (let i = 1; i < path.length && variable; i++) {
+      variable = findMember(variable.members, path[i]);
+    }
+    return variable || null;
+  }
+
+  getCompletions(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionCompletionResult {
+    const before = expression.slice(0, offset);
+    const i18nMatch = /\bthis\s*\.\s*i18n\s*\(\s*['"`]([^'"`]*)$/.exec(before);
+    if (i18nMatch) {
+      const prefix = i18nMatch[1];
+      return {
+        range: { start: offset - prefix.length, end: offset },
+        items: this.getI18nKeys()
+          .filter((key) => key.startsWith(prefix))
+          .map((key) => ({ label: key, kind: 'i18n', type: 'string' })),
+      };
+    }
+
+    const { code: masked, unterminated } = maskLiterals(before);
+    if (unterminated) {
+      return { range: { start: offset, end: offset }, items: [] };
+    }
+    const word = /[A-Za-z_$][\w$]*$/.exec(masked)?.[0] || '';
+    const range = { start: offset - word.length, end: offset };
+    const head = masked.slice(0, range.start);
+    const filter = (items: IPublicTypeExpressionCompletionItem[]) => items.filter(
+      (item) => item.label.toLowerCase().startsWith(word.toLowerCase()),
+    );
+
+    if (!/\.\s*$/.test(head)) {
+      if (isIdentifierChar(head[head.length - 1])) {
+        return { range, items: [] };
+      }
+      return { range, items: filter([{ label: 'this', kind: 'context', type: 'object' }]) };
+    }
+
+    const chainMatch = /(?:^|[^\w$.])(this(?:\s*\??\.\s*[A-Za-z_$][\w$]*)*)\s*\??\.\s*$/.exec(head);
+    const variable = chainMatch
+      ? this.resolve(this.getScope(node), chainMatch[1].split('.').map((item) => item.replace(/[\s?]/g, '')))
+      : null;
+    return {
+      range,
+      items: filter((variable?.members || []).map(toCompletionItem)),
+    };
+  }
+
+  getHover(expression: string, offset: number, node?: INode | null): IPublicTypeExpressionHover | null {
+    const masked = maskLiterals(expression).code;
+    let start = offset;
+    let end = offset;
+    while (isIdentifierChar(masked[start - 1])) {
+      start--;
+    }
+    while (isIdentifierChar(masked[end])) {
+      end++;
+    }
+    if (start === end) {
+      return null;
+    }
+    const chainMatch = /(?:^|[^\w$.])(this(?:\s*\??\.\s*[A-Za-z_$][\w$]*)*)$/.exec(masked.slice(0, end));
+    if (!chainMatch) {
+      return null;
+    }
+    const path = chainMatch[1].split('.').map((item) => item.replace(/[\s?]/g, ''));
+    const variable = this.resolve(this.getScope(node), path);
+    if (!variable) {
+      return null;
+    }
+    return {
+      range: { start, end },
+      path: path.join('.'),
+      variable,
+    };
+  }
+
+  getDiagnostics(expression: string, node?: INode | null): IPublicTypeExpressionDiagnostic[] {
+    if (!expression.trim()) {
+      return [];
+    }
+    const syntaxError = this.checkSyntax(expression);
+    if (syntaxError) {
+      return [{
+        range: { start: 0, end: expression.length },
+        message: syntaxError.message,
+        level: 'error',
+      }];
+    }
+
+    const diagnostics: IPublicTypeExpressionDiagnostic[] = [];
+    const scope = this.getScope(node);
+    const masked = maskLiterals(expression).code;
+    const thisReg = /\bthis\b/g;
+    let match = thisReg.exec(masked);
+    while (match) {
+      if (masked[match.index - 1] !== '.') {
+        const { members, end } = readMemberChain(masked, match.index + 4);
+        this.checkMemberChain(scope, members, /^\s*\(/.test(masked.slice(end)), diagnostics);
+      }
+      match = thisReg.exec(masked);
+    }
+
+    const i18nKeys = this.getI18nKeys();
+    if (i18nKeys.length) {
+      const i18nReg = /\bthis\s*\.\s*i18n\s*\(\s*(['"])([^'"]*)\1/g;
+      match = i18nReg.exec(expression);
+      while (match) {
+        const key = match[2];
+        if (masked[match.index] === 't' && i18nKeys.indexOf(key) < 0) {
+          const start = match.index + match[0].length - key.length - 1;
+          diagnostics.push({
+            range: { start, end: start + key.length },
+            message: `i18n key ${key} is not defined`,
+            level: 'warning',
+          });
+        }
+        match = i18nReg.exec(expression);
+      }
+    }
+    return diagnostics;
+  }
+
+  /**
+   * 只编译不执行，用于检查语法，new Function 被 CSP 禁止时跳过检查
+   */
+  private checkSyntax(expression: string): SyntaxError | null {
+    if (this.syntaxCheckDisabled) {
+      return null;
+    }
+    try {
+      // eslint-disable-next-line no-new, no-new-func
+      new Function(`return (${expression}\n);`);
+    } catch (e) {
+      if (e instanceof SyntaxError) {
+        return e;
+      }
+      // CSP 禁止 eval 时抛出 EvalError
+      this.syntaxCheckDisabled = true;
+    }
+    return null;
+  }
+
+  private checkMemberChain(
+    scope: IPublicTypeExpressionVariable[],
+    chain: IMemberAccess[],
+    called: boolean,
+    diagnostics: IPublicTypeExpressionDiagnostic[],
+  ) {
+    let members: IPublicTypeExpressionVariable[] | undefined = scope;
+    let variable: IPublicTypeExpressionVariable | undefined;
+    let path = 'this';
+    for (let i = 0; i < chain.length; i++) {
+      if (!members) {
+        return;
+      }
+      const { name, start, end } = chain[i];
+      variable = findMember(members, name);
+      if (!variable) {
+        diagnostics.push({
+          range: { start, end },
+          message: `property ${name} does not exist on ${path}`,
+          level: 'warning',
+        });
+        return;
+      }
+      path = `${path}.${name}`;
+      members = variable.members;
+    }
+    if (called && variable && variable.type !== 'function' && variable.type !== 'any') {
+      const { start, end } = chain[chain.length - 1];
+      diagnostics.push({
+        range: { start, end },
+        message: `${path} is not a function`,
+        level: 'warning',
+      });
+    }
+  }
+}
@@ -1,6 +1,8 @@
-import { reaction, untracked, globalContext, IEventBus, createModuleEventBus } from '@alilc/lowcode-editor-core';
-import { IPublicTypeNodeSchema, IPublicModelHistory, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { reaction, untracked, globalContext, runInAction, IEventBus, createModuleEventBus } from '@alilc/lowcode-editor-core';
+import { IPublicTypeNodeSchema, IPublicModelHistory, IPublicTypeDisposable, IPublicTypeHistoryRecord } from '@alilc/lowcode-types';
 import { Logger } from '@alilc/lowcode-utils';
+import type { INode } from './node/node';
+import { EDITOR_EVENT } from '../types';
 
 const logger = new Logger({ level: 'warn', bizName: 'history' });
 
@@ -9,89 +11,199 @@ export interface Serialization<K = IPublicTypeNodeSchema, T = string> {
   unserialize(data: T): K;
 }
 
+export interface IHistoryChange {
+  label: string;
+  nodeIds: string[];
+}
+
+/**
+ * 接管撤销重做的对象，如协同编辑时撤销重做只作用于当前用户自己的变更
+ */
+export interface IHistoryUndoDelegate {
+  undo(): void;
+  redo(): void;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  onStateChange(func: () => void): IPublicTypeDisposable;
+}
+
 export interface IHistory extends IPublicModelHistory {
   onStateChange(func: () => any): IPublicTypeDisposable;
+
+  /**
+   * 描述当前的变更，会附加到变更所在的历史记录上
+   */
+  markChange(label: string, nodeIds?: string[]): void;
+
+  /**
+   * 执行变更，期间产生的变更不生成历史记录
+   */
+  silent<T>(fn: () => T): T;
+
+  /**
+   * 结束当前的历史会话，之后的变更生成新的记录
+   */
+  endSession(): void;
+
+  /**
+   * 由 delegate 接管撤销重做，接管期间 back / forward 调用 delegate，不能跳转到指定的历史记录
+   * @returns 取消接管
+   */
+  setUndoDelegate(delegate: IHistoryUndoDelegate): IPublicTypeDisposable;
 }
 
-export class History<T = IPublicTypeNodeSchema> implements IHistory {
-  private session: Session;
+/**
+ * 历史记录的基础实现，负责记录游标、会话、保存点、事务及撤销接管，记录的内容及如何恢复由子类实现
+ */
+export abstract class BaseHistory<D = any> implements IHistory {
+  protected session: Session;
 
-  private records: Session[];
+  protected records: Session[];
 
-  private point = 0;
+  protected point = 0;
 
-  private emitter: IEventBus = createModuleEventBus('History');
+  protected emitter: IEventBus;
 
-  private asleep = false;
+  protected asleep = false;
 
-  private currentSerialization: Serialization<T, string> = {
-    serialize(data: T): string {
-      return JSON.stringify(data);
-    },
-    unserialize(data: string) {
-      return JSON.parse(data);
-    },
-  };
+  protected silentDepth = 0;
+
+  protected undoDelegate: IHistoryUndoDelegate | null = null;
+
+  protected pendingChange: IHistoryChange | null = null;
 
-  get hotData() {
+  get hotData(): D {
     return this.session.data;
   }
 
-  constructor(
-      dataFn: () => T | null,
-      private redoer: (data: T) => void,
-      private timeGap: number = 1000,
-    ) {
-    this.session = new Session(0, null, this.timeGap);
+  constructor(moduleName: string, initialData: D | null, protected timeGap: number = 1000) {
+    this.emitter = createModuleEventBus(moduleName);
+    this.session = new Session(0, initialData, this.timeGap);
     this.records = [this.session];
+  }
 
-    reaction((): any => {
-      return dataFn();
-    }, (data: T) => {
-      if (this.asleep) return;
-      untracked(() => {
-        const log = this.currentSerialization.serialize(data);
+  /**
+   * 将文档恢复到指定记录的状态
+   * @param cursor 目标记录
+   * @param currentCursor 当前记录
+   */
+  protected abstract restore(cursor: number, currentCursor: number): void;
 
-        // do not record unchanged data
-        if (this.session.data === log) {
-          return;
-        }
+  /**
+   * 当前是否处于记录状态
+   */
+  isRecording(): boolean {
+    return !this.asleep && this.silentDepth === 0;
+  }
 
-        if (this.session.isActive()) {
-          this.session.log(log);
-        } else {
-          this.session.end();
-          const lastState = this.getState();
-          const cursor = this.session.cursor + 1;
-          const session = new Session(cursor, log, this.timeGap);
-          this.session = session;
-          this.records.splice(cursor, this.records.length - cursor, session);
-          const currentState = this.getState();
-          if (currentState !== lastState) {
-            this.emitter.emit('statechange', currentState);
-          }
-        }
-      });
-    }, { fireImmediately: true });
+  isSavePoint(): boolean {
+    return this.point !== this.session.cursor;
   }
 
-  setSerialization(serialization: Serialization<T, string>) {
-    this.currentSerialization = serialization;
+  markChange(label: string, nodeIds: string[] = []) {
+    if (!this.isRecording()) {
+      return;
+    }
+    // 变更描述可能先于记录产生，此时附加到下一条新的记录上
+    if (this.session.isActive()) {
+      this.session.mark({ label, nodeIds });
+      return;
+    }
+    this.pendingChange = mergeChange(this.pendingChange, { label, nodeIds });
   }
 
-  isSavePoint(): boolean {
-    return this.point !== this.session.cursor;
+  silent<R>(fn: () => R): R {
+    this.silentDepth++;
+    try {
+      return fn();
+    } finally {
+      this.silentDepth--;
+    }
+  }
+
+  endSession() {
+    this.session.end();
+  }
+
+  /**
+   * 在一条单独的历史记录中执行变更，撤销时一次撤销
+   */
+  transact<R>(label: string, fn: () => R, nodeIds?: string[]): R {
+    this.session.end();
+    const { session } = this;
+    try {
+      return runInAction(fn);
+    } finally {
+      if (this.session !== session) {
+        this.markChange(label, nodeIds);
+      }
+      this.session.end();
+    }
+  }
+
+  setUndoDelegate(delegate: IHistoryUndoDelegate): IPublicTypeDisposable {
+    this.undoDelegate = delegate;
+    const offStateChange = delegate.onStateChange(() => this.emitter.emit('statechange', this.getState()));
+    this.emitter.emit('statechange', this.getState());
+    return () => {
+      offStateChange();
+      if (this.undoDelegate === delegate) {
+        this.undoDelegate = null;
+        this.emitter.emit('statechange', this.getState());
+      }
+    };
+  }
+
+  /**
+   * 在当前记录之后新增一条记录，当前记录之后的记录会被丢弃
+   * @param change 新记录的变更描述
+   */
+  protected addRecord(data: D, change?: IHistoryChange) {
+    this.session.end();
+    const lastState = this.getState();
+    const cursor = this.session.cursor + 1;
+    const session = new Session(cursor, data, this.timeGap);
+    this.session = session;
+    this.records.splice(cursor, this.records.length - cursor, session);
+    if (change) {
+      session.mark(change);
+    }
+    if (this.pendingChange) {
+      session.mark(this.pendingChange);
+      this.pendingChange = null;
+    }
+    this.emitter.emit('cursor', data);
+    const currentState = this.getState();
+    if (currentState !== lastState) {
+      this.emitter.emit('statechange', currentState);
+    }
+  }
+
+  getRecords(): IPublicTypeHistoryRecord[] {
+    return this.records.map((session) => session.toRecord(session === this.session));
+  }
+
+  createCheckpoint(name: string) {
+    if (!this.session) {
+      return;
+    }
+    this.session.end();
+    this.session.checkpoint = name;
   }
 
-  private sleep() {
+  protected sleep() {
     this.asleep = true;
   }
 
-  private wakeup() {
+  protected wakeup() {
     this.asleep = false;
   }
 
   go(originalCursor: number) {
+    if (this.undoDelegate) {
+      logger.warn('can not go to history record while undo is delegated');
+      return;
+    }
     this.session.end();
 
     let cursor = originalCursor;
@@ -108,18 +220,18 @@ export class History<T = IPublicTypeNodeSchema> implements IHistory {
     }
 
     const session = this.records[cursor];
-    const hotData = session.data;
 
     this.sleep();
     try {
-      this.redoer(this.currentSerialization.unserialize(hotData));
-      this.emitter.emit('cursor', hotData);
+      this.restore(cursor, currentCursor);
+      this.emitter.emit('cursor', session.data);
     } catch (e) /* istanbul ignore next */ {
       logger.error(e);
     }
 
     this.wakeup();
     this.session = session;
+    this.pendingChange = null;
 
     this.emitter.emit('statechange', this.getState());
   }
@@ -128,8 +240,13 @@ export class History<T = IPublicTypeNodeSchema> implements IHistory {
     if (!this.session) {
       return;
     }
-    const cursor = this.session.cursor - 1;
-    this.go(cursor);
+    let { cursor } = this.session;
+    if (this.undoDelegate) {
+      this.undoDelegate.undo();
+    } else {
+      cursor -= 1;
+      this.go(cursor);
+    }
     const workspace = globalContext.get('workspace');
     const editor = workspace.isActive ? workspace.window.editor : globalContext.get('editor');
     if (!editor) {
@@ -142,8 +259,13 @@ export class History<T = IPublicTypeNodeSchema> implements IHistory {
     if (!this.session) {
       return;
     }
-    const cursor = this.session.cursor + 1;
-    this.go(cursor);
+    let { cursor } = this.session;
+    if (this.undoDelegate) {
+      this.undoDelegate.redo();
+    } else {
+      cursor += 1;
+      this.go(cursor);
+    }
     const workspace = globalContext.get('workspace');
     const editor = workspace.isActive ? workspace.window.editor : globalContext.get('editor');
     if (!editor) {
@@ -168,13 +290,14 @@ export class History<T = IPublicTypeNodeSchema> implements IHistory {
    */
   getState(): number {
     const { cursor } = this.session;
+    const { undoDelegate } = this;
     let state = 7;
     // undoable ?
-    if (cursor <= 0) {
+    if (undoDelegate ? !undoDelegate.canUndo() : cursor <= 0) {
       state -= 1;
     }
     // redoable ?
-    if (cursor >= this.records.length - 1) {
+    if (undoDelegate ? !undoDelegate.canRedo() : cursor >= this.records.length - 1) {
       state -= 2;
     }
     // modified ?
@@ -225,18 +348,91 @@ export class History<T = IPublicTypeNodeSchema> implements IHistory {
    *
    * @deprecated
    * @returns
-   * @memberof History
+   * @memberof BaseHistory
    */
   isModified() {
     return this.isSavePoint();
   }
 }
 
+export class History<T = IPublicTypeNodeSchema> extends BaseHistory<string> {
+  private currentSerialization: Serialization<T, string> = {
+    serialize(data: T): string {
+      return JSON.stringify(data);
+    },
+    unserialize(data: string) {
+      return JSON.parse(data);
+    },
+  };
+
+  constructor(
+      dataFn: () => T | null,
+      private redoer: (data: T) => void,
+      timeGap: number = 1000,
+    ) {
+    super('History', null, timeGap);
+
+    reaction((): any => {
+      return dataFn();
+    }, (data: T) => {
+      if (this.asleep) return;
+      untracked(() => {
+        const log = this.currentSerialization.serialize(data);
+
+        // do not record unchanged data
+        if (this.session.data === log) {
+          return;
+        }
+
+        // 不生成记录的变更直接合并到当前记录的快照中
+        if (this.silentDepth > 0) {
+          this.session.replace(log);
+          return;
+        }
+
+        if (this.session.isActive()) {
+          this.session.log(log);
+        } else {
+          this.addRecord(log);
+        }
+      });
+    }, { fireImmediately: true });
+  }
+
+  setSerialization(serialization: Serialization<T, string>) {
+    this.currentSerialization = serialization;
+  }
+
+  protected restore(cursor: number) {
+    this.redoer(this.currentSerialization.unserialize(this.records[cursor].data));
+  }
+}
+
 export class Session {
   private _data: any;
 
   private activeTimer: any;
 
+  /**
+   * 变更描述
+   */
+  label = '';
+
+  /**
+   * 最后一次变更的时间
+   */
+  timestamp = Date.now();
+
+  /**
+   * 受影响的节点 id
+   */
+  readonly nodeIds = new Set<string>();
+
+  /**
+   * 检查点名称
+   */
+  checkpoint?: string;
+
   get data() {
     return this._data;
   }
@@ -251,9 +447,35 @@ export class Session {
       return;
     }
     this._data = data;
+    this.timestamp = Date.now();
     this.setTimer();
   }
 
+  /**
+   * 替换记录的数据，不改变记录的活跃状态
+   */
+  replace(data: any) {
+    this._data = data;
+  }
+
+  mark(change: IHistoryChange) {
+    if (change.label) {
+      this.label = change.label;
+    }
+    change.nodeIds.forEach((id) => this.nodeIds.add(id));
+  }
+
+  toRecord(isCurrent: boolean): IPublicTypeHistoryRecord {
+    return {
+      cursor: this.cursor,
+      label: this.label,
+      timestamp: this.timestamp,
+      nodeIds: Array.from(this.nodeIds),
+      checkpoint: this.checkpoint,
+      isCurrent,
+    };
+  }
+
   isActive() {
     return this.activeTimer != null;
   }
@@ -276,3 +498,51 @@ export class Session {
     this.activeTimer = null;
   }
 }
+
+function mergeChange(change: IHistoryChange | null, next: IHistoryChange): IHistoryChange {
+  if (!change) {
+    return { label: next.label, nodeIds: [...next.nodeIds] };
+  }
+  return {
+    label: next.label || change.label,
+    nodeIds: change.nodeIds.concat(next.nodeIds),
+  };
+}
+
+/**
+ * 节点是否挂载在文档树上，未挂载的节点（创建中、已移除、销毁中）的变更不需要记录
+ */
+export function isNodeAttached(node: INode | null | undefined): boolean {
+  let current = node;
+  while (current) {
+    if (current.isPurging || current.isPurged) {
+      return false;
+    }
+    if (current.isRoot()) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * 为节点所在文档的历史记录添加变更描述
+ */
+export function markNodeChange(node: INode, label: string, nodeIds: string[] = [node.id]) {
+  const history = node?.document?.history;
+  if (!history || !node.isInited || !isNodeAttached(node)) {
+    return;
+  }
+  history.markChange(label, nodeIds);
+}
+
+/**
+ * 通知节点自身的数据发生了变更
+ */
+export function emitNodeChange(node: INode) {
+  if (!node?.isInited) {
+    return;
+  }
+  node.document?.designer.editor?.eventBus.emit(EDITOR_EVENT.NODE_CHANGE, { node });
+}
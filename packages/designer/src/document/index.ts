@@ -2,3 +2,8 @@ export * from './document-model';
 export * from './node';
 export * from './selection';
 export * from './history';
+export * from './patch-history';
+export * from './collaboration';
+export * from './expression-service';
+export * from './comments';
+export * from './diff-review';
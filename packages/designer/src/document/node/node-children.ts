@@ -4,6 +4,9 @@ import { IPublicTypeNodeData, IPublicModelNodeChildren, IPublicEnumTransformStag
 import { shallowEqual, compatStage, isNodeSchema } from '@alilc/lowcode-utils';
 import { foreachReverse } from '../../utils/tree';
 import { NodeRemoveOptions } from '../../types';
+import { getOperationRecorder, getChildPath, recordNodeChange } from '../patch-history';
+import type { IPatchHistory } from '../patch-history';
+import { markNodeChange } from '../history';
 
 export interface IOnChangeOptions {
   type: string;
@@ -209,6 +212,17 @@ export class NodeChildren implements INodeChildren {
    * 删除一个节点
    */
   internalDelete(node: INode, purge = false, useMutator = true, options: NodeRemoveOptions = {}): boolean {
+    const recorder = getOperationRecorder(this.owner);
+    if (recorder && !node.isSlot() && this.has(node)) {
+      recorder.record({
+        op: 'remove',
+        path: getChildPath(this.owner, this.indexOf(node)),
+        oldValue: node.export(IPublicEnumTransformStage.Serilize),
+      });
+    }
+    if (!node.isSlot() && this.has(node)) {
+      markNodeChange(this.owner, `Remove node ${node.id}`, [node.id, this.owner.id]);
+    }
     node.internalPurgeStart();
     if (node.isParentalNode) {
       foreachReverse(
@@ -280,6 +294,19 @@ export class NodeChildren implements INodeChildren {
 
     const i = children.map(d => d.id).indexOf(node.id);
 
+    const recorder = node.isSlot() ? null : getOperationRecorder(this.owner);
+    const from = recorder && node.parent && getOperationRecorder(node.parent) ?
+      getChildPath(node.parent, node.index!) :
+      null;
+
+    if (!node.isSlot()) {
+      markNodeChange(
+        this.owner,
+        node.parent ? `Move node ${node.id}` : `Add node ${node.id}`,
+        node.parent ? [node.id, node.parent.id, this.owner.id] : [node.id, this.owner.id],
+      );
+    }
+
     if (node.parent) {
       if (globalContext.has('editor')) {
         const workspace = globalContext.get('workspace');
@@ -297,6 +324,7 @@ export class NodeChildren implements INodeChildren {
       } else {
         children.push(node);
       }
+      this.recordInsert(recorder, node, from);
       node.internalSetParent(this.owner, useMutator);
     } else {
       if (index > i) {
@@ -309,6 +337,7 @@ export class NodeChildren implements INodeChildren {
 
       children.splice(i, 1);
       children.splice(index, 0, node);
+      this.recordInsert(recorder, node, from);
     }
 
     this.emitter.emit('change', {
@@ -450,6 +479,14 @@ export class NodeChildren implements INodeChildren {
     adder: (children: INode[]) => IPublicTypeNodeData[] | null,
     sorter: (firstNode: INode, secondNode: INode) => number,
   ): any {
+    recordNodeChange(this.owner, () => this.internalMergeChildren(remover, adder, sorter));
+  }
+
+  private internalMergeChildren(
+    remover: (node: INode, idx: number) => boolean,
+    adder: (children: INode[]) => IPublicTypeNodeData[] | null,
+    sorter: (firstNode: INode, secondNode: INode) => number,
+  ) {
     let changed = false;
     if (remover) {
       const willRemove = this.children.filter(remover);
@@ -498,6 +535,19 @@ export class NodeChildren implements INodeChildren {
     };
   }
 
+  /**
+   * 记录插入操作，节点原本就挂载在文档树上时记录为移动
+   */
+  private recordInsert(recorder: IPatchHistory | null, node: INode, from: string | null) {
+    if (!recorder) {
+      return;
+    }
+    const path = getChildPath(this.owner, this.indexOf(node));
+    recorder.record(from ?
+      { op: 'move', from, path } :
+      { op: 'add', path, value: node.export(IPublicEnumTransformStage.Serilize) });
+  }
+
   private reportModified(node: INode, owner: INode, options = {}) {
     if (!node) {
       return;
@@ -30,6 +30,7 @@ import type { IExclusiveGroup } from './exclusive-group';
 import { includeSlot, removeSlot } from '../../utils/slot';
 import { foreachReverse } from '../../utils/tree';
 import { NodeRemoveOptions, EDITOR_EVENT } from '../../types';
+import { recordNodeChange } from '../patch-history';
 
 export interface NodeStatus {
   locking: boolean;
@@ -67,6 +68,8 @@ export interface IBaseNode<Schema extends IPublicTypeNodeSchema = IPublicTypeNod
 > {
   isNode: boolean;
 
+  isInited: boolean;
+
   get componentMeta(): IComponentMeta;
 
   get settingEntry(): ISettingTopEntry;
@@ -845,11 +848,13 @@ export class Node<Schema extends IPublicTypeNodeSchema = IPublicTypeNodeSchema>
    * 设置多个属性值，替换原有值
    */
   setProps(props?: IPublicTypePropsMap | IPublicTypePropsList | Props | null) {
-    if (props instanceof Props) {
-      this.props = props;
-      return;
-    }
-    this.props.import(props);
+    recordNodeChange(this, () => {
+      if (props instanceof Props) {
+        this.props = props;
+        return;
+      }
+      this.props.import(props);
+    });
   }
 
   /**
@@ -909,23 +914,25 @@ export class Node<Schema extends IPublicTypeNodeSchema = IPublicTypeNodeSchema>
 
   import(data: Schema, checkId = false) {
     const { componentName, id, children, props, ...extras } = data;
-    if (this.isSlot()) {
-      foreachReverse(
-        this.children!,
-        (subNode: INode) => {
-          subNode.remove(true, true);
-        },
-        (iterable, idx) => (iterable as INodeChildren).get(idx),
-      );
-    }
-    if (this.isParental()) {
-      this.props.import(props, extras);
-      this._children?.import(children, checkId);
-    } else {
-      this.props
-        .get('children', true)!
-        .setValue(isDOMText(children) || isJSExpression(children) ? children : '');
-    }
+    recordNodeChange(this, () => {
+      if (this.isSlot()) {
+        foreachReverse(
+          this.children!,
+          (subNode: INode) => {
+            subNode.remove(true, true);
+          },
+          (iterable, idx) => (iterable as INodeChildren).get(idx),
+        );
+      }
+      if (this.isParental()) {
+        this.props.import(props, extras);
+        this._children?.import(children, checkId);
+      } else {
+        this.props
+          .get('children', true)!
+          .setValue(isDOMText(children) || isJSExpression(children) ? children : '');
+      }
+    });
   }
 
   toData() {
@@ -1468,23 +1475,26 @@ export function insertChild(
   at?: number | null,
   copy?: boolean,
 ): INode | null {
-  let node: INode | null | IRootNode | undefined;
-  let nodeSchema: IPublicTypeNodeSchema;
-  if (isNode<INode>(thing) && (copy || thing.isSlot())) {
-    nodeSchema = thing.export(IPublicEnumTransformStage.Clone);
-    node = container.document?.createNode(nodeSchema);
-  } else if (isNode<INode>(thing)) {
-    node = thing;
-  } else if (isNodeSchema(thing)) {
-    node = container.document?.createNode(thing);
-  }
-
-  if (isNode<INode>(node)) {
-    container.children?.insert(node, at);
-    return node;
-  }
+  // 创建与插入在同一批次中完成，监听文档变更的 reaction 只执行一次
+  return runInAction(() => {
+    let node: INode | null | IRootNode | undefined;
+    let nodeSchema: IPublicTypeNodeSchema;
+    if (isNode<INode>(thing) && (copy || thing.isSlot())) {
+      nodeSchema = thing.export(IPublicEnumTransformStage.Clone);
+      node = container.document?.createNode(nodeSchema);
+    } else if (isNode<INode>(thing)) {
+      node = thing;
+    } else if (isNodeSchema(thing)) {
+      node = container.document?.createNode(thing);
+    }
+
+    if (isNode<INode>(node)) {
+      container.children?.insert(node, at);
+      return node;
+    }
 
-  return null;
+    return null;
+  });
 }
 
 export function insertChildren(
@@ -1493,14 +1503,16 @@ export function insertChildren(
   at?: number | null,
   copy?: boolean,
 ): INode[] {
-  let index = at;
-  let node: any;
-  const results: INode[] = [];
-  // eslint-disable-next-line no-cond-assign
-  while ((node = nodes.pop())) {
-    node = insertChild(container, node, index, copy);
-    results.push(node);
-    index = node.index;
-  }
-  return results;
+  return runInAction(() => {
+    let index = at;
+    let node: any;
+    const results: INode[] = [];
+    // eslint-disable-next-line no-cond-assign
+    while ((node = nodes.pop())) {
+      node = insertChild(container, node, index, copy);
+      results.push(node);
+      index = node.index;
+    }
+    return results;
+  });
 }
@@ -6,6 +6,8 @@ import { valueToSource } from './value-to-source';
 import { IPropParent } from './props';
 import type { IProps } from './props';
 import { ISlotNode, INode } from '../node';
+import { recordPropChange } from '../../patch-history';
+import { markNodeChange } from '../../history';
 // import { TransformStage } from '../transform-stage';
 
 const { set: mobxSet, isObservableArray } = mobx;
@@ -22,8 +24,12 @@ export interface IProp extends Omit<IPublicModelProp<
 
   readonly owner: INode;
 
+  parent: IPropParent;
+
   delete(prop: IProp): void;
 
+  get(path: string | number, createIfNone?: boolean): IProp | null;
+
   export(stage: IPublicEnumTransformStage): IPublicTypeCompositeValue;
 
   getNode(): INode;
@@ -361,35 +367,37 @@ export class Prop implements IProp, IPropParent {
     if (val === this._value) return;
     const editor = this.owner.document?.designer.editor;
     const oldValue = this._value;
-    this._value = val;
-    this._code = null;
-    const t = typeof val;
-    if (val == null) {
-      // this._value = undefined;
-      this._type = 'literal';
-    } else if (t === 'string' || t === 'number' || t === 'boolean') {
-      this._type = 'literal';
-    } else if (Array.isArray(val)) {
-      this._type = 'list';
-    } else if (isPlainObject(val)) {
-      if (isJSSlot(val)) {
-        this.setAsSlot(val);
-      } else if (isJSExpression(val)) {
+    recordPropChange(this, () => {
+      this._value = val;
+      this._code = null;
+      const t = typeof val;
+      if (val == null) {
+        // this._value = undefined;
+        this._type = 'literal';
+      } else if (t === 'string' || t === 'number' || t === 'boolean') {
+        this._type = 'literal';
+      } else if (Array.isArray(val)) {
+        this._type = 'list';
+      } else if (isPlainObject(val)) {
+        if (isJSSlot(val)) {
+          this.setAsSlot(val);
+        } else if (isJSExpression(val)) {
+          this._type = 'expression';
+        } else {
+          this._type = 'map';
+        }
+      } else /* istanbul ignore next */ {
         this._type = 'expression';
-      } else {
-        this._type = 'map';
+        this._value = {
+          type: 'JSExpression',
+          value: valueToSource(val),
+        };
       }
-    } else /* istanbul ignore next */ {
-      this._type = 'expression';
-      this._value = {
-        type: 'JSExpression',
-        value: valueToSource(val),
-      };
-    }
 
-    this.dispose();
-    // setValue 的时候，如果不重新建立 items，items 的 setValue 没有触发，会导致子项的响应式逻辑不能被触发
-    this.setupItems();
+      this.dispose();
+      // setValue 的时候，如果不重新建立 items，items 的 setValue 没有触发，会导致子项的响应式逻辑不能被触发
+      this.setupItems();
+    });
 
     if (oldValue !== this._value) {
       const propsInfo = {
@@ -405,6 +413,7 @@ export class Prop implements IProp, IPropParent {
       });
 
       this.owner?.emitPropChange?.(propsInfo);
+      markNodeChange(this.owner, `Set prop ${this.path.join('.')} on ${this.owner.id}`);
     }
   }
 
@@ -470,7 +479,13 @@ export class Prop implements IProp, IPropParent {
    */
   @action
   unset() {
-    this._type = 'unset';
+    if (this._type === 'unset') {
+      return;
+    }
+    recordPropChange(this, () => {
+      this._type = 'unset';
+    });
+    markNodeChange(this.owner, `Remove prop ${this.path.join('.')} on ${this.owner.id}`);
   }
 
   /**
@@ -572,17 +587,19 @@ export class Prop implements IProp, IPropParent {
    */
   @action
   delete(prop: IProp): void {
-    /* istanbul ignore else */
-    if (this._items) {
-      const i = this._items.indexOf(prop);
-      if (i > -1) {
-        this._items.splice(i, 1);
-        prop.purge();
-      }
-      if (this._maps && prop.key) {
-        this._maps.delete(String(prop.key));
+    recordPropChange(this, () => {
+      /* istanbul ignore else */
+      if (this._items) {
+        const i = this._items.indexOf(prop);
+        if (i > -1) {
+          this._items.splice(i, 1);
+          prop.purge();
+        }
+        if (this._maps && prop.key) {
+          this._maps.delete(String(prop.key));
+        }
       }
-    }
+    });
   }
 
   /**
@@ -610,13 +627,15 @@ export class Prop implements IProp, IPropParent {
     if (type !== 'list' && type !== 'unset' && !force) {
       return null;
     }
-    if (type === 'unset' || (force && type !== 'list')) {
-      this.setValue([]);
-    }
-    const prop = new Prop(this, value);
-    this._items = this._items || [];
-    this._items.push(prop);
-    return prop;
+    return recordPropChange(this, () => {
+      if (type === 'unset' || (force && type !== 'list')) {
+        this.setValue([]);
+      }
+      const prop = new Prop(this, value);
+      this._items = this._items || [];
+      this._items.push(prop);
+      return prop;
+    });
   }
 
   /**
@@ -630,49 +649,51 @@ export class Prop implements IProp, IPropParent {
     if (type !== 'map' && type !== 'list' && type !== 'unset' && !force) {
       return null;
     }
-    if (type === 'unset' || (force && type !== 'map')) {
-      if (isValidArrayIndex(key)) {
-        if (type !== 'list') {
-          this.setValue([]);
+    return recordPropChange(this, () => {
+      if (type === 'unset' || (force && type !== 'map')) {
+        if (isValidArrayIndex(key)) {
+          if (type !== 'list') {
+            this.setValue([]);
+          }
+        } else {
+          this.setValue({});
         }
-      } else {
-        this.setValue({});
       }
-    }
-    const prop = isProp(value) ? value : new Prop(this, value, key);
-    let items = this._items! || [];
-    if (this.type === 'list') {
-      if (!isValidArrayIndex(key)) {
-        return null;
-      }
-      if (isObservableArray(items)) {
-        mobxSet(items, key, prop);
-      } else {
-        items[key] = prop;
-      }
-      this._items = items;
-    } else if (this.type === 'map') {
-      const maps = this._maps || new Map<string, Prop>();
-      const orig = maps?.get(key);
-      if (orig) {
-        // replace
-        const i = items.indexOf(orig);
-        if (i > -1) {
-          items.splice(i, 1, prop)[0].purge();
+      const prop = isProp(value) ? value : new Prop(this, value, key);
+      let items = this._items! || [];
+      if (this.type === 'list') {
+        if (!isValidArrayIndex(key)) {
+          return null;
+        }
+        if (isObservableArray(items)) {
+          mobxSet(items, key, prop);
+        } else {
+          items[key] = prop;
         }
-        maps?.set(key, prop);
-      } else {
-        // push
-        items.push(prop);
         this._items = items;
-        maps?.set(key, prop);
+      } else if (this.type === 'map') {
+        const maps = this._maps || new Map<string, Prop>();
+        const orig = maps?.get(key);
+        if (orig) {
+          // replace
+          const i = items.indexOf(orig);
+          if (i > -1) {
+            items.splice(i, 1, prop)[0].purge();
+          }
+          maps?.set(key, prop);
+        } else {
+          // push
+          items.push(prop);
+          this._items = items;
+          maps?.set(key, prop);
+        }
+        this._maps = maps;
+      } /* istanbul ignore next */ else {
+        return null;
       }
-      this._maps = maps;
-    } /* istanbul ignore next */ else {
-      return null;
-    }
 
-    return prop;
+      return prop;
+    });
   }
 
   /**
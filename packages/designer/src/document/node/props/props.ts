@@ -5,6 +5,7 @@ import { uniqueId, compatStage } from '@alilc/lowcode-utils';
 import { Prop, UNSET } from './prop';
 import type { IProp } from './prop';
 import { INode } from '../node';
+import { recordPropChange } from '../../patch-history';
 // import { TransformStage } from '../transform-stage';
 
 interface ExtrasObject {
@@ -270,8 +271,10 @@ export class Props implements IProps, IPropParent {
   delete(prop: IProp): void {
     const i = this.items.indexOf(prop);
     if (i > -1) {
-      this.items.splice(i, 1);
-      prop.purge();
+      recordPropChange(prop, () => {
+        this.items.splice(i, 1);
+        prop.purge();
+      }, true);
     }
   }
 
@@ -282,8 +285,10 @@ export class Props implements IProps, IPropParent {
   deleteKey(key: string): void {
     this.items = this.items.filter((item, i) => {
       if (item.key === key) {
-        item.purge();
-        this.items.splice(i, 1);
+        recordPropChange(item, () => {
+          item.purge();
+          this.items.splice(i, 1);
+        }, true);
         return false;
       }
       return true;
@@ -0,0 +1,328 @@
+import { runInAction } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Logger } from '@alilc/lowcode-utils';
+import { BaseHistory, IHistory, emitNodeChange, isNodeAttached } from './history';
+import type { IDocumentModel } from './document-model';
+import type { INode } from './node/node';
+import type { IProp } from './node/props/prop';
+
+const logger = new Logger({ level: 'warn', bizName: 'patch-history' });
+
+/**
+ * 结构化的历史操作，参考 JSON Patch (RFC 6902) 的格式
+ *
+ * path 的格式：
+ *  ''                              整个文档
+ *  /{nodeId}                       节点
+ *  /{nodeId}/children/{index}      节点的子节点
+ *  /{nodeId}/props/{key}/...       节点的属性
+ *
+ * 与 JSON Patch 不同的是，remove / replace 操作会额外记录 oldValue，以便撤销
+ */
+export interface IHistoryOperation {
+  op: 'add' | 'remove' | 'replace' | 'move';
+  path: string;
+  from?: string;
+  value?: any;
+  oldValue?: any;
+}
+
+export interface IPatchHistory extends IHistory {
+
+  /**
+   * 当前是否处于记录状态
+   */
+  isRecording(): boolean;
+
+  /**
+   * 记录一条操作
+   */
+  record(operation: IHistoryOperation | null): void;
+}
+
+export class PatchHistory extends BaseHistory<IHistoryOperation[]> implements IPatchHistory {
+  readonly isPatchHistory = true;
+
+  constructor(
+      private document: IDocumentModel,
+      timeGap: number = 1000,
+    ) {
+    super('PatchHistory', [], timeGap);
+    // 初始记录代表文档的原始状态，不再接收新的操作
+    this.session.end();
+  }
+
+  record(operation: IHistoryOperation | null) {
+    if (!operation || !this.isRecording()) {
+      return;
+    }
+
+    const change = { label: '', nodeIds: getOperationNodeIds(operation) };
+    if (this.session.isActive()) {
+      this.session.data.push(operation);
+      this.session.log(this.session.data);
+      this.session.mark(change);
+      return;
+    }
+    this.addRecord([operation], change);
+  }
+
+  protected restore(cursor: number, currentCursor: number) {
+    runInAction(() => {
+      if (cursor < currentCursor) {
+        for (let i = currentCursor; i > cursor; i--) {
+          const operations: IHistoryOperation[] = this.records[i].data;
+          for (let j = operations.length - 1; j >= 0; j--) {
+            applyOperation(this.document, invertOperation(operations[j]));
+          }
+        }
+      } else {
+        for (let i = currentCursor + 1; i <= cursor; i++) {
+          this.records[i].data.forEach((operation: IHistoryOperation) => {
+            applyOperation(this.document, operation);
+          });
+        }
+      }
+    });
+  }
+}
+
+export function isPatchHistory(obj: any): obj is IPatchHistory {
+  return obj && obj.isPatchHistory;
+}
+
+/**
+ * 获取节点所在文档的操作记录器，仅在 patch 模式且节点已挂载时返回
+ */
+export function getOperationRecorder(node: INode | null | undefined): IPatchHistory | null {
+  if (!node?.isInited) {
+    return null;
+  }
+  const history = node.document?.history;
+  if (!isPatchHistory(history) || !history.isRecording()) {
+    return null;
+  }
+  return isNodeAttached(node) ? history : null;
+}
+
+function escapePathSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function getNodePath(node: INode): string {
+  return `/${escapePathSegment(node.id)}`;
+}
+
+export function getChildPath(parent: INode, index: number): string {
+  return `${getNodePath(parent)}/children/${index}`;
+}
+
+function getPropPath(prop: IProp): string | null {
+  const segments = prop.path;
+  if (!segments.length || segments.some((segment) => segment == null)) {
+    return null;
+  }
+  return `${getNodePath(prop.owner)}/props/${segments.map(escapePathSegment).join('/')}`;
+}
+
+function isSameValue(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function createValueOperation(path: string, value: any, oldValue: any): IHistoryOperation | null {
+  if (isSameValue(value, oldValue)) {
+    return null;
+  }
+  if (oldValue === undefined) {
+    return { op: 'add', path, value };
+  }
+  if (value === undefined) {
+    return { op: 'remove', path, oldValue };
+  }
+  return { op: 'replace', path, value, oldValue };
+}
+
+/**
+ * 记录属性的变更
+ * @param deleting 变更是否会将属性移除
+ */
+export function recordPropChange<T>(prop: IProp, mutate: () => T, deleting = false): T {
+  const result = recordPropOperation(prop, mutate, deleting);
+  emitNodeChange(prop.owner);
+  return result;
+}
+
+function recordPropOperation<T>(prop: IProp, mutate: () => T, deleting: boolean): T {
+  const recorder = getOperationRecorder(prop.owner);
+  if (!recorder) {
+    return mutate();
+  }
+  // 通过 setPropValue('a.b', v) 等方式隐式创建的父级属性，记录在最外层新建的属性上，撤销时才能完整移除
+  let target = prop;
+  let oldValue = target.export(IPublicEnumTransformStage.Serilize);
+  while (oldValue === undefined && (target.parent as IProp)?.isProp) {
+    const parentValue = (target.parent as IProp).export(IPublicEnumTransformStage.Serilize);
+    if (parentValue !== undefined && !isSameValue(parentValue, {})) {
+      break;
+    }
+    target = target.parent as IProp;
+    oldValue = parentValue;
+  }
+  const path = getPropPath(target);
+  if (!path) {
+    return mutate();
+  }
+  const result = recorder.silent(mutate);
+  const value = deleting && target === prop ? undefined : target.export(IPublicEnumTransformStage.Serilize);
+  recorder.record(createValueOperation(path, value, oldValue));
+  return result;
+}
+
+/**
+ * 记录节点整体的变更，如 import、setProps 等无法拆分为细粒度操作的场景
+ */
+export function recordNodeChange<T>(node: INode, mutate: () => T): T {
+  const recorder = getOperationRecorder(node);
+  let result: T;
+  if (recorder) {
+    const oldValue = node.export(IPublicEnumTransformStage.Serilize);
+    result = recorder.silent(mutate);
+    const value = node.export(IPublicEnumTransformStage.Serilize);
+    recorder.record(createValueOperation(getNodePath(node), value, oldValue));
+  } else {
+    result = mutate();
+  }
+  emitNodeChange(node);
+  return result;
+}
+
+/**
+ * 记录整个文档的变更
+ */
+export function recordDocumentChange<T>(document: IDocumentModel, mutate: () => T): T {
+  const { history } = document;
+  if (!isPatchHistory(history) || !history.isRecording() || !document.rootNode) {
+    return mutate();
+  }
+  const oldValue = document.export(IPublicEnumTransformStage.Serilize);
+  const result = history.silent(mutate);
+  const value = document.export(IPublicEnumTransformStage.Serilize);
+  history.record(createValueOperation('', value, oldValue));
+  return result;
+}
+
+export function invertOperation(operation: IHistoryOperation): IHistoryOperation {
+  const { op, path, from, value, oldValue } = operation;
+  switch (op) {
+    case 'add':
+      return { op: 'remove', path, oldValue: value };
+    case 'remove':
+      return { op: 'add', path, value: oldValue };
+    case 'move':
+      return { op: 'move', from: path, path: from! };
+    default:
+      return { op: 'replace', path, value: oldValue, oldValue: value };
+  }
+}
+
+function parsePath(path: string): string[] {
+  if (!path) {
+    return [];
+  }
+  return path.split('/').slice(1).map(unescapePathSegment);
+}
+
+function getOperationNodeIds(operation: IHistoryOperation): string[] {
+  const ids = [parsePath(operation.path)[0], operation.from && parsePath(operation.from)[0]];
+  if (/\/children\/\d+$/.test(operation.path)) {
+    ids.push(operation.value?.id, operation.oldValue?.id);
+  }
+  return ids.filter((id): id is string => !!id);
+}
+
+function getNodeOrWarn(document: IDocumentModel, id: string): INode | null {
+  const node = document.getNode(id);
+  if (!node) {
+    logger.warn(`node ${id} not found when applying history operation`);
+  }
+  return node;
+}
+
+function applyChildOperation(document: IDocumentModel, operation: IHistoryOperation, parent: INode, index: number) {
+  const { op } = operation;
+  if (op === 'add') {
+    const node = document.createNode(operation.value);
+    if (node) {
+      parent.children?.internalInsert(node, index, false);
+    }
+    return;
+  }
+
+  if (op === 'remove') {
+    const id = operation.oldValue?.id;
+    const node = (id && document.getNode(id)) || parent.children?.get(index);
+    node?.remove(false);
+    return;
+  }
+
+  /* istanbul ignore else */
+  if (op === 'move') {
+    const [fromId, , fromIndex] = parsePath(operation.from!);
+    const fromParent = getNodeOrWarn(document, fromId);
+    const node = fromParent?.children?.get(+fromIndex);
+    if (!node) {
+      return;
+    }
+    const at = fromParent === parent && index > +fromIndex ? index + 1 : index;
+    parent.children?.internalInsert(node, at, false);
+  }
+}
+
+function applyPropOperation(operation: IHistoryOperation, node: INode, segments: string[]) {
+  const create = operation.op !== 'remove';
+  let prop = node.props?.get(segments[0], create);
+  for (let i = 1; prop && i < segments.length; i++) {
+    prop = prop.get(segments[i], create);
+  }
+  if (!prop) {
+    return;
+  }
+  if (operation.op === 'remove') {
+    prop.unset();
+  } else {
+    prop.setValue(operation.value);
+  }
+}
+
+function applyNodeOperation(node: INode, operation: IHistoryOperation) {
+  // 先销毁原有子节点，保证导入时节点 id 不会冲突
+  node.children?.children.slice().forEach((child) => child.remove(false));
+  node.import(operation.value, true);
+}
+
+/**
+ * 将操作应用到文档上
+ */
+export function applyOperation(document: IDocumentModel, operation: IHistoryOperation) {
+  const segments = parsePath(operation.path);
+  if (segments.length < 1) {
+    document.import(operation.value, true);
+    return;
+  }
+
+  const node = getNodeOrWarn(document, segments[0]);
+  if (!node) {
+    return;
+  }
+  if (segments.length === 1) {
+    applyNodeOperation(node, operation);
+  } else if (segments[1] === 'children') {
+    applyChildOperation(document, operation, node, +segments[2]);
+  } else if (segments[1] === 'props') {
+    applyPropOperation(operation, node, segments.slice(2));
+  }
+}
@@ -1,10 +1,15 @@
 import { obx, makeObservable, IEventBus, createModuleEventBus } from '@alilc/lowcode-editor-core';
 import { INode, comparePosition, PositionNO } from './node/node';
 import { DocumentModel } from './document-model';
-import { IPublicModelSelection } from '@alilc/lowcode-types';
+import { IPublicModelSelection, IPublicTypeRemoteSelection } from '@alilc/lowcode-types';
 
 export interface ISelection extends Omit<IPublicModelSelection<INode>, 'node'> {
   containsNode(node: INode, excludeRoot: boolean): boolean;
+
+  /**
+   * 设置协同编辑时其他用户的选区
+   */
+  setRemoteSelections(selections: IPublicTypeRemoteSelection[]): void;
 }
 
 export class Selection implements ISelection {
@@ -12,6 +17,8 @@ export class Selection implements ISelection {
 
   @obx.shallow private _selected: string[] = [];
 
+  @obx.ref private _remoteSelections: IPublicTypeRemoteSelection[] = [];
+
   constructor(readonly doc: DocumentModel) {
     makeObservable(this);
   }
@@ -170,4 +177,23 @@ export class Selection implements ISelection {
       this.emitter.removeListener('selectionchange', fn);
     };
   }
+
+  /**
+   * 协同编辑时其他用户的选区
+   */
+  getRemoteSelections(): IPublicTypeRemoteSelection[] {
+    return this._remoteSelections;
+  }
+
+  setRemoteSelections(selections: IPublicTypeRemoteSelection[]) {
+    this._remoteSelections = selections;
+    this.emitter.emit('remoteselectionchange', selections);
+  }
+
+  onRemoteSelectionChange(fn: (selections: IPublicTypeRemoteSelection[]) => void): () => void {
+    this.emitter.on('remoteselectionchange', fn);
+    return () => {
+      this.emitter.removeListener('remoteselectionchange', fn);
+    };
+  }
 }
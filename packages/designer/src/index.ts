@@ -6,3 +6,5 @@ export * from './project';
 export * from './builtin-simulator';
 export * from './plugin';
 export * from './types';
+export { importHtml } from './utils/html-to-schema';
+export { diffSchema } from './utils/schema-diff';
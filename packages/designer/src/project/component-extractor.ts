@@ -0,0 +1,293 @@
+import { runInAction } from '@alilc/lowcode-editor-core';
+import {
+  IPublicEnumTransformStage,
+  IPublicTypeComponentSchema,
+  IPublicTypeComponentMetadata,
+  IPublicTypeCompositeValue,
+  IPublicTypeDisposable,
+  IPublicTypeExtractComponentOptions,
+  IPublicTypeExtractComponentResult,
+  IPublicTypeFieldConfig,
+  IPublicTypeNodeSchema,
+} from '@alilc/lowcode-types';
+import { cloneDeep, isPlainObject } from '@alilc/lowcode-utils';
+import type { IDocumentModel } from '../document';
+import type { INode } from '../document/node/node';
+import { recordDocumentChange } from '../document/patch-history';
+import { collectExpressions } from '../utils/expression';
+import { collectSchema } from './schema-linter';
+import { scanExpression, collectMemberReferences } from './reference-index';
+import type { IProject } from './project';
+
+export interface IComponentExtractor {
+  extract(nodes: INode[], options?: IPublicTypeExtractComponentOptions): IPublicTypeExtractComponentResult;
+}
+
+const COMPONENT_NAME_REG = /^[A-Z][\w$]*$/;
+
+const PROP_NAME_REG = /^[A-Za-z_$][\w$]*$/;
+
+function findSchema(schemas: IPublicTypeNodeSchema[], id: string): IPublicTypeNodeSchema | null {
+  for (const schema of schemas) {
+    const { nodes } = collectSchema(schema as any);
+    const found = nodes.find((item) => item.schema.id === id);
+    if (found) {
+      return found.schema as IPublicTypeNodeSchema;
+    }
+  }
+  return null;
+}
+
+function pick(obj: any, keys: string[]): any {
+  const result: any = {};
+  keys.forEach((key) => {
+    result[key] = cloneDeep(obj[key]);
+  });
+  return result;
+}
+
+function omit(obj: any, keys: string[]): any {
+  const result: any = {};
+  Object.keys(obj || {}).forEach((key) => {
+    if (keys.indexOf(key) < 0) {
+      result[key] = obj[key];
+    }
+  });
+  return result;
+}
+
+/**
+ * 将子树提取为低代码组件
+ */
+export class ComponentExtractor implements IComponentExtractor {
+  readonly project: IProject;
+
+  constructor(project: IProject) {
+    this.project = project;
+  }
+
+  /**
+   * 检查待提取的节点，不可提取时返回原因
+   */
+  private checkNodes(nodes: INode[]): string | null {
+    if (nodes.length < 1) {
+      return 'no nodes to extract';
+    }
+    const { parent, document } = nodes[0];
+    if (!parent || !document) {
+      return 'root node can not be extracted';
+    }
+    if (nodes.some((node) => node.parent !== parent || node.document !== document)) {
+      return 'nodes to extract must have the same parent';
+    }
+    if (nodes.some((node) => node.isSlot())) {
+      return 'slot can not be extracted';
+    }
+    return null;
+  }
+
+  private checkName(componentName: string): string | null {
+    if (!COMPONENT_NAME_REG.test(componentName)) {
+      return `${componentName} is not a valid component name`;
+    }
+    if (
+      this.project.documents.some((doc) => doc.fileName === componentName) ||
+      this.project.designer.getComponentMetasMap().has(componentName)
+    ) {
+      return `component ${componentName} already exists`;
+    }
+    return null;
+  }
+
+  private generateName(): string {
+    let index = 1;
+    while (this.checkName(`Component${index}`)) {
+      index++;
+    }
+    return `Component${index}`;
+  }
+
+  extract(nodes: INode[], options: IPublicTypeExtractComponentOptions = {}): IPublicTypeExtractComponentResult {
+    const nodesError = this.checkNodes(nodes);
+    if (nodesError) {
+      return { success: false, error: nodesError };
+    }
+    const componentName = options.componentName || this.generateName();
+    const nameError = this.checkName(componentName);
+    if (nameError) {
+      return { success: false, error: nameError };
+    }
+    const doc = nodes[0].document!;
+    const parent = nodes[0].parent!;
+    const sorted = nodes.slice().sort((a, b) => (a.index || 0) - (b.index || 0));
+    const sourceSchema: any = doc.export(IPublicEnumTransformStage.Serilize) || {};
+    const children = sorted.map((node) => cloneDeep(node.export(IPublicEnumTransformStage.Serilize)));
+
+    // 节点属性转为组件属性，原属性值由组件节点传入
+    const instanceProps: Record<string, IPublicTypeCompositeValue> = {};
+    const propConfigs: IPublicTypeFieldConfig[] = [];
+    for (const item of options.props || []) {
+      const name = item.name || item.prop;
+      const node = doc.getNode(item.nodeId);
+      const schema = findSchema(children, item.nodeId);
+      if (!node || !schema || !sorted.some((root) => root === node || root.contains(node))) {
+        return { success: false, error: `node ${item.nodeId} is not in the extracted subtree` };
+      }
+      if (!PROP_NAME_REG.test(name) || name in instanceProps) {
+        return { success: false, error: `${name} is not a valid prop name or is duplicated` };
+      }
+      const props: any = schema.props || {};
+      instanceProps[name] = props[item.prop];
+      schema.props = { ...props, [item.prop]: { type: 'JSExpression', value: `this.props.${name}` } };
+      const config = (node.componentMeta.getMetadata().configure as any)?.props?.find((field: any) => field?.name === item.prop);
+      propConfigs.push({ ...config, name, title: config?.title || name });
+    }
+
+    const { state: stateKeys, methods, dataSource } = collectMemberReferences(collectExpressions(children), sourceSchema);
+    const componentSchema: IPublicTypeComponentSchema = {
+      componentName: 'Component',
+      fileName: componentName,
+      props: {},
+      children,
+    };
+    if (stateKeys.length > 0) {
+      componentSchema.state = pick(sourceSchema.state, stateKeys);
+    }
+    if (methods.length > 0) {
+      componentSchema.methods = pick(sourceSchema.methods, methods);
+    }
+    if (dataSource.length > 0) {
+      componentSchema.dataSource = {
+        list: cloneDeep(sourceSchema.dataSource.list.filter((item: any) => dataSource.indexOf(item?.id) > -1)),
+      };
+    }
+
+    const componentDoc = this.project.createDocument(cloneDeep(componentSchema));
+    const metadata: IPublicTypeComponentMetadata = {
+      componentName,
+      title: options.title || componentName,
+      devMode: 'lowCode',
+      schema: componentSchema,
+      configure: { props: propConfigs },
+    };
+    this.project.designer.createComponentMeta(metadata);
+
+    const instance = recordDocumentChange(doc, () => runInAction(() => {
+      const node = doc.insertNode(parent, { componentName, props: instanceProps }, sorted[0].index);
+      sorted.forEach((item) => item.remove(false));
+      this.removeUnused(doc, stateKeys, methods, dataSource);
+      return node!;
+    }));
+    doc.history.markChange(`Extract component ${componentName}`, [instance.id]);
+    this.syncWithHistory(doc, componentDoc, metadata, instance.id, sorted.map((node) => node.id));
+
+    return {
+      success: true,
+      componentName,
+      documentId: componentDoc.id,
+      nodeId: instance.id,
+      state: stateKeys,
+      methods,
+      dataSource,
+    };
+  }
+
+  /**
+   * 移除源文档中不再被引用的 state、方法和数据源
+   */
+  private removeUnused(doc: IDocumentModel, stateKeys: string[], methods: string[], dataSource: string[]) {
+    const schema: any = doc.export(IPublicEnumTransformStage.Serilize);
+    const { rootNode } = doc;
+    if (!isPlainObject(schema) || !rootNode) {
+      return;
+    }
+    let unusedState = stateKeys.slice();
+    let unusedMethods = methods.slice();
+    let unusedDataSource = dataSource.slice();
+    const dataSourceList: any[] = schema.dataSource?.list || [];
+    // 被移除的方法中的引用不算作引用，直到结果不再变化
+    let changed = true;
+    while (changed) {
+      const removedPaths = [
+        ...unusedState.map((key) => `/state/${key}`),
+        ...unusedMethods.map((key) => `/methods/${key}`),
+        ...unusedDataSource.map((id) => `/dataSource/list/${dataSourceList.findIndex((item) => item?.id === id)}`),
+      ];
+      const used = new Set<string>();
+      collectSchema(schema).expressions.forEach(({ value, path }) => {
+        if (removedPaths.some((removed) => path === removed || path.startsWith(`${removed}/`))) {
+          return;
+        }
+        scanExpression(value, schema).forEach(({ type, name }) => used.add(`${type}:${name}`));
+      });
+      const nextState = unusedState.filter((key) => !used.has(`state:${key}`));
+      const nextMethods = unusedMethods.filter((key) => !used.has(`method:${key}`));
+      const nextDataSource = unusedDataSource.filter((id) => !used.has(`dataSource:${id}`));
+      changed = nextState.length !== unusedState.length ||
+        nextMethods.length !== unusedMethods.length ||
+        nextDataSource.length !== unusedDataSource.length;
+      unusedState = nextState;
+      unusedMethods = nextMethods;
+      unusedDataSource = nextDataSource;
+    }
+    const removeKeys = (key: string, removed: string[]) => {
+      if (removed.length < 1) {
+        return;
+      }
+      const rest = omit(schema[key], removed);
+      if (Object.keys(rest).length > 0) {
+        rootNode.getExtraProp(key, true)?.setValue(rest);
+      } else {
+        rootNode.getExtraProp(key, false)?.remove();
+      }
+    };
+    removeKeys('state', unusedState);
+    removeKeys('methods', unusedMethods);
+    if (unusedDataSource.length > 0) {
+      const list = dataSourceList.filter((item) => unusedDataSource.indexOf(item?.id) < 0);
+      rootNode.getExtraProp('dataSource', true)?.setValue({ ...schema.dataSource, list });
+    }
+  }
+
+  /**
+   * 撤销提取时移除组件文档及物料，重做时重新创建；
+   * 撤销后产生新的记录（提取记录被丢弃）或源文档被移除时停止监听
+   */
+  private syncWithHistory(
+    doc: IDocumentModel,
+    componentDoc: IDocumentModel,
+    metadata: IPublicTypeComponentMetadata,
+    instanceId: string,
+    nodeIds: string[],
+  ) {
+    const { designer } = this.project;
+    let current: IDocumentModel | null = componentDoc;
+    let saved: any = null;
+    const disposers: IPublicTypeDisposable[] = [];
+    const dispose = () => disposers.forEach((fn) => fn());
+    disposers.push(doc.history.onChangeCursor(() => {
+      const extracted = !!doc.getNode(instanceId);
+      const restored = !extracted && nodeIds.every((id) => !!doc.getNode(id));
+      if (restored && current) {
+        saved = current.export(IPublicEnumTransformStage.Serilize);
+        current.remove();
+        current = null;
+        designer.removeComponentMeta(metadata.componentName);
+      } else if (extracted && !current && saved) {
+        current = this.project.createDocument(saved);
+        designer.createComponentMeta(metadata);
+      }
+    }));
+    disposers.push(doc.history.onChangeState(() => {
+      // 组件节点不存在且不可重做时提取记录已被丢弃
+      if (!doc.getNode(instanceId) && (doc.history.getState() & 2) === 0) {
+        dispose();
+      }
+    }));
+    disposers.push(designer.editor.eventBus.on('designer.document.remove', (data: { id: string }) => {
+      if (data.id === doc.id) {
+        dispose();
+      }
+    }));
+  }
+}
@@ -1,2 +1,6 @@
 export * from './project';
 export * from './project-view';
+export * from './schema-migration';
+export * from './schema-linter';
+export * from './reference-index';
+export * from './component-extractor';
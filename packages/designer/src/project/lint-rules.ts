@@ -0,0 +1,117 @@
+import { IPublicTypeLintExpression, IPublicTypeLintRule } from '@alilc/lowcode-types';
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 表达式中是否以 this.xxx 或 this['xxx'] 的形式引用了 name
+ */
+function isReferenced(expressions: IPublicTypeLintExpression[], name: string, prefix = 'this') {
+  const escaped = escapeRegExp(name);
+  const reg = new RegExp(`\\b${escapeRegExp(prefix)}(?:\\.${escaped}(?![\\w$])|\\[\\s*['"\`]${escaped}['"\`]\\s*\\])`);
+  return expressions.some((item) => reg.test(item.value));
+}
+
+function getDataSourceIds(schema: any): string[] {
+  const list = schema.dataSource?.list;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+  return list.map((item: any) => item?.id).filter((id: any) => typeof id === 'string' && id);
+}
+
+/**
+ * 引用了未声明的 this.state.xxx，数据源请求结果会以数据源 id 写入 state
+ */
+const noUndefinedState: IPublicTypeLintRule = {
+  name: 'no-undefined-state',
+  description: 'this.state.xxx should be declared in state or dataSource',
+  level: 'warning',
+  lint({ schema, expressions, report }) {
+    const declared = new Set([
+      ...Object.keys(schema.state || {}),
+      ...getDataSourceIds(schema),
+    ]);
+    expressions.forEach(({ value, nodeId, path }) => {
+      const reg = /\bthis\.state\.([A-Za-z_$][\w$]*)/g;
+      const reported = new Set<string>();
+      let match = reg.exec(value);
+      while (match) {
+        const name = match[1];
+        if (!declared.has(name) && !reported.has(name)) {
+          reported.add(name);
+          report({ message: `state ${name} is not defined`, nodeId, path });
+        }
+        match = reg.exec(value);
+      }
+    });
+  },
+};
+
+/**
+ * 声明了但没有被任何表达式引用的方法
+ */
+const noUnusedMethods: IPublicTypeLintRule = {
+  name: 'no-unused-methods',
+  description: 'methods should be referenced by this.xxx',
+  level: 'warning',
+  lint({ schema, expressions, report }) {
+    Object.keys(schema.methods || {}).forEach((name) => {
+      const path = `/methods/${name}`;
+      const others = expressions.filter((item) => item.path !== path && !item.path.startsWith(`${path}/`));
+      if (!isReferenced(others, name)) {
+        report({ message: `method ${name} is never used`, nodeId: schema.id, path });
+      }
+    });
+  },
+};
+
+/**
+ * 声明了但没有被 this.dataSourceMap 或 this.state 引用的数据源
+ */
+const noUnusedDataSource: IPublicTypeLintRule = {
+  name: 'no-unused-data-source',
+  description: 'data sources should be referenced by this.dataSourceMap.xxx or this.state.xxx',
+  level: 'warning',
+  lint({ schema, expressions, report }) {
+    (schema.dataSource?.list || []).forEach((item: any, index: number) => {
+      const { id } = item || {};
+      if (typeof id !== 'string' || !id) {
+        return;
+      }
+      const path = `/dataSource/list/${index}`;
+      const others = expressions.filter((expression) => !expression.path.startsWith(`${path}/`));
+      if (!isReferenced(others, id, 'this.dataSourceMap') && !isReferenced(others, id, 'this.state')) {
+        report({ message: `data source ${id} is never used`, nodeId: schema.id, path });
+      }
+    });
+  },
+};
+
+/**
+ * 图片需要设置 alt
+ */
+const imgAlt: IPublicTypeLintRule = {
+  name: 'img-alt',
+  description: 'images should have alt text',
+  level: 'warning',
+  lint({ nodes, report }) {
+    nodes.forEach(({ schema, path }) => {
+      if (schema.componentName !== 'img' && schema.componentName !== 'Image') {
+        return;
+      }
+      const alt = schema.props?.alt;
+      if (alt == null || alt === '') {
+        report({ message: `${schema.componentName} should have alt text`, nodeId: schema.id, path: `${path}/props/alt` });
+      }
+    });
+  },
+};
+
+export const builtinLintRules: IPublicTypeLintRule[] = [
+  noUndefinedState,
+  noUnusedMethods,
+  noUnusedDataSource,
+  imgAlt,
+];
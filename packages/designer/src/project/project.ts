@@ -8,11 +8,41 @@ import {
   IBaseApiProject,
 } from '@alilc/lowcode-types';
 import type {
+  IPublicTypeDisposable,
   IPublicTypeProjectSchema,
   IPublicTypeRootSchema,
+  IPublicTypeSchemaMigration,
+  IPublicTypeSchemaMigrationReport,
+  IPublicTypeSchemaMigrationResult,
+  IPublicTypeSchemaValidationResult,
+  IPublicTypeLintRule,
+  IPublicTypeLintProblem,
+  IPublicTypeContainerSchema,
+  IPublicTypeReferenceTarget,
+  IPublicTypeReferenceUsage,
+  IPublicTypeRenameResult,
+  IPublicTypeBreakpoint,
+  IPublicTypeExtractComponentOptions,
+  IPublicTypeExtractComponentResult,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeNodeSchema,
+  IPublicTypeCommentThread,
 } from '@alilc/lowcode-types';
-import { isLowCodeComponentType, isProCodeComponentType } from '@alilc/lowcode-utils';
+import {
+  isLowCodeComponentType,
+  isProCodeComponentType,
+  Logger,
+  validateProjectSchema,
+} from '@alilc/lowcode-utils';
 import { ISimulatorHost } from '../simulator';
+import { ISchemaMigrations, SchemaMigrations } from './schema-migration';
+import { ISchemaLinter, SchemaLinter } from './schema-linter';
+import { IReferenceIndex, ReferenceIndex } from './reference-index';
+import { IComponentExtractor, ComponentExtractor } from './component-extractor';
+import type { INode } from '../document/node/node';
+import { importHtml, htmlToSchema, IHtmlToSchemaOptions } from '../utils/html-to-schema';
+
+const logger = new Logger({ level: 'warn', bizName: 'designer:project' });
 
 export interface IProject extends Omit<IBaseApiProject<
   IDocumentModel
@@ -34,7 +64,10 @@ export interface IProject extends Omit<IBaseApiProject<
   'selection' |
   'documents' |
   'createDocument' |
-  'getDocumentByFileName'
+  'getDocumentByFileName' |
+  'extractComponent' |
+  'importHtml' |
+  'htmlToSchema'
 > {
 
   get designer(): IDesigner;
@@ -87,11 +120,44 @@ export interface IProject extends Omit<IBaseApiProject<
   get(key: string): unknown;
 
   checkExclusive(activeDoc: DocumentModel): void;
+
+  /**
+   * 校验加载或保存的 schema，存在错误时输出到控制台
+   */
+  checkSchema(schema: IPublicTypeProjectSchema): boolean;
+
+  /**
+   * 使用注册的 lint 规则检查容器 schema
+   */
+  lintSchema(schema?: IPublicTypeContainerSchema): IPublicTypeLintProblem[];
+
+  /**
+   * 将同一父节点下的节点提取为低代码组件
+   */
+  extractComponent(nodes: INode[], options?: IPublicTypeExtractComponentOptions): IPublicTypeExtractComponentResult;
+
+  /**
+   * 将 HTML 文档导入为新的文档并打开
+   */
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): IDocumentModel | null;
+
+  /**
+   * 将 HTML 片段转换为节点 schema
+   */
+  htmlToSchema(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeNodeSchema[];
 }
 
 export class Project implements IProject {
   private emitter: IEventBus = createModuleEventBus('Project');
 
+  private schemaMigrations: ISchemaMigrations = new SchemaMigrations();
+
+  private schemaLinter: ISchemaLinter = new SchemaLinter();
+
+  private referenceIndex: IReferenceIndex = new ReferenceIndex(this);
+
+  private componentExtractor: IComponentExtractor = new ComponentExtractor(this);
+
   @obx.shallow readonly documents: IDocumentModel[] = [];
 
   private data: IPublicTypeProjectSchema = {
@@ -133,6 +199,19 @@ export class Project implements IProject {
     this._i18n = value || {};
   }
 
+  @obx.ref private _breakpoints: IPublicTypeBreakpoint[] = [];
+  get breakpoints(): IPublicTypeBreakpoint[] {
+    return this._breakpoints;
+  }
+
+  /**
+   * 当前编辑的断点，名称与画布 device 相同
+   */
+  get currentBreakpoint(): IPublicTypeBreakpoint | null {
+    const device = this.simulator?.get('device');
+    return this._breakpoints.find((breakpoint) => breakpoint.name === device) || null;
+  }
+
   private documentsMap = new Map<string, DocumentModel>();
 
   constructor(readonly designer: IDesigner, schema?: IPublicTypeProjectSchema, readonly viewName = 'global') {
@@ -185,9 +264,29 @@ export class Project implements IProject {
         .filter((doc) => !doc.isBlank())
         .map((doc) => doc.export(stage) || {} as IPublicTypeRootSchema),
       i18n: this.i18n,
+      // 评论只在编辑器中使用，不输出到渲染及出码等阶段
+      comments: [IPublicEnumTransformStage.Save, IPublicEnumTransformStage.Serilize].indexOf(stage) > -1
+        ? this.getComments()
+        : undefined,
     };
   }
 
+  /**
+   * 汇总各文档的评论，未打开的文档保留加载时的评论
+   */
+  private getComments(): Record<string, IPublicTypeCommentThread[]> | undefined {
+    const comments = { ...this.data?.comments };
+    this.documents.forEach((doc) => {
+      const threads = doc.comments.export();
+      if (threads.length) {
+        comments[doc.fileName] = threads;
+      } else {
+        delete comments[doc.fileName];
+      }
+    });
+    return Object.keys(comments).length ? comments : undefined;
+  }
+
   /**
    * 替换当前 document 的 schema，并触发渲染器的 render
    * @param schema
@@ -195,7 +294,10 @@ export class Project implements IProject {
   setSchema(schema?: IPublicTypeProjectSchema) {
     // FIXME: 这里的行为和 getSchema 并不对等，感觉不太对
     const doc = this.documents.find((doc) => doc.active);
-    doc && schema?.componentsTree[0] && doc.import(schema?.componentsTree[0]);
+    if (doc && schema?.componentsTree[0]) {
+      this.checkSchema(schema);
+      doc.import(schema.componentsTree[0]);
+    }
     this.simulator?.rerender();
   }
 
@@ -207,6 +309,15 @@ export class Project implements IProject {
   @action
   load(schema?: IPublicTypeProjectSchema, autoOpen?: boolean | string) {
     this.unload();
+    if (schema) {
+      const result = this.migrateSchema(schema);
+      if (result.success) {
+        schema = result.schema;
+      } else {
+        logger.error(`schema migration failed, load schema of version ${result.fromVersion}.`, result.error);
+      }
+      this.checkSchema(schema);
+    }
     // load new document
     this.data = {
       version: '1.0.0',
@@ -217,6 +328,7 @@ export class Project implements IProject {
     };
     this.config = schema?.config || this.config;
     this.i18n = schema?.i18n || this.i18n;
+    this._breakpoints = schema?.breakpoints || [];
 
     if (autoOpen) {
       if (autoOpen === true) {
@@ -239,6 +351,107 @@ export class Project implements IProject {
     }
   }
 
+  /**
+   * 注册 schema 版本迁移
+   */
+  registerSchemaMigration(migration: IPublicTypeSchemaMigration): IPublicTypeDisposable {
+    return this.schemaMigrations.register(migration);
+  }
+
+  /**
+   * 对 schema 执行已注册的迁移，不会修改传入的 schema
+   */
+  migrateSchema(schema: IPublicTypeProjectSchema): IPublicTypeSchemaMigrationResult {
+    return this.schemaMigrations.migrate(schema);
+  }
+
+  /**
+   * 批量试运行迁移
+   */
+  dryRunSchemaMigrations(schemas: IPublicTypeProjectSchema[]): IPublicTypeSchemaMigrationReport[] {
+    return this.schemaMigrations.dryRun(schemas);
+  }
+
+  /**
+   * 校验 schema，未传入时校验当前项目的 schema
+   */
+  validateSchema(schema?: IPublicTypeProjectSchema): IPublicTypeSchemaValidationResult {
+    return validateProjectSchema(schema || this.getSchema());
+  }
+
+  checkSchema(schema: IPublicTypeProjectSchema): boolean {
+    const { valid, diagnostics } = this.validateSchema(schema);
+    if (!valid) {
+      logger.error('invalid project schema:', diagnostics.filter((item) => item.level === 'error'));
+    }
+    return valid;
+  }
+
+  /**
+   * 注册 lint 规则
+   */
+  registerLintRule(rule: IPublicTypeLintRule): IPublicTypeDisposable {
+    return this.schemaLinter.register(rule);
+  }
+
+  lintSchema(schema?: IPublicTypeContainerSchema): IPublicTypeLintProblem[] {
+    return this.schemaLinter.lint(schema);
+  }
+
+  /**
+   * 查找所有文档中的引用
+   */
+  findUsages(target: IPublicTypeReferenceTarget): IPublicTypeReferenceUsage[] {
+    return this.referenceIndex.findUsages(target);
+  }
+
+  /**
+   * 重命名并改写所有文档中的引用
+   */
+  renameReference(target: IPublicTypeReferenceTarget, newName: string): IPublicTypeRenameResult {
+    return this.referenceIndex.rename(target, newName);
+  }
+
+  /**
+   * 将同一父节点下的节点提取为低代码组件，原子树被替换为组件节点，可以通过撤销还原
+   */
+  extractComponent(nodes: INode[], options?: IPublicTypeExtractComponentOptions): IPublicTypeExtractComponentResult {
+    return this.componentExtractor.extract(nodes, options);
+  }
+
+  /**
+   * 将 HTML 文档导入为新的文档并打开，只使用物料已注册的映射规则
+   */
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): IDocumentModel | null {
+    return this.open(importHtml(html, this.getHtmlImportOptions(options)));
+  }
+
+  /**
+   * 将 HTML 片段转换为节点 schema，只使用物料已注册的映射规则
+   */
+  htmlToSchema(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeNodeSchema[] {
+    return htmlToSchema(html, this.getHtmlImportOptions(options));
+  }
+
+  private getHtmlImportOptions(options?: IPublicTypeHtmlImportOptions): IPublicTypeHtmlImportOptions & IHtmlToSchemaOptions {
+    const metas = this.designer.getComponentMetasMap();
+    return {
+      ...options,
+      getComponentMeta: (componentName) => metas.get(componentName),
+    };
+  }
+
+  setBreakpoints(breakpoints: IPublicTypeBreakpoint[]) {
+    this.set('breakpoints', breakpoints);
+  }
+
+  /**
+   * 切换画布 device 到对应断点
+   */
+  setCurrentBreakpoint(name: string | null) {
+    this.simulator?.set('device', name ?? 'default');
+  }
+
   /**
    * 卸载当前项目数据
    */
@@ -272,6 +485,9 @@ export class Project implements IProject {
     if (key === 'i18n') {
       this.i18n = value;
     }
+    if (key === 'breakpoints') {
+      this._breakpoints = (value as IPublicTypeBreakpoint[]) || [];
+    }
     Object.assign(this.data, { [key]: value });
   }
 
@@ -303,6 +519,10 @@ export class Project implements IProject {
   @action
   createDocument(data?: IPublicTypeRootSchema): IDocumentModel {
     const doc = new DocumentModel(this, data || this?.data?.componentsTree?.[0]);
+    const threads = this.data?.comments?.[doc.fileName];
+    if (threads) {
+      doc.comments.import(threads);
+    }
     this.documents.push(doc);
     this.documentsMap.set(doc.id, doc);
     return doc;
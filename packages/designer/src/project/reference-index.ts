@@ -0,0 +1,460 @@
+import {
+  IPublicEnumTransformStage,
+  IPublicTypeContainerSchema,
+  IPublicTypeReferenceTarget,
+  IPublicTypeReferenceUsage,
+  IPublicTypeRenameResult,
+} from '@alilc/lowcode-types';
+import { cloneDeep, isPlainObject } from '@alilc/lowcode-utils';
+import type { IDocumentModel } from '../document';
+import type { INode } from '../document/node/node';
+import { recordDocumentChange } from '../document/patch-history';
+import { maskLiterals, collectExpressions } from '../utils/expression';
+import { collectSchema } from './schema-linter';
+import type { IProject } from './project';
+
+export interface IReferenceIndex {
+  findUsages(target: IPublicTypeReferenceTarget): IPublicTypeReferenceUsage[];
+
+  rename(target: IPublicTypeReferenceTarget, newName: string): IPublicTypeRenameResult;
+}
+
+interface IReference {
+  type: IPublicTypeReferenceTarget['type'];
+  name: string;
+  usage: IPublicTypeReferenceUsage;
+
+  /**
+   * 引用所在节点在文档 schema 中的路径
+   */
+  nodePath: string;
+}
+
+interface IExpressionReference {
+  type: IPublicTypeReferenceTarget['type'];
+  name: string;
+  start: number;
+  end: number;
+}
+
+const IDENTIFIER_REG = /^[A-Za-z_$][\w$]*$/;
+
+const COMPONENT_NAME_REG = /^[A-Za-z_$][\w$.]*$/;
+
+/**
+ * 渲染时 this 上由引擎提供的成员，方法不能与其重名
+ */
+const RESERVED_NAMES = [
+  'state', 'props', 'setState', 'forceUpdate', 'reloadDataSource', 'dataSourceMap',
+  'utils', 'constants', 'i18n', '$', '$$', 'getLocale', 'setLocale', 'location', 'history', 'match',
+];
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').slice(1).map((item) => item.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getByPath(data: any, path: string): any {
+  return splitPath(path).reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+/**
+ * 查找 prefix.xxx 及 prefix['xxx'] 形式的成员访问
+ */
+function scanMembers(code: string, masked: string, prefix: string): Array<{ name: string; start: number; end: number }> {
+  const result: Array<{ name: string; start: number; end: number }> = [];
+  const escaped = prefix.split('.').map(escapeRegExp).join('\\s*\\.\\s*');
+  const dotReg = new RegExp(`(^|[^\\w$.])${escaped}\\s*\\??\\.\\s*([A-Za-z_$][\\w$]*)`, 'g');
+  let match = dotReg.exec(masked);
+  while (match) {
+    const end = match.index + match[0].length;
+    result.push({ name: match[2], start: end - match[2].length, end });
+    match = dotReg.exec(masked);
+  }
+  const bracketReg = new RegExp(`(^|[^\\w$.])${escaped}\\s*(?:\\?\\.)?\\[\\s*(['"])([A-Za-z_$][\\w$]*)\\2\\s*\\]`, 'g');
+  match = bracketReg.exec(code);
+  while (match) {
+    const prefixStart = match.index + match[1].length;
+    // 忽略字符串及注释中的内容
+    if (masked[prefixStart] === code[prefixStart]) {
+      const start = code.indexOf(`${match[2]}${match[3]}`, prefixStart) + 1;
+      result.push({ name: match[3], start, end: start + match[3].length });
+    }
+    match = bracketReg.exec(code);
+  }
+  return result;
+}
+
+/**
+ * 查找 this.setState({ xxx: ... }) 中第一层的 key
+ */
+function scanSetStateKeys(masked: string): Array<{ name: string; start: number; end: number }> {
+  const result: Array<{ name: string; start: number; end: number }> = [];
+  const reg = /(^|[^\w$.])this\s*\.\s*setState\s*\(\s*\{/g;
+  let match = reg.exec(masked);
+  while (match) {
+    let depth = 1;
+    let i = match.index + match[0].length;
+    let expectKey = true;
+    while (i < masked.length && depth > 0) {
+      const char = masked[i];
+      if ('{[('.indexOf(char) > -1) {
+        depth++;
+      } else if ('}])'.indexOf(char) > -1) {
+        depth--;
+      } else if (depth === 1 && char === ',') {
+        expectKey = true;
+      } else if (depth === 1 && expectKey && /[A-Za-z_$]/.test(char)) {
+        const keyMatch = /^([A-Za-z_$][\w$]*)\s*:/.exec(masked.slice(i));
+        if (keyMatch) {
+          result.push({ name: keyMatch[1], start: i, end: i + keyMatch[1].length });
+        }
+        expectKey = false;
+      } else if (!/\s/.test(char)) {
+        expectKey = false;
+      }
+      i++;
+    }
+    match = reg.exec(masked);
+  }
+  return result;
+}
+
+/**
+ * 查找表达式中对 state、方法、数据源及 utils 的引用
+ */
+export function scanExpression(code: string, schema: any): IExpressionReference[] {
+  const { code: masked } = maskLiterals(code);
+  const stateKeys = Object.keys(schema.state || {});
+  const methods = Object.keys(schema.methods || {});
+  const dataSourceIds = (schema.dataSource?.list || []).map((item: any) => item?.id);
+  const result: IExpressionReference[] = [];
+  // 未在 state 中声明、与数据源 id 同名的 state 为数据源的请求结果
+  const getStateType = (name: string) => (
+    stateKeys.indexOf(name) < 0 && dataSourceIds.indexOf(name) > -1 ? 'dataSource' : 'state'
+  );
+  scanMembers(code, masked, 'this.state').forEach((item) => result.push({ ...item, type: getStateType(item.name) }));
+  scanSetStateKeys(masked).forEach((item) => result.push({ ...item, type: getStateType(item.name) }));
+  scanMembers(code, masked, 'this.dataSourceMap').forEach((item) => result.push({ ...item, type: 'dataSource' }));
+  scanMembers(code, masked, 'this.utils').forEach((item) => result.push({ ...item, type: 'util' }));
+  scanMembers(code, masked, 'this')
+    .filter((item) => methods.indexOf(item.name) > -1)
+    .forEach((item) => result.push({ ...item, type: 'method' }));
+  return result.sort((a, b) => a.start - b.start);
+}
+
+export interface IMemberReferences {
+  state: string[];
+  methods: string[];
+  dataSource: string[];
+}
+
+/**
+ * 收集代码引用的 state、方法及数据源，被引用的 state 初始值、方法及数据源配置中的引用也会被收集
+ */
+export function collectMemberReferences(codes: string[], schema: any): IMemberReferences {
+  const result: IMemberReferences = { state: [], methods: [], dataSource: [] };
+  const dataSourceList: any[] = schema.dataSource?.list || [];
+  const scan = (code: string) => {
+    scanExpression(code, schema).forEach(({ type, name }) => {
+      if (type === 'state') {
+        add(result.state, name, schema.state?.[name]);
+      } else if (type === 'method') {
+        add(result.methods, name, schema.methods?.[name]);
+      } else if (type === 'dataSource') {
+        add(result.dataSource, name, dataSourceList.find((item) => item?.id === name));
+      }
+    });
+  };
+  const add = (list: string[], name: string, value: any) => {
+    if (value !== undefined && list.indexOf(name) < 0) {
+      list.push(name);
+      collectExpressions(value).forEach(scan);
+    }
+  };
+  codes.forEach(scan);
+  return result;
+}
+
+/**
+ * 按新名称改写代码中对 state、方法及数据源的引用
+ */
+export function renameMemberReferences(
+  code: string,
+  schema: any,
+  renames: Partial<Record<'state' | 'method' | 'dataSource', Record<string, string>>>,
+): string {
+  let result = code;
+  scanExpression(code, schema)
+    .filter(({ type, name }) => !!(renames as any)[type]?.[name])
+    .sort((a, b) => b.start - a.start)
+    .forEach(({ type, name, start, end }) => {
+      result = result.slice(0, start) + (renames as any)[type][name] + result.slice(end);
+    });
+  return result;
+}
+
+function renameKey(obj: any, name: string, newName: string) {
+  const result: any = {};
+  Object.keys(obj).forEach((key) => {
+    result[key === name ? newName : key] = obj[key];
+  });
+  return result;
+}
+
+/**
+ * 项目级的引用索引，基于各文档的 schema 查找组件、state、方法、数据源及 utils 的引用，并支持跨文档重命名
+ */
+export class ReferenceIndex implements IReferenceIndex {
+  readonly project: IProject;
+
+  constructor(project: IProject) {
+    this.project = project;
+  }
+
+  /**
+   * 收集文档内的所有引用
+   */
+  private collect(doc: IDocumentModel): IReference[] {
+    const schema = doc.export(IPublicEnumTransformStage.Serilize) as IPublicTypeContainerSchema;
+    if (!isPlainObject(schema)) {
+      return [];
+    }
+    const { nodes, expressions } = collectSchema(schema);
+    const nodePaths = new Map<string | undefined, string>(nodes.map((item) => [item.schema.id, item.path]));
+    const references: IReference[] = [];
+    const base = { documentId: doc.id, fileName: doc.fileName };
+    const add = (type: IReference['type'], name: string, usage: Omit<IPublicTypeReferenceUsage, 'documentId' | 'fileName'>) => {
+      references.push({
+        type,
+        name,
+        usage: { ...base, ...usage },
+        nodePath: nodePaths.get(usage.nodeId) || '',
+      });
+    };
+    const rootId = schema.id;
+
+    if (['Block', 'Component'].indexOf(schema.componentName) > -1 && schema.fileName) {
+      add('component', schema.fileName, { nodeId: rootId, path: '/fileName', kind: 'declaration' });
+    }
+    Object.keys(schema.state || {}).forEach((key) => {
+      add('state', key, { nodeId: rootId, path: `/state/${key}`, kind: 'declaration' });
+    });
+    Object.keys(schema.methods || {}).forEach((key) => {
+      add('method', key, { nodeId: rootId, path: `/methods/${key}`, kind: 'declaration' });
+    });
+    (schema.dataSource?.list || []).forEach((item: any, index: number) => {
+      if (item && typeof item.id === 'string') {
+        add('dataSource', item.id, { nodeId: rootId, path: `/dataSource/list/${index}/id`, kind: 'declaration' });
+      }
+    });
+    nodes.forEach(({ schema: node, path }) => {
+      if (path) {
+        add('component', node.componentName, { nodeId: node.id, path: `${path}/componentName`, kind: 'node' });
+      }
+    });
+    expressions.forEach(({ value, nodeId, path }) => {
+      scanExpression(value, schema).forEach(({ type, name, start, end }) => {
+        add(type, name, { nodeId, path, kind: 'expression', range: { start, end } });
+      });
+    });
+    return references;
+  }
+
+  private getDocuments(target: IPublicTypeReferenceTarget): IDocumentModel[] {
+    const { documents } = this.project;
+    if (!target.documentId) {
+      return documents;
+    }
+    return documents.filter((doc) => doc.id === target.documentId);
+  }
+
+  private findReferences(target: IPublicTypeReferenceTarget): IReference[] {
+    const result: IReference[] = [];
+    this.getDocuments(target).forEach((doc) => {
+      this.collect(doc).forEach((reference) => {
+        if (reference.type === target.type && reference.name === target.name) {
+          result.push(reference);
+        }
+      });
+    });
+    return result;
+  }
+
+  findUsages(target: IPublicTypeReferenceTarget): IPublicTypeReferenceUsage[] {
+    return this.findReferences(target).map((item) => item.usage);
+  }
+
+  /**
+   * 组件名是否已被低代码组件文档、componentsMap 或物料元数据使用
+   */
+  private hasComponent(componentName: string): boolean {
+    const componentsMap: any[] = this.project.get('componentsMap') || [];
+    return this.project.documents.some((doc) => doc.fileName === componentName) ||
+      componentsMap.some((item) => item?.componentName === componentName) ||
+      this.project.designer.getComponentMetasMap().has(componentName);
+  }
+
+  /**
+   * 检查新名称是否可用，不可用时返回原因
+   */
+  private checkName(target: IPublicTypeReferenceTarget, newName: string): string | null {
+    const { type, name } = target;
+    if (!(type === 'component' ? COMPONENT_NAME_REG : IDENTIFIER_REG).test(newName)) {
+      return `${newName} is not a valid name`;
+    }
+    if (newName === name) {
+      return `${newName} is the same as the original name`;
+    }
+    if (type === 'method' && RESERVED_NAMES.indexOf(newName) > -1) {
+      return `${newName} is reserved`;
+    }
+    if (type === 'util') {
+      const utils: any[] = this.project.get('utils') || [];
+      return utils.some((item) => item?.name === newName) ? `util ${newName} already exists` : null;
+    }
+    if (type === 'component') {
+      return this.hasComponent(newName) ? `component ${newName} already exists` : null;
+    }
+    const conflict = this.getDocuments(target).find((doc) => {
+      const schema: any = doc.export(IPublicEnumTransformStage.Serilize) || {};
+      switch (type) {
+        case 'state':
+          return newName in (schema.state || {});
+        case 'method':
+          return newName in (schema.methods || {});
+        default:
+          return (schema.dataSource?.list || []).some((item: any) => item?.id === newName);
+      }
+    });
+    return conflict ? `${type} ${newName} already exists in document ${conflict.fileName}` : null;
+  }
+
+  /**
+   * 重命名并改写所有引用，每个文档内的修改在一个事务中记录为一条单独的历史记录，重命名组件时同步修改 componentsMap 及物料元数据
+   */
+  rename(target: IPublicTypeReferenceTarget, newName: string): IPublicTypeRenameResult {
+    const error = this.checkName(target, newName);
+    if (error) {
+      return { success: false, usages: [], error };
+    }
+    const references = this.findReferences(target);
+    // 先修改物料元数据，重建的节点使用新组件名的元数据
+    if (target.type === 'component') {
+      this.renameComponent(target.name, newName);
+    }
+    const byDocument = new Map<string, IReference[]>();
+    references.forEach((reference) => {
+      const { documentId } = reference.usage;
+      byDocument.set(documentId, (byDocument.get(documentId) || []).concat(reference));
+    });
+    byDocument.forEach((items, documentId) => {
+      const doc = this.project.getDocument(documentId);
+      if (doc) {
+        this.applyRename(doc, items, newName);
+      }
+    });
+    if (target.type === 'util') {
+      const utils: any[] = this.project.get('utils') || [];
+      this.project.set('utils', utils.map((item) => (item?.name === target.name ? { ...item, name: newName } : item)));
+    }
+    return {
+      success: true,
+      usages: references.map((item) => item.usage),
+    };
+  }
+
+  /**
+   * 修改 componentsMap 及物料元数据中的组件名
+   */
+  private renameComponent(componentName: string, newName: string) {
+    const componentsMap: any[] = this.project.get('componentsMap') || [];
+    if (componentsMap.some((item) => item?.componentName === componentName)) {
+      this.project.set('componentsMap', componentsMap.map((item) => (
+        item?.componentName === componentName ? { ...item, componentName: newName } : item
+      )));
+    }
+    const { designer } = this.project;
+    const meta = designer.getComponentMetasMap().get(componentName);
+    if (meta) {
+      designer.createComponentMeta({ ...meta.getMetadata(), componentName: newName });
+      designer.removeComponentMeta(componentName);
+    }
+  }
+
+  private applyRename(doc: IDocumentModel, references: IReference[], newName: string) {
+    const oldSchema: any = doc.export(IPublicEnumTransformStage.Serilize);
+    const schema = cloneDeep(oldSchema);
+
+    // 先改写导出的 schema，再将变化的部分写回节点
+    const expressionEdits = new Map<string, IReference[]>();
+    references.forEach((reference) => {
+      const { usage } = reference;
+      if (usage.kind === 'expression') {
+        expressionEdits.set(usage.path, (expressionEdits.get(usage.path) || []).concat(reference));
+      } else if (usage.kind === 'node') {
+        getByPath(schema, usage.path.slice(0, -'/componentName'.length)).componentName = newName;
+      } else if (usage.path === '/fileName') {
+        schema.fileName = newName;
+      } else if (reference.type === 'dataSource') {
+        getByPath(schema, usage.path.slice(0, -'/id'.length)).id = newName;
+      } else {
+        const field = reference.type === 'state' ? 'state' : 'methods';
+        schema[field] = renameKey(schema[field], reference.name, newName);
+      }
+    });
+    expressionEdits.forEach((items, path) => {
+      const expression = getByPath(schema, path);
+      let { value } = expression;
+      items
+        .map((item) => item.usage.range!)
+        .sort((a, b) => b.start - a.start)
+        .forEach(({ start, end }) => {
+          value = value.slice(0, start) + newName + value.slice(end);
+        });
+      expression.value = value;
+    });
+
+    const nodeIds = Array.from(new Set(references.map((item) => item.usage.nodeId).filter(Boolean))) as string[];
+    const label = `Rename ${references[0].type} ${references[0].name} to ${newName}`;
+    doc.history.transact(label, () => recordDocumentChange(doc, () => {
+      const replaced: INode[] = [];
+      references.forEach(({ usage, nodePath }) => {
+        const node = usage.nodeId ? doc.getNode(usage.nodeId) : null;
+        if (!node) {
+          return;
+        }
+        if (usage.kind === 'node') {
+          replaced.push(node);
+          return;
+        }
+        const [key, ...rest] = splitPath(usage.path.slice(nodePath.length));
+        if (key !== 'props') {
+          // state、methods、dataSource 等容器上的字段整体写回
+          node.getExtraProp(key, true)?.setValue(cloneDeep(getByPath(schema, `${nodePath}/${key}`)));
+          return;
+        }
+        let prop = node.getProp(rest[0], false);
+        rest.slice(1).forEach((item) => {
+          prop = prop?.get(/^\d+$/.test(item) ? Number(item) : item, false) || null;
+        });
+        prop?.setValue(cloneDeep(getByPath(schema, usage.path)));
+      });
+      // 组件名无法直接修改，使用新的组件名重建节点，子节点先于父节点重建
+      replaced
+        .sort((a, b) => b.zLevel - a.zLevel)
+        .forEach((node) => {
+          const { parent, index } = node;
+          if (!parent) {
+            return;
+          }
+          const data = { ...node.export(IPublicEnumTransformStage.Serilize), componentName: newName };
+          node.remove(false);
+          doc.insertNode(parent, data, index);
+        });
+    }), nodeIds);
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  IPublicTypeContainerSchema,
+  IPublicTypeDisposable,
+  IPublicTypeLintContext,
+  IPublicTypeLintExpression,
+  IPublicTypeLintNode,
+  IPublicTypeLintProblem,
+  IPublicTypeLintRule,
+} from '@alilc/lowcode-types';
+import { isPlainObject, Logger, walkNodeSchema } from '@alilc/lowcode-utils';
+import { builtinLintRules } from './lint-rules';
+
+const logger = new Logger({ level: 'warn', bizName: 'designer:schema-linter' });
+
+export interface ISchemaLinter {
+  register(rule: IPublicTypeLintRule): IPublicTypeDisposable;
+
+  lint(schema?: IPublicTypeContainerSchema): IPublicTypeLintProblem[];
+}
+
+/**
+ * 收集容器 schema 内的所有节点及 JSExpression / JSFunction，路径相对于容器 schema
+ */
+export function collectSchema(schema: IPublicTypeContainerSchema): {
+  nodes: IPublicTypeLintNode[];
+  expressions: IPublicTypeLintExpression[];
+} {
+  const nodes: IPublicTypeLintNode[] = [];
+  const expressions: IPublicTypeLintExpression[] = [];
+  walkNodeSchema(schema, {
+    node: (node, path) => nodes.push({ schema: node, path }),
+    expression: (value, path, nodeId) => {
+      if (typeof value.value === 'string') {
+        expressions.push({
+          type: value.type,
+          value: value.value,
+          nodeId,
+          path,
+        });
+      }
+    },
+  });
+  return { nodes, expressions };
+}
+
+/**
+ * schema lint 引擎，收集容器内的节点及表达式后依次执行注册的规则
+ */
+export class SchemaLinter implements ISchemaLinter {
+  private rules = new Map<string, IPublicTypeLintRule>();
+
+  constructor() {
+    builtinLintRules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * 注册规则，同名规则会被覆盖，注销后恢复被覆盖的规则
+   */
+  register(rule: IPublicTypeLintRule): IPublicTypeDisposable {
+    const { name } = rule;
+    const replaced = this.rules.get(name);
+    this.rules.set(name, rule);
+    return () => {
+      if (this.rules.get(name) !== rule) {
+        return;
+      }
+      if (replaced) {
+        this.rules.set(name, replaced);
+      } else {
+        this.rules.delete(name);
+      }
+    };
+  }
+
+  lint(schema?: IPublicTypeContainerSchema): IPublicTypeLintProblem[] {
+    if (!isPlainObject(schema)) {
+      return [];
+    }
+    const collected = collectSchema(schema!);
+    const problems: IPublicTypeLintProblem[] = [];
+    this.rules.forEach((rule) => {
+      const context: IPublicTypeLintContext = {
+        schema: schema!,
+        nodes: collected.nodes,
+        expressions: collected.expressions,
+        report({ message, nodeId, path, level }) {
+          problems.push({
+            path: path ?? (collected.nodes.find((item) => item.schema.id === nodeId)?.path || ''),
+            message,
+            level: level || rule.level || 'warning',
+            rule: rule.name,
+            nodeId,
+          });
+        },
+      };
+      try {
+        rule.lint(context);
+      } catch (e) {
+        logger.error(`lint rule ${rule.name} failed:`, e);
+      }
+    });
+    return problems;
+  }
+}
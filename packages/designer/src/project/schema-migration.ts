@@ -0,0 +1,108 @@
+import {
+  IPublicTypeDisposable,
+  IPublicTypeProjectSchema,
+  IPublicTypeSchemaMigration,
+  IPublicTypeSchemaMigrationReport,
+  IPublicTypeSchemaMigrationResult,
+} from '@alilc/lowcode-types';
+import { cloneDeep, Logger } from '@alilc/lowcode-utils';
+
+const logger = new Logger({ level: 'warn', bizName: 'designer:schema-migration' });
+
+/**
+ * 未声明 version 的 schema 视为该版本
+ */
+export const DEFAULT_SCHEMA_VERSION = '1.0.0';
+
+export interface ISchemaMigrations {
+  register(migration: IPublicTypeSchemaMigration): IPublicTypeDisposable;
+
+  migrate(schema: IPublicTypeProjectSchema): IPublicTypeSchemaMigrationResult;
+
+  dryRun(schemas: IPublicTypeProjectSchema[]): IPublicTypeSchemaMigrationReport[];
+}
+
+/**
+ * schema 迁移注册表，迁移以 from 版本为键，按 from -> to 串联执行直到没有匹配的迁移
+ */
+export class SchemaMigrations implements ISchemaMigrations {
+  private migrations = new Map<string, IPublicTypeSchemaMigration>();
+
+  register(migration: IPublicTypeSchemaMigration): IPublicTypeDisposable {
+    const { from, to } = migration;
+    if (from === to) {
+      logger.warn(`migration from ${from} to ${to} is ignored`);
+      return () => {};
+    }
+    if (this.migrations.has(from)) {
+      logger.warn(`migration from ${from} is registered more than once, the latter will be used`);
+    }
+    this.migrations.set(from, migration);
+    return () => {
+      if (this.migrations.get(from) === migration) {
+        this.migrations.delete(from);
+      }
+    };
+  }
+
+  /**
+   * 执行迁移，传入的 schema 不会被修改
+   */
+  migrate(schema: IPublicTypeProjectSchema): IPublicTypeSchemaMigrationResult {
+    const fromVersion = schema.version || DEFAULT_SCHEMA_VERSION;
+    const steps: string[] = [];
+    let version = fromVersion;
+    let current = schema;
+    const visited = new Set<string>([version]);
+    let migration = this.migrations.get(version);
+    while (migration) {
+      const step = `${migration.from} -> ${migration.to}`;
+      if (visited.has(migration.to)) {
+        return {
+          success: false,
+          fromVersion,
+          toVersion: version,
+          steps,
+          error: `circular migration detected at ${step}`,
+          schema,
+        };
+      }
+      try {
+        current = {
+          ...migration.migrate(cloneDeep(current)),
+          version: migration.to,
+        };
+      } catch (e: any) {
+        return {
+          success: false,
+          fromVersion,
+          toVersion: version,
+          steps,
+          error: `migration ${step} failed: ${e?.message || e}`,
+          schema,
+        };
+      }
+      steps.push(step);
+      version = migration.to;
+      visited.add(version);
+      migration = this.migrations.get(version);
+    }
+    return {
+      success: true,
+      fromVersion,
+      toVersion: version,
+      steps,
+      schema: current,
+    };
+  }
+
+  /**
+   * 批量试运行迁移，只返回迁移报告
+   */
+  dryRun(schemas: IPublicTypeProjectSchema[]): IPublicTypeSchemaMigrationReport[] {
+    return schemas.map((item) => {
+      const { schema, ...report } = this.migrate(item);
+      return report;
+    });
+  }
+}
@@ -30,6 +30,16 @@ export interface IViewport extends IScrollable {
    */
   scale: number;
 
+  /**
+   * 画布缩放比例，缩放时保持页面的设计宽度不变
+   */
+  readonly zoom: number;
+
+  /**
+   * 内容在视口中的水平平移距离
+   */
+  readonly panX: number;
+
   /**
    * 视口矩形维度
    */
@@ -69,6 +79,25 @@ export interface IViewport extends IScrollable {
    * 本地坐标系转化为全局坐标系
    */
   toGlobalPoint(point: Point): Point;
+
+  /**
+   * 设置画布缩放比例，origin 为缩放中心（全局坐标），默认为视口中心
+   */
+  setZoom(zoom: number, origin?: Point): void;
+
+  zoomIn(origin?: Point): void;
+
+  zoomOut(origin?: Point): void;
+
+  /**
+   * 缩放到能完整显示整个页面
+   */
+  fitToScreen(): void;
+
+  /**
+   * 平移画布，单位为屏幕像素
+   */
+  panBy(dx: number, dy?: number): void;
 }
 
 export interface DropContainer {
@@ -108,6 +137,9 @@ export interface ISimulatorHost<P = object> extends IPublicModelSensor<INode> {
   // 设置单个 Prop
   set(key: string, value: any): void;
 
+  // 获取单个 Prop
+  get(key: string): any;
+
   setSuspense(suspensed: boolean): void;
 
   // #region ========= drag and drop helpers =============
@@ -15,6 +15,11 @@ export enum EDITOR_EVENT {
   NODE_CHILDREN_CHANGE = 'node.children.change',
 
   NODE_VISIBLE_CHANGE = 'node.visible.change',
+
+  /**
+   * 节点自身的数据（属性以及 condition、loop 等字段）变更，不包括子节点的增删和移动
+   */
+  NODE_CHANGE = 'node.change',
 }
 
 export type Utils = typeof utils;
\ No newline at end of file
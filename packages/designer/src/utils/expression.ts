@@ -0,0 +1,108 @@
+import { isPlainObject } from '@alilc/lowcode-utils';
+
+/**
+ * 将字符串及注释的内容替换为空格，保持长度不变，避免其中的内容被当作代码分析
+ * @returns code 为替换后的代码，unterminated 表示代码是否结束于字符串或注释中
+ */
+export function maskLiterals(source: string): { code: string; unterminated: boolean } {
+  const chars = source.split('');
+  // 模板字符串中 ${} 的嵌套层级
+  const braces: number[] = [];
+  let quote: string | null = null;
+  let unterminated = false;
+  let i = 0;
+  while (i < chars.length) {
+    const char = chars[i];
+    if (quote) {
+      if (char === '\\') {
+        chars[i] = ' ';
+        if (i + 1 < chars.length) {
+          chars[i + 1] = ' ';
+        }
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      } else if (quote === '`' && char === '$' && chars[i + 1] === '{') {
+        braces.push(0);
+        quote = null;
+        i += 2;
+        continue;
+      } else {
+        chars[i] = ' ';
+      }
+      i++;
+      continue;
+    }
+    if (char === '/' && chars[i + 1] === '/') {
+      while (i < chars.length && chars[i] !== '\n') {
+        chars[i++] = ' ';
+      }
+      unterminated = i === chars.length;
+      continue;
+    }
+    if (char === '/' && chars[i + 1] === '*') {
+      while (i < chars.length && !(chars[i] === '*' && chars[i + 1] === '/')) {
+        chars[i++] = ' ';
+      }
+      if (i < chars.length) {
+        chars[i] = ' ';
+        chars[i + 1] = ' ';
+      } else {
+        unterminated = true;
+      }
+      i += 2;
+      continue;
+    }
+    if (char === '\'' || char === '"' || char === '`') {
+      quote = char;
+    } else if (braces.length && char === '{') {
+      braces[braces.length - 1]++;
+    } else if (braces.length && char === '}') {
+      if (braces[braces.length - 1] === 0) {
+        braces.pop();
+        quote = '`';
+      } else {
+        braces[braces.length - 1]--;
+      }
+    }
+    i++;
+  }
+  return {
+    code: chars.join(''),
+    unterminated: unterminated || quote !== null,
+  };
+}
+
+/**
+ * 遍历值中的 JSExpression / JSFunction，fn 返回的代码替换原代码，返回替换后的值，不会修改传入的值
+ */
+export function mapExpressions(value: any, fn: (code: string) => string): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapExpressions(item, fn));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  if ((value.type === 'JSExpression' || value.type === 'JSFunction') && typeof value.value === 'string') {
+    return { ...value, value: fn(value.value) };
+  }
+  const result: any = {};
+  Object.keys(value).forEach((key) => {
+    result[key] = mapExpressions(value[key], fn);
+  });
+  return result;
+}
+
+/**
+ * 收集值中所有 JSExpression / JSFunction 的代码
+ */
+export function collectExpressions(value: any): string[] {
+  const codes: string[] = [];
+  mapExpressions(value, (code) => {
+    codes.push(code);
+    return code;
+  });
+  return codes;
+}
@@ -0,0 +1,185 @@
+import {
+  IPublicTypeContainerSchema,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeHtmlImportRule,
+  IPublicTypeNodeData,
+  IPublicTypeNodeSchema,
+  IPublicTypeRootSchema,
+} from '@alilc/lowcode-types';
+
+export interface IHtmlToSchemaOptions extends Pick<IPublicTypeHtmlImportOptions, 'rules' | 'defaultComponentName'> {
+
+  /**
+   * 获取组件的物料描述，提供时只使用物料已注册的规则，且非容器组件不转换子元素
+   */
+  getComponentMeta?: (componentName: string) => { isContainer: boolean } | null | undefined;
+}
+
+/**
+ * 不转换为节点的标签
+ */
+const IGNORED_TAGS = ['script', 'style', 'meta', 'link', 'title', 'head', 'noscript', 'template'];
+
+const ELEMENT_NODE = 1;
+
+const TEXT_NODE = 3;
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, char) => char.toUpperCase());
+}
+
+/**
+ * 将内联样式解析为 style 对象
+ */
+export function parseStyle(style: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  style.split(';').forEach((declaration) => {
+    const index = declaration.indexOf(':');
+    if (index < 0) {
+      return;
+    }
+    const name = declaration.slice(0, index).trim();
+    const value = declaration.slice(index + 1).trim();
+    if (name && value) {
+      // 自定义属性保持原样
+      result[name.startsWith('--') ? name : toCamelCase(name.toLowerCase())] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * 将元素属性及内联样式转换为组件属性
+ */
+function getProps(element: Element): Record<string, any> {
+  const props: Record<string, any> = {};
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    // 忽略内联事件
+    if (/^on/i.test(name)) {
+      return;
+    }
+    if (name === 'style') {
+      props.style = parseStyle(value);
+    } else if (name === 'class') {
+      props.className = value;
+    } else {
+      props[toCamelCase(name)] = value;
+    }
+  });
+  return props;
+}
+
+function getText(node: Node): string | null {
+  const text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+function matchRule(element: Element, options: IHtmlToSchemaOptions): IPublicTypeHtmlImportRule | undefined {
+  const { rules = [], getComponentMeta } = options;
+  return rules.find((rule) => {
+    if (getComponentMeta && !getComponentMeta(rule.componentName)) {
+      return false;
+    }
+    try {
+      return element.matches(rule.selector);
+    } catch (e) {
+      // 非法的选择器
+      return false;
+    }
+  });
+}
+
+function convertChildren(parent: Element, options: IHtmlToSchemaOptions): IPublicTypeNodeData[] {
+  const children: IPublicTypeNodeData[] = [];
+  Array.from(parent.childNodes).forEach((child) => {
+    if (child.nodeType === TEXT_NODE) {
+      const text = getText(child);
+      if (text) {
+        children.push(text);
+      }
+    } else if (child.nodeType === ELEMENT_NODE) {
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      const schema = convertElement(child as Element, options);
+      if (schema) {
+        children.push(schema);
+      }
+    }
+  });
+  return children;
+}
+
+function convertElement(element: Element, options: IHtmlToSchemaOptions): IPublicTypeNodeSchema | null {
+  if (IGNORED_TAGS.indexOf(element.tagName.toLowerCase()) > -1) {
+    return null;
+  }
+  const rule = matchRule(element, options);
+  const componentName = rule?.componentName || options.defaultComponentName || 'Div';
+  const props = rule?.props ? { ...rule.props(element) } : getProps(element);
+  const textProp = rule?.textProp || 'children';
+  const meta = options.getComponentMeta?.(componentName);
+  // 非容器组件不能包含子节点，只保留文本
+  if (meta && !meta.isContainer) {
+    const text = getText(element);
+    return text ? { componentName, props: { [textProp]: text, ...props } } : { componentName, props };
+  }
+  const children = convertChildren(element, options);
+  // 只有文本时作为属性
+  if (children.length === 1 && typeof children[0] === 'string') {
+    return { componentName, props: { [textProp]: children[0], ...props } };
+  }
+  return children.length > 0 ? { componentName, props, children } : { componentName, props };
+}
+
+function convertBody(doc: Document, options: IHtmlToSchemaOptions): IPublicTypeNodeSchema[] {
+  const result: IPublicTypeNodeSchema[] = [];
+  Array.from(doc.body.childNodes).forEach((child) => {
+    let element: Element | null = null;
+    if (child.nodeType === ELEMENT_NODE) {
+      element = child as Element;
+    } else if (child.nodeType === TEXT_NODE && getText(child)) {
+      // 顶层的文本包装为 span
+      element = doc.createElement('span');
+      element.textContent = child.textContent;
+    }
+    const schema = element && convertElement(element, options);
+    if (schema) {
+      result.push(schema);
+    }
+  });
+  return result;
+}
+
+/**
+ * 尽可能地将 HTML 转换为节点 schema，元素转换为组件节点，属性及内联样式转换为组件属性
+ */
+export function htmlToSchema(html: string, options: IHtmlToSchemaOptions = {}): IPublicTypeNodeSchema[] {
+  return convertBody(new DOMParser().parseFromString(html, 'text/html'), options);
+}
+
+/**
+ * 将 HTML 文档转换为容器 schema，样式表合并到容器的 css 字段，body 的属性作为容器属性
+ */
+export function importHtml(
+    html: string,
+    options: IPublicTypeHtmlImportOptions & IHtmlToSchemaOptions = {},
+  ): IPublicTypeRootSchema {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const schema: IPublicTypeContainerSchema = {
+    componentName: options.componentName || 'Page',
+    fileName: options.fileName || '',
+    props: getProps(doc.body),
+    children: convertBody(doc, options),
+  };
+  const title = doc.title.trim();
+  if (title) {
+    schema.title = title;
+  }
+  const css = Array.from(doc.querySelectorAll('style'))
+    .map((style) => (style.textContent || '').trim())
+    .filter(Boolean)
+    .join('\n');
+  if (css) {
+    schema.css = css;
+  }
+  return schema as IPublicTypeRootSchema;
+}
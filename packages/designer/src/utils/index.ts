@@ -1,3 +1,6 @@
 export * from './invariant';
 export * from './slot';
 export * from './tree';
+export * from './expression';
+export * from './html-to-schema';
+export * from './schema-diff';
@@ -0,0 +1,298 @@
+import { isEqual } from 'lodash';
+import {
+  IPublicTypeNodeData,
+  IPublicTypeNodeSchema,
+  IPublicTypeSchemaDiffHunk,
+  IPublicTypeSchemaDiffPropChange,
+} from '@alilc/lowcode-types';
+import { cloneDeep, isNodeSchema } from '@alilc/lowcode-utils';
+
+interface IDiffNode {
+  id: string;
+  componentName: string;
+  schema: IPublicTypeNodeSchema;
+  parent: IDiffNode | null;
+  children: IDiffNode[];
+  index: number;
+  partner?: IDiffNode;
+}
+
+/**
+ * 不参与比较的字段
+ */
+const IGNORED_KEYS = ['id', 'componentName', 'props', 'children', 'docId'];
+
+/**
+ * 节点内置字段的默认值，缺省时按默认值比较
+ */
+const EXTRA_DEFAULTS: Record<string, any> = {
+  hidden: false,
+  title: '',
+  isLocked: false,
+  condition: true,
+  conditionGroup: '',
+};
+
+function toChildSchemas(children: IPublicTypeNodeSchema['children']): IPublicTypeNodeSchema[] {
+  if (children === undefined || children === null || children === '') {
+    return [];
+  }
+  const list: IPublicTypeNodeData[] = Array.isArray(children) ? children : [children as IPublicTypeNodeData];
+  return list
+    .filter((child) => child !== undefined && child !== null && child !== '')
+    // 文本及表达式子节点作为 Leaf 节点比较
+    .map((child) => (isNodeSchema(child) ? child : { componentName: 'Leaf', children: child } as IPublicTypeNodeSchema));
+}
+
+function buildTree(schema: IPublicTypeNodeSchema, parent: IDiffNode | null, index: number, nodes: IDiffNode[]): IDiffNode {
+  const node: IDiffNode = {
+    id: schema.id || '',
+    componentName: schema.componentName,
+    schema,
+    parent,
+    children: [],
+    index,
+  };
+  nodes.push(node);
+  // Leaf 节点的 children 为文本内容
+  if (schema.componentName !== 'Leaf') {
+    node.children = toChildSchemas(schema.children).map((child, i) => buildTree(child, node, i, nodes));
+  }
+  return node;
+}
+
+/**
+ * 最长公共子序列
+ */
+function lcs<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[T, T]> {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const result: Array<[T, T]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      result.push([a[i], b[j]]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+function pair(base: IDiffNode, target: IDiffNode) {
+  base.partner = target;
+  target.partner = base;
+}
+
+/**
+ * 优先按 id 匹配节点，未匹配的子节点在已匹配的父节点下按组件名及顺序匹配
+ */
+function matchTrees(baseNodes: IDiffNode[], targetNodes: IDiffNode[]) {
+  const baseById = new Map<string, IDiffNode>();
+  baseNodes.forEach((node) => node.id && baseById.set(node.id, node));
+  targetNodes.forEach((node) => {
+    const base = node.id ? baseById.get(node.id) : undefined;
+    if (base && !base.partner && base.componentName === node.componentName) {
+      pair(base, node);
+    }
+  });
+  const [baseRoot] = baseNodes;
+  const [targetRoot] = targetNodes;
+  if (!baseRoot.partner && !targetRoot.partner) {
+    pair(baseRoot, targetRoot);
+  }
+
+  const visited = new Set<IDiffNode>();
+  const walk = (base: IDiffNode) => {
+    if (visited.has(base) || !base.partner) {
+      return;
+    }
+    visited.add(base);
+    const target = base.partner;
+    lcs(
+      base.children.filter((child) => !child.partner),
+      target.children.filter((child) => !child.partner),
+      (x, y) => x.componentName === y.componentName,
+    ).forEach(([x, y]) => pair(x, y));
+    base.children.forEach(walk);
+  };
+  // 父节点未匹配的节点也需要继续匹配其子节点
+  baseNodes.forEach(walk);
+}
+
+function getExtras(schema: IPublicTypeNodeSchema): Record<string, any> {
+  const extras: Record<string, any> = { ...EXTRA_DEFAULTS };
+  Object.keys(schema).forEach((key) => {
+    if (IGNORED_KEYS.indexOf(key) < 0 && (schema as any)[key] !== undefined) {
+      extras[key] = (schema as any)[key];
+    }
+  });
+  return extras;
+}
+
+function diffValues(before: Record<string, any>, after: Record<string, any>, extra: boolean): IPublicTypeSchemaDiffPropChange[] {
+  const changes: IPublicTypeSchemaDiffPropChange[] = [];
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  keys.forEach((name) => {
+    if (!isEqual(before[name], after[name])) {
+      const change: IPublicTypeSchemaDiffPropChange = { name, before: before[name], after: after[name] };
+      if (extra) {
+        change.extra = true;
+      }
+      changes.push(change);
+    }
+  });
+  return changes;
+}
+
+function diffProps(base: IDiffNode, target: IDiffNode): IPublicTypeSchemaDiffPropChange[] {
+  if (base.componentName === 'Leaf') {
+    return diffValues({ children: base.schema.children }, { children: target.schema.children }, false);
+  }
+  return [
+    ...diffValues(base.schema.props || {}, target.schema.props || {}, false),
+    ...diffValues(getExtras(base.schema), getExtras(target.schema), true),
+  ];
+}
+
+/**
+ * 节点在旧版本中的 id，节点在旧版本中不存在时为新版本中的 id
+ */
+function getBaseId(node: IDiffNode): string {
+  return node.partner ? node.partner.id : node.id;
+}
+
+function getPosition(target: IDiffNode): Pick<IPublicTypeSchemaDiffHunk, 'parentId' | 'prevSiblingId' | 'index'> {
+  const prev = target.parent!.children[target.index - 1];
+  return {
+    parentId: getBaseId(target.parent!),
+    prevSiblingId: prev ? getBaseId(prev) : undefined,
+    index: target.index,
+  };
+}
+
+/**
+ * 新增节点的 schema，去掉从其他位置移动过来的子节点
+ */
+function getAddedSchema(target: IDiffNode): IPublicTypeNodeSchema {
+  if (target.componentName === 'Leaf') {
+    return cloneDeep(target.schema);
+  }
+  const { children, ...schema } = cloneDeep(target.schema);
+  const addedChildren = target.children
+    .filter((child) => !child.partner)
+    .map((child) => (child.componentName === 'Leaf' && !child.id ? child.schema.children! : getAddedSchema(child)));
+  return addedChildren.length > 0 ? { ...schema, children: addedChildren } : schema;
+}
+
+/**
+ * 为没有 id 的节点生成 id，以便在变化中引用，新版本中已匹配的节点及新增的文本节点除外
+ */
+function ensureIds(baseNodes: IDiffNode[], targetNodes: IDiffNode[]) {
+  const ids = new Set([...baseNodes, ...targetNodes].map((node) => node.id).filter(Boolean));
+  let seq = 0;
+  const nodes = [
+    ...baseNodes,
+    ...targetNodes.filter((node) => !node.partner && node.componentName !== 'Leaf'),
+  ];
+  nodes.forEach((node) => {
+    if (!node.id) {
+      let id: string;
+      do {
+        id = `node_diff${(++seq).toString(36)}`;
+      } while (ids.has(id));
+      ids.add(id);
+      node.id = id;
+      node.schema = { ...node.schema, id };
+    }
+  });
+}
+
+/**
+ * 对比两个版本的 schema，节点优先按 id 匹配，没有 id 或 id 不同的节点在相同父节点下按组件名及顺序匹配
+ * @param before 旧版本
+ * @param after 新版本
+ */
+export function diffSchema(before: IPublicTypeNodeSchema, after: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+  const baseNodes: IDiffNode[] = [];
+  const targetNodes: IDiffNode[] = [];
+  buildTree(before, null, 0, baseNodes);
+  buildTree(after, null, 0, targetNodes);
+  matchTrees(baseNodes, targetNodes);
+  ensureIds(baseNodes, targetNodes);
+
+  const hunks: IPublicTypeSchemaDiffHunk[] = [];
+  baseNodes.forEach((base) => {
+    const target = base.partner;
+    if (!target) {
+      // 只记录最上层被删除的节点
+      if (base.parent?.partner) {
+        hunks.push({
+          id: `removed:${base.id}`,
+          type: 'removed',
+          nodeId: base.id,
+          componentName: base.componentName,
+          schema: base.schema,
+        });
+      }
+      return;
+    }
+    if (base.parent && target.parent && base.parent.partner !== target.parent) {
+      hunks.push({
+        id: `moved:${base.id}`,
+        type: 'moved',
+        nodeId: base.id,
+        componentName: base.componentName,
+        ...getPosition(target),
+      });
+    }
+    const changes = diffProps(base, target);
+    if (changes.length > 0) {
+      hunks.push({
+        id: `changed:${base.id}`,
+        type: 'changed',
+        nodeId: base.id,
+        componentName: base.componentName,
+        changes,
+      });
+    }
+    // 同一父节点下调整了顺序的节点
+    const stayed = base.children.filter((child) => child.partner?.parent === target);
+    const stayedInTarget = target.children.filter((child) => child.partner?.parent === base);
+    const kept = new Set(lcs(stayed, stayedInTarget, (x, y) => x.partner === y).map(([x]) => x));
+    stayed.forEach((child) => {
+      if (!kept.has(child)) {
+        hunks.push({
+          id: `moved:${child.id}`,
+          type: 'moved',
+          nodeId: child.id,
+          componentName: child.componentName,
+          ...getPosition(child.partner!),
+        });
+      }
+    });
+  });
+  targetNodes.forEach((target) => {
+    // 只记录最上层新增的节点
+    if (!target.partner && target.parent?.partner) {
+      hunks.push({
+        id: `added:${target.id || `${getBaseId(target.parent)}:${target.index}`}`,
+        type: 'added',
+        nodeId: target.id,
+        componentName: target.componentName,
+        ...getPosition(target),
+        schema: getAddedSchema(target),
+      });
+    }
+  });
+  return hunks;
+}
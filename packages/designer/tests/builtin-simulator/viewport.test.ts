@@ -177,4 +177,66 @@ describe('Viewport 测试', () => {
     expect(viewport.toGlobalPoint({ clientX: 100, clientY: 100 })).toEqual({ clientX: 300, clientY: 300 });
     expect(viewport.toLocalPoint({ clientX: 300, clientY: 300 })).toEqual({ clientX: 100, clientY: 100 });
   });
+
+  it('setZoom / zoomIn / zoomOut / panBy / fitToScreen', () => {
+    const rect = {
+      width: 500,
+      height: 500,
+      top: 100,
+      bottom: 600,
+      left: 100,
+      right: 600,
+    };
+    viewportElem = getMockElement('div', rect);
+    viewport = new Viewport();
+    viewport.mount(viewportElem);
+    const scrollTo = jest.fn();
+    viewport.setScrollTarget({
+      scrollX: 0,
+      scrollY: 0,
+      scrollTo,
+      addEventListener: () => {},
+      document: { documentElement: { scrollHeight: 2000 } },
+    } as any);
+
+    // 以鼠标位置为中心放大，页面设计宽度保持不变
+    viewport.setZoom(2, { clientX: 350, clientY: 200 });
+    expect(viewport.zoom).toBe(2);
+    expect(viewport.contentWidth).toBe(500);
+    expect(viewport.contentHeight).toBe(250);
+    expect(viewport.contentBounds).toEqual({ top: 0, left: 0, width: 500, height: 250 });
+    expect(viewport.panX).toBe(-250);
+    expect(scrollTo).toHaveBeenLastCalledWith({ top: 50 });
+    expect(viewport.toLocalPoint({ clientX: 350, clientY: 200 })).toEqual({ clientX: 250, clientY: 50 });
+    expect(viewport.toGlobalPoint({ clientX: 250, clientY: 50 })).toEqual({ clientX: 350, clientY: 200 });
+
+    // 平移不会让内容离开视口
+    viewport.panBy(1000);
+    expect(viewport.panX).toBe(0);
+    viewport.panBy(-1000);
+    expect(viewport.panX).toBe(-500);
+    viewport.panBy(0, 100);
+    expect(scrollTo).toHaveBeenLastCalledWith({ top: -50 });
+
+    viewport.zoomOut();
+    expect(viewport.zoom).toBe(1.5);
+    viewport.setZoom(0.01);
+    expect(viewport.zoom).toBe(0.1);
+    viewport.setZoom(NaN);
+    expect(viewport.zoom).toBe(0.1);
+
+    // 内容小于视口时居中
+    viewport.setZoom(0.5);
+    expect(viewport.panX).toBe(125);
+    viewport.zoomIn();
+    expect(viewport.zoom).toBe(0.75);
+
+    viewport.setZoom(1);
+    expect(viewport.contentWidth).toBe('100%');
+    expect(viewport.panX).toBe(0);
+
+    viewport.fitToScreen();
+    expect(viewport.zoom).toBe(0.25);
+    expect(scrollTo).toHaveBeenLastCalledWith({ top: 0 });
+  });
 });
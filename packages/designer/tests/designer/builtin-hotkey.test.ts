@@ -132,6 +132,29 @@ describe('快捷键测试', () => {
     fireEvent.keyDown(document, { keyCode: 40, altKey: true });
   });
 
+  // 编组与解散编组
+  it('command + g / command + shift + g', () => {
+    const doc = designer.currentDocument!;
+    const firstButtonNode = doc.getNode('node_k1ow3cbn')!;
+    const secondButtonNode = doc.getNode('node_k1ow3cbp')!;
+    const parent = firstButtonNode.parent!;
+    doc.selection.selectAll([firstButtonNode.id, secondButtonNode.id]);
+
+    fireEvent.keyDown(document, { keyCode: 71, metaKey: true });
+
+    const group = firstButtonNode.parent!;
+    expect(group.parent).toBe(parent);
+    expect(group.componentName).toBe('Div');
+    expect(group.children?.size).toBe(2);
+    expect(designer.currentSelection?.selected).toEqual([group.id]);
+
+    fireEvent.keyDown(document, { keyCode: 71, metaKey: true, shiftKey: true });
+
+    expect(firstButtonNode.parent).toBe(parent);
+    expect(secondButtonNode.parent).toBe(parent);
+    expect(doc.getNode(group.id)).toBeNull();
+  });
+
   // 撤销
   it('command + z', async () => {
     const firstButtonNode = designer.currentDocument?.getNode('node_k1ow3cbn')!;
@@ -0,0 +1,140 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { clipboard } from '../../src/designer/clipboard';
+import { htmlToSchema } from '../../src/utils/html-to-schema';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const sourceSchema: any = {
+  componentName: 'Page',
+  id: 'source',
+  fileName: 'source',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '0' },
+    title: { type: 'JSExpression', value: '"hello"' },
+    unused: { type: 'JSExpression', value: '1' },
+  },
+  methods: {
+    onClick: { type: 'JSFunction', value: 'function() { this.format(this.state.count); }' },
+    format: { type: 'JSFunction', value: 'function(value) { return String(value); }' },
+  },
+  dataSource: {
+    list: [{ id: 'info', type: 'fetch', options: { uri: '/info' } }],
+  },
+  children: [{
+    componentName: 'Card',
+    id: 'card',
+    props: {
+      title: { type: 'JSExpression', value: 'this.state.title' },
+      content: { type: 'JSExpression', value: 'this.state.info.name' },
+      onClick: { type: 'JSFunction', value: 'this.onClick' },
+    },
+  }],
+};
+
+const targetSchema: any = {
+  componentName: 'Page',
+  id: 'target',
+  fileName: 'target',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '10' },
+    title: { type: 'JSExpression', value: '"hello"' },
+  },
+  methods: {},
+  children: [],
+};
+
+describe('Clipboard', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    project.load({
+      version: '1.0.0',
+      componentsMap: [],
+      componentsTree: [sourceSchema, targetSchema],
+    } as any);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('createData', () => {
+    const source = project.createDocument(sourceSchema);
+    const data = clipboard.createData([source.getNode('card')!]);
+    expect(data.componentsTree).toHaveLength(1);
+    expect(data.componentsMap.map((item: any) => item.componentName)).toEqual(['Card']);
+    expect(data.references).toEqual({
+      documentId: source.id,
+      state: {
+        title: sourceSchema.state.title,
+        count: sourceSchema.state.count,
+      },
+      methods: sourceSchema.methods,
+      dataSource: sourceSchema.dataSource.list,
+    });
+  });
+
+  it('mergeReferences', () => {
+    const source = project.createDocument(sourceSchema);
+    const target = project.createDocument(targetSchema);
+    const data = clipboard.createData([source.getNode('card')!]);
+
+    // 粘贴到同一文档时不合并
+    expect(clipboard.mergeReferences(source, data).merged).toEqual([]);
+
+    const { componentsTree, merged } = clipboard.mergeReferences(target, data);
+    expect(merged).toEqual([
+      { type: 'state', name: 'count', newName: 'count1' },
+      { type: 'method', name: 'onClick' },
+      { type: 'method', name: 'format' },
+      { type: 'dataSource', name: 'info' },
+    ]);
+    expect(componentsTree[0].props).toMatchObject({
+      title: { type: 'JSExpression', value: 'this.state.title' },
+      content: { type: 'JSExpression', value: 'this.state.info.name' },
+    });
+
+    const schema: any = target.export(IPublicEnumTransformStage.Serilize);
+    expect(Object.keys(schema.state)).toEqual(['count', 'title', 'count1']);
+    expect(schema.state.count1).toEqual({ type: 'JSExpression', value: '0' });
+    expect(schema.methods.onClick.value).toBe('function() { this.format(this.state.count1); }');
+    expect(schema.dataSource.list.map((item: any) => item.id)).toEqual(['info']);
+  });
+});
+
+describe('htmlToSchema', () => {
+  it('converts elements, attributes and text', () => {
+    const schema = htmlToSchema(
+      '<div class="box" style="font-size: 12px; --main-color: red" data-id="1" onclick="alert(1)">'
+        + '<p>hello <b>world</b></p><span>text</span><script>alert(1)</script></div>text',
+    );
+    expect(schema).toEqual([{
+      componentName: 'Div',
+      props: {
+        className: 'box',
+        style: { fontSize: '12px', '--main-color': 'red' },
+        dataId: '1',
+      },
+      children: [{
+        componentName: 'Div',
+        props: {},
+        children: ['hello', { componentName: 'Div', props: { children: 'world' } }],
+      }, {
+        componentName: 'Div',
+        props: { children: 'text' },
+      }],
+    }, {
+      componentName: 'Div',
+      props: { children: 'text' },
+    }]);
+  });
+});
@@ -0,0 +1,122 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { Designer } from '../../src/designer/designer';
+import { alignNodes, distributeNodes, groupNodes, ungroupNode } from '../../src/designer/node-layout';
+import { INode, IDocumentModel } from '../../src/document';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const absolute = (left: number, top: number, width: number, height: number) => ({
+  position: 'absolute',
+  left: `${left}px`,
+  top: `${top}px`,
+  width: `${width}px`,
+  height: `${height}px`,
+});
+
+// 根据 style 计算节点在画布中的位置
+const computeRect = (node: INode): any => {
+  const style = node.getPropValue('style') || {};
+  const parent = node.parent!.getRect()!;
+  return {
+    left: parent.left + (parseFloat(style.left) || 0),
+    top: parent.top + (parseFloat(style.top) || 0),
+    width: parseFloat(style.width) || 0,
+    height: parseFloat(style.height) || 0,
+  };
+};
+
+describe('node-layout', () => {
+  let designer: Designer;
+  let doc: IDocumentModel;
+  let a: INode;
+  let b: INode;
+  let c: INode;
+
+  const getStyle = (node: INode) => {
+    const { left, top } = node.getPropValue('style');
+    return { left, top };
+  };
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    doc = designer.project.open({
+      componentName: 'Page',
+      id: 'page',
+      props: {},
+      children: [
+        { componentName: 'Button', id: 'a', props: { style: absolute(10, 10, 100, 50) } },
+        { componentName: 'Button', id: 'b', props: { style: absolute(200, 40, 50, 50) } },
+        { componentName: 'Button', id: 'c', props: { style: absolute(400, 100, 100, 20) } },
+        { componentName: 'Button', id: 'd', props: {} },
+      ],
+    } as any)!;
+    doc.project.mountSimulator({
+      computeRect,
+      generateComponentMetadata: () => null,
+      viewport: { contentBounds: { left: 0, top: 0, width: 1000, height: 800 } },
+    } as any);
+    a = doc.getNode('a')!;
+    b = doc.getNode('b')!;
+    c = doc.getNode('c')!;
+  });
+
+  afterEach(() => {
+    designer.purge();
+  });
+
+  it('alignNodes', () => {
+    expect(alignNodes([a, b, c], 'right')).toBeTruthy();
+    expect([a, b, c].map(getStyle)).toEqual([
+      { left: '400px', top: '10px' },
+      { left: '450px', top: '40px' },
+      { left: '400px', top: '100px' },
+    ]);
+    alignNodes([a, b, c], 'middle');
+    expect([a, b, c].map((node) => getStyle(node).top)).toEqual(['40px', '40px', '55px']);
+    expect(doc.history.getRecords().pop()!.label).toBe('Align middle');
+
+    // 单个节点相对于父节点对齐
+    alignNodes([a], 'center');
+    expect(getStyle(a).left).toBe('450px');
+
+    // 非自由布局的节点不处理
+    expect(alignNodes([a, doc.getNode('d')!], 'left')).toBeFalsy();
+    expect(alignNodes([], 'left')).toBeFalsy();
+  });
+
+  it('distributeNodes', () => {
+    expect(distributeNodes([c, a, b], 'horizontal')).toBeTruthy();
+    expect([a, b, c].map((node) => getStyle(node).left)).toEqual(['10px', '230px', '400px']);
+    distributeNodes([a, b, c], 'vertical');
+    expect([a, b, c].map((node) => getStyle(node).top)).toEqual(['10px', '55px', '100px']);
+    expect(distributeNodes([a, b], 'vertical')).toBeFalsy();
+  });
+
+  it('groupNodes / ungroupNode', () => {
+    const group = groupNodes([c, a])!;
+    expect(group.componentName).toBe('Div');
+    expect(group.index).toBe(0);
+    expect(group.getPropValue('style')).toEqual(absolute(10, 10, 490, 110));
+    expect(group.children?.map((node) => node.id)).toEqual(['a', 'c']);
+    expect([a, c].map(getStyle)).toEqual([
+      { left: '0px', top: '0px' },
+      { left: '390px', top: '90px' },
+    ]);
+    expect(doc.selection.selected).toEqual([group.id]);
+    expect(doc.history.getRecords().pop()!.label).toBe('Group nodes');
+
+    expect(ungroupNode(group)).toEqual([a, c]);
+    expect(doc.rootNode!.children?.map((node) => node.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect([a, c].map(getStyle)).toEqual([
+      { left: '10px', top: '10px' },
+      { left: '400px', top: '100px' },
+    ]);
+    expect(doc.getNode(group.id)).toBeNull();
+    expect(doc.selection.selected).toEqual(['a', 'c']);
+
+    // 不同父节点的节点无法编组
+    const group2 = groupNodes([b], 'Container')!;
+    expect(groupNodes([group2, b])).toBeNull();
+    expect(ungroupNode(doc.getNode('d')!)).toEqual([]);
+  });
+});
@@ -278,4 +278,107 @@ describe('setting-field 测试', () => {
       expect(mockFnArrField).toHaveBeenCalledWith([{ objSub: "subMock0.Index.3" }]);
     })
   });
+
+  describe('校验', () => {
+    let form: Node;
+    beforeEach(() => {
+      designer.createComponentMeta({
+        componentName: 'Form',
+        configure: {
+          props: [
+            {
+              name: 'title',
+              title: 'title',
+              setter: 'StringSetter',
+              extraProps: {
+                rules: [
+                  { required: true, message: 'required' },
+                  { min: 2, max: 5 },
+                  { pattern: /^[a-z]+$/, message: 'lowercase' },
+                ],
+              },
+            },
+            {
+              name: 'size',
+              title: 'size',
+              setter: 'StringSetter',
+              rules: [{ enum: ['small', 'large'], message: 'invalid size' }],
+            },
+            {
+              name: 'code',
+              title: 'code',
+              setter: 'StringSetter',
+              validate: async (value) => (value === 'used' ? 'code is used' : true),
+            },
+            {
+              name: 'mask',
+              title: 'mask',
+              setter: 'StringSetter',
+              rules: [{ pattern: '[', message: 'invalid mask' }],
+            },
+            {
+              name: 'hidden',
+              title: 'hidden',
+              setter: 'StringSetter',
+              condition: () => false,
+              rules: [{ required: true }],
+            },
+          ],
+        },
+      });
+      form = doc.insertNode(doc.rootNode, {
+        componentName: 'Form',
+        id: 'form',
+        props: { title: 'ab', size: 'small' },
+      });
+    });
+
+    it('值变化时校验', async () => {
+      const field = form.settingEntry.get('title');
+      expect(field.validationErrors).toEqual([]);
+
+      field.setValue('');
+      await delayObxTick();
+      expect(field.validationErrors).toEqual(['required']);
+
+      field.setValue('abcdefg');
+      await delayObxTick();
+      expect(field.validationErrors).toEqual(['Length must be at most 5']);
+
+      field.setValue('A1');
+      await delayObxTick();
+      expect(field.validationErrors).toEqual(['lowercase']);
+
+      // 变量只执行自定义校验
+      field.setValue({ type: 'JSExpression', value: 'this.state.title' });
+      await delayObxTick();
+      expect(field.validationErrors).toEqual([]);
+
+      const codeField = form.settingEntry.get('code');
+      codeField.setValue('used');
+      await delayObxTick();
+      expect(codeField.validationErrors).toEqual(['code is used']);
+      expect(await codeField.validate()).toEqual(['code is used']);
+    });
+
+    it('非法的 pattern 作为校验失败处理', async () => {
+      const field = form.settingEntry.get('mask');
+      field.setValue('abc');
+      await delayObxTick();
+      expect(field.validationErrors).toEqual(['invalid mask']);
+    });
+
+        it('getValidationErrors', async () => {
+      expect(await doc.getValidationErrors()).toEqual([]);
+
+      form.setPropValue('title', '');
+      form.setPropValue('size', 'middle');
+      expect(await doc.getValidationErrors()).toEqual([
+        { nodeId: 'form', path: 'title', message: 'required' },
+        { nodeId: 'form', path: 'size', message: 'invalid size' },
+      ]);
+      // 校验结果同步到配置项，用于在设置面板中展示
+      expect(form.settingEntry.get('size').validationErrors).toEqual(['invalid size']);
+    });
+  });
 });
@@ -5,6 +5,7 @@ import { Designer } from '../../../src/designer/designer';
 import settingSchema from '../../fixtures/schema/setting';
 import divMeta from '../../fixtures/component-metadata/div';
 import { shellModelFactory } from '../../../../engine/src/modules/shell-model-factory';
+import { delay } from '../../utils/misc';
 
 const editor = new Editor();
 
@@ -192,5 +193,142 @@ describe('setting-top-entry 测试', () => {
       // 不同类型的 node 场景下，理论上从页面上已没有修改属性的方法调用，所以此处不再断言各设值方法
       // 思考：假如以后面向其他场景，比如用户用 API 强行调用，是否需要做健壮性保护？
     });
+
+    it('兼容类型的 node 取配置项交集', () => {
+      designer.createComponentMeta({
+        componentName: 'Button',
+        configure: {
+          props: [
+            { name: 'text', title: '文字', setter: 'StringSetter' },
+            { name: 'size', title: '尺寸', setter: 'SelectSetter' },
+            {
+              type: 'group',
+              name: 'advanced',
+              title: '高级',
+              items: [
+                { name: 'fieldId', setter: 'StringSetter' },
+                { name: 'loading', setter: 'BoolSetter' },
+              ],
+            },
+          ],
+        },
+      });
+      designer.createComponentMeta({
+        componentName: 'Link',
+        configure: {
+          props: [
+            { name: 'href', title: '链接', setter: 'StringSetter' },
+            { name: 'text', title: '文字', setter: { componentName: 'StringSetter', props: {} } },
+            { name: 'size', title: '尺寸', setter: 'NumberSetter' },
+            {
+              type: 'group',
+              name: 'advanced',
+              title: '高级',
+              items: [{ name: 'fieldId', setter: 'StringSetter' }],
+            },
+          ],
+        },
+      });
+      designer.project.open({
+        componentName: 'Page',
+        id: 'page',
+        props: {},
+        children: [
+          { componentName: 'Button', id: 'button', props: { text: 'ok' } },
+          { componentName: 'Link', id: 'link', props: { text: 'more' } },
+        ],
+      });
+      const { currentDocument } = designer.project;
+      const settingEntry = designer.createSettingEntry([
+        currentDocument?.getNode('button'),
+        currentDocument?.getNode('link'),
+      ]);
+
+      expect(settingEntry.isSameComponent).toBeFalsy();
+      expect(settingEntry.componentMeta).toBeNull();
+      expect(settingEntry.items.map((item: any) => item.name)).toEqual(['text', 'advanced']);
+      expect((settingEntry.items[1] as any).items.map((item: any) => item.name)).toEqual(['fieldId']);
+
+      const textField = settingEntry.get('text')!;
+      expect(textField.valueState).toBe(-1);
+      textField.setValue('submit');
+      expect(textField.valueState).toBe(2);
+      expect(currentDocument?.getNode('button')?.getPropValue('text')).toBe('submit');
+      expect(currentDocument?.getNode('link')?.getPropValue('text')).toBe('submit');
+
+      settingEntry.purge();
+    });
+
+    it('多个 node 的修改只产生一条历史记录', async () => {
+      designer.project.open(settingSchema);
+      const { currentDocument } = designer.project;
+      const { history } = currentDocument!;
+      const settingEntry = designer.createSettingEntry([
+        currentDocument?.getNode('div'),
+        currentDocument?.getNode('div2'),
+      ]);
+      // 等待打开文档时的历史会话结束
+      await delay(1200);
+      // 紧接在其他修改之后的批量修改也不会合并到之前的记录中
+      currentDocument?.getNode('div')?.setPropValue('className', 'div');
+      const count = history.getRecords().length;
+
+      settingEntry.setPropValue('behavior', 'LARGE');
+      const records = history.getRecords();
+      expect(records).toHaveLength(count + 1);
+      expect(records[records.length - 1]).toMatchObject({
+        label: 'Set behavior',
+        nodeIds: ['div', 'div2'],
+      });
+
+      history.go(count - 1);
+      expect(currentDocument?.getNode('div')?.getPropValue('behavior')).toBe('NORMAL');
+      expect(currentDocument?.getNode('div2')?.getPropValue('behavior')).toBe('NORMAL');
+      expect(currentDocument?.getNode('div')?.getPropValue('className')).toBe('div');
+    });
+  });
+
+  describe('响应式断点', () => {
+    it('编辑断点时属性修改写入 responsive', () => {
+      designer.createComponentMeta(divMeta);
+      const { project } = designer;
+      project.open(settingSchema);
+      const simulatorProps: any = {};
+      project.mountSimulator({
+        get: (key: string) => simulatorProps[key],
+        set: (key: string, value: any) => {
+          simulatorProps[key] = value;
+        },
+      } as any);
+      project.setBreakpoints([{ name: 'mobile', maxWidth: 768 }]);
+      expect(project.getSchema().breakpoints).toEqual([{ name: 'mobile', maxWidth: 768 }]);
+      expect(project.currentBreakpoint).toBeNull();
+
+      const divNode = project.currentDocument?.getNode('div')!;
+      const { settingEntry } = divNode;
+      divNode.setPropValue('style', { color: 'red', width: '100px' });
+
+      project.setCurrentBreakpoint('mobile');
+      expect(simulatorProps.device).toBe('mobile');
+      expect(settingEntry.breakpoint?.name).toBe('mobile');
+
+      settingEntry.setPropValue('behavior', 'LARGE');
+      settingEntry.get('style')!.setPropValue('width', '50px');
+      expect(settingEntry.getPropValue('behavior')).toBe('LARGE');
+      expect(settingEntry.getPropValue('style')).toEqual({ color: 'red', width: '50px' });
+      expect(settingEntry.get('style')!.getPropValue('color')).toBe('red');
+      expect(divNode.getPropValue('behavior')).toBe('NORMAL');
+      expect(divNode.schema.responsive).toEqual({
+        mobile: { behavior: 'LARGE', style: { width: '50px' } },
+      });
+
+      // 清除只清除断点下的覆盖值
+      settingEntry.clearPropValue('behavior');
+      expect(settingEntry.getPropValue('behavior')).toBe('NORMAL');
+
+      project.setCurrentBreakpoint(null);
+      expect(simulatorProps.device).toBe('default');
+      expect(settingEntry.getPropValue('style')).toEqual({ color: 'red', width: '100px' });
+    });
   });
 });
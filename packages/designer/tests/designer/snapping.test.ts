@@ -0,0 +1,173 @@
+import '../fixtures/window';
+import { Editor, engineConfig } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Designer } from '../../src/designer/designer';
+import { snapRect } from '../../src/designer/snapping';
+import { startMoveNodes } from '../../src/designer/node-layout';
+import { INode, IDocumentModel } from '../../src/document';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const absolute = (left: number, top: number, width: number, height: number) => ({
+  position: 'absolute',
+  left: `${left}px`,
+  top: `${top}px`,
+  width: `${width}px`,
+  height: `${height}px`,
+});
+
+// 根据 style 计算节点在画布中的位置
+const computeRect = (node: INode): any => {
+  const style = node.getPropValue('style') || {};
+  const parent = node.parent!.getRect()!;
+  return {
+    left: parent.left + (parseFloat(style.left) || 0),
+    top: parent.top + (parseFloat(style.top) || 0),
+    width: parseFloat(style.width) || 0,
+    height: parseFloat(style.height) || 0,
+  };
+};
+
+describe('snapRect', () => {
+  const target = { left: 100, top: 100, width: 100, height: 100 };
+
+  it('snaps edges and centers within threshold', () => {
+    const result = snapRect({ left: 203, top: 148, width: 50, height: 4 }, [target], [], 5);
+    expect(result.dx).toBe(-3);
+    // 中线 150 与目标中线 150 对齐
+    expect(result.dy).toBe(0);
+    expect(result.lines).toEqual([
+      { direction: 'vertical', position: 200, start: 100, end: 200 },
+      { direction: 'horizontal', position: 150, start: 100, end: 250 },
+    ]);
+  });
+
+  it('does not snap beyond threshold', () => {
+    const result = snapRect({ left: 210, top: 300, width: 50, height: 50 }, [target], [], 5);
+    expect(result.dx).toBe(0);
+    expect(result.dy).toBe(0);
+    expect(result.lines).toEqual([]);
+  });
+
+  it('snaps to guides', () => {
+    const result = snapRect({ left: 12, top: 0, width: 10, height: 10 }, [], [
+      { direction: 'vertical', position: 20 },
+      { direction: 'horizontal', position: 13 },
+    ], 5);
+    expect(result.dx).toBe(-2);
+    expect(result.dy).toBe(3);
+  });
+
+  it('only snaps specified edges', () => {
+    const result = snapRect({ left: 97, top: 300, width: 10, height: 10 }, [target], [], 5, { x: ['end'], y: [] });
+    expect(result.dx).toBe(0);
+    expect(result.dy).toBe(0);
+  });
+
+  it('measures distances to nearest overlapping targets', () => {
+    const result = snapRect({ left: 230, top: 110, width: 50, height: 50 }, [
+      target,
+      { left: 300, top: 100, width: 10, height: 100 },
+      { left: 400, top: 500, width: 10, height: 10 },
+    ], [], 5);
+    expect(result.distances).toEqual([
+      { direction: 'horizontal', position: 135, start: 200, end: 230, value: 30 },
+      { direction: 'horizontal', position: 135, start: 280, end: 300, value: 20 },
+    ]);
+  });
+});
+
+describe('Snapping', () => {
+  let designer: Designer;
+  let doc: IDocumentModel;
+  let a: INode;
+
+  beforeEach(() => {
+    engineConfig.set('enableCanvasSnapping', true);
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    doc = designer.project.open({
+      componentName: 'Page',
+      id: 'page',
+      props: {},
+      children: [
+        { componentName: 'Button', id: 'a', props: { style: absolute(10, 10, 100, 50) } },
+        { componentName: 'Button', id: 'b', props: { style: absolute(200, 40, 50, 50) } },
+      ],
+    } as any)!;
+    doc.project.mountSimulator({
+      computeRect,
+      generateComponentMetadata: () => null,
+      viewport: { contentBounds: { left: 0, top: 0, width: 1000, height: 800 } },
+    } as any);
+    a = doc.getNode('a')!;
+  });
+
+  afterEach(() => {
+    engineConfig.set('enableCanvasSnapping', undefined);
+    designer.purge();
+  });
+
+  it('persists guides in root schema', () => {
+    const { snapping } = designer;
+    snapping.addGuide({ direction: 'vertical', position: 100.4 });
+    snapping.addGuide({ direction: 'horizontal', position: 50 });
+    expect(snapping.getGuides()).toEqual([
+      { direction: 'vertical', position: 100 },
+      { direction: 'horizontal', position: 50 },
+    ]);
+    snapping.updateGuide(1, 60);
+    expect(doc.export(IPublicEnumTransformStage.Save)!.guides).toEqual([
+      { direction: 'vertical', position: 100 },
+      { direction: 'horizontal', position: 60 },
+    ]);
+    snapping.removeGuide(0);
+    snapping.removeGuide(0);
+    expect(snapping.getGuides()).toEqual([]);
+    expect(doc.export(IPublicEnumTransformStage.Save)!.guides).toBeUndefined();
+  });
+
+  it('snapMove snaps to siblings and shows lines', () => {
+    const { snapping } = designer;
+    // a 右边 110 移动 87 后为 197，吸附到 b 的左边 200
+    expect(snapping.snapMove([a], { left: 10, top: 10, width: 100, height: 50 }, 87, 20)).toEqual({ dx: 90, dy: 20 });
+    expect(snapping.lines.some((line) => line.direction === 'vertical' && line.position === 200)).toBeTruthy();
+    snapping.clear();
+    expect(snapping.lines).toEqual([]);
+    expect(snapping.distances).toEqual([]);
+  });
+
+  it('snapResize snaps dragged edges', () => {
+    const { snapping } = designer;
+    const rect = { left: 10, top: 10, width: 100, height: 50 };
+    expect(snapping.snapResize(a, rect, 'e', 88, 0)).toEqual({ dx: 90, dy: 0 });
+    expect(snapping.snapResize(a, rect, 's', 0, 28)).toEqual({ dx: 0, dy: 30 });
+  });
+
+  it('does not snap when disabled', () => {
+    engineConfig.set('enableCanvasSnapping', false);
+    expect(designer.snapping.snapMove([a], { left: 10, top: 10, width: 100, height: 50 }, 87, 0)).toEqual({ dx: 87, dy: 0 });
+    expect(designer.snapping.lines).toEqual([]);
+  });
+
+  it('startMoveNodes', () => {
+    const mover = startMoveNodes([a])!;
+    mover.move(20, 5);
+    mover.move(30, 10);
+    mover.end();
+    expect(a.getPropValue('style')).toMatchObject({ left: '40px', top: '20px' });
+  });
+
+  it('startMoveNodes records one history entry for a drag', () => {
+    // 拖动前后紧接着的修改不合并到拖动的记录中
+    doc.getNode('b')!.setPropValue('title', 'before');
+    const count = doc.history.getRecords().length;
+    const mover = startMoveNodes([a])!;
+    mover.move(20, 5);
+    mover.move(30, 10);
+    mover.end();
+    doc.getNode('b')!.setPropValue('title', 'after');
+
+    const records = doc.history.getRecords();
+    expect(records).toHaveLength(count + 2);
+    expect(records[count]).toMatchObject({ label: 'Move nodes', nodeIds: ['a'] });
+  });
+});
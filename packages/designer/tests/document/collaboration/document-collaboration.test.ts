@@ -0,0 +1,209 @@
+import '../../fixtures/window';
+import { Editor, globalContext } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Workspace } from '@alilc/lowcode-workspace';
+import { Project } from '../../../src/project/project';
+import { Designer } from '../../../src/designer/designer';
+import { DocumentModel } from '../../../src/document/document-model';
+import {
+  DocumentCollaboration,
+  InProcessCollaborationHub,
+} from '../../../src/document/collaboration';
+import formSchema from '../../fixtures/schema/form';
+import { shellModelFactory } from '../../../../engine/src/modules/shell-model-factory';
+
+describe('DocumentCollaboration', () => {
+  let editor: Editor;
+  let designer: Designer;
+  let project: Project;
+  let hub: InProcessCollaborationHub;
+  let docA: DocumentModel;
+  let docB: DocumentModel;
+  let collabA: DocumentCollaboration;
+  let collabB: DocumentCollaboration;
+
+  const exportDoc = (doc: DocumentModel) => doc.export(IPublicEnumTransformStage.Serilize);
+
+  beforeAll(() => {
+    editor = new Editor();
+    globalContext.register(editor, Editor);
+    globalContext.register(editor, 'editor');
+    globalContext.register(new Workspace(), 'workspace');
+  });
+
+  beforeEach(() => {
+    designer = new Designer({ editor, shellModelFactory });
+    project = designer.project;
+    hub = new InProcessCollaborationHub();
+    docA = new DocumentModel(project, formSchema);
+    docB = new DocumentModel(project, formSchema);
+    collabA = new DocumentCollaboration(docA, hub.createTransport(), {
+      user: { id: 'userA', name: 'A', color: 'red' },
+      captureTimeout: 0,
+    });
+    collabB = new DocumentCollaboration(docB, hub.createTransport(), {
+      user: { id: 'userB', name: 'B', color: 'blue' },
+      captureTimeout: 0,
+    });
+  });
+
+  afterEach(() => {
+    collabA.destroy();
+    collabB.destroy();
+  });
+
+  it('syncs prop changes in both directions', () => {
+    docA.getNode('form')!.setPropValue('size', 'small');
+    expect(docB.getNode('form')!.getPropValue('size')).toBe('small');
+
+    docB.getNode('form')!.setPropValue('labelCol', { span: 6 });
+    expect(docA.getNode('form')!.getPropValue('labelCol')).toEqual({ span: 6 });
+
+    docB.getNode('form')!.getProp('labelCol')!.remove();
+    expect(docA.getNode('form')!.getPropValue('labelCol')).toBeUndefined();
+
+    docA.getNode('form')!.setExtraProp('condition', false);
+    expect(docB.getNode('form')!.getExtraProp('condition')!.getValue()).toBe(false);
+
+    expect(exportDoc(docA)).toEqual(exportDoc(docB));
+  });
+
+  it('syncs node insert / move / remove', () => {
+    const formA = docA.getNode('form')!;
+    const parentA = formA.parent!;
+    docA.insertNode(parentA, {
+      componentName: 'Button',
+      id: 'btn',
+      props: { type: 'primary' },
+      children: 'submit',
+    }, 0);
+
+    const btnB = docB.getNode('btn')!;
+    expect(btnB).toBeTruthy();
+    expect(btnB.parent!.id).toBe(parentA.id);
+    expect(btnB.index).toBe(0);
+    expect(btnB.getPropValue('type')).toBe('primary');
+    expect(exportDoc(docA)).toEqual(exportDoc(docB));
+
+    // move into root node
+    docB.rootNode!.children!.insert(btnB, 0);
+    expect(docA.getNode('btn')!.parent).toBe(docA.rootNode);
+    expect(docA.getNode('btn')!.index).toBe(0);
+    expect(exportDoc(docA)).toEqual(exportDoc(docB));
+
+    const formChildIds = formA.children!.map((child) => child.id)!;
+    formA.remove();
+    expect(docB.getNode('form')).toBeNull();
+    // 移除的子树从协作文档中删除
+    ['form', ...formChildIds].forEach((id) => expect(collabB.ydoc.getMap('nodes').has(id)).toBeFalsy());
+    expect(exportDoc(docA)).toEqual(exportDoc(docB));
+  });
+
+  it('late joiner adopts the shared document', () => {
+    docA.getNode('form')!.setPropValue('size', 'large');
+    const docC = new DocumentModel(project, { componentName: 'Page', id: 'page', props: {} } as any);
+    const collabC = new DocumentCollaboration(docC, hub.createTransport(), { user: { id: 'userC' } });
+
+    expect(exportDoc(docC)).toEqual(exportDoc(docA));
+    expect(docC.getNode('form')!.getPropValue('size')).toBe('large');
+    collabC.destroy();
+  });
+
+  it('undo only reverts changes of current user', () => {
+    const formA = docA.getNode('form')!;
+    const formB = docB.getNode('form')!;
+    formA.setPropValue('size', 'small');
+    formB.setPropValue('labelAlign', 'top');
+
+    expect(collabA.canUndo()).toBeTruthy();
+    collabA.undo();
+    expect(formA.getPropValue('size')).toBe('medium');
+    expect(formB.getPropValue('size')).toBe('medium');
+    expect(formA.getPropValue('labelAlign')).toBe('top');
+    expect(formB.getPropValue('labelAlign')).toBe('top');
+
+    expect(collabA.canRedo()).toBeTruthy();
+    collabA.redo();
+    expect(formB.getPropValue('size')).toBe('small');
+  });
+
+  it('does not record remote changes in history', () => {
+    const records = docB.history.getRecords().length;
+    docA.getNode('form')!.setPropValue('size', 'small');
+    expect(docB.getNode('form')!.getPropValue('size')).toBe('small');
+    expect(docB.history.getRecords()).toHaveLength(records);
+  });
+
+  it('routes history undo / redo through undo manager', () => {
+    const formA = docA.getNode('form')!;
+    const formB = docB.getNode('form')!;
+    const onStateChange = jest.fn();
+    docA.history.onChangeState(onStateChange);
+    expect(docA.history.getState() & 1).toBe(0);
+
+    formA.setPropValue('size', 'small');
+    formB.setPropValue('labelCol', { span: 6 });
+    expect(onStateChange).toHaveBeenCalled();
+    expect(docA.history.getState() & 1).toBe(1);
+
+    docA.history.back();
+    expect(formA.getPropValue('size')).toBe('medium');
+    expect(formB.getPropValue('size')).toBe('medium');
+    expect(formA.getPropValue('labelCol')).toEqual({ span: 6 });
+    expect(docA.history.getState() & 2).toBe(2);
+
+    docA.history.forward();
+    expect(formB.getPropValue('size')).toBe('small');
+    expect(formA.getPropValue('labelCol')).toEqual({ span: 6 });
+
+    // 协同期间不能跳转到快照记录，避免覆盖其他用户的变更
+    docA.history.go(0);
+    expect(formA.getPropValue('labelCol')).toEqual({ span: 6 });
+  });
+
+  it('syncs only changed nodes', () => {
+    const writeNode = jest.spyOn(collabA as any, 'writeNode');
+    const applyNode = jest.spyOn(collabB as any, 'applyNode');
+    docA.getNode('form')!.setPropValue('size', 'small');
+    expect(writeNode.mock.calls.map(([node]: any) => node.id)).toEqual(['form']);
+    expect(applyNode.mock.calls.map(([node]: any) => node.id)).toEqual(['form']);
+
+    writeNode.mockClear();
+    applyNode.mockClear();
+    docA.insertNode(docA.rootNode!, { componentName: 'Button', id: 'btn', props: { type: 'primary' } }, 0);
+    expect(writeNode.mock.calls.map(([node]: any) => node.id)).toEqual([docA.rootNode!.id, 'btn']);
+    expect(applyNode.mock.calls.map(([node]: any) => node.id)).toEqual([docB.rootNode!.id]);
+    expect(docB.getNode('btn')!.getPropValue('type')).toBe('primary');
+  });
+
+  it('syncs changes of nodes in slots to the slot owner', () => {
+    const formA = docA.getNode('form')!;
+    formA.setPropValue('extra', {
+      type: 'JSSlot',
+      value: [{ componentName: 'Button', id: 'slotBtn', props: { type: 'primary' } }],
+    });
+    expect(exportDoc(docA)).toEqual(exportDoc(docB));
+
+    const writeNode = jest.spyOn(collabA as any, 'writeNode');
+    docA.getNode('slotBtn')!.setPropValue('type', 'secondary');
+    expect(writeNode.mock.calls.map(([node]: any) => node.id)).toEqual(['form']);
+    expect(docB.getNode('slotBtn')!.getPropValue('type')).toBe('secondary');
+  });
+
+  it('exposes remote selections', () => {
+    const mockFn = jest.fn();
+    docB.selection.onRemoteSelectionChange(mockFn);
+    docA.selection.select('form');
+
+    expect(docB.selection.getRemoteSelections()).toEqual([
+      { userId: 'userA', userName: 'A', color: 'red', selected: ['form'] },
+    ]);
+    expect(mockFn).toHaveBeenCalled();
+    expect(docA.selection.getRemoteSelections()).toEqual([
+      { userId: 'userB', userName: 'B', color: 'blue', selected: [] },
+    ]);
+
+    collabA.destroy();
+    expect(docB.selection.getRemoteSelections()).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { IDocumentModel } from '../../src/document/document-model';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+describe('document comments', () => {
+  let designer: Designer;
+  let project: Project;
+  let doc: IDocumentModel;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    doc = project.createDocument({
+      componentName: 'Page',
+      id: 'page',
+      fileName: 'page',
+      children: [
+        { componentName: 'Div', id: 'div1', children: [{ componentName: 'Button', id: 'button' }] },
+        { componentName: 'Div', id: 'div2' },
+      ],
+    } as any);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('add, reply and resolve threads', () => {
+    const onChange = jest.fn();
+    doc.comments.onChange(onChange);
+
+    expect(doc.comments.addThread('notExists', 'content')).toBeNull();
+    const thread = doc.comments.addThread('button', 'Wrong color', 'PM')!;
+    expect(thread).toMatchObject({ nodeId: 'button', componentName: 'Button', resolved: false });
+    expect(thread.comments).toHaveLength(1);
+    expect(thread.comments[0]).toMatchObject({ content: 'Wrong color', author: 'PM' });
+
+    const replied = doc.comments.reply(thread.id, 'Fixed')!;
+    expect(replied.comments.map((comment) => comment.content)).toEqual(['Wrong color', 'Fixed']);
+    expect(replied.comments[1].author).toBeUndefined();
+    expect(doc.comments.reply('notExists', 'Fixed')).toBeNull();
+
+    doc.comments.resolve(thread.id);
+    expect(doc.comments.getThreads('button')[0].resolved).toBeTruthy();
+    doc.comments.resolve(thread.id, false);
+    expect(doc.comments.getThreads('button')[0].resolved).toBeFalsy();
+    expect(onChange).toBeCalledTimes(4);
+
+    // 评论不属于 schema
+    expect(JSON.stringify(doc.export(IPublicEnumTransformStage.Save))).not.toContain('Wrong color');
+  });
+
+  it('remove comments', () => {
+    const thread = doc.comments.addThread('button', 'Wrong color')!;
+    const replied = doc.comments.reply(thread.id, 'Fixed')!;
+    doc.comments.removeComment(thread.id, replied.comments[1].id);
+    expect(doc.comments.getThreads('button')[0].comments).toHaveLength(1);
+    // 删除第一条评论时删除整个评论串
+    doc.comments.removeComment(thread.id, thread.comments[0].id);
+    expect(doc.comments.threads).toHaveLength(0);
+
+    const other = doc.comments.addThread('div2', 'Too wide')!;
+    doc.comments.removeThread(other.id);
+    expect(doc.comments.threads).toHaveLength(0);
+  });
+
+  it('threads survive node moves and become orphaned when node is removed', () => {
+    const thread = doc.comments.addThread('button', 'Wrong color')!;
+    const button = doc.getNode('button')!;
+    doc.getNode('div2')!.children!.insert(button);
+    expect(button.parent!.id).toBe('div2');
+    expect(doc.comments.isOrphaned(thread.id)).toBeFalsy();
+
+    button.remove();
+    expect(doc.comments.isOrphaned(thread.id)).toBeTruthy();
+    expect(doc.comments.getOrphanedThreads().map((item) => item.id)).toEqual([thread.id]);
+    expect(doc.comments.threads).toHaveLength(1);
+
+    // 重新挂载孤立评论
+    doc.comments.attach(thread.id, 'notExists');
+    expect(doc.comments.isOrphaned(thread.id)).toBeTruthy();
+    doc.comments.attach(thread.id, 'div1');
+    expect(doc.comments.isOrphaned(thread.id)).toBeFalsy();
+    expect(doc.comments.getThreads('div1')[0]).toMatchObject({ id: thread.id, componentName: 'Div' });
+  });
+
+  it('removing parent orphans threads of children', () => {
+    const thread = doc.comments.addThread('button', 'Wrong color')!;
+    doc.removeNode('div1');
+    expect(doc.comments.isOrphaned(thread.id)).toBeTruthy();
+  });
+
+  it('export and import', () => {
+    doc.comments.addThread('button', 'Wrong color', 'PM');
+    const exported = doc.comments.export();
+    exported[0].comments[0].content = 'changed';
+    expect(doc.comments.threads[0].comments[0].content).toBe('Wrong color');
+
+    const other = project.createDocument({ componentName: 'Page', fileName: 'other' } as any);
+    other.comments.import(doc.comments.export());
+    expect(other.comments.threads).toEqual(doc.comments.threads);
+    // 导入到没有对应节点的文档中成为孤立评论
+    expect(other.comments.getOrphanedThreads()).toHaveLength(1);
+  });
+
+  it('save comments in project schema', () => {
+    doc.comments.addThread('button', 'Wrong color', 'PM');
+    const schema = project.getSchema();
+    expect(schema.comments).toEqual({ page: doc.comments.export() });
+    expect(JSON.stringify(schema.componentsTree)).not.toContain('Wrong color');
+    expect(project.getSchema(IPublicEnumTransformStage.Render).comments).toBeUndefined();
+
+    project.load(schema, 'page');
+    const loaded = project.getDocumentByFileName('page')!;
+    expect(loaded).not.toBe(doc);
+    expect(loaded.comments.threads).toEqual(schema.comments!.page);
+    expect(project.getSchema().comments).toEqual(schema.comments);
+
+    loaded.comments.removeThread(loaded.comments.threads[0].id);
+    expect(project.getSchema().comments).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { IDocumentModel } from '../../src/document/document-model';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+describe('data source mock', () => {
+  let designer: Designer;
+  let project: Project;
+  let doc: IDocumentModel;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    doc = project.createDocument({
+      componentName: 'Page',
+      fileName: 'page',
+      dataSource: {
+        list: [
+          { id: 'users', type: 'fetch', options: { uri: '/users' } },
+          { id: 'info', type: 'fetch', options: { uri: '/info' } },
+        ],
+      },
+    } as any);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  function getList() {
+    return (doc.export(IPublicEnumTransformStage.Save) as any).dataSource.list;
+  }
+
+  it('dataSourceMockEnabled', () => {
+    expect(doc.dataSourceMockEnabled).toBeFalsy();
+    doc.dataSourceMockEnabled = true;
+    expect(doc.dataSourceMockEnabled).toBeTruthy();
+    // 开关不保存到 schema 中
+    expect((doc.export(IPublicEnumTransformStage.Save) as any).dataSourceMockEnabled).toBeUndefined();
+  });
+
+  it('setDataSourceMock', () => {
+    expect(doc.setDataSourceMock('notExists', [])).toBeFalsy();
+
+    expect(doc.setDataSourceMock('users', [{ name: 'Tom' }])).toBeTruthy();
+    expect(getList()[0]).toEqual({ id: 'users', type: 'fetch', options: { uri: '/users' }, mock: [{ name: 'Tom' }] });
+    expect(getList()[1].mock).toBeUndefined();
+
+    const generator = { type: 'JSFunction', value: 'function(params) { return params; }' } as any;
+    doc.setDataSourceMock('users', generator);
+    expect(getList()[0].mock).toEqual(generator);
+
+    expect(doc.setDataSourceMock('users', undefined)).toBeTruthy();
+    expect(getList()[0]).toEqual({ id: 'users', type: 'fetch', options: { uri: '/users' } });
+  });
+
+  it('recordDataSourceMock', () => {
+    const getDataSourceResponse = jest.fn((id: string) => (id === 'info' ? { name: 'info', at: new Date(0) } : undefined));
+    project.mountSimulator({
+      getComponentInstances: () => [{ getDataSourceResponse }],
+    } as any);
+
+    expect(doc.recordDataSourceMock('users')).toBeFalsy();
+    expect(doc.recordDataSourceMock('info')).toBeTruthy();
+    expect(getDataSourceResponse).toBeCalledWith('info');
+    expect(getList()[1].mock).toEqual({ name: 'info', at: '1970-01-01T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,92 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { IDocumentModel } from '../../src/document/document-model';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const target: any = {
+  componentName: 'Page',
+  id: 'page',
+  props: { title: 'New Page' },
+  children: [
+    {
+      componentName: 'Form',
+      id: 'form',
+      children: [
+        { componentName: 'Input', id: 'input' },
+        { componentName: 'Button', id: 'button', props: { type: 'primary' } },
+      ],
+    },
+    { componentName: 'Div', id: 'div2', hidden: true },
+  ],
+};
+
+describe('document diff review', () => {
+  let designer: Designer;
+  let project: Project;
+  let doc: IDocumentModel;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    doc = project.createDocument({
+      componentName: 'Page',
+      id: 'page',
+      fileName: 'page',
+      props: { title: 'Page' },
+      children: [
+        { componentName: 'Div', id: 'div1', children: [{ componentName: 'Button', id: 'button', props: { type: 'primary' } }] },
+        { componentName: 'Div', id: 'div2' },
+      ],
+    } as any);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('diff current document without changing it', () => {
+    const hunks = doc.diffSchema(target);
+    expect(hunks.map((hunk) => hunk.id).sort()).toEqual([
+      'added:form',
+      'changed:div2',
+      'changed:page',
+      'moved:button',
+      'removed:div1',
+    ]);
+    expect(doc.diffReview.active).toBeFalsy();
+    expect(doc.diffHunks).toEqual([]);
+  });
+
+  it('accept and reject hunks', () => {
+    doc.startDiffReview(target);
+    expect(doc.diffReview.active).toBeTruthy();
+    expect(doc.diffHunks).toHaveLength(5);
+
+    // 目标父节点尚未接受时无法移动
+    expect(doc.acceptDiffHunk('moved:button')).toBeFalsy();
+    expect(doc.acceptDiffHunk('added:form')).toBeTruthy();
+    expect(doc.getNode('form')!.index).toBe(0);
+    expect(doc.acceptDiffHunk('moved:button')).toBeTruthy();
+    expect(doc.getNode('button')!.parent!.id).toBe('form');
+    expect(doc.getNode('button')!.index).toBe(1);
+
+    expect(doc.acceptDiffHunk('changed:div2')).toBeTruthy();
+    expect(doc.getNode('div2')!.getExtraProp('hidden', false)?.getValue()).toBeTruthy();
+    doc.rejectDiffHunk('changed:page');
+    expect(doc.rootNode!.getPropValue('title')).toBe('Page');
+    expect(doc.acceptDiffHunk('removed:div1')).toBeTruthy();
+    expect(doc.getNode('div1')).toBeNull();
+    expect(doc.diffHunks).toEqual([]);
+    expect(doc.acceptDiffHunk('notExists')).toBeFalsy();
+
+    const { props, ...schema } = target;
+    expect(doc.export(IPublicEnumTransformStage.Save)).toMatchObject({ ...schema, props: { title: 'Page' } });
+
+    doc.stopDiffReview();
+    expect(doc.diffReview.active).toBeFalsy();
+  });
+});
@@ -0,0 +1,168 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { DocumentModel } from '../../src/document/document-model';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const schema: any = {
+  componentName: 'Page',
+  id: 'page',
+  fileName: 'index',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '0' },
+    user: { type: 'JSExpression', value: '{"name":"lowcode","tags":[]}' },
+    visible: true,
+  },
+  methods: {
+    onClick: { type: 'JSFunction', value: 'function() {}' },
+  },
+  dataSource: {
+    list: [{ id: 'users', type: 'fetch', options: {} }],
+  },
+  children: [{
+    componentName: 'List',
+    id: 'list',
+    loop: [{ title: 'a' }],
+    loopArgs: ['record', ''],
+    props: {
+      renderItem: {
+        type: 'JSSlot',
+        params: ['row'],
+        value: [{ componentName: 'Text', id: 'text', props: {} }],
+      },
+    },
+  }],
+};
+
+describe('ExpressionService', () => {
+  let designer: Designer;
+  let project: Project;
+  let doc: DocumentModel;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    project.load({
+      version: '1.0.0',
+      componentsMap: [],
+      componentsTree: [schema],
+      utils: [{ name: 'moment', type: 'npm', content: { package: 'moment' } }],
+      constants: { ENV: 'prod' },
+      i18n: { 'zh-CN': { hello: '你好' }, 'en-US': { hello: 'hello', bye: 'bye' } },
+    } as any, true);
+    doc = project.currentDocument as DocumentModel;
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('getScope', () => {
+    const scope = doc.getExpressionScope();
+    const state = scope.find((item) => item.name === 'state')!;
+    expect(state.members).toEqual([
+      { name: 'count', kind: 'state', type: 'number' },
+      {
+        name: 'user',
+        kind: 'state',
+        type: 'object',
+        members: [
+          { name: 'name', kind: 'state', type: 'string' },
+          { name: 'tags', kind: 'state', type: 'array' },
+        ],
+      },
+      { name: 'visible', kind: 'state', type: 'boolean' },
+      { name: 'users', kind: 'dataSource', type: 'any' },
+    ]);
+    expect(scope.find((item) => item.name === 'onClick')).toEqual({ name: 'onClick', kind: 'method', type: 'function' });
+    expect(scope.find((item) => item.name === 'dataSourceMap')!.members!.map((item) => item.name)).toEqual(['users']);
+    expect(scope.find((item) => item.name === 'utils')!.members).toEqual([{ name: 'moment', kind: 'util', type: 'any' }]);
+    expect(scope.find((item) => item.name === 'constants')!.members).toEqual([{ name: 'ENV', kind: 'constant', type: 'string' }]);
+    expect(scope.find((item) => item.kind === 'loop')).toBeUndefined();
+  });
+
+  it('getScope with loop and slot params', () => {
+    const text = doc.getNode('text');
+    const local = doc.getExpressionScope(text).filter((item) => item.kind === 'loop' || item.kind === 'slot');
+    expect(local.map(({ name, kind, type }) => ({ name, kind, type }))).toEqual([
+      { name: 'row', kind: 'slot', type: 'any' },
+      { name: 'record', kind: 'loop', type: 'object' },
+      { name: 'index', kind: 'loop', type: 'number' },
+    ]);
+    expect(local[1].members).toEqual([{ name: 'title', kind: 'loop', type: 'string' }]);
+  });
+
+  it('getCompletions', () => {
+    expect(doc.getExpressionCompletions('th', 2)).toEqual({
+      range: { start: 0, end: 2 },
+      items: [{ label: 'this', kind: 'context', type: 'object' }],
+    });
+    expect(doc.getExpressionCompletions('this.state.u', 12)).toEqual({
+      range: { start: 11, end: 12 },
+      items: [
+        { label: 'user', kind: 'state', type: 'object', description: undefined },
+        { label: 'users', kind: 'dataSource', type: 'any', description: undefined },
+      ],
+    });
+    expect(doc.getExpressionCompletions('this.state.user?.', 17).items.map((item) => item.label)).toEqual(['name', 'tags']);
+    expect(doc.getExpressionCompletions('this.dataSourceMap.users.', 25).items.map((item) => item.label))
+      .toEqual(['load', 'status', 'data', 'error']);
+    expect(doc.getExpressionCompletions('this.rec', 8, doc.getNode('text')).items.map((item) => item.label)).toEqual(['record']);
+    expect(doc.getExpressionCompletions('"this.st', 8).items).toEqual([]);
+    expect(doc.getExpressionCompletions('this.i18n("h', 12)).toEqual({
+      range: { start: 11, end: 12 },
+      items: [{ label: 'hello', kind: 'i18n', type: 'string' }],
+    });
+  });
+
+  it('getHover', () => {
+    expect(doc.getExpressionHover('this.state.count + 1', 13)).toEqual({
+      range: { start: 11, end: 16 },
+      path: 'this.state.count',
+      variable: { name: 'count', kind: 'state', type: 'number' },
+    });
+    expect(doc.getExpressionHover('this.state.unknown', 13)).toBeNull();
+    expect(doc.getExpressionHover('this.state.count + 1', 17)).toBeNull();
+  });
+
+  it('getDiagnostics', () => {
+    expect(doc.getExpressionDiagnostics('this.state.count + this.utils.moment().format("x")')).toEqual([]);
+    expect(doc.getExpressionDiagnostics('this.state.count +')[0]).toMatchObject({
+      range: { start: 0, end: 18 },
+      level: 'error',
+    });
+    expect(doc.getExpressionDiagnostics('this.state.conut > 0 && this.onClick2() && "this.foo"')).toEqual([
+      { range: { start: 11, end: 16 }, message: 'property conut does not exist on this.state', level: 'warning' },
+      { range: { start: 29, end: 37 }, message: 'property onClick2 does not exist on this', level: 'warning' },
+    ]);
+    expect(doc.getExpressionDiagnostics('this.state.user.name.toUpperCase() + this.state.count()')).toEqual([
+      { range: { start: 48, end: 53 }, message: 'this.state.count is not a function', level: 'warning' },
+    ]);
+    expect(doc.getExpressionDiagnostics('this.record.title', doc.getNode('text'))).toEqual([]);
+    expect(doc.getExpressionDiagnostics('this.i18n("hello") + this.i18n(\'missing\')')).toEqual([
+      { range: { start: 32, end: 39 }, message: 'i18n key missing is not defined', level: 'warning' },
+    ]);
+  });
+
+  it('getScope without exporting document', () => {
+    const exportSpy = jest.spyOn(doc, 'export');
+    doc.getExpressionCompletions('this.state.', 11);
+    expect(exportSpy).not.toHaveBeenCalled();
+    exportSpy.mockRestore();
+  });
+
+  it('getDiagnostics when new Function is disallowed by CSP', () => {
+    const functionSpy = jest.spyOn(global, 'Function').mockImplementation(() => {
+      throw new EvalError('Refused to evaluate a string as JavaScript');
+    });
+    expect(doc.getExpressionDiagnostics('this.state.count +')).toEqual([]);
+    expect(doc.getExpressionDiagnostics('this.state.conut')).toEqual([
+      { range: { start: 11, end: 16 }, message: 'property conut does not exist on this.state', level: 'warning' },
+    ]);
+    expect(functionSpy).toHaveBeenCalledTimes(1);
+    functionSpy.mockRestore();
+  });
+});
@@ -303,6 +303,79 @@ describe('History', () => {
     // @ts-ignore
     expect(history.records).toHaveLength(2);
   });
+
+  it('markChange & getRecords & createCheckpoint', async () => {
+    const mockCursorFn = jest.fn();
+    const history = new History<Node>(
+      () => {
+        const data = tree.toObject();
+        return data;
+      },
+      () => {},
+    );
+    history.onChangeCursor(mockCursorFn);
+
+    await delay(1200);
+    // change described before the snapshot is taken
+    history.markChange('Set data', ['node_1']);
+    tree.data = 3;
+    // change described while the session is active
+    history.markChange('Set data again', ['node_2']);
+    tree.data = 4;
+    expect(mockCursorFn).toHaveBeenCalledTimes(1);
+
+    history.createCheckpoint('checkpoint 1');
+    history.markChange('Add node', ['node_3']);
+    tree.addNode(new Node(5));
+    expect(mockCursorFn).toHaveBeenCalledTimes(2);
+
+    const records = history.getRecords();
+    expect(records).toHaveLength(3);
+    expect(records.map(({ timestamp, ...rest }) => rest)).toEqual([
+      { cursor: 0, label: '', nodeIds: [], checkpoint: undefined, isCurrent: false },
+      { cursor: 1, label: 'Set data again', nodeIds: ['node_1', 'node_2'], checkpoint: 'checkpoint 1', isCurrent: false },
+      { cursor: 2, label: 'Add node', nodeIds: ['node_3'], checkpoint: undefined, isCurrent: true },
+    ]);
+    expect(typeof records[1].timestamp).toBe('number');
+
+    history.go(records[1].cursor);
+    expect(history.getRecords()[1].isCurrent).toBeTruthy();
+    expect(mockCursorFn).toHaveBeenCalledTimes(3);
+
+    // changes are not described while asleep
+    // @ts-ignore
+    history.sleep();
+    history.markChange('Ignored');
+    // @ts-ignore
+    history.wakeup();
+    // @ts-ignore
+    expect(history.pendingChange).toBeNull();
+  });
+
+  it('transact', async () => {
+    const history = new History<Node>(
+      () => {
+        const data = tree.toObject();
+        return data;
+      },
+      () => {},
+    );
+
+    await delay(1200);
+    tree.data = 3;
+    const result = history.transact('Add nodes', () => {
+      tree.addNode(new Node(5));
+      tree.addNode(new Node(6));
+      return 'done';
+    });
+    tree.data = 4;
+
+    expect(result).toBe('done');
+    const records = history.getRecords();
+    expect(records).toHaveLength(4);
+    expect(records[2].label).toBe('Add nodes');
+    expect(records[3].label).toBe('');
+  });
 });
 
 describe('History - errors', () => {
@@ -0,0 +1,213 @@
+import '../../fixtures/window';
+import { Editor, engineConfig, globalContext } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Workspace } from '@alilc/lowcode-workspace';
+import { Project } from '../../../src/project/project';
+import { Designer } from '../../../src/designer/designer';
+import { DocumentModel } from '../../../src/document/document-model';
+import { History } from '../../../src/document/history';
+import { PatchHistory, invertOperation, isPatchHistory } from '../../../src/document/patch-history';
+import formSchema from '../../fixtures/schema/form';
+import { shellModelFactory } from '../../../../engine/src/modules/shell-model-factory';
+import { delay } from '../../utils/misc';
+
+describe('PatchHistory', () => {
+  let editor: Editor;
+  let designer: Designer;
+  let project: Project;
+  let doc: DocumentModel;
+  let history: PatchHistory;
+
+  beforeAll(() => {
+    editor = new Editor();
+    globalContext.register(editor, Editor);
+    globalContext.register(editor, 'editor');
+    globalContext.register(new Workspace(), 'workspace');
+  });
+
+  beforeEach(() => {
+    engineConfig.set('historyMode', 'patch');
+    designer = new Designer({ editor, shellModelFactory });
+    project = designer.project;
+    doc = new DocumentModel(project, formSchema);
+    history = doc.getHistory() as PatchHistory;
+  });
+
+  afterEach(() => {
+    engineConfig.set('historyMode', undefined);
+  });
+
+  const exportDoc = () => JSON.stringify(doc.export(IPublicEnumTransformStage.Serilize));
+
+  it('uses snapshot history by default', () => {
+    engineConfig.set('historyMode', undefined);
+    const snapshotDoc = new DocumentModel(project, formSchema);
+    expect(snapshotDoc.getHistory()).toBeInstanceOf(History);
+    expect(isPatchHistory(snapshotDoc.getHistory())).toBeFalsy();
+    expect(isPatchHistory(history)).toBeTruthy();
+  });
+
+  it('records prop changes as operations and undoes them', () => {
+    const formNode = doc.getNode('form')!;
+    const origin = exportDoc();
+    expect(history.getState()).toBe(0);
+
+    formNode.setPropValue('size', 'small');
+    formNode.setPropValue('style.color', 'red');
+
+    expect(history.hotData).toEqual([
+      { op: 'replace', path: '/form/props/size', value: 'small', oldValue: 'medium' },
+      { op: 'add', path: '/form/props/style', value: { color: 'red' } },
+    ]);
+    // undoable & modified
+    expect(history.getState()).toBe(7 - 2);
+
+    const modified = exportDoc();
+    history.back();
+    expect(formNode.getPropValue('size')).toBe('medium');
+    expect(formNode.getPropValue('style')).toBeUndefined();
+    expect(exportDoc()).toBe(origin);
+    // redoable
+    expect(history.getState()).toBe(7 - 4 - 1);
+
+    history.forward();
+    expect(formNode.getPropValue('size')).toBe('small');
+    expect(exportDoc()).toBe(modified);
+  });
+
+  it('records node insert / remove / move', async () => {
+    const formNode = doc.getNode('form')!;
+    const parent = formNode.parent!;
+    const origin = exportDoc();
+
+    doc.insertNode(parent, { componentName: 'Button', id: 'btn' }, 0);
+    expect(history.hotData).toEqual([
+      expect.objectContaining({ op: 'add', path: `/${parent.id}/children/0` }),
+    ]);
+
+    await delay(1200);
+    const page = doc.rootNode!;
+    page.children!.internalInsert(doc.getNode('btn')!, 0);
+    expect(history.hotData).toEqual([
+      { op: 'move', from: `/${parent.id}/children/0`, path: '/page/children/0' },
+    ]);
+
+    await delay(1200);
+    formNode.remove();
+    expect(history.hotData).toEqual([
+      expect.objectContaining({ op: 'remove', path: `/${parent.id}/children/0` }),
+    ]);
+    const modified = exportDoc();
+
+    // @ts-ignore
+    expect(history.records).toHaveLength(4);
+
+    history.go(0);
+    expect(exportDoc()).toBe(origin);
+    expect(doc.getNode('btn')).toBeNull();
+    expect(doc.getNode('form')!.parent).toBe(parent);
+
+    history.go(3);
+    expect(exportDoc()).toBe(modified);
+    expect(doc.getNode('form')).toBeNull();
+    expect(doc.getNode('btn')!.parent).toBe(page);
+  });
+
+  it('records node import and document import as replace operations', async () => {
+    const origin = exportDoc();
+    const formNode = doc.getNode('form')!;
+    formNode.import({ componentName: 'Form', id: 'form', props: { size: 'large' } });
+    expect(history.hotData).toEqual([
+      expect.objectContaining({ op: 'replace', path: '/form' }),
+    ]);
+
+    await delay(1200);
+    doc.import({ componentName: 'Page', id: 'page', props: {} });
+    expect(history.hotData).toEqual([
+      expect.objectContaining({ op: 'replace', path: '' }),
+    ]);
+
+    history.back();
+    expect(doc.getNode('form')!.getPropValue('size')).toBe('large');
+    history.back();
+    expect(exportDoc()).toBe(origin);
+  });
+
+  it('does not record changes of detached nodes or while applying', () => {
+    const node = doc.createNode({ componentName: 'Button' });
+    node.setPropValue('type', 'primary');
+    expect(history.hotData).toEqual([]);
+
+    const mockCursorFn = jest.fn();
+    history.onCursor(mockCursorFn);
+    doc.getNode('form')!.setPropValue('size', 'small');
+    history.back();
+    expect(mockCursorFn).toHaveBeenCalledWith([]);
+    // @ts-ignore
+    expect(history.records).toHaveLength(2);
+  });
+
+  it('describes records with labels and affected node ids', async () => {
+    const formNode = doc.getNode('form')!;
+    const parent = formNode.parent!;
+
+    formNode.setPropValue('size', 'small');
+    history.createCheckpoint('small form');
+
+    await delay(1200);
+    doc.insertNode(parent, { componentName: 'Button', id: 'btn' }, 0);
+
+    await delay(1200);
+    doc.getNode('btn')!.remove();
+
+    const records = history.getRecords().map(({ timestamp, ...rest }) => rest);
+    expect(records).toEqual([
+      { cursor: 0, label: '', nodeIds: [], checkpoint: undefined, isCurrent: false },
+      { cursor: 1, label: 'Set prop size on form', nodeIds: ['form'], checkpoint: 'small form', isCurrent: false },
+      { cursor: 2, label: 'Add node btn', nodeIds: [parent.id, 'btn'], checkpoint: undefined, isCurrent: false },
+      { cursor: 3, label: 'Remove node btn', nodeIds: [parent.id, 'btn'], checkpoint: undefined, isCurrent: true },
+    ]);
+
+    history.go(1);
+    expect(history.getRecords()[1].isCurrent).toBeTruthy();
+    expect(doc.getNode('btn')).toBeNull();
+    expect(formNode.getPropValue('size')).toBe('small');
+  });
+
+  it('transact records changes in a separate record', () => {
+    const formNode = doc.getNode('form')!;
+    const parent = formNode.parent!;
+    formNode.setPropValue('size', 'small');
+    const origin = exportDoc();
+
+    history.transact('Paste nodes', () => {
+      doc.insertNode(parent, { componentName: 'Button', id: 'btn' }, 0);
+      formNode.setPropValue('size', 'large');
+    });
+    formNode.setPropValue('labelCol', 4);
+
+    const records = history.getRecords();
+    expect(records).toHaveLength(4);
+    expect(records[2]).toMatchObject({ label: 'Paste nodes', nodeIds: [parent.id, 'btn', 'form'] });
+
+    history.back();
+    history.back();
+    expect(exportDoc()).toBe(origin);
+  });
+
+  it('savePoint & isSavePoint', () => {
+    expect(history.isSavePoint()).toBeFalsy();
+    doc.getNode('form')!.setPropValue('size', 'small');
+    expect(history.isSavePoint()).toBeTruthy();
+    expect(doc.isModified()).toBeTruthy();
+    history.savePoint();
+    expect(history.isSavePoint()).toBeFalsy();
+  });
+
+  it('invertOperation', () => {
+    expect(invertOperation({ op: 'add', path: '/a', value: 1 })).toEqual({ op: 'remove', path: '/a', oldValue: 1 });
+    expect(invertOperation({ op: 'remove', path: '/a', oldValue: 1 })).toEqual({ op: 'add', path: '/a', value: 1 });
+    expect(invertOperation({ op: 'replace', path: '/a', value: 1, oldValue: 2 })).toEqual({ op: 'replace', path: '/a', value: 2, oldValue: 1 });
+    expect(invertOperation({ op: 'move', from: '/a/children/0', path: '/b/children/1' })).toEqual({ op: 'move', from: '/b/children/1', path: '/a/children/0' });
+  });
+});
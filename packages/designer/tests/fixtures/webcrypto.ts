@@ -0,0 +1,6 @@
+import { webcrypto } from 'crypto';
+
+// yjs 依赖的 lib0 会使用全局的 crypto，jsdom 中没有提供
+if (!(global as any).crypto) {
+  (global as any).crypto = webcrypto;
+}
@@ -116,13 +116,14 @@ describe('组件元数据处理', () => {
 
   it('availableActions', () => {
     const meta = new ComponentMeta(designer, divMeta);
-    expect(meta.availableActions).toHaveLength(5);
+    expect(meta.availableActions).toHaveLength(6);
     expect(meta.availableActions[0].name).toBe('remove');
     expect(meta.availableActions[1].name).toBe('hide');
     expect(meta.availableActions[2].name).toBe('copy');
+    expect(meta.availableActions[3].name).toBe('extract');
 
     designer.componentActions.removeBuiltinComponentAction('remove');
-    expect(meta.availableActions).toHaveLength(4);
+    expect(meta.availableActions).toHaveLength(5);
     expect(meta.availableActions[0].name).toBe('hide');
     expect(meta.availableActions[1].name).toBe('copy');
 
@@ -132,10 +133,10 @@ describe('组件元数据处理', () => {
         action() {},
       },
     });
-    expect(meta.availableActions).toHaveLength(5);
+    expect(meta.availableActions).toHaveLength(6);
     expect(meta.availableActions[0].name).toBe('hide');
     expect(meta.availableActions[1].name).toBe('copy');
-    expect(meta.availableActions[4].name).toBe('new');
+    expect(meta.availableActions[5].name).toBe('new');
   });
 
   it('availableActions - disableBehaviors: *', () => {
@@ -0,0 +1,203 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+import { delay } from '../utils/misc';
+
+const pageSchema: any = {
+  componentName: 'Page',
+  id: 'page',
+  fileName: 'index',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '0' },
+    title: { type: 'JSExpression', value: '"hello"' },
+  },
+  methods: {
+    onClick: { type: 'JSFunction', value: 'function() { this.format(this.state.count); }' },
+    format: { type: 'JSFunction', value: 'function(value) { return String(value); }' },
+    refresh: { type: 'JSFunction', value: 'function() {}' },
+  },
+  children: [{
+    componentName: 'Card',
+    id: 'card',
+    props: {
+      title: { type: 'JSExpression', value: 'this.state.title' },
+      onClick: { type: 'JSFunction', value: 'this.onClick' },
+    },
+    children: [{
+      componentName: 'Button',
+      id: 'button',
+      props: {
+        label: 'submit',
+        onClick: { type: 'JSFunction', value: 'this.refresh' },
+      },
+    }],
+  }, {
+    componentName: 'Text',
+    id: 'text',
+    props: {
+      content: { type: 'JSExpression', value: 'this.state.count' },
+      onClick: { type: 'JSFunction', value: 'this.refresh' },
+    },
+  }],
+};
+
+const getCursorListenerCount = (doc: any): number => doc.history.emitter.eventEmitter.listenerCount('cursor');
+
+describe('ComponentExtractor', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    project.load({
+      version: '1.0.0',
+      componentsMap: [],
+      componentsTree: [pageSchema],
+    } as any, true);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('extracts subtree into component', () => {
+    const page = project.getDocumentByFileName('index')!;
+    const result = project.extractComponent([page.getNode('card')!], {
+      componentName: 'SubmitCard',
+      title: '提交卡片',
+      props: [{ nodeId: 'button', prop: 'label', name: 'buttonLabel' }],
+    });
+    expect(result).toMatchObject({
+      success: true,
+      componentName: 'SubmitCard',
+      state: ['title', 'count'],
+      methods: ['onClick', 'format', 'refresh'],
+    });
+
+    // 组件文档
+    const component = project.getDocument(result.documentId!)!;
+    expect(component.fileName).toBe('SubmitCard');
+    const componentSchema: any = component.export(IPublicEnumTransformStage.Serilize);
+    expect(componentSchema.componentName).toBe('Component');
+    expect(Object.keys(componentSchema.state)).toEqual(['title', 'count']);
+    expect(Object.keys(componentSchema.methods)).toEqual(['onClick', 'format', 'refresh']);
+    expect(componentSchema.children[0].children[0].props.label).toEqual({ type: 'JSExpression', value: 'this.props.buttonLabel' });
+
+    // 组件物料
+    const meta = designer.getComponentMeta('SubmitCard');
+    expect(meta.title).toMatchObject({ 'zh-CN': '提交卡片' });
+    expect(meta.getMetadata().devMode).toBe('lowCode');
+    expect(designer.componentsMap.SubmitCard).toMatchObject({ componentName: 'Component', fileName: 'SubmitCard' });
+
+    // 源文档中子树被替换，仍被引用的 state 和方法被保留
+    const schema: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(schema.children.map((child: any) => child.componentName)).toEqual(['SubmitCard', 'Text']);
+    expect(schema.children[0].props).toEqual({ buttonLabel: 'submit' });
+    expect(Object.keys(schema.state)).toEqual(['count']);
+    expect(Object.keys(schema.methods)).toEqual(['refresh']);
+    expect(project.getSchema().componentsMap).toContainEqual({ devMode: 'lowCode', componentName: 'SubmitCard' });
+  });
+
+  it('undo and redo extraction', async () => {
+    const page = project.getDocumentByFileName('index')!;
+    // 等待加载时的历史会话结束，提取单独成为一条记录
+    await delay(1200);
+    const result = project.extractComponent([page.getNode('card')!, page.getNode('text')!]);
+    expect(result.componentName).toBe('Component1');
+    expect(project.documents).toHaveLength(2);
+    const records = page.history.getRecords();
+    expect(records[records.length - 1].label).toBe('Extract component Component1');
+
+    page.history.go(records.length - 2);
+    const reverted: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(reverted.children.map((child: any) => child.id)).toEqual(['card', 'text']);
+    expect(Object.keys(reverted.methods)).toEqual(['onClick', 'format', 'refresh']);
+    expect(project.getDocumentByFileName('Component1')).toBeNull();
+    expect(designer.getComponentMetasMap().has('Component1')).toBeFalsy();
+
+    page.history.go(records.length - 1);
+    expect(page.getNode(result.nodeId!)).toBeTruthy();
+    expect(project.getDocumentByFileName('Component1')).toBeTruthy();
+    expect(designer.getComponentMetasMap().get('Component1')!.getMetadata().devMode).toBe('lowCode');
+  });
+
+  it('stop syncing with history once the extraction record is discarded', async () => {
+    const page = project.getDocumentByFileName('index')!;
+    await delay(1200);
+    const count = getCursorListenerCount(page);
+    project.extractComponent([page.getNode('card')!]);
+    expect(getCursorListenerCount(page)).toBe(count + 1);
+
+    page.history.go(page.history.getRecords().length - 2);
+    expect(getCursorListenerCount(page)).toBe(count + 1);
+    await delay(1200);
+    page.insertNode(page.rootNode!, { componentName: 'Button' });
+    expect(getCursorListenerCount(page)).toBe(count);
+  });
+
+  it('stop syncing with history when the source document is removed', () => {
+    const page = project.getDocumentByFileName('index')!;
+    const count = getCursorListenerCount(page);
+    project.extractComponent([page.getNode('card')!]);
+    page.remove();
+    expect(getCursorListenerCount(page)).toBe(count);
+  });
+
+  it('copies referenced data sources into component', () => {
+    project.unload();
+    project.load({
+      version: '1.0.0',
+      componentsMap: [],
+      componentsTree: [{
+        ...pageSchema,
+        dataSource: {
+          list: [
+            { id: 'users', type: 'fetch', options: { uri: '/users' } },
+            { id: 'orders', type: 'fetch', options: { uri: '/orders' } },
+          ],
+        },
+        children: [{
+          componentName: 'Table',
+          id: 'table',
+          props: {
+            dataSource: { type: 'JSExpression', value: 'this.state.users' },
+            onRefresh: { type: 'JSFunction', value: 'function() { this.dataSourceMap.orders.load(); }' },
+          },
+        }, {
+          componentName: 'Text',
+          id: 'text',
+          props: { content: { type: 'JSExpression', value: 'this.state.orders' } },
+        }],
+      }],
+    } as any, true);
+    const page = project.getDocumentByFileName('index')!;
+    const result = project.extractComponent([page.getNode('table')!], { componentName: 'UserTable' });
+    expect(result.dataSource).toEqual(['users', 'orders']);
+
+    const componentSchema: any = project.getDocument(result.documentId!)!.export(IPublicEnumTransformStage.Serilize);
+    expect(componentSchema.dataSource.list.map((item: any) => item.id)).toEqual(['users', 'orders']);
+    // 仍被引用的数据源保留在源文档中
+    const schema: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(schema.dataSource.list.map((item: any) => item.id)).toEqual(['orders']);
+  });
+
+  it('fails without changes', () => {
+    const page = project.getDocumentByFileName('index')!;
+    expect(project.extractComponent([]).success).toBeFalsy();
+    expect(project.extractComponent([page.rootNode!]).success).toBeFalsy();
+    expect(project.extractComponent([page.getNode('card')!, page.getNode('button')!]).success).toBeFalsy();
+    expect(project.extractComponent([page.getNode('card')!], { componentName: 'card' }).success).toBeFalsy();
+    expect(project.extractComponent([page.getNode('card')!], { componentName: 'index' }).success).toBeFalsy();
+    expect(project.extractComponent([page.getNode('card')!], {
+      props: [{ nodeId: 'text', prop: 'content' }],
+    }).error).toBe('node text is not in the extracted subtree');
+    expect(project.documents).toHaveLength(1);
+    expect(page.getNode('card')).toBeTruthy();
+  });
+});
@@ -0,0 +1,103 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { importHtml } from '../../src/utils/html-to-schema';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <title> Legacy </title>
+    <style>.box { color: red; }</style>
+  </head>
+  <body class="page">
+    <div class="box" style="padding: 8px">
+      <button type="submit">Submit <i>now</i></button>
+      <img src="a.png" />
+    </div>
+    <style>.footer { margin: 0; }</style>
+    <script>alert(1)</script>
+  </body>
+</html>`;
+
+const rules = [
+  { selector: 'button', componentName: 'Button', textProp: 'content' },
+  { selector: 'img', componentName: 'Image', props: (element: Element) => ({ src: element.getAttribute('src') }) },
+  { selector: 'div.box', componentName: 'Card' },
+];
+
+describe('importHtml', () => {
+  it('converts html document to container schema', () => {
+    const schema: any = importHtml(html, { fileName: 'legacy', rules });
+    expect(schema).toMatchObject({
+      componentName: 'Page',
+      fileName: 'legacy',
+      title: 'Legacy',
+      props: { className: 'page' },
+      css: '.box { color: red; }\n.footer { margin: 0; }',
+    });
+    expect(schema.children).toEqual([{
+      componentName: 'Card',
+      props: { className: 'box', style: { padding: '8px' } },
+      children: [{
+        componentName: 'Button',
+        props: { type: 'submit' },
+        children: ['Submit', { componentName: 'Div', props: { children: 'now' } }],
+      }, {
+        componentName: 'Image',
+        props: { src: 'a.png' },
+      }],
+    }]);
+  });
+});
+
+describe('project.importHtml', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    project.load({ version: '1.0.0', componentsMap: [], componentsTree: [] } as any);
+    designer.createComponentMeta({ componentName: 'Button', configure: { component: { isContainer: false } } });
+    designer.createComponentMeta({ componentName: 'Image', configure: { component: { isContainer: false } } });
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('only uses rules of registered components', () => {
+    const doc = project.importHtml(html, { fileName: 'legacy', rules })!;
+    expect(project.currentDocument).toBe(doc);
+    expect(doc.fileName).toBe('legacy');
+    const schema: any = doc.export(IPublicEnumTransformStage.Save);
+    expect(schema.css).toBe('.box { color: red; }\n.footer { margin: 0; }');
+    // Card 未注册，使用默认组件
+    expect(schema.children[0].componentName).toBe('Div');
+    // Button 不是容器，子元素只保留文本
+    expect(schema.children[0].children[0]).toMatchObject({
+      componentName: 'Button',
+      props: { content: 'Submit now', type: 'submit' },
+    });
+    expect(schema.children[0].children[0].children).toBeUndefined();
+  });
+
+  it('htmlToSchema only uses rules of registered components', () => {
+    const nodes: any[] = project.htmlToSchema('<div class="card"><button>Submit <b>now</b></button></div>', {
+      rules: [
+        { selector: '.card', componentName: 'Card' },
+        { selector: 'button', componentName: 'Button', textProp: 'content' },
+      ],
+    });
+    expect(nodes).toEqual([{
+      componentName: 'Div',
+      props: { className: 'card' },
+      children: [{ componentName: 'Button', props: { content: 'Submit now' } }],
+    }]);
+    expect(project.documents).toHaveLength(0);
+  });
+});
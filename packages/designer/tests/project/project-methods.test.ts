@@ -1,5 +1,6 @@
 import '../fixtures/window';
 import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
 import { Project } from '../../src/project/project';
 import { DocumentModel } from '../../src/document/document-model';
 import { Designer } from '../../src/designer/designer';
@@ -178,4 +179,40 @@ describe.only('Project 方法测试', () => {
     project.setRendererReady({ a: 1 });
     expect(mockFn).not.toHaveBeenCalled();
   });
+
+  it('validateSchema', () => {
+    project.load({
+      version: '1.0.0',
+      componentsMap: [],
+      componentsTree: [{
+        componentName: 'Page',
+        id: 'page',
+        children: [{ componentName: 'Button', id: 'page', loopArgs: ['item', 'index', 'extra'] }],
+      }],
+    } as any, true);
+    const { valid, diagnostics } = project.validateSchema();
+    expect(valid).toBeFalsy();
+    expect(diagnostics.map(({ path, rule }) => `${rule}:${path}`)).toEqual([
+      'protocol:/componentsTree/0/children/0/loopArgs',
+      'unique-id:/componentsTree/0/children/0/id',
+      'components-map:/componentsTree/0/children/0/componentName',
+    ]);
+
+    expect(project.validateSchema({ version: '1.0.0', componentsMap: [], componentsTree: [formSchema as any] }).valid).toBeTruthy();
+  });
+
+  it('validate schema on load only', () => {
+    const checkSchema = jest.spyOn(project, 'checkSchema');
+    project.load({ version: '1.0.0', componentsMap: [], componentsTree: [formSchema as any] }, true);
+    expect(checkSchema).toHaveBeenCalledTimes(1);
+
+    // 导入文档时只校验节点 schema，不重复校验整个项目
+    const document = project.currentDocument!;
+    document.import(document.export(IPublicEnumTransformStage.Serilize)!);
+    expect(checkSchema).toHaveBeenCalledTimes(1);
+
+    project.setSchema({ version: '1.0.0', componentsMap: [], componentsTree: [formSchema as any] });
+    expect(checkSchema).toHaveBeenCalledTimes(2);
+    checkSchema.mockRestore();
+  });
 });
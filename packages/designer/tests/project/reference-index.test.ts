@@ -0,0 +1,185 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicEnumTransformStage } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+import { delay } from '../utils/misc';
+
+const pageSchema: any = {
+  componentName: 'Page',
+  id: 'page',
+  fileName: 'index',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '0' },
+  },
+  methods: {
+    onClick: { type: 'JSFunction', value: 'function() { this.setState({ count: this.state.count + 1 }); this.utils.track("count"); }' },
+  },
+  lifeCycles: {
+    componentDidMount: { type: 'JSFunction', value: 'function() { this.dataSourceMap.users.load(); }' },
+  },
+  dataSource: {
+    list: [{ id: 'users', type: 'fetch', options: {} }],
+  },
+  children: [{
+    componentName: 'Card',
+    id: 'card',
+    props: {
+      title: { type: 'JSExpression', value: '`count: ${this.state.count}` + "this.state.count"' },
+      items: [{ label: { type: 'JSExpression', value: 'this.state["count"]' } }],
+      onClick: { type: 'JSFunction', value: 'this.onClick' },
+    },
+    condition: { type: 'JSExpression', value: 'this.state.users.length > 0' },
+    children: [{ componentName: 'Card', id: 'inner', props: {} }],
+  }],
+};
+
+const cardSchema: any = {
+  componentName: 'Component',
+  id: 'card-root',
+  fileName: 'Card',
+  props: {},
+  state: {
+    count: { type: 'JSExpression', value: '1' },
+  },
+  children: [{
+    componentName: 'Text',
+    id: 'text',
+    props: { content: { type: 'JSExpression', value: 'this.state.count' } },
+  }],
+};
+
+describe('ReferenceIndex', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+    project.load({
+      version: '1.0.0',
+      componentsMap: [
+        { componentName: 'Button', package: '@alifd/next' },
+        { componentName: 'Card', devMode: 'lowCode' },
+      ],
+      componentsTree: [pageSchema, cardSchema],
+      utils: [{ name: 'track', type: 'function', content: { type: 'JSFunction', value: 'function() {}' } }],
+    } as any, true);
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  const getDocument = (fileName: string) => project.getDocumentByFileName(fileName)!;
+
+  it('findUsages of state', () => {
+    const page = getDocument('index');
+    const usages = project.findUsages({ type: 'state', name: 'count', documentId: page.id });
+    expect(usages.map(({ nodeId, path, kind, range }) => ({ nodeId, path, kind, range }))).toEqual([
+      { nodeId: 'page', path: '/state/count', kind: 'declaration', range: undefined },
+      { nodeId: 'page', path: '/methods/onClick', kind: 'expression', range: { start: 29, end: 34 } },
+      { nodeId: 'page', path: '/methods/onClick', kind: 'expression', range: { start: 47, end: 52 } },
+      { nodeId: 'card', path: '/children/0/props/title', kind: 'expression', range: { start: 21, end: 26 } },
+      { nodeId: 'card', path: '/children/0/props/items/0/label', kind: 'expression', range: { start: 12, end: 17 } },
+    ]);
+    expect(usages[0]).toMatchObject({ documentId: page.id, fileName: 'index' });
+    // 不指定文档时查找所有文档
+    expect(project.findUsages({ type: 'state', name: 'count' })).toHaveLength(7);
+  });
+
+  it('findUsages of component, method, data source and util', () => {
+    expect(project.findUsages({ type: 'component', name: 'Card' }).map(({ path, kind }) => ({ path, kind }))).toEqual([
+      { path: '/children/0/componentName', kind: 'node' },
+      { path: '/children/0/children/0/componentName', kind: 'node' },
+      { path: '/fileName', kind: 'declaration' },
+    ]);
+    expect(project.findUsages({ type: 'method', name: 'onClick' }).map(({ path }) => path)).toEqual([
+      '/methods/onClick',
+      '/children/0/props/onClick',
+    ]);
+    expect(project.findUsages({ type: 'dataSource', name: 'users' }).map(({ path }) => path)).toEqual([
+      '/dataSource/list/0/id',
+      '/lifeCycles/componentDidMount',
+      '/children/0/condition',
+    ]);
+    expect(project.findUsages({ type: 'util', name: 'track' }).map(({ path }) => path)).toEqual(['/methods/onClick']);
+  });
+
+  it('renameReference of state', async () => {
+    const page = getDocument('index');
+    const card = getDocument('Card');
+    // 等待加载时的历史会话结束，重命名单独成为一条记录
+    await delay(1200);
+    const recordCount = page.history.getRecords().length;
+    const result = project.renameReference({ type: 'state', name: 'count', documentId: page.id }, 'total');
+    expect(result.success).toBeTruthy();
+    expect(result.usages).toHaveLength(5);
+
+    const schema: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(Object.keys(schema.state)).toEqual(['total']);
+    expect(schema.methods.onClick.value).toBe('function() { this.setState({ total: this.state.total + 1 }); this.utils.track("count"); }');
+    expect(schema.children[0].props.title.value).toBe('`count: ${this.state.total}` + "this.state.count"');
+    expect(schema.children[0].props.items[0].label.value).toBe('this.state["total"]');
+    expect(page.getNode('card')).toBeTruthy();
+    // 其他文档不受影响
+    expect((card.export(IPublicEnumTransformStage.Serilize) as any).state.count).toBeTruthy();
+
+    const records = page.history.getRecords();
+    expect(records).toHaveLength(recordCount + 1);
+    expect(records[records.length - 1].label).toBe('Rename state count to total');
+
+    // 一次撤销即可回退整个重命名
+    page.history.go(records.length - 2);
+    const reverted: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(Object.keys(reverted.state)).toEqual(['count']);
+    expect(reverted.children[0].props.items[0].label.value).toBe('this.state["count"]');
+  });
+
+  it('renameReference of component, data source and util', () => {
+    const page = getDocument('index');
+    designer.createComponentMeta({ componentName: 'Card', description: 'card', devMode: 'lowCode' } as any);
+    expect(project.renameReference({ type: 'component', name: 'Card' }, 'InfoCard').success).toBeTruthy();
+    expect(getDocument('InfoCard')).toBeTruthy();
+    // componentsMap 及物料元数据同步修改
+    expect((project.get('componentsMap') as any[]).map((item) => item.componentName)).toEqual(['Button', 'InfoCard']);
+    expect(designer.getComponentMetasMap().has('Card')).toBeFalsy();
+    const meta = designer.getComponentMetasMap().get('InfoCard');
+    expect(meta?.getMetadata().description).toBe('card');
+    expect(page.getNode('card')?.componentMeta).toBe(meta);
+    expect(page.history.getRecords().pop()?.label).toBe('Rename component Card to InfoCard');
+    const schema: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(schema.children[0].componentName).toBe('InfoCard');
+    expect(schema.children[0].id).toBe('card');
+    expect(schema.children[0].children[0]).toMatchObject({ componentName: 'InfoCard', id: 'inner' });
+    expect(schema.children[0].props.onClick.value).toBe('this.onClick');
+
+    project.renameReference({ type: 'dataSource', name: 'users' }, 'members');
+    const renamed: any = page.export(IPublicEnumTransformStage.Serilize);
+    expect(renamed.dataSource.list[0].id).toBe('members');
+    expect(renamed.children[0].condition.value).toBe('this.state.members.length > 0');
+    expect(renamed.lifeCycles.componentDidMount.value).toBe('function() { this.dataSourceMap.members.load(); }');
+
+    project.renameReference({ type: 'util', name: 'track' }, 'report');
+    expect((project.get('utils') as any[])[0].name).toBe('report');
+    expect((page.export(IPublicEnumTransformStage.Serilize) as any).methods.onClick.value).toContain('this.utils.report("count")');
+  });
+
+  it('renameReference fails on invalid or conflicting names', () => {
+    const page = getDocument('index');
+    expect(project.renameReference({ type: 'state', name: 'count' }, '1count')).toEqual({
+      success: false,
+      usages: [],
+      error: '1count is not a valid name',
+    });
+    expect(project.renameReference({ type: 'method', name: 'onClick' }, 'setState').error).toBe('setState is reserved');
+    expect(project.renameReference({ type: 'component', name: 'Text' }, 'Card').error).toBe('component Card already exists');
+    expect(project.renameReference({ type: 'component', name: 'Card' }, 'Button').error).toBe('component Button already exists');
+    expect(project.renameReference({ type: 'dataSource', name: 'users' }, 'users').error)
+      .toBe('users is the same as the original name');
+    expect((page.export(IPublicEnumTransformStage.Serilize) as any).state.count).toBeTruthy();
+  });
+});
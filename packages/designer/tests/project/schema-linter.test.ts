@@ -0,0 +1,154 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicTypeContainerSchema } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { SchemaLinter } from '../../src/project/schema-linter';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const createSchema = (): IPublicTypeContainerSchema => ({
+  componentName: 'Page',
+  id: 'page',
+  fileName: 'index',
+  props: {},
+  state: {
+    list: { type: 'JSExpression', value: '[]' },
+  },
+  methods: {
+    onClick: { type: 'JSFunction', value: 'function() { this.setState({ list: this.state.items }); }' },
+    unused: { type: 'JSFunction', value: 'function() { this.unused(); }' },
+  },
+  lifeCycles: {
+    componentDidMount: { type: 'JSFunction', value: 'function() { this.dataSourceMap.users.load(); }' },
+  },
+  dataSource: {
+    list: [
+      { id: 'users', type: 'fetch', options: { uri: { type: 'JSExpression', value: 'this.state.list' } } },
+      { id: 'orders', type: 'fetch', options: { uri: '/orders' } },
+    ],
+  },
+  children: [{
+    componentName: 'Button',
+    id: 'button',
+    props: {
+      onClick: { type: 'JSFunction', value: 'this.onClick' },
+      children: { type: 'JSExpression', value: 'this.state.users.length' },
+      icon: {
+        type: 'JSSlot',
+        value: [{ componentName: 'Image', id: 'image', props: { src: 'a.png' } }],
+      },
+    },
+  }, {
+    componentName: 'img',
+    id: 'img',
+    props: { alt: 'logo' },
+  }],
+} as any);
+
+describe('SchemaLinter', () => {
+  it('builtin rules', () => {
+    const problems = new SchemaLinter().lint(createSchema());
+    expect(problems).toEqual([
+      {
+        path: '/methods/onClick',
+        message: 'state items is not defined',
+        level: 'warning',
+        rule: 'no-undefined-state',
+        nodeId: 'page',
+      },
+      {
+        path: '/methods/unused',
+        message: 'method unused is never used',
+        level: 'warning',
+        rule: 'no-unused-methods',
+        nodeId: 'page',
+      },
+      {
+        path: '/dataSource/list/1',
+        message: 'data source orders is never used',
+        level: 'warning',
+        rule: 'no-unused-data-source',
+        nodeId: 'page',
+      },
+      {
+        path: '/children/0/props/icon/value/0/props/alt',
+        message: 'Image should have alt text',
+        level: 'warning',
+        rule: 'img-alt',
+        nodeId: 'image',
+      },
+    ]);
+  });
+
+  it('custom rules', () => {
+    const linter = new SchemaLinter();
+    const dispose = linter.register({
+      name: 'no-button',
+      level: 'error',
+      lint({ nodes, report }) {
+        nodes
+          .filter((item) => item.schema.componentName === 'Button')
+          .forEach((item) => report({ message: 'Button is not allowed', nodeId: item.schema.id }));
+      },
+    });
+    linter.register({
+      name: 'broken',
+      lint() {
+        throw new Error('broken');
+      },
+    });
+    // 同名规则覆盖内置规则
+    linter.register({ name: 'img-alt', lint() {} });
+
+    const problems = linter.lint(createSchema());
+    expect(problems.filter((item) => item.rule === 'img-alt')).toHaveLength(0);
+    expect(problems.filter((item) => item.rule === 'no-button')).toEqual([{
+      path: '/children/0',
+      message: 'Button is not allowed',
+      level: 'error',
+      rule: 'no-button',
+      nodeId: 'button',
+    }]);
+
+    dispose();
+    expect(linter.lint(createSchema()).filter((item) => item.rule === 'no-button')).toHaveLength(0);
+    expect(linter.lint(undefined)).toEqual([]);
+  });
+});
+
+describe('document.lint', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('lints current document with rules registered in project', () => {
+    project.open(createSchema() as any);
+    const doc = project.currentDocument!;
+    expect(doc.lint().map((item) => item.rule)).toEqual([
+      'no-undefined-state',
+      'no-unused-methods',
+      'no-unused-data-source',
+      'img-alt',
+    ]);
+
+    const dispose = project.registerLintRule({
+      name: 'no-unused-methods',
+      lint() {},
+    });
+    expect(doc.lint().map((item) => item.rule)).not.toContain('no-unused-methods');
+    dispose();
+    expect(doc.lint().map((item) => item.rule)).toContain('no-unused-methods');
+
+    doc.getNode('image')?.setPropValue('alt', 'avatar');
+    expect(doc.lint().map((item) => item.rule)).not.toContain('img-alt');
+  });
+});
@@ -0,0 +1,153 @@
+import '../fixtures/window';
+import { Editor } from '@alilc/lowcode-editor-core';
+import { IPublicTypeProjectSchema } from '@alilc/lowcode-types';
+import { Project } from '../../src/project/project';
+import { Designer } from '../../src/designer/designer';
+import { SchemaMigrations } from '../../src/project/schema-migration';
+import { shellModelFactory } from '../../../engine/src/modules/shell-model-factory';
+
+const createSchema = (version?: string): IPublicTypeProjectSchema => ({
+  version,
+  componentsMap: [],
+  componentsTree: [{
+    componentName: 'Page',
+    id: 'page',
+    props: { title: 'hello' },
+  }],
+} as any);
+
+describe('SchemaMigrations', () => {
+  let migrations: SchemaMigrations;
+
+  beforeEach(() => {
+    migrations = new SchemaMigrations();
+    migrations.register({
+      from: '1.0.0',
+      to: '1.1.0',
+      migrate(schema) {
+        schema.componentsTree[0].props!.label = schema.componentsTree[0].props!.title;
+        delete schema.componentsTree[0].props!.title;
+        return schema;
+      },
+    });
+    migrations.register({
+      from: '1.1.0',
+      to: '2.0.0',
+      migrate: (schema) => ({
+        ...schema,
+        i18n: { 'zh-CN': {} },
+      }),
+    });
+  });
+
+  it('runs migrations in chain without modifying the original schema', () => {
+    const schema = createSchema('1.0.0');
+    const result = migrations.migrate(schema);
+    expect(result).toEqual({
+      success: true,
+      fromVersion: '1.0.0',
+      toVersion: '2.0.0',
+      steps: ['1.0.0 -> 1.1.0', '1.1.0 -> 2.0.0'],
+      schema: {
+        version: '2.0.0',
+        componentsMap: [],
+        componentsTree: [{ componentName: 'Page', id: 'page', props: { label: 'hello' } }],
+        i18n: { 'zh-CN': {} },
+      },
+    });
+    expect(schema).toEqual(createSchema('1.0.0'));
+  });
+
+  it('treats schema without version as 1.0.0', () => {
+    expect(migrations.migrate(createSchema()).toVersion).toBe('2.0.0');
+    expect(migrations.migrate(createSchema('2.0.0')).steps).toEqual([]);
+  });
+
+  it('reports failed migrations', () => {
+    migrations.register({
+      from: '2.0.0',
+      to: '3.0.0',
+      migrate() {
+        throw new Error('unsupported component');
+      },
+    });
+    const schema = createSchema('1.0.0');
+    const result = migrations.migrate(schema);
+    expect(result.success).toBeFalsy();
+    expect(result.toVersion).toBe('2.0.0');
+    expect(result.steps).toEqual(['1.0.0 -> 1.1.0', '1.1.0 -> 2.0.0']);
+    expect(result.error).toBe('migration 2.0.0 -> 3.0.0 failed: unsupported component');
+    expect(result.schema).toBe(schema);
+  });
+
+  it('detects circular migrations', () => {
+    migrations.register({ from: '2.0.0', to: '1.0.0', migrate: (schema) => schema });
+    const result = migrations.migrate(createSchema('1.0.0'));
+    expect(result.success).toBeFalsy();
+    expect(result.error).toBe('circular migration detected at 2.0.0 -> 1.0.0');
+  });
+
+  it('dryRun & dispose', () => {
+    const dispose = migrations.register({
+      from: '2.0.0',
+      to: '3.0.0',
+      migrate(schema) {
+        if (!schema.i18n) {
+          throw new Error('i18n is required');
+        }
+        return schema;
+      },
+    });
+    const reports = migrations.dryRun([createSchema('1.0.0'), createSchema('2.0.0')]);
+    expect(reports).toEqual([
+      { success: true, fromVersion: '1.0.0', toVersion: '3.0.0', steps: ['1.0.0 -> 1.1.0', '1.1.0 -> 2.0.0', '2.0.0 -> 3.0.0'] },
+      { success: false, fromVersion: '2.0.0', toVersion: '2.0.0', steps: [], error: 'migration 2.0.0 -> 3.0.0 failed: i18n is required' },
+    ]);
+
+    dispose();
+    expect(migrations.dryRun([createSchema('2.0.0')])[0].success).toBeTruthy();
+  });
+});
+
+describe('Project schema migration', () => {
+  let designer: Designer;
+  let project: Project;
+
+  beforeEach(() => {
+    designer = new Designer({ editor: new Editor(), shellModelFactory });
+    project = designer.project;
+  });
+
+  afterEach(() => {
+    project.unload();
+    designer.purge();
+  });
+
+  it('runs registered migrations before loading', () => {
+    project.registerSchemaMigration({
+      from: '1.0.0',
+      to: '1.1.0',
+      migrate(schema) {
+        schema.componentsTree[0].props!.title = 'migrated';
+        return schema;
+      },
+    });
+    project.load(createSchema('1.0.0'), true);
+    expect(project.get('version')).toBe('1.1.0');
+    expect(project.currentDocument?.rootNode?.getPropValue('title')).toBe('migrated');
+  });
+
+  it('loads the original schema when migration failed', () => {
+    project.registerSchemaMigration({
+      from: '1.0.0',
+      to: '1.1.0',
+      migrate() {
+        throw new Error('error');
+      },
+    });
+    project.load(createSchema('1.0.0'), true);
+    expect(project.get('version')).toBe('1.0.0');
+    expect(project.currentDocument?.rootNode?.getPropValue('title')).toBe('hello');
+    expect(project.dryRunSchemaMigrations([createSchema('1.0.0')])[0].success).toBeFalsy();
+  });
+});
@@ -0,0 +1,125 @@
+import { diffSchema } from '../../src/utils/schema-diff';
+
+const base: any = {
+  componentName: 'Page',
+  id: 'page',
+  props: { title: 'Page' },
+  children: [
+    {
+      componentName: 'Div',
+      id: 'div1',
+      children: [
+        { componentName: 'Button', id: 'button', props: { type: 'primary' } },
+        { componentName: 'Text', id: 'text', children: 'hello' },
+      ],
+    },
+    { componentName: 'Div', id: 'div2' },
+    { componentName: 'Image', id: 'image' },
+  ],
+};
+
+describe('diffSchema', () => {
+  it('same schema has no changes', () => {
+    expect(diffSchema(base, JSON.parse(JSON.stringify(base)))).toEqual([]);
+  });
+
+  it('match nodes by id', () => {
+    const hunks = diffSchema(base, {
+      componentName: 'Page',
+      id: 'page',
+      props: { title: 'Page' },
+      children: [
+        { componentName: 'Div', id: 'div2', children: [{ componentName: 'Button', id: 'button', props: { type: 'primary' } }] },
+        {
+          componentName: 'Div',
+          id: 'div1',
+          condition: false,
+          children: [{ componentName: 'Text', id: 'text', children: 'world' }],
+        },
+        { componentName: 'Input', props: { value: '' } },
+      ],
+    } as any);
+
+    expect(hunks.find((hunk) => hunk.id === 'moved:button')).toMatchObject({
+      type: 'moved',
+      parentId: 'div2',
+      prevSiblingId: undefined,
+      index: 0,
+    });
+    // div2 与 div1 交换了顺序，只有其中一个记为移动
+    expect(hunks.filter((hunk) => hunk.type === 'moved' && hunk.id !== 'moved:button')).toHaveLength(1);
+    expect(hunks.find((hunk) => hunk.id === 'changed:div1')!.changes).toEqual([
+      { name: 'condition', extra: true, before: true, after: false },
+    ]);
+    expect(hunks.find((hunk) => hunk.id === 'removed:image')).toMatchObject({ type: 'removed', nodeId: 'image' });
+    const added = hunks.find((hunk) => hunk.type === 'added')!;
+    expect(added).toMatchObject({ componentName: 'Input', parentId: 'page', prevSiblingId: 'div1', index: 2 });
+    expect(added.schema).toEqual({ componentName: 'Input', id: added.nodeId, props: { value: '' } });
+  });
+
+  it('fall back to structural matching', () => {
+    const hunks = diffSchema(base, {
+      componentName: 'Page',
+      props: { title: 'New Page' },
+      children: [
+        {
+          componentName: 'Div',
+          children: [
+            { componentName: 'Button', props: { type: 'normal' } },
+            { componentName: 'Text', children: 'world' },
+          ],
+        },
+        { componentName: 'Div', children: ['text'] },
+        { componentName: 'Image' },
+      ],
+    } as any);
+
+    expect(hunks.map((hunk) => hunk.id).sort()).toEqual([
+      'added:div2:0',
+      'changed:button',
+      'changed:node_diff1',
+      'changed:page',
+    ]);
+    expect(hunks.find((hunk) => hunk.id === 'changed:button')!.changes).toEqual([
+      { name: 'type', before: 'primary', after: 'normal' },
+    ]);
+    // 没有 id 的文本节点生成 id
+    expect(hunks.find((hunk) => hunk.id === 'changed:node_diff1')).toMatchObject({ componentName: 'Leaf' });
+    expect(hunks.find((hunk) => hunk.id === 'changed:node_diff1')!.changes).toEqual([
+      { name: 'children', before: 'hello', after: 'world' },
+    ]);
+    expect(hunks.find((hunk) => hunk.id === 'added:div2:0')).toMatchObject({
+      componentName: 'Leaf',
+      schema: { componentName: 'Leaf', children: 'text' },
+    });
+  });
+
+  it('only record top-most added and removed nodes', () => {
+    const hunks = diffSchema(base, {
+      componentName: 'Page',
+      id: 'page',
+      props: { title: 'Page' },
+      children: [
+        {
+          componentName: 'Form',
+          id: 'form',
+          children: [
+            { componentName: 'Input', id: 'input' },
+            { componentName: 'Button', id: 'button', props: { type: 'primary' } },
+          ],
+        },
+        { componentName: 'Div', id: 'div2' },
+        { componentName: 'Image', id: 'image' },
+      ],
+    } as any);
+
+    expect(hunks.map((hunk) => hunk.id).sort()).toEqual(['added:form', 'moved:button', 'removed:div1']);
+    // 移动到新增节点中的节点不包含在新增节点的 schema 中
+    expect(hunks.find((hunk) => hunk.id === 'added:form')!.schema).toEqual({
+      componentName: 'Form',
+      id: 'form',
+      children: [{ componentName: 'Input', id: 'input' }],
+    });
+    expect(hunks.find((hunk) => hunk.id === 'moved:button')).toMatchObject({ parentId: 'form', prevSiblingId: 'input' });
+  });
+});
@@ -82,16 +82,66 @@ const VALID_ENGINE_OPTIONS = {
     default: false,
     description: '禁止默认的设置面板',
   },
+  enableProblemsPane: {
+    type: 'boolean',
+    default: false,
+    description: '开启问题面板',
+  },
+  enableDataSourceMockPane: {
+    type: 'boolean',
+    default: false,
+    description: '开启数据源 mock 面板',
+  },
+  enableCommentsPane: {
+    type: 'boolean',
+    default: false,
+    description: '开启评论面板',
+  },
+  enableSchemaDiffPane: {
+    type: 'boolean',
+    default: false,
+    description: '开启 schema 对比面板',
+  },
   disableDefaultSetters: {
     type: 'boolean',
     default: false,
     description: '禁止默认的设置器',
   },
+  disableClipboardReferenceMerge: {
+    type: 'boolean',
+    default: false,
+    description: '关闭粘贴时合并节点引用的 state、方法及数据源',
+  },
+  confirmClipboardReferenceMerge: {
+    type: 'function',
+    default: undefined,
+    description: '粘贴从其他文档复制的节点前确认是否合并其引用的 state、方法及数据源，返回 false 时不合并, eg. (references: IPublicTypeClipboardReferences) => boolean | Promise<boolean>',
+  },
+  enableHtmlPaste: {
+    type: 'boolean',
+    default: false,
+    description: '粘贴的内容不是节点时，将剪贴板中的 HTML 转换为节点',
+  },
   enableCanvasLock: {
     type: 'boolean',
     default: false,
     description: '打开画布的锁定操作',
   },
+  enableCanvasMinimap: {
+    type: 'boolean',
+    default: false,
+    description: '展示画布缩略图',
+  },
+  enableCanvasSnapping: {
+    type: 'boolean',
+    default: false,
+    description: '开启画布标尺、参考线及吸附',
+  },
+  canvasSnapThreshold: {
+    type: 'number',
+    default: 5,
+    description: '吸附距离，单位为屏幕像素',
+  },
   enableLockedNodeSetting: {
     type: 'boolean',
     default: false,
@@ -137,6 +187,10 @@ const VALID_ENGINE_OPTIONS = {
     type: 'boolean',
     description: 'JSExpression 是否只支持使用 this 来访问上下文变量',
   },
+  expressionEvaluator: {
+    type: 'any',
+    description: '画布中 JSExpression / JSFunction 的求值器',
+  },
   enableStrictNotFoundMode: {
     type: 'boolean',
     description: '当开启组件未找到严格模式时，渲染模块不会默认给一个容器组件',
@@ -145,6 +199,12 @@ const VALID_ENGINE_OPTIONS = {
     type: 'function',
     description: '配置指定节点为根组件',
   },
+  historyMode: {
+    type: 'string',
+    enum: ['snapshot', 'patch'],
+    default: 'snapshot',
+    description: '历史记录模式，patch 模式下记录结构化操作并增量撤销/重做',
+  },
 };
 
 const getStrictModeValue = (engineOptions: IPublicTypeEngineOptions, defaultValue: boolean): boolean => {
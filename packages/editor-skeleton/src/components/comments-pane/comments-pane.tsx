@@ -0,0 +1,202 @@
+import React, { Component } from 'react';
+import classNames from 'classnames';
+import { observer, obx, action, makeObservable, Editor } from '@alilc/lowcode-editor-core';
+import { IDocumentModel, INode } from '@alilc/lowcode-designer';
+import { IPublicTypeCommentThread, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { intl } from '../../locale';
+import { watchCurrentDocument } from '../current-document';
+
+interface ICommentsPaneProps {
+  engineEditor: Editor;
+
+  /**
+   * 评论人，展示在发起的评论和回复上
+   */
+  author?: string;
+}
+
+type ThreadFilter = 'open' | 'resolved' | 'all';
+
+function getNodeTitle(node: INode): string {
+  const { title } = node;
+  return typeof title === 'string' ? title : node.componentName;
+}
+
+/**
+ * 评论面板，在选中节点上发起评论，展示当前文档的评论串，可回复、解决评论，节点被删除的评论串展示为孤立评论
+ */
+@observer
+export class CommentsPane extends Component<ICommentsPaneProps> {
+  @obx.ref private document?: IDocumentModel | null;
+
+  @obx.ref private filter: ThreadFilter = 'open';
+
+  @obx.ref private content = '';
+
+  @obx.ref private replies: Record<string, string> = {};
+
+  private disposers: IPublicTypeDisposable[] = [];
+
+  constructor(props: ICommentsPaneProps) {
+    super(props);
+    makeObservable(this);
+  }
+
+  componentDidMount() {
+    this.disposers.push(watchCurrentDocument(this.props.engineEditor, (doc) => this.setup(doc)));
+  }
+
+  componentWillUnmount() {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  @action
+  private setup(doc?: IDocumentModel | null) {
+    this.document = doc;
+    this.content = '';
+    this.replies = {};
+  }
+
+  private get selectedNode(): INode | null {
+    const nodes = this.document?.selection.getNodes() || [];
+    return nodes.length === 1 ? nodes[0] : null;
+  }
+
+  private get threads(): IPublicTypeCommentThread[] {
+    const { filter } = this;
+    return (this.document?.comments.threads || []).filter((thread) => {
+      if (filter === 'all') {
+        return true;
+      }
+      return filter === 'resolved' ? thread.resolved : !thread.resolved;
+    });
+  }
+
+  @action
+  private setFilter(filter: ThreadFilter) {
+    this.filter = filter;
+  }
+
+  @action
+  private setContent(content: string) {
+    this.content = content;
+  }
+
+  @action
+  private setReply(threadId: string, content: string) {
+    this.replies = { ...this.replies, [threadId]: content };
+  }
+
+  @action
+  private addThread = () => {
+    const { selectedNode, content } = this;
+    if (!selectedNode || !content.trim()) {
+      return;
+    }
+    this.document?.comments.addThread(selectedNode.id, content.trim(), this.props.author);
+    this.content = '';
+  };
+
+  @action
+  private reply(threadId: string) {
+    const content = (this.replies[threadId] || '').trim();
+    if (!content) {
+      return;
+    }
+    this.document?.comments.reply(threadId, content, this.props.author);
+    this.setReply(threadId, '');
+  }
+
+  private select(thread: IPublicTypeCommentThread) {
+    this.document?.getNode(thread.nodeId)?.select();
+  }
+
+  private renderThread(thread: IPublicTypeCommentThread) {
+    const { comments } = this.document!;
+    const orphaned = comments.isOrphaned(thread.id);
+    const node = orphaned ? null : this.document!.getNode(thread.nodeId);
+    const { selectedNode } = this;
+    return (
+      <li
+        key={thread.id}
+        className={classNames('lc-comments-pane-thread', {
+          'lc-comments-pane-thread-resolved': thread.resolved,
+          'lc-comments-pane-thread-orphaned': orphaned,
+        })}
+      >
+        <div className="lc-comments-pane-thread-title" onClick={() => this.select(thread)}>
+          <span className="lc-comments-pane-node">{node ? getNodeTitle(node) : thread.componentName || thread.nodeId}</span>
+          {orphaned && <span className="lc-comments-pane-tag">{intl('Orphaned')}</span>}
+          {thread.resolved && <span className="lc-comments-pane-tag">{intl('Resolved')}</span>}
+        </div>
+        <ul className="lc-comments-pane-comments">
+          {thread.comments.map((comment) => (
+            <li key={comment.id} className="lc-comments-pane-comment">
+              <div className="lc-comments-pane-comment-meta">
+                {comment.author && <span className="lc-comments-pane-author">{comment.author}</span>}
+                <span className="lc-comments-pane-time">{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="lc-comments-pane-content">{comment.content}</div>
+            </li>
+          ))}
+        </ul>
+        {!thread.resolved && (
+          <div className="lc-comments-pane-reply">
+            <textarea
+              value={this.replies[thread.id] || ''}
+              placeholder={intl('Reply')}
+              onChange={(e) => this.setReply(thread.id, e.target.value)}
+            />
+          </div>
+        )}
+        <div className="lc-comments-pane-actions">
+          {!thread.resolved && <a onClick={() => this.reply(thread.id)}>{intl('Reply')}</a>}
+          <a onClick={() => comments.resolve(thread.id, !thread.resolved)}>
+            {intl(thread.resolved ? 'Reopen' : 'Resolve')}
+          </a>
+          {orphaned && selectedNode && (
+            <a onClick={() => comments.attach(thread.id, selectedNode.id)}>{intl('Attach to selected')}</a>
+          )}
+          <a onClick={() => comments.removeThread(thread.id)}>{intl('Remove')}</a>
+        </div>
+      </li>
+    );
+  }
+
+  render() {
+    const { document, filter, content, selectedNode } = this;
+    if (!document) {
+      return null;
+    }
+    const { threads } = this;
+    return (
+      <div className="lc-comments-pane">
+        <div className="lc-comments-pane-new">
+          <textarea
+            value={content}
+            disabled={!selectedNode}
+            placeholder={selectedNode
+              ? intl('Comment on {node}', { node: getNodeTitle(selectedNode) })
+              : intl('Select a node to comment')}
+            onChange={(e) => this.setContent(e.target.value)}
+          />
+          <div className="lc-comments-pane-actions">
+            <select value={filter} onChange={(e) => this.setFilter(e.target.value as ThreadFilter)}>
+              <option value="open">{intl('Open')}</option>
+              <option value="resolved">{intl('Resolved')}</option>
+              <option value="all">{intl('All')}</option>
+            </select>
+            <button type="button" disabled={!selectedNode || !content.trim()} onClick={this.addThread}>
+              {intl('Comment')}
+            </button>
+          </div>
+        </div>
+        {!threads.length && <div className="lc-comments-pane-notice">{intl('No comments')}</div>}
+        <ul className="lc-comments-pane-list">
+          {threads.map((thread) => this.renderThread(thread))}
+        </ul>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,4 @@
+import './style.less';
+
+export * from './comments-pane';
+export { IconComments } from '../../icons/comments';
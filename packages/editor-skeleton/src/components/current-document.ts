@@ -0,0 +1,26 @@
+import { Editor } from '@alilc/lowcode-editor-core';
+import { Designer, IDocumentModel } from '@alilc/lowcode-designer';
+import { IPublicTypeDisposable } from '@alilc/lowcode-types';
+
+/**
+ * 设计器就绪后以当前文档调用 fn，并在切换文档时再次调用，返回取消监听的函数，设计器就绪前取消也不会再调用
+ */
+export function watchCurrentDocument(
+  editor: Editor,
+  fn: (doc?: IDocumentModel | null) => void,
+): IPublicTypeDisposable {
+  let disposed = false;
+  let dispose: IPublicTypeDisposable | undefined;
+  editor.onceGot('designer').then((designer: Designer) => {
+    if (disposed) {
+      return;
+    }
+    const { project } = designer;
+    dispose = project.onCurrentDocumentChange((doc) => fn(doc));
+    fn(project.currentDocument);
+  });
+  return () => {
+    disposed = true;
+    dispose?.();
+  };
+}
@@ -0,0 +1,204 @@
+import React, { Component } from 'react';
+import classNames from 'classnames';
+import { observer, obx, action, makeObservable, Editor } from '@alilc/lowcode-editor-core';
+import { IDocumentModel } from '@alilc/lowcode-designer';
+import { IPublicTypeDataSourceMock, IPublicTypeDisposable, IPublicTypeJSFunction } from '@alilc/lowcode-types';
+import { isJSExpression, isJSFunction } from '@alilc/lowcode-utils';
+import { intl } from '../../locale';
+import { watchCurrentDocument } from '../current-document';
+
+interface IDataSourceMockPaneProps {
+  engineEditor: Editor;
+}
+
+type MockMode = 'json' | 'expression' | 'function';
+
+interface IEditingMock {
+  id: string;
+  mode: MockMode;
+  code: string;
+  error?: string;
+}
+
+function toEditingMock(id: string, mock: IPublicTypeDataSourceMock | undefined): IEditingMock {
+  if (isJSFunction(mock)) {
+    return { id, mode: 'function', code: (mock as IPublicTypeJSFunction).value };
+  }
+  if (isJSExpression(mock)) {
+    return { id, mode: 'expression', code: mock.value };
+  }
+  return { id, mode: 'json', code: mock === undefined ? '' : JSON.stringify(mock, null, 2) };
+}
+
+function parseEditingMock({ mode, code }: IEditingMock): IPublicTypeDataSourceMock {
+  if (mode === 'function') {
+    return { type: 'JSFunction', value: code };
+  }
+  if (mode === 'expression') {
+    return { type: 'JSExpression', value: code };
+  }
+  return JSON.parse(code);
+}
+
+/**
+ * 数据源 mock 面板，开关当前文档的数据源 mock，编辑 mock 响应或将真实响应记录为 mock
+ */
+@observer
+export class DataSourceMockPane extends Component<IDataSourceMockPaneProps> {
+  @obx.ref private document?: IDocumentModel | null;
+
+  @obx.ref private editing: IEditingMock | null = null;
+
+  @obx.ref private notice: string | null = null;
+
+  private disposers: IPublicTypeDisposable[] = [];
+
+  constructor(props: IDataSourceMockPaneProps) {
+    super(props);
+    makeObservable(this);
+  }
+
+  componentDidMount() {
+    this.disposers.push(watchCurrentDocument(this.props.engineEditor, (doc) => this.setup(doc)));
+  }
+
+  componentWillUnmount() {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  @action
+  private setup(doc?: IDocumentModel | null) {
+    this.document = doc;
+    this.editing = null;
+    this.notice = null;
+  }
+
+  private get dataSources(): any[] {
+    const dataSource: any = this.document?.rootNode?.getExtraProp('dataSource', false)?.getValue();
+    return (dataSource?.list || []).filter((item: any) => item?.id);
+  }
+
+  @action
+  private toggle = () => {
+    if (this.document) {
+      this.document.dataSourceMockEnabled = !this.document.dataSourceMockEnabled;
+    }
+  };
+
+  @action
+  private edit(item: any) {
+    this.editing = toEditingMock(item.id, item.mock);
+    this.notice = null;
+  }
+
+  @action
+  private change(editing: Partial<IEditingMock>) {
+    this.editing = { ...this.editing!, ...editing, error: undefined };
+  }
+
+  @action
+  private save = () => {
+    const { editing, document } = this;
+    if (!editing || !document) {
+      return;
+    }
+    let mock: IPublicTypeDataSourceMock;
+    try {
+      mock = parseEditingMock(editing);
+    } catch (e) {
+      this.editing = { ...editing, error: intl('Invalid JSON') };
+      return;
+    }
+    document.setDataSourceMock(editing.id, mock);
+    this.editing = null;
+  };
+
+  @action
+  private cancel = () => {
+    this.editing = null;
+  };
+
+  @action
+  private remove(id: string) {
+    this.document?.setDataSourceMock(id, undefined);
+    if (this.editing?.id === id) {
+      this.editing = null;
+    }
+  }
+
+  @action
+  private record(id: string) {
+    const recorded = this.document?.recordDataSourceMock(id);
+    this.notice = recorded ? null : intl('No response recorded, please request with mock disabled');
+    if (recorded && this.editing?.id === id) {
+      this.edit(this.dataSources.find((item) => item.id === id));
+    }
+  }
+
+  private renderEditor(editing: IEditingMock) {
+    return (
+      <div className="lc-data-source-mock-pane-editor">
+        <select
+          value={editing.mode}
+          onChange={(e) => this.change({ mode: e.target.value as MockMode })}
+        >
+          <option value="json">JSON</option>
+          <option value="expression">{intl('Expression')}</option>
+          <option value="function">{intl('Generator Function')}</option>
+        </select>
+        <textarea
+          value={editing.code}
+          placeholder={editing.mode === 'function' ? 'function(params, options) { return {}; }' : ''}
+          onChange={(e) => this.change({ code: e.target.value })}
+        />
+        {editing.error && <div className="lc-data-source-mock-pane-error">{editing.error}</div>}
+        <div className="lc-data-source-mock-pane-actions">
+          <button type="button" onClick={this.save}>{intl('Save')}</button>
+          <button type="button" onClick={this.cancel}>{intl('Cancel')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  render() {
+    const { document, editing, notice } = this;
+    const { dataSources } = this;
+    if (!document) {
+      return null;
+    }
+    return (
+      <div className="lc-data-source-mock-pane">
+        <label className="lc-data-source-mock-pane-switch">
+          <input type="checkbox" checked={document.dataSourceMockEnabled} onChange={this.toggle} />
+          {intl('Use mock data in canvas')}
+        </label>
+        {notice && <div className="lc-data-source-mock-pane-notice">{notice}</div>}
+        {!dataSources.length && (
+          <div className="lc-data-source-mock-pane-notice">{intl('No data sources')}</div>
+        )}
+        <ul className="lc-data-source-mock-pane-list">
+          {dataSources.map((item) => (
+            <li
+              key={item.id}
+              className={classNames('lc-data-source-mock-pane-item', {
+                'lc-data-source-mock-pane-item-mocked': item.mock !== undefined,
+              })}
+            >
+              <div className="lc-data-source-mock-pane-title">
+                <span className="lc-data-source-mock-pane-id">{item.id}</span>
+                <span className="lc-data-source-mock-pane-status">
+                  {intl(item.mock !== undefined ? 'Mocked' : 'No mock')}
+                </span>
+                <a onClick={() => this.edit(item)}>{intl('Edit')}</a>
+                <a onClick={() => this.record(item.id)}>{intl('Record')}</a>
+                {item.mock !== undefined && <a onClick={() => this.remove(item.id)}>{intl('Remove')}</a>}
+              </div>
+              {editing && editing.id === item.id && this.renderEditor(editing)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+}
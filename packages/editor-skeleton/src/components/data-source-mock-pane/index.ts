@@ -0,0 +1,4 @@
+import './style.less';
+
+export * from './data-source-mock-pane';
+export { IconDataSourceMock } from '../../icons/data-source-mock';
@@ -3,11 +3,12 @@ import { Component, MouseEvent } from 'react';
 import { isObject } from 'lodash';
 import classNames from 'classnames';
 import { Icon } from '@alifd/next';
-import { Title } from '@alilc/lowcode-editor-core';
+import { Title, Tip } from '@alilc/lowcode-editor-core';
 import { IPublicModelEditor, IPublicTypeTitleContent } from '@alilc/lowcode-types';
 import { PopupPipe, PopupContext } from '../popup';
 import './index.less';
 import InlineTip from './inlinetip';
+import { IconClear } from '../../icons/clear';
 import { intl } from '../../locale';
 
 export interface FieldProps {
@@ -155,6 +156,7 @@ export class Field extends Component<FieldProps> {
       <div
         className={classNames(`lc-field lc-${display}-field`, className, {
           'lc-field-is-collapsed': isAccordion && collapsed,
+          'lc-field-multiple-value': valueState === -1,
         })}
         id={id}
       >
@@ -192,41 +194,17 @@ export class Field extends Component<FieldProps> {
  *
  * TODO: turn number to enum
  */
-function createValueState(/* valueState?: number, onClear?: (e: React.MouseEvent) => void */) {
-  return null;
-  /*
-  let tip: any = null;
-  let className = 'lc-valuestate';
-  let icon: any = null;
-  if (valueState) {
-    if (valueState < 0) {
-      // multiple value 橘黄色点： tip：多种值，点击清除
-      tip = intlNode('Multiple Value, Click to Clear');
-      className += ' valuestate-multiple';
-      icon = <IconClear size={6} />;
-    } else if (valueState === 10) {
-      // isset  orangered tip: 必填项
-      tip = intlNode('Required');
-      className += ' valuestate-required';
-      onClear = undefined;
-    } else if (valueState > 0) {
-      // isset  蓝点 tip: 已设置值，点击清除
-      tip = intlNode('Setted Value, Click to Clear');
-      className += ' valuestate-isset';
-      icon = <IconClear size={6} />;
-    }
-  } else {
-    onClear = undefined;
-    // unset 占位空间
+function createValueState(valueState?: number, onClear?: (e: MouseEvent) => void) {
+  // 目前只标记多选节点时的多种值，点击清除所有节点上的值
+  if (valueState == null || valueState >= 0) {
+    return null;
   }
-
   return (
-    <i className={className} onClick={onClear}>
-      {icon}
-      {tip && <Tip>{tip}</Tip>}
+    <i className="lc-valuestate valuestate-multiple" onClick={onClear}>
+      <IconClear size={6} />
+      <Tip>{intl('Multiple Value, Click to Clear')}</Tip>
     </i>
   );
-  */
 }
 
 export interface PopupFieldProps extends FieldProps {
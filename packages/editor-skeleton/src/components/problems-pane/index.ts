@@ -0,0 +1,4 @@
+import './style.less';
+
+export * from './problems-pane';
+export { IconProblems } from '../../icons/problems';
@@ -0,0 +1,88 @@
+import React, { Component } from 'react';
+import classNames from 'classnames';
+import { observer, obx, action, makeObservable, Editor } from '@alilc/lowcode-editor-core';
+import { IDocumentModel } from '@alilc/lowcode-designer';
+import { IPublicTypeLintProblem, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { intl } from '../../locale';
+import { watchCurrentDocument } from '../current-document';
+
+interface IProblemsPaneProps {
+  engineEditor: Editor;
+}
+
+/**
+ * 问题面板，展示当前文档 lint 检查出的问题，点击问题选中对应节点
+ */
+@observer
+export class ProblemsPane extends Component<IProblemsPaneProps> {
+  @obx.ref private problems: IPublicTypeLintProblem[] = [];
+
+  private document?: IDocumentModel | null;
+
+  private disposers: IPublicTypeDisposable[] = [];
+
+  private disposeHistoryListener?: IPublicTypeDisposable;
+
+  constructor(props: IProblemsPaneProps) {
+    super(props);
+    makeObservable(this);
+  }
+
+  componentDidMount() {
+    this.disposers.push(watchCurrentDocument(this.props.engineEditor, (doc) => this.setup(doc)));
+  }
+
+  componentWillUnmount() {
+    this.disposeHistoryListener?.();
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  private setup(doc?: IDocumentModel | null) {
+    this.disposeHistoryListener?.();
+    this.document = doc;
+    // 每次产生历史记录或撤销、重做后重新检查
+    this.disposeHistoryListener = doc?.history.onChangeCursor(() => this.lint());
+    this.lint();
+  }
+
+  @action
+  private lint() {
+    this.problems = this.document?.lint() || [];
+  }
+
+  private handleClick(problem: IPublicTypeLintProblem) {
+    if (problem.nodeId) {
+      this.document?.getNode(problem.nodeId)?.select();
+    }
+  }
+
+  render() {
+    const { problems } = this;
+    if (!problems.length) {
+      return (
+        <div className="lc-problems-pane">
+          <div className="lc-problems-pane-notice">{intl('No problems found')}</div>
+        </div>
+      );
+    }
+    return (
+      <div className="lc-problems-pane">
+        <ul className="lc-problems-pane-list">
+          {problems.map((problem, index) => (
+            <li
+              key={`${problem.rule}-${problem.path}-${index}`}
+              className={classNames('lc-problems-pane-item', `lc-problems-pane-item-${problem.level}`)}
+              title={problem.path}
+              onClick={() => this.handleClick(problem)}
+            >
+              <span className="lc-problems-pane-level">{intl(problem.level === 'error' ? 'Error' : 'Warning')}</span>
+              <span className="lc-problems-pane-message">{problem.message}</span>
+              <span className="lc-problems-pane-rule">{problem.rule}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,4 @@
+import './style.less';
+
+export * from './schema-diff-pane';
+export { IconSchemaDiff } from '../../icons/schema-diff';
@@ -0,0 +1,204 @@
+import React, { Component } from 'react';
+import classNames from 'classnames';
+import { observer, obx, action, makeObservable, Editor } from '@alilc/lowcode-editor-core';
+import { IDocumentModel } from '@alilc/lowcode-designer';
+import {
+  IPublicTypeDisposable,
+  IPublicTypeSchemaDiffHunk,
+  IPublicTypeSchemaDiffHunkType,
+} from '@alilc/lowcode-types';
+import { intl } from '../../locale';
+import { watchCurrentDocument } from '../current-document';
+
+interface ISchemaDiffPaneProps {
+  engineEditor: Editor;
+}
+
+/**
+ * 全部接受时的顺序，先新增再移动，以便节点可以移动到新增的父节点中，最后删除，避免移出的节点被一并删除
+ */
+const ACCEPT_ORDER: IPublicTypeSchemaDiffHunkType[] = ['added', 'moved', 'changed', 'removed'];
+
+function formatValue(value: any): string {
+  if (value === undefined) {
+    return '-';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * schema 对比面板，输入新版本 schema 后在画布上标记变化，可逐个接受或拒绝
+ */
+@observer
+export class SchemaDiffPane extends Component<ISchemaDiffPaneProps> {
+  @obx.ref private document?: IDocumentModel | null;
+
+  @obx.ref private input = '';
+
+  @obx.ref private error = '';
+
+  /**
+   * 无法应用的变化，如目标父节点尚未接受
+   */
+  @obx.ref private failed: string[] = [];
+
+  private disposers: IPublicTypeDisposable[] = [];
+
+  constructor(props: ISchemaDiffPaneProps) {
+    super(props);
+    makeObservable(this);
+  }
+
+  componentDidMount() {
+    this.disposers.push(watchCurrentDocument(this.props.engineEditor, (doc) => this.setup(doc)));
+  }
+
+  componentWillUnmount() {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  @action
+  private setup(doc?: IDocumentModel | null) {
+    this.document = doc;
+    this.error = '';
+    this.failed = [];
+  }
+
+  @action
+  private setInput(input: string) {
+    this.input = input;
+    this.error = '';
+  }
+
+  @action
+  private start = () => {
+    let schema: any;
+    try {
+      schema = JSON.parse(this.input);
+    } catch (e) {
+      this.error = intl('Invalid JSON');
+      return;
+    }
+    // 兼容传入完整的项目 schema
+    const root = Array.isArray(schema?.componentsTree) ? schema.componentsTree[0] : schema;
+    if (!root?.componentName) {
+      this.error = intl('Invalid schema');
+      return;
+    }
+    this.document?.diffReview.start(root);
+    this.failed = [];
+  };
+
+  @action
+  private stop = () => {
+    this.document?.diffReview.stop();
+    this.failed = [];
+  };
+
+  @action
+  private accept(hunk: IPublicTypeSchemaDiffHunk) {
+    const accepted = !!this.document?.diffReview.accept(hunk.id);
+    this.failed = accepted
+      ? this.failed.filter((id) => id !== hunk.id)
+      : [...this.failed.filter((id) => id !== hunk.id), hunk.id];
+    return accepted;
+  }
+
+  @action
+  private reject(hunk: IPublicTypeSchemaDiffHunk) {
+    this.document?.diffReview.reject(hunk.id);
+    this.failed = this.failed.filter((id) => id !== hunk.id);
+  }
+
+  private acceptAll = () => {
+    const { hunks } = this.document!.diffReview;
+    ACCEPT_ORDER.forEach((type) => {
+      hunks.filter((hunk) => hunk.type === type).forEach((hunk) => this.accept(hunk));
+    });
+  };
+
+  private rejectAll = () => {
+    this.document!.diffReview.hunks.forEach((hunk) => this.reject(hunk));
+  };
+
+  private select(hunk: IPublicTypeSchemaDiffHunk) {
+    this.document?.getNode(hunk.type === 'added' ? hunk.parentId! : hunk.nodeId)?.select();
+  }
+
+  private renderHunk(hunk: IPublicTypeSchemaDiffHunk) {
+    return (
+      <li
+        key={hunk.id}
+        className={classNames('lc-schema-diff-pane-hunk', `lc-schema-diff-pane-hunk-${hunk.type}`, {
+          'lc-schema-diff-pane-hunk-failed': this.failed.includes(hunk.id),
+        })}
+      >
+        <div className="lc-schema-diff-pane-hunk-title" onClick={() => this.select(hunk)}>
+          <span className="lc-schema-diff-pane-type">{intl(hunk.type)}</span>
+          <span className="lc-schema-diff-pane-node">{hunk.componentName}</span>
+        </div>
+        {hunk.changes && (
+          <ul className="lc-schema-diff-pane-changes">
+            {hunk.changes.map((change) => (
+              <li key={`${change.extra ? 'extra:' : ''}${change.name}`}>
+                <span className="lc-schema-diff-pane-prop">{change.name}</span>
+                <span className="lc-schema-diff-pane-before">{formatValue(change.before)}</span>
+                {' → '}
+                <span className="lc-schema-diff-pane-after">{formatValue(change.after)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {this.failed.includes(hunk.id) && (
+          <div className="lc-schema-diff-pane-error">{intl('Cannot be applied to current document')}</div>
+        )}
+        <div className="lc-schema-diff-pane-actions">
+          <a onClick={() => this.accept(hunk)}>{intl('Accept')}</a>
+          <a onClick={() => this.reject(hunk)}>{intl('Reject')}</a>
+        </div>
+      </li>
+    );
+  }
+
+  render() {
+    const { document, input, error } = this;
+    if (!document) {
+      return null;
+    }
+    const { active, hunks } = document.diffReview;
+    if (!active) {
+      return (
+        <div className="lc-schema-diff-pane">
+          <div className="lc-schema-diff-pane-new">
+            <textarea
+              value={input}
+              placeholder={intl('Paste schema of new version')}
+              onChange={(e) => this.setInput(e.target.value)}
+            />
+            {error && <div className="lc-schema-diff-pane-error">{error}</div>}
+            <div className="lc-schema-diff-pane-actions">
+              <button type="button" disabled={!input.trim()} onClick={this.start}>
+                {intl('Compare')}
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div className="lc-schema-diff-pane">
+        <div className="lc-schema-diff-pane-actions lc-schema-diff-pane-toolbar">
+          <button type="button" disabled={!hunks.length} onClick={this.acceptAll}>{intl('Accept all')}</button>
+          <button type="button" disabled={!hunks.length} onClick={this.rejectAll}>{intl('Reject all')}</button>
+          <button type="button" onClick={this.stop}>{intl('Close')}</button>
+        </div>
+        {!hunks.length && <div className="lc-schema-diff-pane-notice">{intl('No changes')}</div>}
+        <ul className="lc-schema-diff-pane-list">
+          {hunks.map((hunk) => this.renderHunk(hunk))}
+        </ul>
+      </div>
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { Component, MouseEvent, Fragment } from 'react';
+import { Component, MouseEvent, Fragment, ReactNode } from 'react';
 import { shallowIntl, observer, obx, engineConfig, runInAction, globalContext } from '@alilc/lowcode-editor-core';
 import { createContent, isJSSlot, isSetterConfig } from '@alilc/lowcode-utils';
 import { Skeleton, Stage } from '@alilc/lowcode-editor-skeleton';
@@ -88,6 +88,24 @@ class SettingFieldView extends Component<SettingFieldViewProps, SettingFieldView
     return true;
   }
 
+  /**
+   * 在 setter 下方展示校验错误
+   */
+  renderWithErrors(setterContent: ReactNode) {
+    const { validationErrors } = this.field;
+    if (!validationErrors.length) {
+      return setterContent;
+    }
+    return (
+      <Fragment>
+        {setterContent}
+        <div className="lc-field-errors">
+          {validationErrors.map((message, index) => <div key={index}>{message}</div>)}
+        </div>
+      </Fragment>
+    );
+  }
+
   get ignoreDefaultValue(): boolean {
     const { extraProps } = this.field;
     const { ignoreDefaultValue } = extraProps;
@@ -236,7 +254,7 @@ class SettingFieldView extends Component<SettingFieldViewProps, SettingFieldView
         ...extraProps,
       },
       !stageName &&
-      this.setters.createSetterContent(setterType, {
+      this.renderWithErrors(this.setters.createSetterContent(setterType, {
         ...shallowIntl(setterProps),
         forceInline: extraProps.forceInline,
         key: field.id,
@@ -273,7 +291,7 @@ class SettingFieldView extends Component<SettingFieldViewProps, SettingFieldView
             field.parent.clearPropValue(field.name);
           }
         },
-      }),
+      })),
       extraProps.forceInline ? 'plain' : extraProps.display,
     );
   }
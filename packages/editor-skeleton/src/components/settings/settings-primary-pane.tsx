@@ -67,8 +67,9 @@ export class SettingsPrimaryPane extends Component<ISettingsPrimaryPaneProps, {
             className: 'lc-settings-navigator-icon',
             class: 'lc-settings-navigator-icon',
           })}
-          <Title title={settings.componentMeta!.title} />
+          <Title title={settings.isSameComponent ? settings.componentMeta!.title : intl('Mixed Components')} />
           <span> x {settings.nodes.length}</span>
+          {this.renderBreakpoints()}
         </div>
       );
     }
@@ -131,6 +132,35 @@ export class SettingsPrimaryPane extends Component<ISettingsPrimaryPaneProps, {
           class: 'lc-settings-navigator-icon',
         })}
         <Breadcrumb className="lc-settings-node-breadcrumb">{items}</Breadcrumb>
+        {this.renderBreakpoints()}
+      </div>
+    );
+  }
+
+  /**
+   * 切换当前编辑的断点，非默认断点下的修改只对该断点生效
+   */
+  renderBreakpoints() {
+    const project = this.props.engineEditor.get('designer')?.project;
+    const breakpoints = project?.breakpoints || [];
+    if (!breakpoints.length) {
+      return null;
+    }
+    const current = project!.currentBreakpoint?.name ?? null;
+    return (
+      <div className="lc-settings-breakpoints">
+        {[null, ...breakpoints].map((breakpoint) => {
+          const name = breakpoint?.name ?? null;
+          return (
+            <span
+              key={name ?? ''}
+              className={classNames('lc-settings-breakpoint', { 'lc-settings-breakpoint-active': name === current })}
+              onClick={() => project!.setCurrentBreakpoint(name)}
+            >
+              <Title title={breakpoint ? breakpoint.title || breakpoint.name : intl('Default Breakpoint')} />
+            </span>
+          );
+        })}
       </div>
     );
   }
@@ -160,21 +190,11 @@ export class SettingsPrimaryPane extends Component<ISettingsPrimaryPaneProps, {
       );
     }
     if (Array.isArray(settings.items) && settings.items.length === 0) {
+      // 不同类型的节点没有可以共同编辑的配置项
       return (
         <div className="lc-settings-main">
           <div className="lc-settings-notice">
-            <p>{intl('No config found for this type of component')}</p>
-          </div>
-        </div>
-      );
-    }
-
-    if (!settings.isSameComponent) {
-      // TODO: future support 获取设置项交集编辑
-      return (
-        <div className="lc-settings-main">
-          <div className="lc-settings-notice">
-            <p>{intl('Please select same kind of components')}</p>
+            <p>{intl(settings.isSameComponent ? 'No config found for this type of component' : 'Please select same kind of components')}</p>
           </div>
         </div>
       );
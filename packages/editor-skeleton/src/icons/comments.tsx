@@ -0,0 +1,11 @@
+import { SVGIcon, IconProps } from '@alilc/lowcode-utils';
+
+export function IconComments(props: IconProps) {
+  return (
+    <SVGIcon viewBox="0 0 1024 1024" {...props}>
+      <path d="M832 128a96 96 0 0 1 96 96v448a96 96 0 0 1-96 96H556.8l-150.4 150.4A32 32 0 0 1 352 896v-128H192a96 96 0 0 1-96-96V224a96 96 0 0 1 96-96h640z m0 64H192a32 32 0 0 0-32 32v448a32 32 0 0 0 32 32h192a32 32 0 0 1 32 32v82.752l105.376-105.376A32 32 0 0 1 544 704h288a32 32 0 0 0 32-32V224a32 32 0 0 0-32-32zM320 416a48 48 0 1 1 0 96 48 48 0 0 1 0-96z m192 0a48 48 0 1 1 0 96 48 48 0 0 1 0-96z m192 0a48 48 0 1 1 0 96 48 48 0 0 1 0-96z" />
+    </SVGIcon>
+  );
+}
+
+IconComments.displayName = 'Comments';
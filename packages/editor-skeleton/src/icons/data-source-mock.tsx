@@ -0,0 +1,11 @@
+import { SVGIcon, IconProps } from '@alilc/lowcode-utils';
+
+export function IconDataSourceMock(props: IconProps) {
+  return (
+    <SVGIcon viewBox="0 0 1024 1024" {...props}>
+      <path d="M512 64c229.76 0 416 78.784 416 176v544c0 97.216-186.24 176-416 176S96 881.216 96 784V240C96 142.784 282.24 64 512 64z m352 568.448C791.68 682.88 661.76 712 512 712s-279.68-29.12-352-79.552V784c0 47.872 151.04 112 352 112s352-64.128 352-112v-151.552z m0-224C791.68 458.88 661.76 488 512 488S232.32 458.88 160 408.448V544c0 47.872 151.04 112 352 112s352-64.128 352-112V408.448zM512 128C311.04 128 160 192.128 160 240S311.04 352 512 352s352-64.128 352-112S712.96 128 512 128z" />
+    </SVGIcon>
+  );
+}
+
+IconDataSourceMock.displayName = 'DataSourceMock';
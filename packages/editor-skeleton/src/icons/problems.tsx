@@ -0,0 +1,11 @@
+import { SVGIcon, IconProps } from '@alilc/lowcode-utils';
+
+export function IconProblems(props: IconProps) {
+  return (
+    <SVGIcon viewBox="0 0 1024 1024" {...props}>
+      <path d="M512 64c247.424 0 448 200.576 448 448S759.424 960 512 960 64 759.424 64 512 264.576 64 512 64z m0 64C299.936 128 128 299.936 128 512s171.936 384 384 384 384-171.936 384-384S724.064 128 512 128z m0 512a48 48 0 1 1 0 96 48 48 0 0 1 0-96z m0-352a32 32 0 0 1 32 32v224a32 32 0 0 1-64 0V320a32 32 0 0 1 32-32z" />
+    </SVGIcon>
+  );
+}
+
+IconProblems.displayName = 'Problems';
@@ -0,0 +1,11 @@
+import { SVGIcon, IconProps } from '@alilc/lowcode-utils';
+
+export function IconSchemaDiff(props: IconProps) {
+  return (
+    <SVGIcon viewBox="0 0 1024 1024" {...props}>
+      <path d="M256 96a96 96 0 0 1 32 186.528V416h448V282.528a96 96 0 1 1 64 0V448a32 32 0 0 1-32 32H544v261.472a96 96 0 1 1-64 0V480H256a32 32 0 0 1-32-32V282.528A96 96 0 0 1 256 96z m256 704a32 32 0 1 0 0 64 32 32 0 0 0 0-64zM256 160a32 32 0 1 0 0 64 32 32 0 0 0 0-64z m512 0a32 32 0 1 0 0 64 32 32 0 0 0 0-64z" />
+    </SVGIcon>
+  );
+}
+
+IconSchemaDiff.displayName = 'SchemaDiff';
@@ -3,6 +3,10 @@ export { Workbench } from './layouts/workbench';
 export * from './skeleton';
 export * from './types';
 export * from './components/settings';
+export * from './components/problems-pane';
+export * from './components/data-source-mock-pane';
+export * from './components/comments-pane';
+export * from './components/schema-diff-pane';
 export * from './components/field';
 export * from './components/popup';
 export * from './context';
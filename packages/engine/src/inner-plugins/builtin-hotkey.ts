@@ -8,6 +8,8 @@ import {
   IPublicTypeNodeData,
   IPublicEnumDragObjectType,
   IPublicTypeDragNodeObject,
+  IPublicTypeNodeAlignment,
+  IPublicTypeNodeDistribution,
 } from '@alilc/lowcode-types';
 
 function insertChild(
@@ -220,6 +222,22 @@ function getSuitablePlaceForNode(targetNode: IPublicModelNode, node: IPublicMode
   return null;
 }
 
+// 自由布局节点的对齐快捷键
+const alignmentHotkeys: { [key: string]: IPublicTypeNodeAlignment } = {
+  'option+a': 'left',
+  'option+h': 'center',
+  'option+d': 'right',
+  'option+w': 'top',
+  'option+v': 'middle',
+  'option+s': 'bottom',
+};
+
+// 自由布局节点的均匀分布快捷键
+const distributionHotkeys: { [key: string]: IPublicTypeNodeDistribution } = {
+  'option+shift+h': 'horizontal',
+  'option+shift+v': 'vertical',
+};
+
 // 注册默认的 setters
 export const builtinHotkey = (ctx: IPublicModelPluginContext) => {
   return {
@@ -287,12 +305,9 @@ export const builtinHotkey = (ctx: IPublicModelPluginContext) => {
           return;
         }
 
-        const componentsMap = {};
-        const componentsTree = selected.map((item) => item?.exportSchema(IPublicEnumTransformStage.Clone));
-
         // FIXME: clear node.id
 
-        const data = { type: 'nodeSchema', componentsMap, componentsTree };
+        const data = clipboard.createData(selected as IPublicModelNode[]);
 
         clipboard.setData(data);
 
@@ -318,13 +333,18 @@ export const builtinHotkey = (ctx: IPublicModelPluginContext) => {
           return;
         }
         /* istanbul ignore next */
-        clipboard.waitPasteData(e, ({ componentsTree }) => {
-          if (componentsTree) {
+        clipboard.waitPasteData(e, (data) => {
+          let { componentsTree } = data;
+          // 粘贴的不是节点时，开启后将 HTML 转换为节点
+          if (!componentsTree && data.html && ctx.config.get('enableHtmlPaste')) {
+            componentsTree = project.htmlToSchema(data.html);
+          }
+          if (componentsTree?.length) {
             const { target, index } = getSuitableInsertion(ctx, componentsTree) || {};
             if (!target) {
               return;
             }
-            let canAddComponentsTree = componentsTree.filter((node: IPublicModelNode) => {
+            const canAddComponentsTree = componentsTree.filter((node: IPublicModelNode) => {
               const dragNodeObject: IPublicTypeDragNodeObject = {
                 type: IPublicEnumDragObjectType.Node,
                 nodes: [node],
@@ -334,10 +354,33 @@ export const builtinHotkey = (ctx: IPublicModelPluginContext) => {
             if (canAddComponentsTree.length === 0) {
               return;
             }
-            const nodes = insertChildren(target, canAddComponentsTree, index);
-            if (nodes) {
-              doc.selection.selectAll(nodes.map((o) => o.id));
-              setTimeout(() => canvas.activeTracker?.track(nodes[0]), 10);
+            // 合并引用与插入节点作为一条历史记录
+            const paste = (mergeReferences: boolean) => {
+              const nodes = doc.history.transact('Paste nodes', () => insertChildren(
+                target,
+                mergeReferences
+                  ? clipboard.mergeReferences(doc, { ...data, componentsTree: canAddComponentsTree }).componentsTree
+                  : canAddComponentsTree,
+                index,
+              ));
+              if (nodes) {
+                doc.selection.selectAll(nodes.map((o) => o.id));
+                setTimeout(() => canvas.activeTracker?.track(nodes[0]), 10);
+              }
+            };
+            // 从其他文档复制的节点，合并其引用的 state、方法及数据源
+            const { references } = data;
+            const hasReferences = !!references && references.documentId !== doc.id &&
+              !!(references.state || references.methods || references.dataSource);
+            const confirmMerge = ctx.config.get('confirmClipboardReferenceMerge');
+            if (!hasReferences || ctx.config.get('disableClipboardReferenceMerge')) {
+              paste(false);
+            } else if (confirmMerge) {
+              Promise.resolve(confirmMerge(references))
+                .then((confirmed: boolean) => paste(confirmed !== false))
+                .catch((err: Error) => logger.error('failed to confirm merging clipboard references', err));
+            } else {
+              paste(true);
             }
           }
         });
@@ -539,6 +582,96 @@ export const builtinHotkey = (ctx: IPublicModelPluginContext) => {
           }
         }
       });
+
+      Object.keys(alignmentHotkeys).forEach((key) => {
+        hotkey.bind(key, (e, action) => {
+          logger.info(`action ${action} is triggered`);
+          if (canvas.isInLiveEditing) {
+            return;
+          }
+          if (isFormEvent(e) || !project.currentDocument) {
+            return;
+          }
+          // 只在对齐生效（选中了自由布局的节点）时阻止浏览器的默认行为
+          if (canvas.alignNodes(alignmentHotkeys[key])) {
+            e.preventDefault();
+          }
+        });
+      });
+
+      Object.keys(distributionHotkeys).forEach((key) => {
+        hotkey.bind(key, (e, action) => {
+          logger.info(`action ${action} is triggered`);
+          if (canvas.isInLiveEditing) {
+            return;
+          }
+          if (isFormEvent(e) || !project.currentDocument) {
+            return;
+          }
+          if (canvas.distributeNodes(distributionHotkeys[key])) {
+            e.preventDefault();
+          }
+        });
+      });
+
+      // command + g 编组
+      hotkey.bind(['command+g', 'ctrl+g'], (e, action) => {
+        logger.info(`action ${action} is triggered`);
+        if (canvas.isInLiveEditing) {
+          return;
+        }
+        const doc = project.currentDocument;
+        if (isFormEvent(e) || !doc) {
+          return;
+        }
+        const selected = doc.selection.getTopNodes();
+        if (selected.length < 1 || selected.some((node) => node?.isLocked)) {
+          return;
+        }
+        if (canvas.groupNodes(selected)) {
+          e.preventDefault();
+        }
+      });
+
+      // command + shift + g 解散编组
+      hotkey.bind(['command+shift+g', 'ctrl+shift+g'], (e, action) => {
+        logger.info(`action ${action} is triggered`);
+        if (canvas.isInLiveEditing) {
+          return;
+        }
+        const doc = project.currentDocument;
+        if (isFormEvent(e) || !doc) {
+          return;
+        }
+        const [node] = doc.selection.getTopNodes();
+        if (!node || !node.canPerformAction('remove')) {
+          return;
+        }
+        if (canvas.ungroupNode(node).length > 0) {
+          e.preventDefault();
+        }
+      });
+
+      // command + = / - 放大缩小画布，command + 0 恢复 100%，shift + 1 适应画布
+      const zoomHotkeys: { [key: string]: () => void } = {
+        'command+=': () => canvas.zoomIn(),
+        'ctrl+=': () => canvas.zoomIn(),
+        'command+-': () => canvas.zoomOut(),
+        'ctrl+-': () => canvas.zoomOut(),
+        'command+0': () => canvas.setZoom(1),
+        'ctrl+0': () => canvas.setZoom(1),
+        'shift+1': () => canvas.fitToScreen(),
+      };
+      Object.keys(zoomHotkeys).forEach((key) => {
+        hotkey.bind(key, (e, action) => {
+          logger.info(`action ${action} is triggered`);
+          if (canvas.isInLiveEditing || isFormEvent(e)) {
+            return;
+          }
+          e.preventDefault();
+          zoomHotkeys[key]();
+        });
+      });
     },
   };
 };
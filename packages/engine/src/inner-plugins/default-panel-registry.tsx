@@ -1,13 +1,25 @@
-import { IPublicModelPluginContext } from '@alilc/lowcode-types';
-import { SettingsPrimaryPane } from '@alilc/lowcode-editor-skeleton';
+import { ReactNode } from 'react';
+import { IPublicModelPluginContext, IPublicTypeIconType } from '@alilc/lowcode-types';
+import {
+  SettingsPrimaryPane,
+  ProblemsPane,
+  IconProblems,
+  DataSourceMockPane,
+  IconDataSourceMock,
+  CommentsPane,
+  IconComments,
+  SchemaDiffPane,
+  IconSchemaDiff,
+} from '@alilc/lowcode-editor-skeleton';
 import DesignerPlugin from '@alilc/lowcode-plugin-designer';
+import { enUS, zhCN } from '../locale';
 
 // 注册默认的面板
 export const defaultPanelRegistry = (editor: any) => {
   const fun = (ctx: IPublicModelPluginContext) => {
     return {
       init() {
-        const { skeleton, config } = ctx;
+        const { skeleton, config, common } = ctx;
         skeleton.add({
           area: 'mainArea',
           name: 'designer',
@@ -30,6 +42,41 @@ export const defaultPanelRegistry = (editor: any) => {
             },
           });
         }
+        const { intlNode } = common.utils.createIntl({
+          'en-US': enUS,
+          'zh-CN': zhCN,
+        });
+        // 注册可选的左侧面板，在 leftFloatArea 中展开
+        const addPanelDock = (name: string, icon: IPublicTypeIconType, description: string, content: ReactNode) => {
+          skeleton.add({
+            area: 'leftArea',
+            name,
+            type: 'PanelDock',
+            content: {
+              name,
+              props: {
+                icon,
+                description: intlNode(description),
+              },
+              content,
+            },
+            panelProps: {
+              area: 'leftFloatArea',
+            },
+          });
+        };
+        if (config.get('enableProblemsPane')) {
+          addPanelDock('problemsPane', IconProblems, 'Problems', <ProblemsPane engineEditor={editor} />);
+        }
+        if (config.get('enableDataSourceMockPane')) {
+          addPanelDock('dataSourceMockPane', IconDataSourceMock, 'Data Source Mock', <DataSourceMockPane engineEditor={editor} />);
+        }
+        if (config.get('enableCommentsPane')) {
+          addPanelDock('commentsPane', IconComments, 'Comments', <CommentsPane engineEditor={editor} />);
+        }
+        if (config.get('enableSchemaDiffPane')) {
+          addPanelDock('schemaDiffPane', IconSchemaDiff, 'Schema Diff', <SchemaDiffPane engineEditor={editor} />);
+        }
       },
     };
   };
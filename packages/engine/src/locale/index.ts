@@ -0,0 +1,4 @@
+import enUS from './en-US.json';
+import zhCN from './zh-CN.json';
+
+export { enUS, zhCN };
@@ -220,7 +220,9 @@ class Renderer extends Component<{
           documentInstance.mountInstance(schema.id, ref);
         }}
         thisRequiredInJSE={host.thisRequiredInJSE}
+        expressionEvaluator={host.expressionEvaluator}
         documentId={document.id}
+        dataSourceMock={document.dataSourceMockEnabled}
         getNode={(id: string) => documentInstance.getNode(id) as any}
         rendererName="PageRenderer"
         customCreateElement={(Component: any, props: any, children: any) => {
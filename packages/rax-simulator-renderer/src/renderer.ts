@@ -555,6 +555,7 @@ export class SimulatorRendererContainer implements BuiltinSimulatorRenderer {
           appHelper: renderer.context,
           rendererName: 'LowCodeRenderer',
           thisRequiredInJSE: host.thisRequiredInJSE,
+          expressionEvaluator: host.expressionEvaluator,
           customCreateElement: (Comp: any, props: any, children: any) => {
             const componentMeta = host.currentDocument?.getComponentMeta(Comp.displayName);
             if (componentMeta?.isModal) {
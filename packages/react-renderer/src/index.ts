@@ -1,4 +1,4 @@
-import React, { Component, PureComponent, createElement, createContext, forwardRef, ReactInstance, ContextType } from 'react';
+import React, { Component, PureComponent, createElement, createContext, forwardRef, Profiler, ReactInstance, ContextType } from 'react';
 import ReactDOM from 'react-dom';
 import {
   adapter,
@@ -12,8 +12,18 @@ import {
 } from '@alilc/lowcode-renderer-core';
 import ConfigProvider from '@alifd/next/lib/config-provider';
 
-window.React = React;
-(window as any).ReactDom = ReactDOM;
+export {
+  SSRContext,
+  SSR_DATA_KEY,
+  ExpressionInterpreter,
+  INTERPRETER_GLOBALS,
+  DataSourceRequestStore,
+} from '@alilc/lowcode-renderer-core';
+
+if (typeof window !== 'undefined') {
+  window.React = React;
+  (window as any).ReactDom = ReactDOM;
+}
 
 adapter.setRuntime({
   Component,
@@ -22,6 +32,7 @@ adapter.setRuntime({
   createElement,
   forwardRef,
   findDOMNode: ReactDOM.findDOMNode,
+  Profiler,
 });
 
 adapter.setRenderers({
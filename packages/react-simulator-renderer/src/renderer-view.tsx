@@ -185,6 +185,8 @@ class Renderer extends Component<{
         appHelper={container.context}
         designMode={designMode}
         device={device}
+        breakpoints={host.project.breakpoints}
+        dataSourceMock={document.dataSourceMockEnabled}
         documentId={document.id}
         suspended={renderer.suspended}
         self={renderer.scope}
@@ -193,6 +195,7 @@ class Renderer extends Component<{
         getNode={(id: string) => documentInstance.getNode(id) as Node}
         rendererName="PageRenderer"
         thisRequiredInJSE={host.thisRequiredInJSE}
+        expressionEvaluator={host.expressionEvaluator}
         notFoundComponent={host.notFoundComponent}
         faultComponent={host.faultComponent}
         faultComponentMap={host.faultComponentMap}
@@ -464,6 +464,7 @@ export class SimulatorRendererContainer implements BuiltinSimulatorRenderer {
           appHelper: renderer.context,
           rendererName: 'LowCodeRenderer',
           thisRequiredInJSE: host.thisRequiredInJSE,
+          expressionEvaluator: host.expressionEvaluator,
           faultComponent: host.faultComponent,
           faultComponentMap: host.faultComponentMap,
           customCreateElement: (Comp: any, props: any, children: any) => {
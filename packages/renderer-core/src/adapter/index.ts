@@ -1,3 +1,4 @@
+import { IPublicTypeExpressionEvaluator, IPublicTypeExpressionEvaluatorType } from '@alilc/lowcode-types';
 import { IRuntime, IRendererModules, IGeneralConstructor } from '../types';
 
 export enum Env {
@@ -16,6 +17,8 @@ class Adapter {
 
   configProvider: any;
 
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
+
   constructor() {
     this.initRuntime();
   }
@@ -104,6 +107,18 @@ class Adapter {
   getConfigProvider() {
     return this.configProvider;
   }
+
+  /**
+   * 设置默认的表达式求值器，渲染模块未通过 expressionEvaluator 属性指定时使用
+   * @param evaluator 内置求值器的名称或自定义的求值器
+   */
+  setExpressionEvaluator(evaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator) {
+    this.expressionEvaluator = evaluator;
+  }
+
+  getExpressionEvaluator() {
+    return this.expressionEvaluator;
+  }
 }
 
 export default new Adapter();
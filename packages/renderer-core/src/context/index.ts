@@ -1,9 +1,16 @@
 import adapter from '../adapter';
 
+// 服务端没有 window，在模块内共享
+let serverContext: any;
 
 export default function contextFactory() {
   const { createContext } = adapter.getRuntime();
 
+  if (typeof window === 'undefined') {
+    serverContext = serverContext || createContext({});
+    return serverContext;
+  }
+
   let context = (window as any).__appContext;
   if (!context) {
     context = createContext({});
@@ -0,0 +1,35 @@
+import { cloneEnumerableProperty } from '@alilc/lowcode-utils';
+import adapter from '../adapter';
+import type { RenderProfiler } from '../utils/profiler';
+import { canAcceptsRef } from '../utils/common';
+import { compWrapper } from './index';
+import type { IComponentHocInfo } from './leaf';
+
+const profiledComponents = new WeakMap<RenderProfiler, WeakMap<any, any>>();
+
+/**
+ * 用 Profiler 包裹组件，统计节点的实际渲染耗时，运行时不支持 Profiler 时不做处理；
+ * 包裹后的组件按 profiler 和原组件缓存，避免每次渲染生成新的组件类型导致重新挂载
+ */
+export function profilerWrapper(Comp: any, { schema, baseRenderer }: IComponentHocInfo) {
+  const { Profiler, createElement, forwardRef } = adapter.getRuntime();
+  const profiler = baseRenderer.__profiler;
+  if (!Profiler || !profiler) {
+    return Comp;
+  }
+  let cache = profiledComponents.get(profiler);
+  if (!cache) {
+    cache = new WeakMap();
+    profiledComponents.set(profiler, cache);
+  }
+  if (!cache.has(Comp)) {
+    const Inner = canAcceptsRef(Comp) ? Comp : compWrapper(Comp);
+    const { componentName } = schema;
+    cache.set(Comp, cloneEnumerableProperty(forwardRef((props: any, ref: any) => createElement(
+      Profiler,
+      { id: props.__id || componentName, onRender: profiler.onRender },
+      createElement(Inner, { ...props, ref }),
+    )), Comp));
+  }
+  return cache.get(Comp);
+}
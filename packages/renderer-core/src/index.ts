@@ -2,6 +2,9 @@ import adapter from './adapter';
 import contextFactory from './context';
 
 export { adapter, contextFactory };
+export { SSRContext, SSR_DATA_KEY } from './utils/ssr';
+export { ExpressionInterpreter, INTERPRETER_GLOBALS } from './utils/interpreter';
+export { DataSourceRequestStore } from './utils/request-store';
 
 export * from './renderer';
 export * as types from './types';
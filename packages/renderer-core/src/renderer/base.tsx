@@ -3,8 +3,15 @@
 /* eslint-disable react/prop-types */
 import classnames from 'classnames';
 import { create as createDataSourceEngine } from '@alilc/lowcode-datasource-engine/interpret';
-import { IPublicTypeNodeSchema, IPublicTypeNodeData, IPublicTypeJSONValue, IPublicTypeCompositeValue } from '@alilc/lowcode-types';
-import { isI18nData, isJSExpression, isJSFunction } from '@alilc/lowcode-utils';
+import {
+  IPublicTypeNodeSchema,
+  IPublicTypeNodeData,
+  IPublicTypeJSONValue,
+  IPublicTypeCompositeValue,
+  IPublicTypeExpressionEvaluator,
+  IPublicTypeExpressionEvaluatorType,
+} from '@alilc/lowcode-types';
+import { isI18nData, isJSExpression, isJSFunction, mergeResponsiveProps } from '@alilc/lowcode-utils';
 import adapter from '../adapter';
 import divFactory from '../components/Div';
 import visualDomFactory from '../components/VisualDom';
@@ -14,7 +21,6 @@ import {
   getValue,
   parseData,
   parseExpression,
-  parseThisRequiredExpression,
   parseI18n,
   isEmpty,
   isSchema,
@@ -27,20 +33,42 @@ import {
   getFileCssName,
   capitalizeFirstLetter,
   DataHelper,
+  getMockResponse,
   isVariable,
   isJSSlot,
+  isServerEnv,
+  ExpressionCache,
 } from '../utils';
-import { IBaseRendererProps, INodeInfo, IBaseRenderComponent, IBaseRendererContext, IRendererAppHelper, DataSource } from '../types';
+import {
+  IBaseRendererProps,
+  INodeInfo,
+  IBaseRenderComponent,
+  IBaseRendererContext,
+  IRendererAppHelper,
+  DataSource,
+  DataSourceStatusChangeEvent,
+} from '../types';
 import { compWrapper } from '../hoc';
 import { IComponentConstruct, leafWrapper } from '../hoc/leaf';
+import { profilerWrapper } from '../hoc/profiler';
 import logger from '../utils/logger';
 import isUseLoop from '../utils/is-use-loop';
+import type { SSRContext } from '../utils/ssr';
+import type { DataSourceRequestStore } from '../utils/request-store';
+import type { RenderProfiler } from '../utils/profiler';
 
 /**
  * execute method in schema.lifeCycles with context
  * @PRIVATE
  */
-export function executeLifeCycleMethod(context: any, schema: IPublicTypeNodeSchema, method: string, args: any, thisRequiredInJSE: boolean | undefined): any {
+export function executeLifeCycleMethod(
+  context: any,
+  schema: IPublicTypeNodeSchema,
+  method: string,
+  args: any,
+  thisRequiredInJSE: boolean | undefined,
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator,
+): any {
   if (!context || !isSchema(schema) || !method) {
     return;
   }
@@ -53,7 +81,7 @@ export function executeLifeCycleMethod(context: any, schema: IPublicTypeNodeSche
 
   // TODO: cache
   if (isJSExpression(fn) || isJSFunction(fn)) {
-    fn = thisRequiredInJSE ? parseThisRequiredExpression(fn, context) : parseExpression(fn, context);
+    fn = parseExpression({ str: fn, self: context, thisRequired: !!thisRequiredInJSE, evaluator: expressionEvaluator });
   }
 
   if (typeof fn !== 'function') {
@@ -98,6 +126,20 @@ export function getSchemaChildren(schema: IPublicTypeNodeSchema | undefined) {
   return result;
 }
 
+/**
+ * 创建以 parent 为原型的作用域，避免修改已创建对象的 __proto__ 导致的性能问题
+ * @PRIVATE
+ */
+export function createScope(parent: any, vars?: Record<string, any>) {
+  const descriptors: PropertyDescriptorMap = {};
+  if (vars) {
+    Object.keys(vars).forEach((key) => {
+      descriptors[key] = { value: vars[key], writable: true, enumerable: true, configurable: true };
+    });
+  }
+  return Object.create(parent, descriptors);
+}
+
 export default function baseRendererFactory(): IBaseRenderComponent {
   const { BaseRenderer: customBaseRenderer } = adapter.getRenderers();
 
@@ -142,12 +184,41 @@ export default function baseRendererFactory(): IBaseRenderComponent {
     __instanceMap: Record<string, any> = {};
     __dataHelper: any;
 
+    /**
+     * whether dataSource was loaded with mock, used to reload dataSource when it changes
+     *
+     * @type {boolean}
+     */
+    __dataSourceMock = false;
+
+    /**
+     * latest real responses of dataSource in design mode, keyed by id
+     *
+     * @type {Record<string, any>}
+     */
+    __dataSourceResponses: Record<string, any> = {};
+
+    /**
+     * whether state was initialized with data of server side rendering, used to skip reloading dataSource on mount
+     *
+     * @type {boolean}
+     */
+    __ssrHydrated = false;
+
     /**
      * keep track of customMethods added to this context
      *
      * @type {any}
      */
     __customMethodsList: any[] = [];
+
+    /**
+     * 表达式编译缓存，schema 变化时清空
+     */
+    __expressionCache = new ExpressionCache();
+
+    __dataSourceStatusListeners: Array<(event: DataSourceStatusChangeEvent) => void> = [];
+
     __parseExpression: any;
     __ref: any;
 
@@ -162,11 +233,20 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       super(props, context);
       this.context = context;
       this.__parseExpression = (str: string, self: any) => {
-        return parseExpression({ str, self, thisRequired: props?.thisRequiredInJSE, logScope: props.componentName });
+        return parseExpression({
+          str,
+          self,
+          thisRequired: props?.thisRequiredInJSE,
+          logScope: props.componentName,
+          evaluator: this.__expressionEvaluator,
+          cache: this.__getExpressionCache(),
+          profiler: this.__profiler,
+        });
       };
       this.__beforeInit(props);
       this.__init(props);
       this.__afterInit(props);
+      this.__initSSRData(props);
       this.__debug(`constructor - ${props?.__schema?.fileName}`);
     }
 
@@ -185,7 +265,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
     __afterInit(_props: IBaseRendererProps) { }
 
     static getDerivedStateFromProps(props: IBaseRendererProps, state: any) {
-      return executeLifeCycleMethod(this, props?.__schema, 'getDerivedStateFromProps', [props, state], props.thisRequiredInJSE);
+      return executeLifeCycleMethod(this, props?.__schema, 'getDerivedStateFromProps', [props, state], props.thisRequiredInJSE, props.expressionEvaluator);
     }
 
     async getSnapshotBeforeUpdate(...args: any[]) {
@@ -194,17 +274,31 @@ export default function baseRendererFactory(): IBaseRenderComponent {
     }
 
     async componentDidMount(...args: any[]) {
-      this.reloadDataSource();
+      this.__dataSourceMock = this.__dataSourceMockEnabled;
+      // 已使用服务端渲染的数据，不再重新请求
+      if (this.__ssrHydrated) {
+        this.__ssrHydrated = false;
+      } else {
+        this.reloadDataSource();
+      }
       this.__executeLifeCycleMethod('componentDidMount', args);
       this.__debug(`componentDidMount - ${this.props?.__schema?.fileName}`);
     }
 
     async componentDidUpdate(...args: any[]) {
+      // 切换数据源 mock 后重新请求
+      if (this.__dataHelper && this.__dataSourceMock !== this.__dataSourceMockEnabled) {
+        this.__dataSourceMock = this.__dataSourceMockEnabled;
+        this.__initDataSource(this.props);
+        this.reloadDataSource();
+      }
       this.__executeLifeCycleMethod('componentDidUpdate', args);
       this.__debug(`componentDidUpdate - ${this.props.__schema.fileName}`);
     }
 
     async componentWillUnmount(...args: any[]) {
+      // 中止进行中的数据源请求，停止轮询
+      this.__dataHelper?.destroy?.();
       this.__executeLifeCycleMethod('componentWillUnmount', args);
       this.__debug(`componentWillUnmount - ${this.props?.__schema?.fileName}`);
     }
@@ -251,7 +345,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
      * @PRIVATE
      */
     __executeLifeCycleMethod = (method: string, args?: any) => {
-      executeLifeCycleMethod(this, this.props.__schema, method, args, this.props.thisRequiredInJSE);
+      executeLifeCycleMethod(this, this.props.__schema, method, args, this.props.thisRequiredInJSE, this.__expressionEvaluator);
     };
 
     /**
@@ -300,9 +394,59 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       });
     };
 
+    /**
+     * 获取数据源最近一次的真实响应，未经 dataHandler 处理
+     */
+    getDataSourceResponse = (id: string) => {
+      return this.__dataSourceResponses[id];
+    };
+
+    /**
+     * 为每个数据源使用独立的请求类型，以便在请求时区分数据源
+     */
+    __proxyRequestHandlers = (dataSource: any, requestHandlersMap: Record<string, any>, responses: Record<string, any>, mock: boolean) => {
+      const handlers: Record<string, any> = { ...requestHandlersMap };
+      const list = (dataSource.list || []).map((item: any) => {
+        if (!item?.id || item.type === 'custom') {
+          return item;
+        }
+        const type = `${item.type || 'fetch'}@${item.id}`;
+        if (mock && item.mock !== undefined) {
+          const mockValue = this.__parseData(item.mock);
+          handlers[type] = (options: any) => getMockResponse(mockValue, options, this).then((data) => ({ data }));
+        } else {
+          const handler = requestHandlersMap[item.type || 'fetch'];
+          handlers[type] = (...args: any[]) => Promise.resolve(handler?.(...args)).then((response: any) => {
+            responses[item.id] = response?.data;
+            return response;
+          });
+        }
+        return { ...item, type };
+      });
+      return { dataSource: { ...dataSource, list }, requestHandlersMap: handlers };
+    };
+
     __parseData = (data: any, ctx?: Record<string, any>) => {
       const { __ctx, thisRequiredInJSE, componentName } = this.props;
-      return parseData(data, ctx || __ctx || this, { thisRequiredInJSE, logScope: componentName });
+      return parseData(data, ctx || __ctx || this, {
+        thisRequiredInJSE,
+        logScope: componentName,
+        expressionEvaluator: this.__expressionEvaluator,
+        expressionCache: this.__getExpressionCache(),
+        profiler: this.__profiler,
+      });
+    };
+
+    /**
+     * 监听数据源状态变化（init / loading / loaded / error），仅支持未使用 requestHandlersMap 的数据源
+     * @param listener
+     * @returns 取消监听的函数
+     */
+    onDataSourceStatusChange = (listener: (event: DataSourceStatusChangeEvent) => void) => {
+      this.__dataSourceStatusListeners.push(listener);
+      return () => {
+        this.__dataSourceStatusListeners = this.__dataSourceStatusListeners.filter((item) => item !== listener);
+      };
     };
 
     __initDataSource = (props: IBaseRendererProps) => {
@@ -314,16 +458,23 @@ export default function baseRendererFactory(): IBaseRenderComponent {
         list: [],
       };
       const dataSource = schema.dataSource || defaultDataSource;
+      const mock = this.__dataSourceMockEnabled;
+      const responses = this.__dataSourceResponses;
       // requestHandlersMap 存在才走数据源引擎方案
       // TODO: 下面if else 抽成独立函数
       const useDataSourceEngine = !!(props.__appHelper?.requestHandlersMap);
       if (useDataSourceEngine) {
+        this.__dataHelper?.destroy?.();
         this.__dataHelper = {
           updateConfig: (updateDataSource: any) => {
+            // 设计态下代理请求，记录真实响应或返回 mock 响应
+            const { dataSource: designDataSource, requestHandlersMap } = this.__designModeIsDesign
+              ? this.__proxyRequestHandlers(updateDataSource ?? {}, props.__appHelper.requestHandlersMap || {}, responses, mock)
+              : { dataSource: updateDataSource ?? {}, requestHandlersMap: props.__appHelper.requestHandlersMap };
             const { dataSourceMap, reloadDataSource } = createDataSourceEngine(
-              updateDataSource ?? {},
+              designDataSource,
               this,
-              props.__appHelper.requestHandlersMap ? { requestHandlersMap: props.__appHelper.requestHandlersMap } : undefined,
+              requestHandlersMap ? { requestHandlersMap } : undefined,
             );
 
             this.reloadDataSource = () => new Promise((resolve) => {
@@ -338,15 +489,34 @@ export default function baseRendererFactory(): IBaseRenderComponent {
         this.dataSourceMap = this.__dataHelper.updateConfig(dataSource);
       } else {
         const appHelper = props.__appHelper;
-        this.__dataHelper = new DataHelper(this, dataSource, appHelper, (config: any) => this.__parseData(config));
+        // 复用已有的 DataHelper，保留进行中的请求、轮询及数据源状态
+        if (this.__dataHelper instanceof DataHelper && !this.__dataHelper.destroyed) {
+          this.__dataHelper.appHelper = appHelper;
+          this.__dataHelper.mock = mock;
+          this.__dataHelper.updateConfig(dataSource);
+        } else {
+          this.__dataHelper = new DataHelper(this, dataSource, appHelper, (config: any) => this.__parseData(config), mock);
+          this.__dataHelper.onStatusChange((event: DataSourceStatusChangeEvent) => {
+            this.__dataSourceStatusListeners.forEach((listener) => listener(event));
+          });
+        }
+        const requestStore = this.__dataSourceRequestStore;
+        if (requestStore) {
+          this.__dataHelper.requestStore = requestStore;
+        }
+        this.__dataHelper.responses = responses;
         this.dataSourceMap = this.__dataHelper.dataSourceMap;
         this.reloadDataSource = () => new Promise((resolve, reject) => {
           this.__debug('reload data source');
-          if (!this.__dataHelper) {
+          const dataHelper = this.__dataHelper;
+          if (!dataHelper) {
             return resolve({});
           }
-          this.__dataHelper.getInitData()
+          dataHelper.getInitData()
             .then((res: any) => {
+              if (dataHelper.destroyed) {
+                return resolve({});
+              }
               if (isEmpty(res)) {
                 return resolve({});
               }
@@ -359,6 +529,43 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       }
     };
 
+    /**
+     * 服务端渲染时等待 isInit 数据源的请求，客户端以服务端渲染的数据初始化 state
+     * @PRIVATE
+     */
+    __initSSRData = (props: IBaseRendererProps) => {
+      const { __ssrContext: ssrContext } = this;
+      if (!ssrContext || !this.__dataHelper || !props.__schema?.dataSource?.list?.length) {
+        return;
+      }
+      const key = ssrContext.nextKey(props.__schema);
+      if (ssrContext.has(key)) {
+        const data = ssrContext.take(key) || {};
+        this.state = { ...this.state, ...data };
+        Object.keys(data).forEach((id) => {
+          if (this.dataSourceMap[id] && this.__dataHelper.updateDataSourceMap) {
+            this.__dataHelper.updateDataSourceMap(id, data[id]);
+          }
+        });
+        this.__ssrHydrated = !isServerEnv();
+      } else if (isServerEnv()) {
+        ssrContext.wait(key, this.__loadSSRData());
+      }
+    };
+
+    /**
+     * 服务端请求 isInit 数据源，组件不会挂载，数据源写入的 state 收集后返回
+     * @PRIVATE
+     */
+    __loadSSRData = (): Promise<Record<string, any>> => {
+      const state: Record<string, any> = {};
+      this.setState = (update: any, callback?: () => void) => {
+        Object.assign(state, typeof update === 'function' ? update({ ...this.state, ...state }, this.props) : update);
+        callback?.();
+      };
+      return this.reloadDataSource().then(() => state);
+    };
+
     /**
      * init i18n apis
      * @PRIVATE
@@ -387,6 +594,11 @@ export default function baseRendererFactory(): IBaseRenderComponent {
     __writeCss = (props: IBaseRendererProps) => {
       const css = getValue(props.__schema, 'css', '');
       this.__debug('create this.styleElement with css', css);
+      // 服务端没有 document，收集后由服务端输出到页面中
+      if (isServerEnv()) {
+        this.__ssrContext?.addCss(css);
+        return;
+      }
       let style = this.__styleElement;
       if (!this.__styleElement) {
         style = document.createElement('style');
@@ -431,8 +643,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
 
     __createDom = () => {
       const { __schema, __ctx, __components = {} } = this.props;
-      const scope: any = {};
-      scope.__proto__ = __ctx || this;
+      const scope: any = createScope(__ctx || this);
 
       const _children = getSchemaChildren(__schema);
       let Comp = __components[__schema.componentName];
@@ -465,6 +676,8 @@ export default function baseRendererFactory(): IBaseRenderComponent {
         this.__debug('this.context.engine is invalid!');
         return null;
       }
+      const profiler = this.__profiler;
+      let profiling = false;
       try {
         const { __appHelper: appHelper, __components: components = {} } = this.props || {};
 
@@ -472,7 +685,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
           return this.__parseExpression(schema, scope);
         }
         if (isI18nData(schema)) {
-          return parseI18n(schema, scope);
+          return parseI18n(schema, scope, this.__expressionEvaluator);
         }
         if (isJSSlot(schema)) {
           return this.__createVirtualDom(schema.value, scope, parentInfo);
@@ -560,6 +773,10 @@ export default function baseRendererFactory(): IBaseRenderComponent {
             );
           }
         }
+        if (profiler) {
+          profiler.startNode(schema.id, schema.componentName);
+          profiling = true;
+        }
         const condition = schema.condition == null ? true : this.__parseData(schema.condition, scope);
 
         // DesignMode 为 design 情况下，需要进入 leaf Hoc，进行相关事件注册
@@ -591,9 +808,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
         }
         // 如果组件有设置scope，需要为组件生成一个新的scope上下文
         if (scopeKey && this.__compScopes[scopeKey]) {
-          const compSelf = { ...this.__compScopes[scopeKey] };
-          compSelf.__proto__ = scope;
-          scope = compSelf;
+          scope = createScope(scope, this.__compScopes[scopeKey]);
         }
 
         if (engine.props?.designMode) {
@@ -695,6 +910,10 @@ export default function baseRendererFactory(): IBaseRenderComponent {
           parentInfo,
           idx,
         });
+      } finally {
+        if (profiling) {
+          profiler!.endNode();
+        }
       }
     };
 
@@ -705,10 +924,11 @@ export default function baseRendererFactory(): IBaseRenderComponent {
      * @type {IComponentConstruct[]}
      */
     get __componentHOCs(): IComponentConstruct[] {
-      if (this.__designModeIsDesign) {
-        return [leafWrapper];
+      const hocs: IComponentConstruct[] = this.__designModeIsDesign ? [leafWrapper] : [];
+      if (this.__profiler) {
+        hocs.push(profilerWrapper);
       }
-      return [];
+      return hocs;
     }
 
     __getSchemaChildrenVirtualDom = (schema: IPublicTypeNodeSchema | undefined, scope: any, Comp: any) => {
@@ -745,7 +965,9 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       if (!schema) {
         return {};
       }
-      return this.__parseProps(schema?.props, scope, '', {
+      const breakpoint = this.context?.engine?.getBreakpoint?.();
+      const props = breakpoint ? mergeResponsiveProps(schema.props, schema.responsive?.[breakpoint]) : schema.props;
+      return this.__parseProps(props, scope, '', {
         schema,
         Comp,
         componentInfo: {
@@ -767,11 +989,10 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       const indexArg = (schema.loopArgs && schema.loopArgs[1]) || DEFAULT_LOOP_ARG_INDEX;
       const { loop } = schema;
       return loop.map((item: IPublicTypeJSONValue | IPublicTypeCompositeValue, i: number) => {
-        const loopSelf: any = {
+        const loopSelf: any = createScope(scope, {
           [itemArg]: item,
           [indexArg]: i,
-        };
-        loopSelf.__proto__ = scope;
+        });
         return this.__createVirtualDom(
           {
             ...schema,
@@ -794,6 +1015,48 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       return engine?.props?.designMode === 'design';
     }
 
+    get __ssrContext(): SSRContext | undefined {
+      const { engine } = this.context || {};
+      return engine?.props?.ssrContext;
+    }
+
+    /**
+     * 数据源请求的缓存及进行中的请求，同一个渲染模块的容器间共享
+     */
+    get __dataSourceRequestStore(): DataSourceRequestStore | undefined {
+      const { engine } = this.context || {};
+      return this.props.__appHelper?.dataSourceRequestStore || engine?.getDataSourceRequestStore?.();
+    }
+
+    /**
+     * 表达式求值器，嵌套的容器未传入时使用最外层渲染模块的配置
+     */
+    get __expressionEvaluator(): IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator | undefined {
+      const { engine } = this.context || {};
+      return this.props?.expressionEvaluator ?? engine?.props?.expressionEvaluator;
+    }
+
+    /**
+     * 渲染性能统计，最外层渲染模块传入 onRenderProfile 时存在
+     */
+    get __profiler(): RenderProfiler | undefined {
+      const { engine } = this.context || {};
+      return engine?.getProfiler?.();
+    }
+
+    /**
+     * 获取当前 schema 的表达式编译缓存
+     */
+    __getExpressionCache() {
+      this.__expressionCache.bind(this.props?.__schema);
+      return this.__expressionCache;
+    }
+
+    get __dataSourceMockEnabled() {
+      const { engine } = this.context || {};
+      return this.__designModeIsDesign && !!engine?.props?.dataSourceMock;
+    }
+
     __parseProps = (originalProps: any, scope: any, path: string, info: INodeInfo): any => {
       let props = originalProps;
       const { schema, Comp, componentInfo = {} } = info;
@@ -814,17 +1077,17 @@ export default function baseRendererFactory(): IBaseRenderComponent {
           return checkProps(virtualDom);
         }
         return checkProps((...argValues: any[]) => {
-          const args: any = {};
+          const vars: any = {};
           if (Array.isArray(params) && params.length) {
             params.forEach((item, idx) => {
               if (typeof item === 'string') {
-                args[item] = argValues[idx];
+                vars[item] = argValues[idx];
               } else if (item && typeof item === 'object') {
-                args[item.name] = argValues[idx];
+                vars[item.name] = argValues[idx];
               }
             });
           }
-          args.__proto__ = scope;
+          const args = createScope(scope, vars);
           return scope.__createVirtualDom(data, args, ({ schema, Comp } as INodeInfo));
         });
       };
@@ -845,7 +1108,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
         if (i18nProp) {
           props = i18nProp;
         } else {
-          return parseI18n(props, scope);
+          return parseI18n(props, scope, this.__expressionEvaluator);
         }
       }
 
@@ -858,7 +1121,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
       }
 
       if (isJSFunction(props)) {
-        props = transformStringToFunction(props.value);
+        props = transformStringToFunction(props.value, this.__expressionEvaluator);
       }
       if (isJSSlot(props)) {
         const { params, value } = props;
@@ -960,8 +1223,7 @@ export default function baseRendererFactory(): IBaseRenderComponent {
     __renderComp(OriginalComp: any, ctxProps: object) {
       let Comp = OriginalComp;
       const { __schema, __ctx } = this.props;
-      const scope: any = {};
-      scope.__proto__ = __ctx || this;
+      const scope: any = createScope(__ctx || this);
       Comp = this.__getHOCWrappedComponent(Comp, __schema, scope);
       const data = this.__parseProps(__schema?.props, scope, '', {
         schema: __schema,
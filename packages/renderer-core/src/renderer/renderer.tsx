@@ -1,12 +1,13 @@
 import Debug from 'debug';
 import adapter from '../adapter';
 import contextFactory from '../context';
-import { isFileSchema, isEmpty } from '../utils';
+import { isFileSchema, isEmpty, isServerEnv, RenderProfiler, DataSourceRequestStore } from '../utils';
 import baseRendererFactory from './base';
 import divFactory from '../components/Div';
 import { IRenderComponent, IRendererProps, IRendererState } from '../types';
 import { IPublicTypeNodeSchema, IPublicTypeRootSchema } from '@alilc/lowcode-types';
 import logger from '../utils/logger';
+import { matchBreakpoint } from '@alilc/lowcode-utils';
 
 export default function rendererFactory(): IRenderComponent {
   const { PureComponent, Component, createElement, findDOMNode } = adapter.getRuntime();
@@ -54,6 +55,15 @@ export default function rendererFactory(): IRenderComponent {
 
     __ref: any;
 
+    /** 最近一次渲染时生效的断点 */
+    private breakpoint: string | null = null;
+
+    private profiler?: RenderProfiler;
+
+    private dataSourceRequestStore?: DataSourceRequestStore;
+
+    private mounted = false;
+
     static defaultProps: IRendererProps = {
       appHelper: undefined,
       components: {},
@@ -75,6 +85,10 @@ export default function rendererFactory(): IRenderComponent {
 
     async componentDidMount() {
       debug(`entry.componentDidMount - ${this.props.schema && this.props.schema.componentName}`);
+      window.addEventListener('resize', this.handleResize);
+      // hydrate 时使用的是服务端渲染时的断点，挂载后按视口宽度重新匹配
+      this.mounted = true;
+      this.handleResize();
     }
 
     async componentDidUpdate() {
@@ -83,6 +97,64 @@ export default function rendererFactory(): IRenderComponent {
 
     async componentWillUnmount() {
       debug(`entry.componentWillUnmount - ${this.props?.schema?.componentName}`);
+      window.removeEventListener('resize', this.handleResize);
+    }
+
+    /**
+     * 视口宽度变化导致断点变化时重新渲染
+     */
+    handleResize = () => {
+      if (this.props.breakpoints?.length && this.breakpoint !== this.getBreakpoint()) {
+        this.forceUpdate();
+      }
+    };
+
+    /**
+     * 获取当前生效的断点名称
+     */
+    getBreakpoint(): string | null {
+      const { breakpoints, device, designMode, ssrContext } = this.props;
+      const serverEnv = isServerEnv();
+      // 客户端首次渲染使用服务端渲染时的断点，避免 hydrate 时结构不一致
+      if (ssrContext && !serverEnv && !this.mounted && ssrContext.breakpoint !== undefined) {
+        return ssrContext.breakpoint;
+      }
+      const width = designMode === 'design' || serverEnv ? undefined : window.innerWidth;
+      const breakpoint = matchBreakpoint(breakpoints, device, width)?.name || null;
+      if (ssrContext && serverEnv) {
+        ssrContext.breakpoint = breakpoint;
+      }
+      return breakpoint;
+    }
+
+    /**
+     * 获取渲染性能统计，未传入 onRenderProfile 时不统计
+     */
+    getProfiler(): RenderProfiler | undefined {
+      if (!this.props.onRenderProfile) {
+        return undefined;
+      }
+      if (!this.profiler) {
+        this.profiler = new RenderProfiler((profile) => this.props.onRenderProfile?.(profile));
+      }
+      return this.profiler;
+    }
+
+    /**
+     * 获取数据源请求的缓存，依次使用 appHelper、ssrContext 中的实例，都未传入时每个渲染模块各自创建
+     */
+    getDataSourceRequestStore(): DataSourceRequestStore {
+      const { appHelper, ssrContext } = this.props;
+      if (appHelper?.dataSourceRequestStore) {
+        return appHelper.dataSourceRequestStore;
+      }
+      if (ssrContext) {
+        return ssrContext.requestStore;
+      }
+      if (!this.dataSourceRequestStore) {
+        this.dataSourceRequestStore = new DataSourceRequestStore();
+      }
+      return this.dataSourceRequestStore;
     }
 
     componentDidCatch(error: Error) {
@@ -191,6 +263,7 @@ export default function rendererFactory(): IRenderComponent {
         return '模型结构异常';
       }
       debug('entry.render');
+      this.breakpoint = this.getBreakpoint();
       const allComponents = { ...RENDERER_COMPS, ...components };
       let Comp = this.getComp();
 
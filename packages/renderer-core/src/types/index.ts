@@ -1,6 +1,17 @@
 import type { ComponentLifecycle, CSSProperties } from 'react';
 import { BuiltinSimulatorHost, BuiltinSimulatorRenderer } from '@alilc/lowcode-designer';
-import { RequestHandler, IPublicTypeNodeSchema, IPublicTypeRootSchema, IPublicTypeJSONObject } from '@alilc/lowcode-types';
+import {
+  RequestHandler,
+  IPublicTypeNodeSchema,
+  IPublicTypeRootSchema,
+  IPublicTypeJSONObject,
+  IPublicTypeBreakpoint,
+  IPublicTypeExpressionEvaluator,
+  IPublicTypeExpressionEvaluatorType,
+} from '@alilc/lowcode-types';
+import type { SSRContext } from '../utils/ssr';
+import type { DataSourceRequestStore } from '../utils/request-store';
+import type { RenderProfiler } from '../utils/profiler';
 
 export type ISchema = IPublicTypeNodeSchema | IPublicTypeRootSchema;
 
@@ -86,6 +97,9 @@ export type IRendererAppHelper = Partial<{
   requestHandlersMap: Record<string, RequestHandler<{
     data: unknown;
   }>>;
+
+  /** 数据源请求的缓存及进行中的请求，不传时由渲染模块创建，服务端渲染时使用 SSRContext 中的实例 */
+  dataSourceRequestStore: DataSourceRequestStore;
 }>;
 
 /**
@@ -168,17 +182,91 @@ export interface IRendererProps {
   /** 设备信息 */
   device?: string;
 
+  /**
+   * 响应式断点，优先使用名称与 device 相同的断点，非设计态下按视口宽度匹配
+   */
+  breakpoints?: IPublicTypeBreakpoint[];
+
+  /**
+   * @default false
+   * 设计态下数据源是否使用 mock 响应，没有 mock 的数据源仍然发起请求
+   */
+  dataSourceMock?: boolean;
+
+  /**
+   * 服务端渲染上下文，服务端渲染时等待 isInit 数据源的请求，客户端以服务端输出的数据 hydrate，不再重新请求
+   */
+  ssrContext?: SSRContext;
+
   /**
    * @default true
    * JSExpression 是否只支持使用 this 来访问上下文变量
    */
   thisRequiredInJSE?: boolean;
 
+  /**
+   * @default 'function'
+   * JSExpression / JSFunction 的求值器，设置为 'interpreter' 时不使用 new Function，也可以传入自定义的求值器
+   */
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
+
   /**
    * @default false
    * 当开启组件未找到严格模式时，渲染模块不会默认给一个容器组件
    */
   enableStrictNotFoundMode?: boolean;
+
+  /**
+   * 渲染性能统计回调，传入时统计每个节点的渲染次数、耗时及表达式求值耗时，每轮渲染结束后回调一次
+   */
+  onRenderProfile?: (profile: IRenderProfile) => void;
+}
+
+/**
+ * 节点的渲染性能统计
+ */
+export interface IRenderProfileNode {
+  componentName: string;
+
+  /** 节点 id，没有 id 时为组件名 */
+  id: string;
+
+  /** 生成节点 element 的次数，循环渲染时每一项计一次 */
+  createCount: number;
+
+  /** 生成节点 element 的耗时，不含子节点，单位 ms */
+  createDuration: number;
+
+  /** 组件实际渲染的次数，通过 React.Profiler 统计，运行时不支持 Profiler 时为 0 */
+  renderCount: number;
+
+  /** 组件实际渲染的耗时，不含子节点，单位 ms */
+  renderDuration: number;
+
+  /** 节点上表达式的求值次数 */
+  expressionCount: number;
+
+  /** 节点上表达式的求值耗时，单位 ms */
+  expressionDuration: number;
+}
+
+/**
+ * 一轮渲染的性能统计，nodes 为各节点的统计，按实际渲染耗时降序排列
+ */
+export interface IRenderProfile {
+  nodes: IRenderProfileNode[];
+
+  /** 生成所有节点 element 的总耗时，单位 ms */
+  createDuration: number;
+
+  /** 所有节点实际渲染的总耗时，单位 ms */
+  renderDuration: number;
+
+  /** 表达式的求值次数，包含容器 state、数据源等不属于节点的表达式 */
+  expressionCount: number;
+
+  /** 表达式的求值耗时，单位 ms */
+  expressionDuration: number;
 }
 
 export interface IRendererState {
@@ -206,6 +294,7 @@ export interface IBaseRendererProps {
   getSchemaChangedSymbol?: () => boolean;
   setSchemaChangedSymbol?: (symbol: boolean) => void;
   thisRequiredInJSE?: boolean;
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
   documentId?: string;
   getNode?: any;
 
@@ -242,6 +331,83 @@ export interface DataSourceItem {
     didFetch?: string;
   };
   dataHandler?: JSExpression;
+
+  /**
+   * 设计态下开启数据源 mock 时使用的响应，函数以请求参数调用，返回值作为响应
+   */
+  mock?: any;
+
+  /**
+   * 缓存请求成功的响应，相同请求在有效期内不再发起，为 true 时使用默认配置
+   */
+  cache?: boolean | DataSourceCacheConfig;
+
+  /**
+   * 轮询间隔，单位 ms，isInit 的数据源加载后按间隔重新请求
+   */
+  pollInterval?: number;
+
+  /**
+   * 请求失败时的重试策略，为数字时表示重试次数
+   */
+  retry?: number | DataSourceRetryConfig;
+
+  /**
+   * 相同请求进行中时复用进行中的请求
+   */
+  dedupe?: boolean;
+
+  /**
+   * 依赖的数据源 id，isInit 的数据源在依赖加载后再请求，参数中可以通过 this.dataSourceMap[id].data 使用依赖的数据；
+   * 依赖重新加载后已加载的数据源会重新请求
+   */
+  dependsOn?: string[];
+}
+
+export interface DataSourceCacheConfig {
+
+  /**
+   * 缓存有效期，单位 ms，默认 60000
+   */
+  ttl?: number;
+
+  /**
+   * 缓存过期后先返回过期的响应，同时在后台重新请求
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * 缓存 key，默认根据请求类型及参数生成，相同 key 的数据源共享缓存
+   */
+  key?: string;
+}
+
+export interface DataSourceRetryConfig {
+
+  /**
+   * 重试次数
+   */
+  count?: number;
+
+  /**
+   * 第一次重试前的等待时间，单位 ms，默认 1000
+   */
+  delay?: number;
+
+  /**
+   * 每次重试等待时间的倍数，默认 2
+   */
+  backoff?: number;
+}
+
+/**
+ * 数据源状态变化事件
+ */
+export interface DataSourceStatusChangeEvent {
+  id: string;
+  status: 'init' | 'loading' | 'loaded' | 'error';
+  prevStatus: 'init' | 'loading' | 'loaded' | 'error';
+  error?: any;
 }
 
 export interface DataSource {
@@ -257,6 +423,9 @@ export interface IRuntime {
   createContext: (...args: any) => any;
   forwardRef: (...args: any) => any;
   findDOMNode: (...args: any) => any;
+
+  /** React.Profiler，用于统计节点的实际渲染耗时 */
+  Profiler?: any;
 }
 
 export interface IRendererModules {
@@ -283,7 +452,9 @@ export type IBaseRendererInstance = IGeneralComponent<
   any
 >
   & {
+    __profiler?: RenderProfiler;
     reloadDataSource(): Promise<any>;
+    getDataSourceResponse(id: string): any;
     __beforeInit(props: IBaseRendererProps): void;
     __init(props: IBaseRendererProps): void;
     __afterInit(props: IBaseRendererProps): void;
@@ -1,7 +1,13 @@
 /* eslint-disable no-console */
 /* eslint-disable no-new-func */
 import logger from './logger';
-import { IPublicTypeRootSchema, IPublicTypeNodeSchema, IPublicTypeJSSlot } from '@alilc/lowcode-types';
+import {
+  IPublicTypeRootSchema,
+  IPublicTypeNodeSchema,
+  IPublicTypeJSSlot,
+  IPublicTypeExpressionEvaluator,
+  IPublicTypeExpressionEvaluatorType,
+} from '@alilc/lowcode-types';
 import { isI18nData, isJSExpression } from '@alilc/lowcode-utils';
 import { isEmpty } from 'lodash';
 import IntlMessageFormat from 'intl-messageformat';
@@ -9,8 +15,14 @@ import pkg from '../../package.json';
 import * as ReactIs from 'react-is';
 import { default as ReactPropTypesSecret } from 'prop-types/lib/ReactPropTypesSecret';
 import { default as factoryWithTypeCheckers } from 'prop-types/factoryWithTypeCheckers';
+import adapter from '../adapter';
+import { ExpressionInterpreter } from './interpreter';
+import type { ExpressionCache } from './expression-cache';
+import type { RenderProfiler } from './profiler';
 
-(window as any).sdkVersion = pkg.version;
+if (typeof window !== 'undefined') {
+  (window as any).sdkVersion = pkg.version;
+}
 
 export { pick, isEqualWith as deepEqual, cloneDeep as clone, isEmpty, throttle, debounce } from 'lodash';
 
@@ -208,20 +220,72 @@ export function checkPropTypes(value: any, name: string, rule: any, componentNam
   return !err;
 }
 
+/**
+ * 使用 new Function 求值，表达式中的 this 替换为 self
+ */
+export const functionEvaluator: IPublicTypeExpressionEvaluator = {
+  evaluate(code: string, self: any, thisRequired?: boolean) {
+    return functionEvaluator.compile!(code, thisRequired)(self);
+  },
+  toFunction(code: string) {
+    if (inSameDomain() && (window.parent as any).__newFunc) {
+      return (window.parent as any).__newFunc(`"use strict"; return ${code}`)();
+    }
+    return new Function(`"use strict"; return ${code}`)();
+  },
+  compile(code: string, thisRequired?: boolean) {
+    const contextArr = ['"use strict";', 'var __self = arguments[0];'];
+    contextArr.push('return ');
+
+    // NOTE: use __self replace 'this' in the original function str
+    // may be wrong in extreme case which contains '__self' already
+    let tarStr = code.replace(/this(\W|$)/g, (_a: any, b: any) => `__self${b}`);
+    tarStr = contextArr.join('\n') + tarStr;
+
+    // 默认调用顶层窗口的parseObj, 保障new Function的window对象是顶层的window对象
+    if (inSameDomain() && (window.parent as any).__newFunc) {
+      return (window.parent as any).__newFunc(tarStr);
+    }
+    const fnCode = `with(${thisRequired ? '{}' : '$scope || {}'}) { ${tarStr} }`;
+    return new Function('$scope', fnCode) as (self: any) => any;
+  },
+};
+
+let interpreter: ExpressionInterpreter | undefined;
+
+/**
+ * 获取表达式求值器，未指定时使用 adapter 上设置的求值器，默认为 functionEvaluator
+ * @param evaluator 内置求值器的名称或自定义的求值器
+ * @returns IPublicTypeExpressionEvaluator
+ */
+export function getExpressionEvaluator(
+  evaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator,
+): IPublicTypeExpressionEvaluator {
+  const target = evaluator || adapter.getExpressionEvaluator();
+  if (target === 'interpreter') {
+    interpreter = interpreter || new ExpressionInterpreter();
+    return interpreter;
+  }
+  if (target && target !== 'function') {
+    return target;
+  }
+  return functionEvaluator;
+}
+
 /**
  * transform string to a function
  * @param str function in string form
+ * @param evaluator evaluator used to transform the string
  * @returns funtion
  */
-export function transformStringToFunction(str: string) {
+export function transformStringToFunction(
+  str: string,
+  evaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator,
+) {
   if (typeof str !== 'string') {
     return str;
   }
-  if (inSameDomain() && (window.parent as any).__newFunc) {
-    return (window.parent as any).__newFunc(`"use strict"; return ${str}`)();
-  } else {
-    return new Function(`"use strict"; return ${str}`)();
-  }
+  return getExpressionEvaluator(evaluator).toFunction(str);
 }
 
 /**
@@ -232,7 +296,13 @@ export function transformStringToFunction(str: string) {
  */
 
 function parseExpression(options: {
-  str: any; self: any; thisRequired?: boolean; logScope?: string;
+  str: any;
+  self: any;
+  thisRequired?: boolean;
+  logScope?: string;
+  evaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
+  cache?: ExpressionCache;
+  profiler?: RenderProfiler;
 }): any;
 function parseExpression(str: any, self: any, thisRequired?: boolean): any;
 function parseExpression(a: any, b?: any, c = false) {
@@ -240,37 +310,35 @@ function parseExpression(a: any, b?: any, c = false) {
   let self;
   let thisRequired;
   let logScope;
+  let evaluator;
+  let cache: ExpressionCache | undefined;
+  let profiler: RenderProfiler | undefined;
   if (typeof a === 'object' && b === undefined) {
     str = a.str;
     self = a.self;
     thisRequired = a.thisRequired;
     logScope = a.logScope;
+    evaluator = a.evaluator;
+    cache = a.cache;
+    profiler = a.profiler;
   } else {
     str = a;
     self = b;
     thisRequired = c;
   }
+  const start = profiler?.now();
   try {
-    const contextArr = ['"use strict";', 'var __self = arguments[0];'];
-    contextArr.push('return ');
-    let tarStr: string;
-
-    tarStr = (str.value || '').trim();
-
-    // NOTE: use __self replace 'this' in the original function str
-    // may be wrong in extreme case which contains '__self' already
-    tarStr = tarStr.replace(/this(\W|$)/g, (_a: any, b: any) => `__self${b}`);
-    tarStr = contextArr.join('\n') + tarStr;
-
-    // 默认调用顶层窗口的parseObj, 保障new Function的window对象是顶层的window对象
-    if (inSameDomain() && (window.parent as any).__newFunc) {
-      return (window.parent as any).__newFunc(tarStr)(self);
-    }
-    const code = `with(${thisRequired ? '{}' : '$scope || {}'}) { ${tarStr} }`;
-    return new Function('$scope', code)(self);
+    const code = (str.value || '').trim();
+    const target = getExpressionEvaluator(evaluator);
+    const compiled = cache?.get(target, code, thisRequired);
+    return compiled ? compiled(self) : target.evaluate(code, self, thisRequired);
   } catch (err) {
     logger.error(`${logScope || ''} parseExpression.error`, err, str, self?.__self ?? self);
     return undefined;
+  } finally {
+    if (profiler) {
+      profiler.recordExpression(profiler.now() - start!);
+    }
   }
 }
 
@@ -320,11 +388,19 @@ export function isVariable(obj: any) {
  * @param i18nInfo object
  * @param self context
  */
-export function parseI18n(i18nInfo: any, self: any) {
+export function parseI18n(
+  i18nInfo: any,
+  self: any,
+  evaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator,
+) {
   return parseExpression({
-    type: EXPRESSION_TYPE.JSEXPRESSION,
-    value: `this.i18n('${i18nInfo.key}')`,
-  }, self);
+    str: {
+      type: EXPRESSION_TYPE.JSEXPRESSION,
+      value: `this.i18n('${i18nInfo.key}')`,
+    },
+    self,
+    evaluator,
+  });
 }
 
 /**
@@ -344,6 +420,9 @@ export function forEach(targetObj: any, fn: any, context?: any) {
 interface IParseOptions {
   thisRequiredInJSE?: boolean;
   logScope?: string;
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
+  expressionCache?: ExpressionCache;
+  profiler?: RenderProfiler;
 }
 
 export function parseData(schema: unknown, self: any, options: IParseOptions = {}): any {
@@ -353,9 +432,12 @@ export function parseData(schema: unknown, self: any, options: IParseOptions = {
       self,
       thisRequired: options.thisRequiredInJSE,
       logScope: options.logScope,
+      evaluator: options.expressionEvaluator,
+      cache: options.expressionCache,
+      profiler: options.profiler,
     });
   } else if (isI18nData(schema)) {
-    return parseI18n(schema, self);
+    return parseI18n(schema, self, options.expressionEvaluator);
   } else if (typeof schema === 'string') {
     return schema.trim();
   } else if (Array.isArray(schema)) {
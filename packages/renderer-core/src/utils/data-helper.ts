@@ -2,20 +2,112 @@
 /* eslint-disable max-len */
 /* eslint-disable object-curly-newline */
 import { isJSFunction } from '@alilc/lowcode-utils';
-import { transformArrayToMap, transformStringToFunction } from './common';
+import { transformArrayToMap, transformStringToFunction, isEmpty } from './common';
 import { jsonp, request, get, post } from './request';
+import { isServerEnv } from './ssr';
 import logger from './logger';
-import { DataSource, DataSourceItem, IRendererAppHelper } from '../types';
+import { DataSourceRequestStore, abortable, createAbortController } from './request-store';
+import {
+  DataSource,
+  DataSourceItem,
+  IRendererAppHelper,
+  DataSourceCacheConfig,
+  DataSourceRetryConfig,
+  DataSourceStatusChangeEvent,
+} from '../types';
 
-const DS_STATUS = {
+export const DS_STATUS = {
   INIT: 'init',
   LOADING: 'loading',
   LOADED: 'loaded',
   ERROR: 'error',
-};
+} as const;
 
 type DataSourceType = 'fetch' | 'jsonp';
 
+type DataSourceStatus = DataSourceStatusChangeEvent['status'];
+
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_RETRY_BACKOFF = 2;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+function getCacheConfig(cache: DataSourceItem['cache']): DataSourceCacheConfig | null {
+  if (!cache) {
+    return null;
+  }
+  return cache === true ? {} : cache;
+}
+
+function getRetryConfig(retry: DataSourceItem['retry']): Required<DataSourceRetryConfig> {
+  const config = typeof retry === 'number' ? { count: retry } : retry || {};
+  return {
+    count: config.count || 0,
+    delay: config.delay ?? DEFAULT_RETRY_DELAY,
+    backoff: config.backoff ?? DEFAULT_RETRY_BACKOFF,
+  };
+}
+
+/**
+ * 根据请求类型及参数生成请求的 key，用于缓存及复用进行中的请求
+ */
+export function getRequestKey(type: string, options: any) {
+  const { uri, method = 'GET', params, headers } = options || {};
+  return JSON.stringify([type, uri, String(method).toUpperCase(), params, headers]);
+}
+
+/**
+ * 按重试策略发起请求，请求被中止时不再重试
+ */
+export function requestWithRetry(send: () => Promise<any>, retry: DataSourceItem['retry'], signal?: AbortSignal): Promise<any> {
+  const { count, delay, backoff } = getRetryConfig(retry);
+  const attempt = (times: number): Promise<any> => abortable(send(), signal).catch((err) => {
+    if (times >= count || signal?.aborted) {
+      throw err;
+    }
+    return wait(delay * backoff ** times, signal).then(() => attempt(times + 1));
+  });
+  return attempt(0);
+}
+
+/**
+ * 找出 dependsOn 中存在循环依赖的数据源，只考虑列表中的数据源之间的依赖
+ * @param items dataSourceItems
+ * @returns 在循环依赖中的数据源 id
+ */
+export function getCircularDependencies(items: DataSourceItem[]): string[] {
+  const itemMap = transformArrayToMap(items, 'id');
+  const visiting: string[] = [];
+  const visited: Record<string, boolean> = {};
+  const circular: string[] = [];
+  const visit = (id: string) => {
+    const index = visiting.indexOf(id);
+    if (index > -1) {
+      visiting.slice(index).forEach((item) => {
+        if (circular.indexOf(item) === -1) {
+          circular.push(item);
+        }
+      });
+      return;
+    }
+    if (visited[id]) {
+      return;
+    }
+    visiting.push(id);
+    (itemMap[id].dependsOn || []).forEach((dep: string) => {
+      if (itemMap[dep]) {
+        visit(dep);
+      }
+    });
+    visiting.pop();
+    visited[id] = true;
+  };
+  items.forEach((item) => visit(item.id));
+  return circular;
+}
+
 /**
  * do request for standard DataSourceType
  * @param {DataSourceType} type type of DataSourceItem
@@ -43,6 +135,21 @@ export function doRequest(type: DataSourceType, options: any) {
   logger.log(`Engine default dataSource does not support type:[${type}] dataSource request!`, options);
 }
 
+/**
+ * get mock response of dataSourceItem, mock will be called with request params if it is a function
+ * @param {*} mock parsed mock of DataSourceItem
+ * @param {any} options request options
+ * @param {any} host context of mock function
+ */
+export function getMockResponse(mock: any, options: any, host?: any): Promise<any> {
+  try {
+    const mockFun = isJSFunction(mock) ? transformStringToFunction(mock.value, host?.__expressionEvaluator) : mock;
+    return Promise.resolve(typeof mockFun === 'function' ? mockFun.call(host, options?.params, options) : mockFun);
+  } catch (e) {
+    return Promise.reject(e);
+  }
+}
+
 // TODO: according to protocol, we should implement errorHandler/shouldFetch/willFetch/requestHandler and isSync controll.
 export class DataHelper {
   /**
@@ -84,14 +191,74 @@ export class DataHelper {
 
   appHelper: IRendererAppHelper;
 
-  constructor(comp: any, config: DataSource, appHelper: IRendererAppHelper, parser: any) {
+  /**
+   * resolve dataSourceItems with mock from mock instead of real requests
+   *
+   * @type {boolean}
+   * @memberof DataHelper
+   */
+  mock: boolean;
+
+  /**
+   * latest real responses before being processed by dataHandler, keyed by id
+   *
+   * @type {Record<string, any>}
+   * @memberof DataHelper
+   */
+  responses: Record<string, any> = {};
+
+  /**
+   * abort controller of requests, requests will be aborted when destroyed
+   *
+   * @type {AbortController}
+   * @memberof DataHelper
+   */
+  controller = createAbortController();
+
+  /**
+   * whether DataHelper is destroyed, responses will be ignored after destroyed
+   *
+   * @type {boolean}
+   * @memberof DataHelper
+   */
+  destroyed = false;
+
+  /**
+   * cache and requests in flight of dataSourceItems, shared by containers of the same renderer
+   *
+   * @type {DataSourceRequestStore}
+   * @memberof DataHelper
+   */
+  requestStore: DataSourceRequestStore;
+
+  /**
+   * results of isInit dataSourceItems processed by their own dataHandler, keyed by id,
+   * the global dataHandler is always called with all of them
+   *
+   * @type {Record<string, any>}
+   * @memberof DataHelper
+   */
+  initResults: Record<string, any> = {};
+
+  private pollTimers: Record<string, any> = {};
+
+  /**
+   * params and options passed to the last load of dataSourceItems, keyed by id, reused when they are reloaded
+   */
+  private loadArgs: Record<string, [any, any]> = {};
+
+  private statusListeners: Array<(event: DataSourceStatusChangeEvent) => void> = [];
+
+  constructor(comp: any, config: DataSource, appHelper: IRendererAppHelper, parser: any, mock = false) {
     this.host = comp;
+    this.mock = mock;
     this.config = config || {};
     this.parser = parser;
     this.ajaxList = config?.list || [];
     this.ajaxMap = transformArrayToMap(this.ajaxList, 'id');
     this.dataSourceMap = this.generateDataSourceMap();
     this.appHelper = appHelper;
+    this.requestStore = appHelper?.dataSourceRequestStore || new DataSourceRequestStore();
   }
 
   // 更新config，只会更新配置，状态保存；
@@ -103,6 +270,7 @@ export class DataHelper {
     Object.keys(this.ajaxMap).forEach((key) => {
       if (!ajaxMap[key]) {
         delete this.dataSourceMap[key];
+        this.stopPolling(key);
       }
     });
     this.ajaxMap = ajaxMap;
@@ -139,7 +307,48 @@ export class DataHelper {
   updateDataSourceMap(id: string, data: any, error: any) {
     this.dataSourceMap[id].error = error || undefined;
     this.dataSourceMap[id].data = data;
-    this.dataSourceMap[id].status = error ? DS_STATUS.ERROR : DS_STATUS.LOADED;
+    this.setStatus(id, error ? DS_STATUS.ERROR : DS_STATUS.LOADED, error);
+  }
+
+  /**
+   * update status of dataSourceItem, listeners will be notified when status changed
+   * @param id id of dataSourceItem
+   * @param status
+   * @param error
+   */
+  setStatus(id: string, status: DataSourceStatus, error?: any) {
+    const item = this.dataSourceMap[id];
+    if (!item) {
+      return;
+    }
+    const prevStatus = item.status;
+    item.status = status;
+    if (prevStatus !== status) {
+      this.statusListeners.forEach((listener) => listener({ id, status, prevStatus, error }));
+    }
+  }
+
+  /**
+   * listen to status changes of dataSourceItems
+   * @param listener
+   * @returns function to remove the listener
+   */
+  onStatusChange(listener: (event: DataSourceStatusChangeEvent) => void): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter((item) => item !== listener);
+    };
+  }
+
+  /**
+   * abort requests in flight and stop polling, responses will be ignored after destroyed
+   * @memberof DataHelper
+   */
+  destroy() {
+    this.destroyed = true;
+    this.controller?.abort();
+    Object.keys(this.pollTimers).forEach((id) => this.stopPolling(id));
+    this.statusListeners = [];
   }
 
   /**
@@ -149,10 +358,14 @@ export class DataHelper {
    * @memberof DataHelper
    */
   getInitDataSourseConfigs() {
-    const initConfigs = this.parser(this.ajaxList).filter((item: DataSourceItem) => {
+    // 有依赖的数据源在依赖加载后再解析，参数中可以使用依赖的数据
+    const configs = this.ajaxList.map((item: DataSourceItem) => (item.dependsOn?.length
+      ? { ...item, isInit: this.parser(item.isInit) }
+      : this.parser(item)));
+    const initConfigs = configs.filter((item: DataSourceItem) => {
       // according to [spec](https://lowcode-engine.cn/lowcode), isInit should be boolean true to be working
       if (item.isInit === true) {
-        this.dataSourceMap[item.id].status = DS_STATUS.LOADING;
+        this.setStatus(item.id, DS_STATUS.LOADING);
         return true;
       }
       return false;
@@ -168,50 +381,253 @@ export class DataHelper {
    */
   getInitData() {
     const initSyncData = this.getInitDataSourseConfigs();
-    // 所有 datasource 的 datahandler
-    return this.asyncDataHandler(initSyncData).then((res) => {
+    const initMap = transformArrayToMap(initSyncData, 'id');
+    const getDependencies = (item: DataSourceItem) => (item.dependsOn || []).filter((dep) => !!initMap[dep]);
+    const res: Record<string, any> = {};
+    const tasks: Record<string, Promise<any>> = {};
+
+    // 循环依赖的数据源不发起请求
+    const circular = getCircularDependencies(initSyncData);
+    if (circular.length) {
+      logger.error(`Circular dependencies between data sources: ${circular.join(', ')}`);
+    }
+    circular.forEach((id) => {
+      this.updateDataSourceMap(id, undefined, new Error(`Circular dependencies between data sources: ${circular.join(', ')}`));
+      tasks[id] = Promise.resolve();
+    });
+
+    // 没有依赖关系的数据源并行请求，依赖加载失败时不再请求
+    const run = (item: DataSourceItem): Promise<any> => {
+      if (!tasks[item.id]) {
+        const deps = getDependencies(item);
+        tasks[item.id] = Promise.all(deps.map((dep) => run(initMap[dep]))).then(() => {
+          const failed = deps.filter((dep) => this.dataSourceMap[dep]?.status !== DS_STATUS.LOADED);
+          if (failed.length) {
+            this.updateDataSourceMap(item.id, undefined, new Error(`Dependencies of data source ${item.id} failed: ${failed.join(', ')}`));
+            return;
+          }
+          const req = deps.length ? this.getRequest(item.id) : item;
+          return this.asyncDataHandler([req]).then((data: any) => {
+            Object.assign(res, data);
+          });
+        });
+      }
+      return tasks[item.id];
+    };
+
+    return Promise.all(initSyncData.map(run)).then(() => {
+      this.initResults = res;
+      this.startPolling(initSyncData);
+      // 所有 datasource 的 datahandler
       const { dataHandler } = this.config;
       return this.handleData(null, dataHandler, res, null);
     });
   }
 
-  getDataSource(id: string, params: any, otherOptions: any, callback: any) {
+  /**
+   * reload dataSourceItems which have been loaded and depend on the reloaded one, results of isInit ones will be set to state of host
+   * @param {string} id id of the reloaded dataSourceItem
+   * @param {string[]} [reloaded] ids of reloaded dataSourceItems, to avoid reloading in circles
+   * @memberof DataHelper
+   */
+  reloadDependents(id: string, reloaded: string[] = [id]) {
+    if (this.destroyed || this.dataSourceMap[id]?.status !== DS_STATUS.LOADED) {
+      return;
+    }
+    this.ajaxList.forEach((item: DataSourceItem) => {
+      if (
+        (item.dependsOn || []).indexOf(id) === -1 ||
+        reloaded.indexOf(item.id) > -1 ||
+        !this.dataSourceMap[item.id] ||
+        this.dataSourceMap[item.id].status === DS_STATUS.INIT ||
+        this.dataSourceMap[item.id].status === DS_STATUS.LOADING
+      ) {
+        return;
+      }
+      // 与初始化及 load 时使用相同的参数重新请求，依赖的数据在解析参数时重新取值
+      const req = this.getRequest(item.id, ...(this.loadArgs[item.id] || []));
+      if (!req) {
+        return;
+      }
+      this.asyncDataHandler([req]).then((res: any) => {
+        if (req.isInit === true) {
+          this.updateHostState(res);
+        }
+        this.reloadDependents(item.id, [...reloaded, item.id]);
+      });
+    });
+  }
+
+  /**
+   * poll dataSourceItems with pollInterval, next poll starts after the previous request finished,
+   * results will be set to state of host
+   * @private
+   * @param {DataSourceItem[]} items parsed dataSourceItems
+   * @memberof DataHelper
+   */
+  startPolling(items: DataSourceItem[]) {
+    if (this.destroyed || isServerEnv()) {
+      return;
+    }
+    items.forEach(({ id, pollInterval }) => {
+      this.stopPolling(id);
+      if (!pollInterval || pollInterval <= 0) {
+        return;
+      }
+      this.pollTimers[id] = setTimeout(() => {
+        delete this.pollTimers[id];
+        const req = this.getRequest(id, ...(this.loadArgs[id] || []));
+        if (!req || req.isInit !== true) {
+          return;
+        }
+        this.asyncDataHandler([req], true).then((res: any) => {
+          this.updateHostState(res);
+          this.reloadDependents(id);
+          this.startPolling([req]);
+        });
+      }, pollInterval);
+    });
+  }
+
+  stopPolling(id: string) {
+    if (this.pollTimers[id]) {
+      clearTimeout(this.pollTimers[id]);
+      delete this.pollTimers[id];
+    }
+  }
+
+  /**
+   * set results of background requests (polling, revalidating) to state of host,
+   * the global dataHandler is called with the refreshed results merged into all results of isInit ones
+   * @private
+   * @param {Record<string, any>} res results keyed by id
+   * @memberof DataHelper
+   */
+  updateHostState(res: Record<string, any>) {
+    if (this.destroyed || isEmpty(res)) {
+      return;
+    }
+    this.initResults = { ...this.initResults, ...res };
+    const { dataHandler } = this.config;
+    const state = dataHandler ? this.handleData(null, dataHandler, this.initResults, null) : res;
+    if (state && typeof this.host?.setState === 'function') {
+      this.host.setState(state);
+    }
+  }
+
+  /**
+   * do request according to cache / dedupe / retry of dataSourceItem, requests will be aborted when destroyed
+   * @param {DataSourceItem} item parsed dataSourceItem
+   * @param {any} options request options
+   * @param {boolean} [force=false] ignore cached response
+   * @memberof DataHelper
+   */
+  request(item: DataSourceItem, options: any, force = false): Promise<any> | undefined {
+    const { type } = item;
+    if (type !== 'fetch' && type !== 'jsonp') {
+      return doRequest(type as DataSourceType, options);
+    }
+    const cacheConfig = getCacheConfig(item.cache);
+    const key = cacheConfig?.key || getRequestKey(type, options);
+    if (cacheConfig && !force) {
+      const cached = this.requestStore.getCache(key);
+      if (cached && !this.requestStore.isExpired(cached)) {
+        return Promise.resolve(cached.data);
+      }
+      if (cached && cacheConfig.staleWhileRevalidate) {
+        this.revalidate(item, options);
+        return Promise.resolve(cached.data);
+      }
+    }
+    const send = (signal?: AbortSignal) => requestWithRetry(
+      () => doRequest(type, signal ? { ...options, signal } : options) as Promise<any>,
+      item.retry,
+      signal,
+    );
+    const signal = this.controller?.signal;
+    const promise = item.dedupe ? this.requestStore.dedupe(key, send, signal) : send(signal);
+    return promise.then((data) => {
+      if (cacheConfig) {
+        this.requestStore.setCache(key, data, cacheConfig);
+      }
+      return data;
+    });
+  }
+
+  /**
+   * request in background after stale response returned, stale data will be kept when failed
+   * @private
+   */
+  revalidate(item: DataSourceItem, options: any) {
+    this.request(item, options, true)
+      ?.then((data: any) => {
+        if (this.destroyed) {
+          return;
+        }
+        this.responses[item.id] = data;
+        const res = this.handleData(item.id, item.dataHandler, data, undefined);
+        this.updateDataSourceMap(item.id, res, undefined);
+        if (item.isInit === true) {
+          this.updateHostState({ [item.id]: res });
+        }
+        this.reloadDependents(item.id);
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * parse dataSourceItem and merge params / options passed to load into its options
+   * @private
+   * @param {string} id id of dataSourceItem
+   * @param {any} [params] params passed to load, will not be merged when params is an array
+   * @param {any} [otherOptions] headers and other request options passed to load
+   * @memberof DataHelper
+   */
+  getRequest(id: string, params?: any, otherOptions?: any) {
     const req = this.parser(this.ajaxMap[id]);
+    if (!req || (params === undefined && otherOptions === undefined)) {
+      return req;
+    }
     const options = req.options || {};
+    const { headers, ...otherProps } = otherOptions || {};
+    return {
+      ...req,
+      options: {
+        ...options,
+        // 支持参数为array的情况，当参数为array时，不做参数合并
+        params:
+          Array.isArray(options.params) || Array.isArray(params)
+            ? params || options.params
+            : {
+              ...options.params,
+              ...params,
+            },
+        headers: {
+          ...options.headers,
+          ...headers,
+        },
+        ...otherProps,
+      },
+    };
+  }
+
+  getDataSource(id: string, params: any, otherOptions: any, callback: any) {
     let callbackFn = callback;
     let otherOptionsObj = otherOptions;
     if (typeof otherOptions === 'function') {
       callbackFn = otherOptions;
       otherOptionsObj = {};
     }
-    const { headers, ...otherProps } = otherOptionsObj || {};
+    const req = this.getRequest(id, params, otherOptionsObj || {});
     if (!req) {
       console.warn(`getDataSource API named ${id} not exist`);
       return;
     }
+    this.loadArgs[id] = [params, otherOptionsObj || {}];
 
-    return this.asyncDataHandler([
-      {
-        ...req,
-        options: {
-          ...options,
-          // 支持参数为array的情况，当参数为array时，不做参数合并
-          params:
-            Array.isArray(options.params) || Array.isArray(params)
-              ? params || options.params
-              : {
-                ...options.params,
-                ...params,
-              },
-          headers: {
-            ...options.headers,
-            ...headers,
-          },
-          ...otherProps,
-        },
-      },
-    ])
+    return this.asyncDataHandler([req])
     .then((res: any) => {
+      this.reloadDependents(id);
       try {
         callbackFn && callbackFn(res && res[id]);
       } catch (e) {
@@ -229,7 +645,7 @@ export class DataHelper {
     });
   }
 
-  asyncDataHandler(asyncDataList: any[]) {
+  asyncDataHandler(asyncDataList: any[], force = false) {
     return new Promise((resolve, reject) => {
       const allReq: any[] = [];
       asyncDataList.forEach((req) => {
@@ -248,17 +664,33 @@ export class DataHelper {
       Promise.all(
         allReq.map((item: any) => {
           return new Promise((innerResolve) => {
-            const { type, id, dataHandler, options } = item;
+            const { type, id, dataHandler, options, mock } = item;
 
             const fetchHandler = (data: any, error: any) => {
+              // 容器卸载后不再处理请求结果
+              if (this.destroyed) {
+                innerResolve({});
+                return;
+              }
               res[id] = this.handleData(id, dataHandler, data, error);
               this.updateDataSourceMap(id, res[id], error);
               innerResolve({});
             };
 
             const doFetch = (innerType: string, innerOptions: any) => {
-              doRequest(innerType as any, innerOptions)
+              if (this.mock && mock !== undefined) {
+                getMockResponse(mock, innerOptions, this.host)
+                  .then((data: any) => {
+                    fetchHandler(data, undefined);
+                  })
+                  .catch((err: Error) => {
+                    fetchHandler(undefined, err);
+                  });
+                return;
+              }
+              this.request({ ...item, type: innerType }, innerOptions, force)
                 ?.then((data: any) => {
+                  this.responses[id] = data;
                   fetchHandler(data, undefined);
                 })
                 .catch((err: Error) => {
@@ -266,7 +698,7 @@ export class DataHelper {
                 });
             };
 
-            this.dataSourceMap[id].status = DS_STATUS.LOADING;
+            this.setStatus(id, DS_STATUS.LOADING);
             doFetch(type, options);
           });
         }),
@@ -291,7 +723,7 @@ export class DataHelper {
   handleData(id: string | null, dataHandler: any, data: any, error: any) {
     let dataHandlerFun = dataHandler;
     if (isJSFunction(dataHandler)) {
-      dataHandlerFun = transformStringToFunction(dataHandler.value);
+      dataHandlerFun = transformStringToFunction(dataHandler.value, this.host?.__expressionEvaluator);
     }
     if (!dataHandlerFun || typeof dataHandlerFun !== 'function') {
       return data;
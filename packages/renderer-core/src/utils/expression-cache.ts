@@ -0,0 +1,57 @@
+import { IPublicTypeExpressionEvaluator } from '@alilc/lowcode-types';
+
+type CompiledExpression = (self: any) => any;
+
+/**
+ * 表达式编译缓存，以表达式源码为 key 缓存求值器编译后的函数，
+ * 绑定的 schema 或求值器变化时清空缓存
+ */
+export class ExpressionCache {
+  private compiled = new Map<string, CompiledExpression>();
+
+  private schema: any;
+
+  private evaluator?: IPublicTypeExpressionEvaluator;
+
+  get size() {
+    return this.compiled.size;
+  }
+
+  /**
+   * 绑定 schema，与上一次绑定的 schema 不同时清空缓存
+   * @param schema
+   */
+  bind(schema: any) {
+    if (schema !== this.schema) {
+      this.clear();
+      this.schema = schema;
+    }
+  }
+
+  /**
+   * 获取编译后的表达式，求值器不支持编译时返回 undefined
+   * @param evaluator 求值器
+   * @param code 表达式源码
+   * @param thisRequired 是否只支持使用 this 访问上下文变量
+   */
+  get(evaluator: IPublicTypeExpressionEvaluator, code: string, thisRequired?: boolean): CompiledExpression | undefined {
+    if (!evaluator.compile) {
+      return undefined;
+    }
+    if (evaluator !== this.evaluator) {
+      this.compiled.clear();
+      this.evaluator = evaluator;
+    }
+    const key = `${thisRequired ? 1 : 0}:${code}`;
+    let fn = this.compiled.get(key);
+    if (!fn) {
+      fn = evaluator.compile(code, thisRequired);
+      this.compiled.set(key, fn);
+    }
+    return fn;
+  }
+
+  clear() {
+    this.compiled.clear();
+  }
+}
@@ -1,3 +1,8 @@
 export * from './common';
 export * from './data-helper';
+export * from './request-store';
 export * from './request';
+export * from './ssr';
+export * from './interpreter';
+export * from './expression-cache';
+export * from './profiler';
@@ -0,0 +1,1960 @@
+/* eslint-disable no-param-reassign */
+/* eslint-disable no-use-before-define */
+import { IPublicTypeExpressionEvaluator } from '@alilc/lowcode-types';
+
+/**
+ * 表达式解释器
+ *
+ * 不使用 new Function / eval 对 JSExpression / JSFunction 求值，可在开启严格 Content-Security-Policy 的环境中使用，
+ * 表达式只能访问 this（self）、局部变量及白名单中的全局变量，不能访问 window。
+ *
+ * 支持协议中使用的 JS 子集：字面量、模板字符串、正则、对象与数组（含展开）、可选链、函数与箭头函数（含解构参数）、
+ * 运算符、var / let / const、if、for / for...in / for...of、while、switch、try、throw 等；
+ * 不支持 async / await、generator、class、getter / setter、标签语句及带标签的模板字符串
+ */
+
+/**
+ * 解释器默认可访问的全局变量
+ */
+export const INTERPRETER_GLOBALS: Record<string, any> = {
+  undefined,
+  NaN,
+  Infinity,
+  Math,
+  JSON,
+  Date,
+  Number,
+  String,
+  Boolean,
+  Array,
+  Object,
+  RegExp,
+  Error,
+  TypeError,
+  Promise,
+  Map,
+  Set,
+  parseInt,
+  parseFloat,
+  isNaN,
+  isFinite,
+  encodeURI,
+  encodeURIComponent,
+  decodeURI,
+  decodeURIComponent,
+  console,
+  // 定时器只接受函数，传入字符串等同于 eval
+  setTimeout: (handler: any, timeout?: number, ...args: any[]) => setTimeout(checkTimerHandler(handler), timeout, ...args),
+  clearTimeout,
+  setInterval: (handler: any, timeout?: number, ...args: any[]) => setInterval(checkTimerHandler(handler), timeout, ...args),
+  clearInterval,
+};
+
+/**
+ * 可以构造函数的对象，通过它们可以绕过白名单执行任意代码，禁止在表达式中访问
+ */
+const FUNCTION_CONSTRUCTORS = new Set<any>([
+  Function,
+  Object.getPrototypeOf(async () => undefined).constructor,
+  Object.getPrototypeOf(function* () { yield undefined; }).constructor,
+]);
+
+/**
+ * 禁止访问的属性，避免修改原型
+ */
+const FORBIDDEN_KEYS = new Set<any>(['__proto__', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+const KEYWORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export',
+  'extends', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'return', 'super',
+  'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'null', 'true', 'false',
+]);
+
+/**
+ * 其后可以出现正则字面量的关键字
+ */
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else',
+]);
+
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=',
+  '**', '<<', '>>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '!', '~', '?', ':', '=', '.',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '|': 4,
+  '^': 5,
+  '&': 6,
+  '==': 7,
+  '!=': 7,
+  '===': 7,
+  '!==': 7,
+  '<': 8,
+  '>': 8,
+  '<=': 8,
+  '>=': 8,
+  instanceof: 8,
+  in: 8,
+  '<<': 9,
+  '>>': 9,
+  '>>>': 9,
+  '+': 10,
+  '-': 10,
+  '*': 11,
+  '/': 11,
+  '%': 11,
+  '**': 12,
+};
+
+const ASSIGN_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '>>=', '>>>=', '&=', '|=', '^=', '&&=', '||=', '??=']);
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  0: '\0',
+};
+
+interface IToken {
+  type: 'num' | 'str' | 'name' | 'punc' | 'template' | 'regex' | 'eof';
+  value: any;
+  start: number;
+
+  /** 与前一个 token 之间是否有换行，用于自动插入分号 */
+  nl: boolean;
+  quasis?: string[];
+  expressions?: IToken[][];
+  flags?: string;
+}
+
+type Node = Record<string, any> & { type: string };
+
+function isIdentifierStart(ch: string) {
+  return /[A-Za-z_$\u0080-\uffff]/.test(ch);
+}
+
+function isIdentifierPart(ch: string) {
+  return /[A-Za-z0-9_$\u0080-\uffff]/.test(ch);
+}
+
+function syntaxError(message: string, pos: number): never {
+  throw new SyntaxError(`${message} (${pos})`);
+}
+
+class Lexer {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  tokenize(untilBrace = false): IToken[] {
+    const { src } = this;
+    const tokens: IToken[] = [];
+    let depth = 0;
+    for (;;) {
+      const nl = this.skipSpace();
+      const start = this.pos;
+      if (this.pos >= src.length) {
+        if (untilBrace) {
+          syntaxError('Unterminated template', start);
+        }
+        tokens.push({ type: 'eof', value: null, start, nl: true });
+        return tokens;
+      }
+      const ch = src[this.pos];
+      const prev = tokens[tokens.length - 1];
+      if (ch === '}' && untilBrace && depth === 0) {
+        this.pos++;
+        tokens.push({ type: 'eof', value: null, start, nl: true });
+        return tokens;
+      }
+      if (isIdentifierStart(ch)) {
+        while (this.pos < src.length && isIdentifierPart(src[this.pos])) {
+          this.pos++;
+        }
+        tokens.push({ type: 'name', value: src.slice(start, this.pos), start, nl });
+      } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(src[this.pos + 1]))) {
+        tokens.push({ type: 'num', value: this.readNumber(), start, nl });
+      } else if (ch === '"' || ch === '\'') {
+        tokens.push({ type: 'str', value: this.readString(ch), start, nl });
+      } else if (ch === '`') {
+        tokens.push({ type: 'template', value: null, start, nl, ...this.readTemplate() });
+      } else if (ch === '/' && this.regexAllowed(prev)) {
+        tokens.push({ type: 'regex', start, nl, ...this.readRegex() });
+      } else {
+        const punc = PUNCTUATORS.find((item) => src.startsWith(item, this.pos));
+        // a?.5:0 中的 ?. 不是可选链
+        if (!punc || (punc === '?.' && /[0-9]/.test(src[this.pos + 2]))) {
+          if (ch !== '?') {
+            syntaxError(`Unexpected character '${ch}'`, start);
+          }
+          this.pos++;
+          tokens.push({ type: 'punc', value: '?', start, nl });
+          continue;
+        }
+        if (punc === '{') {
+          depth++;
+        } else if (punc === '}') {
+          depth--;
+        }
+        this.pos += punc.length;
+        tokens.push({ type: 'punc', value: punc, start, nl });
+      }
+    }
+  }
+
+  /**
+   * 跳过空白及注释，返回是否包含换行
+   */
+  private skipSpace(): boolean {
+    const { src } = this;
+    let nl = false;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === '\n' || ch === '\r' || ch === '\u2028' || ch === '\u2029') {
+        nl = true;
+        this.pos++;
+      } else if (/\s/.test(ch)) {
+        this.pos++;
+      } else if (src.startsWith('//', this.pos)) {
+        while (this.pos < src.length && src[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else if (src.startsWith('/*', this.pos)) {
+        const end = src.indexOf('*/', this.pos + 2);
+        if (end < 0) {
+          syntaxError('Unterminated comment', this.pos);
+        }
+        if (/[\n\r]/.test(src.slice(this.pos, end))) {
+          nl = true;
+        }
+        this.pos = end + 2;
+      } else {
+        break;
+      }
+    }
+    return nl;
+  }
+
+  private regexAllowed(prev?: IToken) {
+    if (!prev) {
+      return true;
+    }
+    if (prev.type === 'name') {
+      return KEYWORDS_BEFORE_EXPRESSION.has(prev.value);
+    }
+    if (prev.type === 'punc') {
+      return [')', ']', '}', '++', '--'].indexOf(prev.value) < 0;
+    }
+    return false;
+  }
+
+  private readNumber(): number {
+    const re = /0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:[0-9][0-9_]*\.?[0-9_]*|\.[0-9][0-9_]*)(?:[eE][+-]?[0-9_]+)?/y;
+    re.lastIndex = this.pos;
+    const match = re.exec(this.src)!;
+    this.pos += match[0].length;
+    if (this.pos < this.src.length && isIdentifierPart(this.src[this.pos])) {
+      syntaxError('Invalid or unexpected token', this.pos);
+    }
+    return Number(match[0].replace(/_/g, ''));
+  }
+
+  private readEscape(): string {
+    const { src } = this;
+    const ch = src[this.pos++];
+    if (ch === 'x') {
+      const code = src.substr(this.pos, 2);
+      this.pos += 2;
+      return String.fromCharCode(parseInt(code, 16));
+    }
+    if (ch === 'u') {
+      let code: string;
+      if (src[this.pos] === '{') {
+        const end = src.indexOf('}', this.pos);
+        code = src.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else {
+        code = src.substr(this.pos, 4);
+        this.pos += 4;
+      }
+      return String.fromCodePoint(parseInt(code, 16));
+    }
+    if (ch === '\r' && src[this.pos] === '\n') {
+      this.pos++;
+      return '';
+    }
+    if (ch === '\n' || ch === '\r' || ch === '\u2028' || ch === '\u2029') {
+      return '';
+    }
+    return Object.prototype.hasOwnProperty.call(ESCAPES, ch) ? ESCAPES[ch] : ch;
+  }
+
+  private readString(quote: string): string {
+    const { src } = this;
+    const start = this.pos;
+    let value = '';
+    this.pos++;
+    for (;;) {
+      if (this.pos >= src.length || src[this.pos] === '\n') {
+        syntaxError('Unterminated string', start);
+      }
+      const ch = src[this.pos++];
+      if (ch === quote) {
+        return value;
+      }
+      value += ch === '\\' ? this.readEscape() : ch;
+    }
+  }
+
+  private readTemplate(): { quasis: string[]; expressions: IToken[][] } {
+    const { src } = this;
+    const start = this.pos;
+    const quasis: string[] = [];
+    const expressions: IToken[][] = [];
+    let value = '';
+    this.pos++;
+    for (;;) {
+      if (this.pos >= src.length) {
+        syntaxError('Unterminated template', start);
+      }
+      const ch = src[this.pos++];
+      if (ch === '`') {
+        quasis.push(value);
+        return { quasis, expressions };
+      }
+      if (ch === '$' && src[this.pos] === '{') {
+        this.pos++;
+        quasis.push(value);
+        value = '';
+        expressions.push(this.tokenize(true));
+      } else if (ch === '\\') {
+        value += this.readEscape();
+      } else if (ch === '\r') {
+        // 模板字符串中的换行统一为 \n
+        if (src[this.pos] === '\n') {
+          this.pos++;
+        }
+        value += '\n';
+      } else {
+        value += ch;
+      }
+    }
+  }
+
+  private readRegex(): { value: string; flags: string } {
+    const { src } = this;
+    const start = this.pos;
+    let inClass = false;
+    this.pos++;
+    for (;;) {
+      if (this.pos >= src.length || src[this.pos] === '\n') {
+        syntaxError('Invalid regular expression: missing /', start);
+      }
+      const ch = src[this.pos++];
+      if (ch === '\\') {
+        this.pos++;
+      } else if (ch === '[') {
+        inClass = true;
+      } else if (ch === ']') {
+        inClass = false;
+      } else if (ch === '/' && !inClass) {
+        break;
+      }
+    }
+    const value = src.slice(start + 1, this.pos - 1);
+    const flagsStart = this.pos;
+    while (this.pos < src.length && isIdentifierPart(src[this.pos])) {
+      this.pos++;
+    }
+    return { value, flags: src.slice(flagsStart, this.pos) };
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  /** 是否禁止 in 运算符，用于 for 语句的初始化部分 */
+  private noIn = false;
+
+  constructor(private readonly tokens: IToken[]) {}
+
+  /**
+   * 解析单个表达式，允许以分号结尾
+   */
+  parseStandalone(): Node {
+    const expression = this.parseExpression();
+    this.eat(';');
+    if (this.peek().type !== 'eof') {
+      this.unexpected();
+    }
+    return expression;
+  }
+
+  private peek(offset = 0): IToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): IToken {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.type === 'punc' || token.type === 'name') && token.value === value;
+  }
+
+  private eat(value: string): boolean {
+    if (this.is(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string) {
+    if (!this.eat(value)) {
+      this.unexpected();
+    }
+  }
+
+  private unexpected(token = this.peek()): never {
+    return syntaxError(token.type === 'eof' ? 'Unexpected end of input' : `Unexpected token '${token.value}'`, token.start);
+  }
+
+  private unsupported(feature: string): never {
+    return syntaxError(`${feature} is not supported`, this.peek().start);
+  }
+
+  private parseIdentifierName(): string {
+    const token = this.next();
+    if (token.type !== 'name') {
+      this.unexpected(token);
+    }
+    return token.value;
+  }
+
+  private parseIdentifier(): Node {
+    const token = this.peek();
+    if (token.type !== 'name' || KEYWORDS.has(token.value)) {
+      this.unexpected();
+    }
+    this.index++;
+    return { type: 'Identifier', name: token.value };
+  }
+
+  private consumeSemicolon() {
+    if (this.eat(';') || this.is('}') || this.peek().type === 'eof' || this.peek().nl) {
+      return;
+    }
+    this.unexpected();
+  }
+
+  private parseExpression(): Node {
+    const expression = this.parseAssign();
+    if (!this.is(',')) {
+      return expression;
+    }
+    const expressions = [expression];
+    while (this.eat(',')) {
+      expressions.push(this.parseAssign());
+    }
+    return { type: 'Sequence', expressions };
+  }
+
+  private isArrowAhead(offset = 0): boolean {
+    const token = this.peek(offset);
+    if (token.type === 'name' && !KEYWORDS.has(token.value)) {
+      return this.is('=>', offset + 1);
+    }
+    if (!this.is('(', offset)) {
+      return false;
+    }
+    let depth = 0;
+    for (let i = this.index + offset; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'punc' && (token.value === '(' || token.value === ')')) {
+        depth += token.value === '(' ? 1 : -1;
+        if (depth === 0) {
+          const after = this.tokens[i + 1];
+          return !!after && after.type === 'punc' && after.value === '=>';
+        }
+      }
+    }
+    return false;
+  }
+
+  private parseAssign(): Node {
+    if (this.is('async') && !this.peek(1).nl
+      && (this.is('function', 1) || this.is('=>', 2) || this.isArrowAhead(1))) {
+      this.unsupported('Async function');
+    }
+    if (this.is('yield') || this.is('await')) {
+      this.unsupported(`'${this.peek().value}'`);
+    }
+    if (this.isArrowAhead()) {
+      return this.parseArrow();
+    }
+    const start = this.peek();
+    const left = this.parseConditional();
+    const token = this.peek();
+    if (token.type === 'punc' && ASSIGN_OPERATORS.has(token.value)) {
+      if (left.type !== 'Identifier' && left.type !== 'Member') {
+        syntaxError('Invalid assignment target', start.start);
+      }
+      this.index++;
+      return { type: 'Assign', operator: token.value, left, right: this.parseAssign() };
+    }
+    return left;
+  }
+
+  private parseArrow(): Node {
+    let params: Node[];
+    if (this.is('(')) {
+      params = this.parseParams();
+    } else {
+      params = [this.parseIdentifier()];
+    }
+    this.expect('=>');
+    if (this.is('{')) {
+      return { type: 'Function', arrow: true, params, body: this.parseFunctionBody() };
+    }
+    const { noIn } = this;
+    this.noIn = false;
+    const body = this.parseAssign();
+    this.noIn = noIn;
+    return { type: 'Function', arrow: true, params, body, expression: true };
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(1);
+    if (!this.eat('?')) {
+      return test;
+    }
+    const { noIn } = this;
+    this.noIn = false;
+    const consequent = this.parseAssign();
+    this.noIn = noIn;
+    this.expect(':');
+    return { type: 'Conditional', test, consequent, alternate: this.parseAssign() };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const operator = token.value;
+      if ((token.type !== 'punc' && token.type !== 'name') || !Object.prototype.hasOwnProperty.call(BINARY_PRECEDENCE, operator)) {
+        return left;
+      }
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence < minPrecedence || (operator === 'in' && this.noIn)) {
+        return left;
+      }
+      this.index++;
+      // ** 为右结合
+      const right = this.parseBinary(operator === '**' ? precedence : precedence + 1);
+      const type = operator === '&&' || operator === '||' || operator === '??' ? 'Logical' : 'Binary';
+      left = { type, operator, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if ((token.type === 'punc' && ['!', '~', '+', '-'].indexOf(token.value) > -1)
+      || (token.type === 'name' && ['typeof', 'void', 'delete'].indexOf(token.value) > -1)) {
+      this.index++;
+      return { type: 'Unary', operator: token.value, argument: this.parseUnary() };
+    }
+    if (token.type === 'punc' && (token.value === '++' || token.value === '--')) {
+      this.index++;
+      return { type: 'Update', operator: token.value, prefix: true, argument: this.parseUpdateTarget() };
+    }
+    if (this.is('await')) {
+      this.unsupported('\'await\'');
+    }
+    const expression = this.parseCallMember();
+    const after = this.peek();
+    if (after.type === 'punc' && (after.value === '++' || after.value === '--') && !after.nl) {
+      if (expression.type !== 'Identifier' && expression.type !== 'Member') {
+        this.unexpected(after);
+      }
+      this.index++;
+      return { type: 'Update', operator: after.value, prefix: false, argument: expression };
+    }
+    return expression;
+  }
+
+  private parseUpdateTarget(): Node {
+    const start = this.peek();
+    const argument = this.parseUnary();
+    if (argument.type !== 'Identifier' && argument.type !== 'Member') {
+      syntaxError('Invalid left-hand side expression in prefix operation', start.start);
+    }
+    return argument;
+  }
+
+  private parseCallMember(): Node {
+    let expression: Node;
+    let chain = false;
+    if (this.is('new')) {
+      expression = this.parseNew();
+    } else {
+      expression = this.parsePrimary();
+    }
+    for (;;) {
+      if (this.eat('.')) {
+        expression = { type: 'Member', object: expression, property: this.parseIdentifierName() };
+      } else if (this.eat('?.')) {
+        chain = true;
+        if (this.eat('(')) {
+          expression = { type: 'Call', callee: expression, arguments: this.parseArguments(), optional: true };
+        } else if (this.eat('[')) {
+          expression = { type: 'Member', object: expression, property: this.parseExpression(), computed: true, optional: true };
+          this.expect(']');
+        } else {
+          expression = { type: 'Member', object: expression, property: this.parseIdentifierName(), optional: true };
+        }
+      } else if (this.eat('[')) {
+        const { noIn } = this;
+        this.noIn = false;
+        expression = { type: 'Member', object: expression, property: this.parseExpression(), computed: true };
+        this.noIn = noIn;
+        this.expect(']');
+      } else if (this.eat('(')) {
+        expression = { type: 'Call', callee: expression, arguments: this.parseArguments() };
+      } else if (this.peek().type === 'template') {
+        this.unsupported('Tagged template');
+      } else {
+        break;
+      }
+    }
+    return chain ? { type: 'Chain', expression } : expression;
+  }
+
+  private parseNew(): Node {
+    this.expect('new');
+    let callee = this.is('new') ? this.parseNew() : this.parsePrimary();
+    for (;;) {
+      if (this.eat('.')) {
+        callee = { type: 'Member', object: callee, property: this.parseIdentifierName() };
+      } else if (this.eat('[')) {
+        callee = { type: 'Member', object: callee, property: this.parseExpression(), computed: true };
+        this.expect(']');
+      } else {
+        break;
+      }
+    }
+    return { type: 'New', callee, arguments: this.eat('(') ? this.parseArguments() : [] };
+  }
+
+  /**
+   * 解析参数列表，左括号已经被消费
+   */
+  private parseArguments(): Node[] {
+    const { noIn } = this;
+    this.noIn = false;
+    const args: Node[] = [];
+    while (!this.eat(')')) {
+      if (this.eat('...')) {
+        args.push({ type: 'Spread', argument: this.parseAssign() });
+      } else {
+        args.push(this.parseAssign());
+      }
+      if (!this.is(')')) {
+        this.expect(',');
+      }
+    }
+    this.noIn = noIn;
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+    switch (token.type) {
+      case 'num':
+      case 'str':
+        this.index++;
+        return { type: 'Literal', value: token.value };
+      case 'template':
+        this.index++;
+        return {
+          type: 'Template',
+          quasis: token.quasis,
+          expressions: token.expressions!.map((tokens) => new Parser(tokens).parseStandalone()),
+        };
+      case 'regex':
+        this.index++;
+        // 提前校验正则
+        try {
+          RegExp(token.value, token.flags);
+        } catch (e) {
+          syntaxError((e as Error).message, token.start);
+        }
+        return { type: 'RegExp', pattern: token.value, flags: token.flags };
+      case 'punc':
+        if (token.value === '(') {
+          this.index++;
+          const { noIn } = this;
+          this.noIn = false;
+          const expression = this.parseExpression();
+          this.noIn = noIn;
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return this.parseArray();
+        }
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+        return this.unexpected();
+      case 'name':
+        switch (token.value) {
+          case 'this':
+            this.index++;
+            return { type: 'This' };
+          case 'null':
+            this.index++;
+            return { type: 'Literal', value: null };
+          case 'true':
+          case 'false':
+            this.index++;
+            return { type: 'Literal', value: token.value === 'true' };
+          case 'function':
+            return this.parseFunction(false);
+          case 'class':
+            return this.unsupported('Class');
+          case 'super':
+          case 'import':
+            return this.unsupported(`'${token.value}'`);
+          default:
+            return this.parseIdentifier();
+        }
+      default:
+        return this.unexpected();
+    }
+  }
+
+  private parseArray(): Node {
+    this.expect('[');
+    const elements: Array<Node | null> = [];
+    while (!this.eat(']')) {
+      if (this.is(',')) {
+        this.index++;
+        elements.push(null);
+        continue;
+      }
+      if (this.eat('...')) {
+        elements.push({ type: 'Spread', argument: this.parseAssign() });
+      } else {
+        elements.push(this.parseAssign());
+      }
+      if (!this.is(']')) {
+        this.expect(',');
+      }
+    }
+    return { type: 'Array', elements };
+  }
+
+  private parsePropertyKey(): { key: any; computed: boolean } {
+    if (this.eat('[')) {
+      const key = this.parseAssign();
+      this.expect(']');
+      return { key, computed: true };
+    }
+    const token = this.next();
+    if (token.type === 'name' || token.type === 'str') {
+      return { key: token.value, computed: false };
+    }
+    if (token.type === 'num') {
+      return { key: String(token.value), computed: false };
+    }
+    return this.unexpected(token);
+  }
+
+  private parseObject(): Node {
+    this.expect('{');
+    const { noIn } = this;
+    this.noIn = false;
+    const properties: Node[] = [];
+    while (!this.eat('}')) {
+      if (this.eat('...')) {
+        properties.push({ type: 'Spread', argument: this.parseAssign() });
+      } else {
+        const token = this.peek();
+        if (token.type === 'name' && ['get', 'set', 'async'].indexOf(token.value) > -1
+          && !this.is(':', 1) && !this.is('(', 1) && !this.is(',', 1) && !this.is('}', 1)) {
+          this.unsupported(token.value === 'async' ? 'Async method' : 'Getter and setter');
+        }
+        if (this.is('*')) {
+          this.unsupported('Generator');
+        }
+        const { key, computed } = this.parsePropertyKey();
+        if (this.is('(')) {
+          const value = this.parseFunctionRest(computed ? undefined : key);
+          properties.push({ type: 'Property', key, computed, value });
+        } else if (this.eat(':')) {
+          properties.push({ type: 'Property', key, computed, value: this.parseAssign() });
+        } else {
+          if (computed || token.type !== 'name' || KEYWORDS.has(key)) {
+            this.unexpected();
+          }
+          properties.push({ type: 'Property', key, computed, value: { type: 'Identifier', name: key } });
+        }
+      }
+      if (!this.is('}')) {
+        this.expect(',');
+      }
+    }
+    this.noIn = noIn;
+    return { type: 'Object', properties };
+  }
+
+  private parseFunction(declaration: boolean): Node {
+    this.expect('function');
+    if (this.is('*')) {
+      this.unsupported('Generator');
+    }
+    const name = declaration || this.peek().type === 'name' ? this.parseIdentifier().name : undefined;
+    const fn = this.parseFunctionRest(name);
+    return declaration ? { ...fn, type: 'FunctionDeclaration' } : fn;
+  }
+
+  private parseFunctionRest(name?: string): Node {
+    const params = this.parseParams();
+    return { type: 'Function', name, params, body: this.parseFunctionBody() };
+  }
+
+  private parseParams(): Node[] {
+    this.expect('(');
+    const params: Node[] = [];
+    while (!this.eat(')')) {
+      if (this.eat('...')) {
+        params.push({ type: 'Rest', argument: this.parseBindingTarget() });
+        this.expect(')');
+        break;
+      }
+      params.push(this.parseBindingElement());
+      if (!this.is(')')) {
+        this.expect(',');
+      }
+    }
+    return params;
+  }
+
+  private parseFunctionBody(): Node[] {
+    const { noIn } = this;
+    this.noIn = false;
+    this.expect('{');
+    const body: Node[] = [];
+    while (!this.eat('}')) {
+      body.push(this.parseStatement());
+    }
+    this.noIn = noIn;
+    return body;
+  }
+
+  private parseBindingTarget(): Node {
+    if (this.eat('[')) {
+      const elements: Array<Node | null> = [];
+      let rest: Node | undefined;
+      while (!this.eat(']')) {
+        if (this.is(',')) {
+          this.index++;
+          elements.push(null);
+          continue;
+        }
+        if (this.eat('...')) {
+          rest = this.parseBindingTarget();
+          this.expect(']');
+          break;
+        }
+        elements.push(this.parseBindingElement());
+        if (!this.is(']')) {
+          this.expect(',');
+        }
+      }
+      return { type: 'ArrayPattern', elements, rest };
+    }
+    if (this.eat('{')) {
+      const properties: Node[] = [];
+      let rest: Node | undefined;
+      while (!this.eat('}')) {
+        if (this.eat('...')) {
+          rest = this.parseIdentifier();
+          this.expect('}');
+          break;
+        }
+        const token = this.peek();
+        const { key, computed } = this.parsePropertyKey();
+        let value: Node;
+        if (this.eat(':')) {
+          value = this.parseBindingElement();
+        } else {
+          if (computed || token.type !== 'name' || KEYWORDS.has(key)) {
+            this.unexpected(token);
+          }
+          value = { type: 'Identifier', name: key };
+          if (this.eat('=')) {
+            value = { type: 'AssignPattern', left: value, right: this.parseAssign() };
+          }
+        }
+        properties.push({ type: 'PatternProperty', key, computed, value });
+        if (!this.is('}')) {
+          this.expect(',');
+        }
+      }
+      return { type: 'ObjectPattern', properties, rest };
+    }
+    return this.parseIdentifier();
+  }
+
+  private parseBindingElement(): Node {
+    const target = this.parseBindingTarget();
+    if (this.eat('=')) {
+      return { type: 'AssignPattern', left: target, right: this.parseAssign() };
+    }
+    return target;
+  }
+
+  private parseStatement(): Node {
+    const token = this.peek();
+    if (token.type === 'punc') {
+      if (token.value === '{') {
+        return { type: 'Block', body: this.parseFunctionBody() };
+      }
+      if (token.value === ';') {
+        this.index++;
+        return { type: 'Empty' };
+      }
+    }
+    if (token.type === 'name' && !this.is(':', 1)) {
+      switch (token.value) {
+        case 'var':
+        case 'let':
+        case 'const': {
+          const declaration = this.parseVariableDeclaration();
+          this.consumeSemicolon();
+          return declaration;
+        }
+        case 'function':
+          return this.parseFunction(true);
+        case 'if': {
+          this.index++;
+          this.expect('(');
+          const test = this.parseExpression();
+          this.expect(')');
+          const consequent = this.parseStatement();
+          const alternate = this.eat('else') ? this.parseStatement() : undefined;
+          return { type: 'If', test, consequent, alternate };
+        }
+        case 'for':
+          return this.parseFor();
+        case 'while': {
+          this.index++;
+          this.expect('(');
+          const test = this.parseExpression();
+          this.expect(')');
+          return { type: 'While', test, body: this.parseStatement() };
+        }
+        case 'do': {
+          this.index++;
+          const body = this.parseStatement();
+          this.expect('while');
+          this.expect('(');
+          const test = this.parseExpression();
+          this.expect(')');
+          this.eat(';');
+          return { type: 'DoWhile', test, body };
+        }
+        case 'return': {
+          this.index++;
+          const next = this.peek();
+          const argument = this.is(';') || this.is('}') || next.type === 'eof' || next.nl ? undefined : this.parseExpression();
+          this.consumeSemicolon();
+          return { type: 'Return', argument };
+        }
+        case 'break':
+        case 'continue': {
+          this.index++;
+          if (this.peek().type === 'name' && !this.peek().nl) {
+            this.unsupported('Label');
+          }
+          this.consumeSemicolon();
+          return { type: token.value === 'break' ? 'Break' : 'Continue' };
+        }
+        case 'throw': {
+          this.index++;
+          const argument = this.parseExpression();
+          this.consumeSemicolon();
+          return { type: 'Throw', argument };
+        }
+        case 'try':
+          return this.parseTry();
+        case 'switch':
+          return this.parseSwitch();
+        case 'class':
+          return this.unsupported('Class');
+        case 'with':
+        case 'import':
+        case 'export':
+        case 'debugger':
+          return this.unsupported(`'${token.value}'`);
+        default:
+          break;
+      }
+    }
+    if (token.type === 'name' && this.is(':', 1)) {
+      this.unsupported('Label');
+    }
+    const expression = this.parseExpression();
+    this.consumeSemicolon();
+    return { type: 'Expression', expression };
+  }
+
+  private parseVariableDeclaration(): Node {
+    const kind = this.next().value;
+    const declarations: Node[] = [];
+    do {
+      const id = this.parseBindingTarget();
+      const init = this.eat('=') ? this.parseAssign() : undefined;
+      if (kind === 'const' && !init && !this.is('in') && !this.is('of')) {
+        syntaxError('Missing initializer in const declaration', this.peek().start);
+      }
+      declarations.push({ type: 'Declarator', id, init });
+    } while (this.eat(','));
+    return { type: 'Variable', kind, declarations };
+  }
+
+  private parseFor(): Node {
+    this.expect('for');
+    if (this.is('await')) {
+      this.unsupported('\'for await\'');
+    }
+    this.expect('(');
+    let init: Node | undefined;
+    this.noIn = true;
+    if (this.is('var') || this.is('let') || this.is('const')) {
+      init = this.parseVariableDeclaration();
+    } else if (!this.is(';')) {
+      init = this.parseExpression();
+    }
+    this.noIn = false;
+    if (init && (this.is('in') || this.is('of'))) {
+      const type = this.next().value === 'in' ? 'ForIn' : 'ForOf';
+      if (init.type === 'Variable' ? init.declarations.length !== 1 || init.declarations[0].init
+        : init.type !== 'Identifier' && init.type !== 'Member') {
+        syntaxError(`Invalid left-hand side in ${type === 'ForIn' ? 'for-in' : 'for-of'} loop`, this.peek().start);
+      }
+      const right = type === 'ForIn' ? this.parseExpression() : this.parseAssign();
+      this.expect(')');
+      return { type, left: init, right, body: this.parseStatement() };
+    }
+    this.expect(';');
+    const test = this.is(';') ? undefined : this.parseExpression();
+    this.expect(';');
+    const update = this.is(')') ? undefined : this.parseExpression();
+    this.expect(')');
+    return { type: 'For', init, test, update, body: this.parseStatement() };
+  }
+
+  private parseTry(): Node {
+    this.expect('try');
+    const block = this.parseFunctionBody();
+    let param: Node | undefined;
+    let handler: Node[] | undefined;
+    let finalizer: Node[] | undefined;
+    if (this.eat('catch')) {
+      if (this.eat('(')) {
+        param = this.parseBindingTarget();
+        this.expect(')');
+      }
+      handler = this.parseFunctionBody();
+    }
+    if (this.eat('finally')) {
+      finalizer = this.parseFunctionBody();
+    }
+    if (!handler && !finalizer) {
+      this.unexpected();
+    }
+    return { type: 'Try', block, param, handler, finalizer };
+  }
+
+  private parseSwitch(): Node {
+    this.expect('switch');
+    this.expect('(');
+    const discriminant = this.parseExpression();
+    this.expect(')');
+    this.expect('{');
+    const cases: Node[] = [];
+    while (!this.eat('}')) {
+      let test: Node | undefined;
+      if (this.eat('case')) {
+        test = this.parseExpression();
+      } else {
+        this.expect('default');
+      }
+      this.expect(':');
+      const consequent: Node[] = [];
+      while (!this.is('case') && !this.is('default') && !this.is('}')) {
+        consequent.push(this.parseStatement());
+      }
+      cases.push({ type: 'Case', test, consequent });
+    }
+    return { type: 'Switch', discriminant, cases };
+  }
+}
+
+/**
+ * 解析表达式，返回语法树
+ * @param code 表达式
+ */
+export function parseInterpreterExpression(code: string): Node {
+  return new Parser(new Lexer(code).tokenize()).parseStandalone();
+}
+
+interface IEnv {
+
+  /** 表达式中 this 指向的对象 */
+  self: any;
+
+  /** 是否可以省略 this 访问 self 上的属性 */
+  withSelf: boolean;
+
+  /** 普通函数中的 this 是否也指向 self，与 new Function 求值时将 this 替换为 self 的行为一致 */
+  lexicalThis: boolean;
+  globals: Record<string, any>;
+}
+
+interface IBinding {
+  value: any;
+  constant: boolean;
+}
+
+interface ICompletion {
+  type: 'return' | 'break' | 'continue';
+  value?: any;
+}
+
+class Scope {
+  readonly vars = new Map<string, IBinding>();
+
+  constructor(
+    readonly env: IEnv,
+    readonly parent: Scope | null,
+    readonly isFunction = false,
+    readonly hasThis = false,
+    readonly thisValue?: any,
+  ) {}
+
+  lookup(name: string): IBinding | undefined {
+    let scope: Scope | null = this;
+    while (scope) {
+      const binding = scope.vars.get(name);
+      if (binding) {
+        return binding;
+      }
+      scope = scope.parent;
+    }
+    return undefined;
+  }
+
+  declare(name: string, value: any, kind: string) {
+    let scope: Scope = this;
+    if (kind === 'var') {
+      while (!scope.isFunction && scope.parent) {
+        scope = scope.parent;
+      }
+      const binding = scope.vars.get(name);
+      if (binding) {
+        binding.value = value;
+        return;
+      }
+    }
+    scope.vars.set(name, { value, constant: kind === 'const' });
+  }
+
+  getThis() {
+    let scope: Scope | null = this;
+    while (scope && !scope.hasThis) {
+      scope = scope.parent;
+    }
+    return scope?.thisValue;
+  }
+
+  /**
+   * 复制作用域，用于 for 循环中 let 声明的变量在每次迭代中独立
+   */
+  copy(): Scope {
+    const scope = new Scope(this.env, this.parent, this.isFunction, this.hasThis, this.thisValue);
+    this.vars.forEach((binding, name) => scope.vars.set(name, { ...binding }));
+    return scope;
+  }
+}
+
+/**
+ * 可选链短路时的返回值
+ */
+const SHORT_CIRCUIT = {};
+
+const hasOwn = (obj: any, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+function checkKey(key: any) {
+  if (FORBIDDEN_KEYS.has(key)) {
+    throw new TypeError(`Access to '${key}' is not allowed in expression`);
+  }
+  return key;
+}
+
+function checkTimerHandler(handler: any) {
+  if (typeof handler !== 'function') {
+    throw new TypeError('Timer handler must be a function in expression');
+  }
+  return handler;
+}
+
+/**
+ * 表达式中访问内置对象及其原型时替换为只读代理，避免污染全局共享的对象，key 为原对象
+ */
+const READONLY_BUILTINS = new Map<any, any>();
+
+function createReadonlyProxy(target: any, overrides?: Record<string, any>): any {
+  const deny = (key: PropertyKey): never => {
+    throw new TypeError(`Cannot modify built-in object (setting '${String(key)}') in expression`);
+  };
+  const proxy: any = new Proxy(target, {
+    get: overrides
+      ? (obj, key, receiver) => (hasOwn(overrides, key as string) ? overrides[key as string] : Reflect.get(obj, key, receiver))
+      : undefined,
+    set: (obj, key, value, receiver) => {
+      // 以内置原型为原型的对象可以正常赋值
+      if (receiver === proxy) {
+        return deny(key);
+      }
+      return Reflect.set(obj, key, value, receiver);
+    },
+    defineProperty: (_, key) => deny(key),
+    deleteProperty: (_, key) => deny(key),
+    setPrototypeOf: () => deny('__proto__'),
+    preventExtensions: () => deny('[[Extensible]]'),
+  });
+  return proxy;
+}
+
+function checkDescriptor(descriptor?: PropertyDescriptor) {
+  if (descriptor) {
+    ['value', 'get', 'set'].forEach((key) => {
+      if (hasOwn(descriptor, key)) {
+        (descriptor as any)[key] = checkValue((descriptor as any)[key]);
+      }
+    });
+  }
+  return descriptor;
+}
+
+/**
+ * 属性描述符中可以取到不可枚举的属性（如 Function.prototype.constructor），同样需要检查
+ */
+const SAFE_OBJECT_METHODS: Record<string, any> = {
+  getOwnPropertyDescriptor: (obj: any, key: PropertyKey) => checkDescriptor(Object.getOwnPropertyDescriptor(obj, key)),
+  getOwnPropertyDescriptors: (obj: any) => {
+    const descriptors = (Object as any).getOwnPropertyDescriptors(obj);
+    Reflect.ownKeys(descriptors).forEach((key) => checkDescriptor(descriptors[key]));
+    return descriptors;
+  },
+};
+
+function protectBuiltin(target: any, overrides?: Record<string, any>) {
+  let current = target;
+  while (current != null && (typeof current === 'object' || typeof current === 'function') && !READONLY_BUILTINS.has(current)) {
+    READONLY_BUILTINS.set(current, createReadonlyProxy(current, current === target ? overrides : undefined));
+    if (typeof current === 'function' && current.prototype) {
+      protectBuiltin(current.prototype);
+    }
+    current = Object.getPrototypeOf(current);
+  }
+}
+
+protectBuiltin(Object, SAFE_OBJECT_METHODS);
+[
+  Array, Date, Number, String, Boolean, RegExp, Error, TypeError, RangeError, SyntaxError, ReferenceError,
+  Promise, Map, Set, WeakMap, WeakSet, Symbol, Math, JSON, console, Object.getPrototypeOf(() => undefined),
+  [].keys(), new Map().keys(), new Set().keys(), ''[Symbol.iterator](),
+].forEach((item) => protectBuiltin(item));
+FUNCTION_CONSTRUCTORS.forEach((item) => protectBuiltin(item.prototype));
+Object.keys(SAFE_OBJECT_METHODS).forEach((key) => READONLY_BUILTINS.set((Object as any)[key], SAFE_OBJECT_METHODS[key]));
+
+/**
+ * 检查表达式中取到的值：禁止取得函数构造器，内置对象替换为只读代理
+ */
+function checkValue(value: any) {
+  if (FUNCTION_CONSTRUCTORS.has(value)) {
+    throw new TypeError('Access to Function constructor is not allowed in expression');
+  }
+  return READONLY_BUILTINS.has(value) ? READONLY_BUILTINS.get(value) : value;
+}
+
+function toPropertyKey(value: any) {
+  return typeof value === 'symbol' ? value : String(value);
+}
+
+function describe(node: Node): string {
+  switch (node.type) {
+    case 'Identifier':
+      return node.name;
+    case 'This':
+      return 'this';
+    case 'Member':
+      return `${describe(node.object)}${node.computed ? '[...]' : `.${node.property}`}`;
+    default:
+      return 'expression';
+  }
+}
+
+/**
+ * 表达式解释器，表达式只解析一次，按表达式字符串缓存语法树
+ */
+export class ExpressionInterpreter implements IPublicTypeExpressionEvaluator {
+  /**
+   * 最多缓存的表达式个数，超过时删除最早缓存的表达式
+   */
+  static maxCacheSize = 1000;
+
+  private readonly cache = new Map<string, Node>();
+
+  private readonly globals: Record<string, any>;
+
+  /**
+   * @param options.globals 表达式可以访问的全局变量，默认为 INTERPRETER_GLOBALS
+   */
+  constructor(options: { globals?: Record<string, any> } = {}) {
+    this.globals = options.globals || INTERPRETER_GLOBALS;
+  }
+
+  /**
+   * 解析表达式，返回缓存的语法树
+   * @param code 表达式
+   */
+  parse(code: string): Node {
+    let program = this.cache.get(code);
+    if (!program) {
+      program = parseInterpreterExpression(code);
+      if (this.cache.size >= ExpressionInterpreter.maxCacheSize) {
+        this.cache.delete(this.cache.keys().next().value);
+      }
+      this.cache.set(code, program);
+    }
+    return program;
+  }
+
+  evaluate(code: string, self: any, thisRequired?: boolean): any {
+    return this.run(this.parse(code), self, thisRequired);
+  }
+
+  toFunction(code: string): any {
+    const program = this.parse(code);
+    const env: IEnv = { self: undefined, withSelf: false, lexicalThis: false, globals: this.globals };
+    return this.evalNode(program, new Scope(env, null, true, true, undefined));
+  }
+
+  compile(code: string, thisRequired?: boolean): (self: any) => any {
+    const program = this.parse(code);
+    return (self: any) => this.run(program, self, thisRequired);
+  }
+
+  private run(program: Node, self: any, thisRequired?: boolean) {
+    const env: IEnv = { self, withSelf: !thisRequired, lexicalThis: true, globals: this.globals };
+    return this.evalNode(program, new Scope(env, null, true, true, self));
+  }
+
+  private evalNode(node: Node, scope: Scope): any {
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+      case 'RegExp':
+        return new RegExp(node.pattern, node.flags);
+      case 'Template':
+        return node.quasis.reduce((result: string, quasi: string, i: number) => {
+          return i === 0 ? quasi : `${result}${this.evalNode(node.expressions[i - 1], scope)}${quasi}`;
+        }, '');
+      case 'Identifier':
+        return this.getIdentifier(node.name, scope);
+      case 'This':
+        return scope.getThis();
+      case 'Array': {
+        const result: any[] = [];
+        node.elements.forEach((element: Node | null) => {
+          if (!element) {
+            result.length += 1;
+          } else if (element.type === 'Spread') {
+            result.push(...Array.from(this.evalNode(element.argument, scope), checkValue));
+          } else {
+            result.push(this.evalNode(element, scope));
+          }
+        });
+        return result;
+      }
+      case 'Object': {
+        const result: Record<string, any> = {};
+        node.properties.forEach((property: Node) => {
+          if (property.type === 'Spread') {
+            Object.assign(result, this.evalNode(property.argument, scope));
+            return;
+          }
+          const key = checkKey(property.computed ? toPropertyKey(this.evalNode(property.key, scope)) : property.key);
+          result[key] = this.evalNode(property.value, scope);
+        });
+        return result;
+      }
+      case 'Function':
+        return this.createFunction(node, scope);
+      case 'Unary':
+        return this.evalUnary(node, scope);
+      case 'Update': {
+        const oldValue = Number(this.evalNode(node.argument, scope));
+        const newValue = node.operator === '++' ? oldValue + 1 : oldValue - 1;
+        this.assign(node.argument, newValue, scope);
+        return node.prefix ? newValue : oldValue;
+      }
+      case 'Binary':
+        return this.evalBinary(node.operator, this.evalNode(node.left, scope), this.evalNode(node.right, scope));
+      case 'Logical': {
+        const left = this.evalNode(node.left, scope);
+        switch (node.operator) {
+          case '&&':
+            return left ? this.evalNode(node.right, scope) : left;
+          case '||':
+            return left || this.evalNode(node.right, scope);
+          default:
+            return left ?? this.evalNode(node.right, scope);
+        }
+      }
+      case 'Conditional':
+        return this.evalNode(node.test, scope) ? this.evalNode(node.consequent, scope) : this.evalNode(node.alternate, scope);
+      case 'Assign':
+        return this.evalAssign(node, scope);
+      case 'Sequence':
+        return node.expressions.reduce((_: any, expression: Node) => this.evalNode(expression, scope), undefined);
+      case 'Chain': {
+        const value = this.evalNode(node.expression, scope);
+        return value === SHORT_CIRCUIT ? undefined : value;
+      }
+      case 'Member': {
+        const object = this.evalNode(node.object, scope);
+        if (object === SHORT_CIRCUIT || (node.optional && object == null)) {
+          return SHORT_CIRCUIT;
+        }
+        return this.getMember(object, this.getKey(node, scope), node);
+      }
+      case 'Call':
+        return this.evalCall(node, scope);
+      case 'New': {
+        const callee = this.evalNode(node.callee, scope);
+        if (typeof callee !== 'function') {
+          throw new TypeError(`${describe(node.callee)} is not a constructor`);
+        }
+        return checkValue(Reflect.construct(callee, this.evalArguments(node.arguments, scope)));
+      }
+      default:
+        throw new SyntaxError(`Unknown expression type ${node.type}`);
+    }
+  }
+
+  private getIdentifier(name: string, scope: Scope, forTypeof = false) {
+    const binding = scope.lookup(name);
+    if (binding) {
+      return binding.value;
+    }
+    const { self, withSelf, globals } = scope.env;
+    if (withSelf && self != null && name in Object(self)) {
+      return checkValue(self[name]);
+    }
+    if (hasOwn(globals, name)) {
+      return checkValue(globals[name]);
+    }
+    if (forTypeof) {
+      return undefined;
+    }
+    throw new ReferenceError(`${name} is not defined`);
+  }
+
+  private getKey(node: Node, scope: Scope) {
+    return checkKey(node.computed ? toPropertyKey(this.evalNode(node.property, scope)) : node.property);
+  }
+
+  private getMember(object: any, key: any, node: Node) {
+    if (object == null) {
+      throw new TypeError(`Cannot read properties of ${object} (reading '${String(key)}') in ${describe(node)}`);
+    }
+    return checkValue(object[key]);
+  }
+
+  private evalArguments(args: Node[], scope: Scope): any[] {
+    const result: any[] = [];
+    args.forEach((arg) => {
+      if (arg.type === 'Spread') {
+        result.push(...Array.from(this.evalNode(arg.argument, scope), checkValue));
+      } else {
+        result.push(this.evalNode(arg, scope));
+      }
+    });
+    return result;
+  }
+
+  private evalCall(node: Node, scope: Scope) {
+    const { callee } = node;
+    let thisArg: any;
+    let fn: any;
+    if (callee.type === 'Member') {
+      thisArg = this.evalNode(callee.object, scope);
+      if (thisArg === SHORT_CIRCUIT || (callee.optional && thisArg == null)) {
+        return SHORT_CIRCUIT;
+      }
+      fn = this.getMember(thisArg, this.getKey(callee, scope), callee);
+    } else {
+      fn = this.evalNode(callee, scope);
+      if (fn === SHORT_CIRCUIT) {
+        return SHORT_CIRCUIT;
+      }
+    }
+    if (node.optional && fn == null) {
+      return SHORT_CIRCUIT;
+    }
+    if (typeof fn !== 'function') {
+      throw new TypeError(`${describe(callee)} is not a function`);
+    }
+    return checkValue(fn.apply(thisArg, this.evalArguments(node.arguments, scope)));
+  }
+
+  private evalUnary(node: Node, scope: Scope) {
+    const { operator, argument } = node;
+    if (operator === 'typeof' && argument.type === 'Identifier') {
+      return typeof this.getIdentifier(argument.name, scope, true);
+    }
+    if (operator === 'delete') {
+      if (argument.type !== 'Member') {
+        throw new SyntaxError('Delete of an unqualified identifier in strict mode');
+      }
+      const object = this.evalNode(argument.object, scope);
+      if (object === SHORT_CIRCUIT || (argument.optional && object == null)) {
+        return true;
+      }
+      return delete object[this.getKey(argument, scope)];
+    }
+    const value = this.evalNode(argument, scope);
+    switch (operator) {
+      case '!':
+        return !value;
+      case '~':
+        return ~value;
+      case '+':
+        return +value;
+      case '-':
+        return -value;
+      case 'typeof':
+        return typeof value;
+      default:
+        return undefined;
+    }
+  }
+
+  private evalBinary(operator: string, left: any, right: any): any {
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      case '/':
+        return left / right;
+      case '%':
+        return left % right;
+      case '**':
+        return left ** right;
+      case '==':
+        // eslint-disable-next-line eqeqeq
+        return left == right;
+      case '!=':
+        // eslint-disable-next-line eqeqeq
+        return left != right;
+      case '===':
+        return left === right;
+      case '!==':
+        return left !== right;
+      case '<':
+        return left < right;
+      case '>':
+        return left > right;
+      case '<=':
+        return left <= right;
+      case '>=':
+        return left >= right;
+      case '<<':
+        return left << right;
+      case '>>':
+        return left >> right;
+      case '>>>':
+        return left >>> right;
+      case '&':
+        return left & right;
+      case '|':
+        return left | right;
+      case '^':
+        return left ^ right;
+      case 'in':
+        return checkKey(toPropertyKey(left)) in right;
+      case 'instanceof':
+        return left instanceof right;
+      default:
+        throw new SyntaxError(`Unknown operator ${operator}`);
+    }
+  }
+
+  private evalAssign(node: Node, scope: Scope) {
+    const { operator, left, right } = node;
+    if (operator === '=') {
+      return this.assign(left, this.evalNode(right, scope), scope);
+    }
+    const current = this.evalNode(left, scope);
+    switch (operator) {
+      case '&&=':
+        return current ? this.assign(left, this.evalNode(right, scope), scope) : current;
+      case '||=':
+        return current || this.assign(left, this.evalNode(right, scope), scope);
+      case '??=':
+        return current ?? this.assign(left, this.evalNode(right, scope), scope);
+      default:
+        return this.assign(left, this.evalBinary(operator.slice(0, -1), current, this.evalNode(right, scope)), scope);
+    }
+  }
+
+  private assign(target: Node, value: any, scope: Scope) {
+    if (target.type === 'Identifier') {
+      const binding = scope.lookup(target.name);
+      const { self, withSelf } = scope.env;
+      if (binding) {
+        if (binding.constant) {
+          throw new TypeError('Assignment to constant variable.');
+        }
+        binding.value = value;
+      } else if (withSelf && self != null && target.name in Object(self)) {
+        self[target.name] = value;
+      } else {
+        throw new ReferenceError(`${target.name} is not defined`);
+      }
+      return value;
+    }
+    const object = this.evalNode(target.object, scope);
+    const key = this.getKey(target, scope);
+    if (object == null) {
+      throw new TypeError(`Cannot set properties of ${object} (setting '${String(key)}')`);
+    }
+    object[key] = value;
+    return value;
+  }
+
+  /**
+   * 绑定参数或变量声明，支持解构
+   */
+  private bind(pattern: Node, value: any, scope: Scope, kind: string) {
+    switch (pattern.type) {
+      case 'Identifier':
+        if (kind === 'assign') {
+          this.assign(pattern, value, scope);
+        } else {
+          scope.declare(pattern.name, checkValue(value), kind);
+        }
+        return;
+      case 'Member':
+        this.assign(pattern, value, scope);
+        return;
+      case 'AssignPattern':
+        this.bind(pattern.left, value === undefined ? this.evalNode(pattern.right, scope) : value, scope, kind);
+        return;
+      case 'ObjectPattern': {
+        if (value == null) {
+          throw new TypeError(`Cannot destructure '${value}' as it is ${value}.`);
+        }
+        const used = new Set<any>();
+        pattern.properties.forEach((property: Node) => {
+          const key = checkKey(property.computed ? toPropertyKey(this.evalNode(property.key, scope)) : property.key);
+          used.add(key);
+          this.bind(property.value, checkValue(value[key]), scope, kind);
+        });
+        if (pattern.rest) {
+          const rest: Record<string, any> = {};
+          Object.keys(value).forEach((key) => {
+            if (!used.has(key)) {
+              rest[key] = checkValue(value[key]);
+            }
+          });
+          this.bind(pattern.rest, rest, scope, kind);
+        }
+        return;
+      }
+      case 'ArrayPattern': {
+        if (value == null) {
+          throw new TypeError(`${value} is not iterable`);
+        }
+        const items = Array.from(value, checkValue);
+        pattern.elements.forEach((element: Node | null, i: number) => {
+          if (element) {
+            this.bind(element, items[i], scope, kind);
+          }
+        });
+        if (pattern.rest) {
+          this.bind(pattern.rest, items.slice(pattern.elements.length), scope, kind);
+        }
+        return;
+      }
+      default:
+        throw new SyntaxError(`Invalid binding ${pattern.type}`);
+    }
+  }
+
+  private createFunction(node: Node, scope: Scope) {
+    const interpreter = this;
+    let fn: any;
+    if (node.arrow) {
+      fn = (...args: any[]) => interpreter.callFunction(node, scope, undefined, args, fn);
+    } else {
+      fn = function (this: any, ...args: any[]) {
+        return interpreter.callFunction(node, scope, this, args, fn);
+      };
+    }
+    if (node.name) {
+      Object.defineProperty(fn, 'name', { value: node.name, configurable: true });
+    }
+    return fn;
+  }
+
+  private callFunction(node: Node, closure: Scope, thisArg: any, rawArgs: any[], fn: any) {
+    const { env } = closure;
+    // 函数可能被内置方法回调，参数同样需要检查
+    const args = rawArgs.map(checkValue);
+    thisArg = checkValue(thisArg);
+    const scope = new Scope(env, closure, true, !node.arrow, env.lexicalThis ? env.self : thisArg);
+    if (!node.arrow) {
+      scope.declare('arguments', args, 'var');
+      // 具名函数表达式可以通过名称递归调用
+      if (node.name && node.type === 'Function') {
+        scope.declare(node.name, fn, 'const');
+      }
+    }
+    node.params.forEach((param: Node, i: number) => {
+      if (param.type === 'Rest') {
+        this.bind(param.argument, args.slice(i), scope, 'let');
+      } else {
+        this.bind(param, args[i], scope, 'let');
+      }
+    });
+    if (node.expression) {
+      return this.evalNode(node.body, scope);
+    }
+    const completion = this.execBody(node.body, scope);
+    return completion?.type === 'return' ? completion.value : undefined;
+  }
+
+  private execBody(body: Node[], scope: Scope): ICompletion | undefined {
+    // 函数声明提升
+    body.forEach((statement) => {
+      if (statement.type === 'FunctionDeclaration') {
+        scope.declare(statement.name, this.createFunction(statement, scope), 'let');
+      }
+    });
+    for (const statement of body) {
+      const completion = this.exec(statement, scope);
+      if (completion) {
+        return completion;
+      }
+    }
+    return undefined;
+  }
+
+  private exec(node: Node, scope: Scope): ICompletion | undefined {
+    switch (node.type) {
+      case 'Expression':
+        this.evalNode(node.expression, scope);
+        return undefined;
+      case 'Variable':
+        node.declarations.forEach(({ id, init }: Node) => {
+          this.bind(id, init ? this.evalNode(init, scope) : undefined, scope, node.kind);
+        });
+        return undefined;
+      case 'FunctionDeclaration':
+      case 'Empty':
+        return undefined;
+      case 'Block':
+        return this.execBody(node.body, new Scope(scope.env, scope));
+      case 'If':
+        if (this.evalNode(node.test, scope)) {
+          return this.exec(node.consequent, scope);
+        }
+        return node.alternate ? this.exec(node.alternate, scope) : undefined;
+      case 'Return':
+        return { type: 'return', value: node.argument ? this.evalNode(node.argument, scope) : undefined };
+      case 'Break':
+        return { type: 'break' };
+      case 'Continue':
+        return { type: 'continue' };
+      case 'Throw':
+        throw this.evalNode(node.argument, scope);
+      case 'Try':
+        return this.execTry(node, scope);
+      case 'Switch':
+        return this.execSwitch(node, scope);
+      case 'While':
+      case 'DoWhile':
+        if (node.type === 'DoWhile') {
+          const completion = this.exec(node.body, new Scope(scope.env, scope));
+          if (completion?.type === 'break') {
+            return undefined;
+          }
+          if (completion?.type === 'return') {
+            return completion;
+          }
+        }
+        while (this.evalNode(node.test, scope)) {
+          const completion = this.exec(node.body, new Scope(scope.env, scope));
+          if (completion?.type === 'break') {
+            break;
+          }
+          if (completion?.type === 'return') {
+            return completion;
+          }
+        }
+        return undefined;
+      case 'For':
+        return this.execFor(node, scope);
+      case 'ForIn':
+      case 'ForOf':
+        return this.execForInOf(node, scope);
+      default:
+        throw new SyntaxError(`Unknown statement type ${node.type}`);
+    }
+  }
+
+  private execTry(node: Node, scope: Scope): ICompletion | undefined {
+    let completion: ICompletion | undefined;
+    try {
+      completion = this.execBody(node.block, new Scope(scope.env, scope));
+    } catch (e) {
+      if (!node.handler) {
+        throw e;
+      }
+      const catchScope = new Scope(scope.env, scope);
+      if (node.param) {
+        this.bind(node.param, e, catchScope, 'let');
+      }
+      completion = this.execBody(node.handler, catchScope);
+    } finally {
+      if (node.finalizer) {
+        const finalCompletion = this.execBody(node.finalizer, new Scope(scope.env, scope));
+        if (finalCompletion) {
+          // finally 中的 return / break 覆盖之前的结果
+          // eslint-disable-next-line no-unsafe-finally
+          return finalCompletion;
+        }
+      }
+    }
+    return completion;
+  }
+
+  private execSwitch(node: Node, scope: Scope): ICompletion | undefined {
+    const discriminant = this.evalNode(node.discriminant, scope);
+    const switchScope = new Scope(scope.env, scope);
+    let start = node.cases.findIndex((item: Node) => item.test && this.evalNode(item.test, switchScope) === discriminant);
+    if (start < 0) {
+      start = node.cases.findIndex((item: Node) => !item.test);
+    }
+    if (start < 0) {
+      return undefined;
+    }
+    for (let i = start; i < node.cases.length; i++) {
+      const completion = this.execBody(node.cases[i].consequent, switchScope);
+      if (completion) {
+        return completion.type === 'break' ? undefined : completion;
+      }
+    }
+    return undefined;
+  }
+
+  private execFor(node: Node, scope: Scope): ICompletion | undefined {
+    const { init, test, update, body } = node;
+    let loopScope = new Scope(scope.env, scope);
+    // let 声明的变量在每次迭代中独立
+    const perIteration = init?.type === 'Variable' && init.kind !== 'var';
+    if (init?.type === 'Variable') {
+      this.exec(init, loopScope);
+    } else if (init) {
+      this.evalNode(init, loopScope);
+    }
+    for (;;) {
+      if (perIteration) {
+        loopScope = loopScope.copy();
+      }
+      if (test && !this.evalNode(test, loopScope)) {
+        break;
+      }
+      const completion = this.exec(body, new Scope(scope.env, loopScope));
+      if (completion?.type === 'break') {
+        break;
+      }
+      if (completion?.type === 'return') {
+        return completion;
+      }
+      if (update) {
+        this.evalNode(update, perIteration ? (loopScope = loopScope.copy()) : loopScope);
+      }
+    }
+    return undefined;
+  }
+
+  private execForInOf(node: Node, scope: Scope): ICompletion | undefined {
+    const { left, body } = node;
+    const right = this.evalNode(node.right, scope);
+    const iterate = (value: any) => {
+      const iterationScope = new Scope(scope.env, scope);
+      if (left.type === 'Variable') {
+        this.bind(left.declarations[0].id, value, iterationScope, left.kind);
+      } else {
+        this.bind(left, value, iterationScope, 'assign');
+      }
+      return this.exec(body, iterationScope);
+    };
+    const items: any[] = [];
+    if (node.type === 'ForIn') {
+      // eslint-disable-next-line guard-for-in
+      for (const key in right) {
+        items.push(key);
+      }
+    } else {
+      if (right == null) {
+        throw new TypeError(`${right} is not iterable`);
+      }
+      items.push(...Array.from(right));
+    }
+    for (const item of items) {
+      const completion = iterate(item);
+      if (completion?.type === 'break') {
+        break;
+      }
+      if (completion?.type === 'return') {
+        return completion;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,165 @@
+import type { IRenderProfile, IRenderProfileNode } from '../types';
+
+interface IProfileFrame {
+  node: IRenderProfileNode;
+  start: number;
+  childDuration: number;
+}
+
+function now() {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+
+/**
+ * 渲染性能统计，记录每个节点生成 element 的次数及耗时、通过 Profiler 得到的实际渲染次数及耗时，以及表达式求值耗时，
+ * 同一轮同步渲染结束后通过 onProfile 回调一次
+ */
+export class RenderProfiler {
+  private nodes: Record<string, IRenderProfileNode> = {};
+
+  private stack: IProfileFrame[] = [];
+
+  /**
+   * 节点的父节点及组件名，用于从实际渲染耗时中减去子节点的耗时，跨多轮统计保留
+   */
+  private parents: Record<string, string | undefined> = {};
+
+  private componentNames: Record<string, string> = {};
+
+  /**
+   * 节点及其子节点的实际渲染耗时
+   */
+  private renderDurations: Record<string, number> = {};
+
+  private createDuration = 0;
+
+  private expressionCount = 0;
+
+  private expressionDuration = 0;
+
+  private scheduled = false;
+
+  constructor(private readonly onProfile: (profile: IRenderProfile) => void) {}
+
+  now() {
+    return now();
+  }
+
+  /**
+   * 开始生成节点
+   * @param id 节点 id，没有 id 时使用组件名
+   * @param componentName 组件名
+   */
+  startNode(id: string | undefined, componentName: string) {
+    const key = id || componentName;
+    this.componentNames[key] = componentName;
+    this.parents[key] = this.stack[this.stack.length - 1]?.node.id;
+    const node = this.getNode(key);
+    node.createCount++;
+    this.stack.push({ node, start: now(), childDuration: 0 });
+    this.schedule();
+  }
+
+  /**
+   * 结束生成当前节点，子节点的耗时不计入当前节点
+   */
+  endNode() {
+    const frame = this.stack.pop();
+    if (!frame) {
+      return;
+    }
+    const duration = now() - frame.start;
+    frame.node.createDuration += duration - frame.childDuration;
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      parent.childDuration += duration;
+    } else {
+      this.createDuration += duration;
+    }
+  }
+
+  /**
+   * Profiler 的 onRender 回调，actualDuration 包含子节点的渲染耗时
+   */
+  onRender = (id: string, phase: string, actualDuration: number) => {
+    this.getNode(id).renderCount++;
+    this.renderDurations[id] = (this.renderDurations[id] || 0) + actualDuration;
+    this.schedule();
+  };
+
+  /**
+   * 记录一次表达式求值，计入当前正在生成的节点
+   * @param duration 耗时
+   */
+  recordExpression(duration: number) {
+    this.expressionCount++;
+    this.expressionDuration += duration;
+    const frame = this.stack[this.stack.length - 1];
+    if (frame) {
+      frame.node.expressionCount++;
+      frame.node.expressionDuration += duration;
+    }
+    this.schedule();
+  }
+
+  /**
+   * 输出统计结果并重置，节点按耗时降序排列
+   */
+  flush() {
+    this.scheduled = false;
+    const { nodes, renderDurations } = this;
+    let renderDuration = 0;
+    Object.keys(renderDurations).forEach((key) => {
+      const parent = this.parents[key];
+      nodes[key].renderDuration += renderDurations[key];
+      if (parent && renderDurations[parent] !== undefined) {
+        nodes[parent].renderDuration -= renderDurations[key];
+      } else {
+        renderDuration += renderDurations[key];
+      }
+    });
+    const profile: IRenderProfile = {
+      createDuration: this.createDuration,
+      renderDuration,
+      expressionCount: this.expressionCount,
+      expressionDuration: this.expressionDuration,
+      nodes: Object.keys(nodes).map((key) => {
+        // 子节点单独更新时父节点的耗时可能被减为负数
+        nodes[key].renderDuration = Math.max(0, nodes[key].renderDuration);
+        return nodes[key];
+      }).sort((a, b) => b.renderDuration - a.renderDuration || b.createDuration - a.createDuration),
+    };
+    this.nodes = {};
+    this.renderDurations = {};
+    this.createDuration = 0;
+    this.expressionCount = 0;
+    this.expressionDuration = 0;
+    if (profile.nodes.length || profile.expressionCount) {
+      this.onProfile(profile);
+    }
+  }
+
+  private getNode(key: string): IRenderProfileNode {
+    if (!this.nodes[key]) {
+      this.nodes[key] = {
+        id: key,
+        componentName: this.componentNames[key] || key,
+        createCount: 0,
+        createDuration: 0,
+        renderCount: 0,
+        renderDuration: 0,
+        expressionCount: 0,
+        expressionDuration: 0,
+      };
+    }
+    return this.nodes[key];
+  }
+
+  private schedule() {
+    if (this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    Promise.resolve().then(() => this.flush());
+  }
+}
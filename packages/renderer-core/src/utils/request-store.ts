@@ -0,0 +1,197 @@
+import { DataSourceCacheConfig } from '../types';
+
+const DEFAULT_CACHE_TTL = 60000;
+const DEFAULT_MAX_SIZE = 100;
+
+export function createAbortController(): AbortController | undefined {
+  return typeof AbortController === 'undefined' ? undefined : new AbortController();
+}
+
+function createAbortError() {
+  const error = new Error('The data source request is aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * 在 signal 中止时以 AbortError 结束，promise 结束后移除 signal 上的监听
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort);
+    promise.then((data) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(data);
+    }, (err) => {
+      signal.removeEventListener('abort', onAbort);
+      reject(err);
+    });
+  });
+}
+
+interface ICacheEntry {
+  data: any;
+  time: number;
+  expires: number;
+  staleWhileRevalidate: boolean;
+}
+
+interface IPendingRequest {
+  promise: Promise<any>;
+  controller?: AbortController;
+  count: number;
+}
+
+export interface IDataSourceRequestStoreOptions {
+
+  /**
+   * 最多缓存的响应数，超出时淘汰最久未使用的缓存，默认 100
+   */
+  maxSize?: number;
+}
+
+/**
+ * 数据源请求的缓存及进行中的请求，同一个渲染模块（或同一次服务端渲染）的容器间共享
+ *
+ * 缓存过期后即被淘汰，开启 staleWhileRevalidate 的缓存过期后保留，直到被新的响应替换或因超出 maxSize 被淘汰
+ */
+export class DataSourceRequestStore {
+  private cache = new Map<string, ICacheEntry>();
+
+  private pending = new Map<string, IPendingRequest>();
+
+  private maxSize: number;
+
+  constructor(options: IDataSourceRequestStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  }
+
+  get size() {
+    return this.cache.size;
+  }
+
+  /**
+   * 获取缓存的响应，已过期且不能使用过期数据的缓存会被淘汰
+   * @param key 请求的 key
+   */
+  getCache(key: string): ICacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.cache.delete(key);
+    if (this.isExpired(entry) && !entry.staleWhileRevalidate) {
+      return undefined;
+    }
+    // 重新插入，保持 Map 按最近使用排序
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * 缓存响应
+   * @param key 请求的 key
+   * @param data 响应
+   * @param config 数据源的缓存配置
+   */
+  setCache(key: string, data: any, config: DataSourceCacheConfig = {}) {
+    const time = Date.now();
+    this.cache.delete(key);
+    this.cache.set(key, {
+      data,
+      time,
+      expires: time + (config.ttl ?? DEFAULT_CACHE_TTL),
+      staleWhileRevalidate: !!config.staleWhileRevalidate,
+    });
+    this.evict();
+  }
+
+  isExpired(entry: ICacheEntry) {
+    return Date.now() >= entry.expires;
+  }
+
+  /**
+   * 清除缓存，不传 key 时清除所有缓存
+   * @param key 请求的 key
+   */
+  clear(key?: string) {
+    if (key === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(key);
+    }
+  }
+
+  /**
+   * 复用相同 key 进行中的请求，所有调用方都中止后才中止请求
+   * @param key 请求的 key
+   * @param send 发起请求，以共享请求的 signal 调用
+   * @param signal 调用方的 signal
+   */
+  dedupe(key: string, send: (signal?: AbortSignal) => Promise<any>, signal?: AbortSignal): Promise<any> {
+    if (signal?.aborted) {
+      return abortable(Promise.resolve(), signal);
+    }
+    let pending = this.pending.get(key);
+    if (!pending) {
+      const controller = createAbortController();
+      const done = () => {
+        if (this.pending.get(key) === pending) {
+          this.pending.delete(key);
+        }
+      };
+      pending = {
+        controller,
+        count: 0,
+        promise: send(controller?.signal).then((data) => {
+          done();
+          return data;
+        }, (err) => {
+          done();
+          throw err;
+        }),
+      };
+      this.pending.set(key, pending);
+    }
+    const current = pending;
+    current.count++;
+    if (signal) {
+      const onAbort = () => {
+        current.count--;
+        if (current.count <= 0) {
+          current.controller?.abort();
+          if (this.pending.get(key) === current) {
+            this.pending.delete(key);
+          }
+        }
+      };
+      const removeListener = () => signal.removeEventListener('abort', onAbort);
+      signal.addEventListener('abort', onAbort);
+      current.promise.then(removeListener, removeListener);
+    }
+    return abortable(current.promise, signal);
+  }
+
+  /**
+   * 淘汰已过期的缓存，超出 maxSize 时淘汰最久未使用的缓存
+   */
+  private evict() {
+    this.cache.forEach((entry, key) => {
+      if (this.isExpired(entry) && !entry.staleWhileRevalidate) {
+        this.cache.delete(key);
+      }
+    });
+    const keys = this.cache.keys();
+    while (this.cache.size > this.maxSize) {
+      this.cache.delete(keys.next().value);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import 'whatwg-fetch';
 import fetchJsonp from 'fetch-jsonp';
 import { serializeParams } from '.';
+import { isServerEnv } from './ssr';
 
 /**
  * this is a private method, export for testing purposes only.
@@ -175,6 +176,10 @@ export function request(dataAPI: any, method = 'GET', data: any, headers = {}, o
  */
 export function jsonp(dataAPI: any, params = {}, otherProps = {}) {
   return new Promise((resolve, reject) => {
+    if (isServerEnv()) {
+      reject(new Error('jsonp is not supported in server side rendering'));
+      return;
+    }
     const processedOtherProps = {
       timeout: 5000,
       ...otherProps,
@@ -0,0 +1,202 @@
+import { IPublicTypeNodeSchema, IPublicTypeRootSchema } from '@alilc/lowcode-types';
+import { DataSourceRequestStore } from './request-store';
+
+/**
+ * 注入到页面中的服务端渲染数据的全局变量名
+ */
+export const SSR_DATA_KEY = '__LOWCODE_SSR_DATA__';
+
+/**
+ * 是否运行在服务端，没有 window / document 时认为是服务端
+ * @returns boolean
+ */
+export function isServerEnv() {
+  return typeof window === 'undefined' || typeof document === 'undefined';
+}
+
+/**
+ * 序列化为可以安全地嵌入到 script 标签中的 JSON
+ * @param data
+ * @returns string
+ */
+export function serializeSSRData(data: any) {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * 服务端渲染输出到页面中的数据
+ */
+export interface ISSRData {
+
+  /**
+   * 各容器数据源请求后的 state，key 为容器在渲染顺序中的唯一标识
+   */
+  data?: Record<string, Record<string, any>>;
+
+  /**
+   * 服务端渲染时生效的断点名称，客户端首次渲染时使用，保证 hydrate 时结构一致
+   */
+  breakpoint?: string | null;
+}
+
+/**
+ * 服务端渲染上下文
+ *
+ * 服务端：渲染时收集各容器 isInit 数据源的请求，等待请求结束后再次渲染，
+ * 容器以请求结果作为初始 state，直到没有新的请求，请求结果随 HTML 输出到页面中；
+ *
+ * 客户端：以服务端输出的数据创建，容器 hydrate 时以对应的数据作为初始 state，不再重新请求，
+ * 首次渲染使用服务端渲染时的断点，挂载后再按视口宽度匹配断点
+ */
+export class SSRContext {
+  /**
+   * 各容器数据源请求后的 state，key 为容器在渲染顺序中的唯一标识
+   *
+   * @type {Record<string, Record<string, any>>}
+   */
+  data: Record<string, Record<string, any>>;
+
+  /**
+   * 服务端渲染时生效的断点名称，undefined 表示未记录
+   *
+   * @type {(string | null | undefined)}
+   */
+  breakpoint?: string | null;
+
+  /**
+   * 服务端渲染时收集的 schema.css
+   *
+   * @type {string[]}
+   */
+  css: string[] = [];
+
+  /**
+   * 本次渲染的数据源请求缓存及进行中的请求，不在多次服务端渲染之间共享
+   *
+   * @type {DataSourceRequestStore}
+   */
+  requestStore = new DataSourceRequestStore();
+
+  private pending: Array<Promise<any>> = [];
+
+  private counters: Record<string, number> = {};
+
+  constructor(ssrData?: ISSRData) {
+    this.data = { ...ssrData?.data };
+    this.breakpoint = ssrData?.breakpoint;
+  }
+
+  /**
+   * 按渲染顺序为容器生成唯一标识，服务端和客户端的渲染顺序相同，因此标识一致
+   * @param schema 容器 schema
+   */
+  nextKey(schema: IPublicTypeRootSchema | IPublicTypeNodeSchema) {
+    const name = `${schema?.componentName}:${schema?.id || (schema as IPublicTypeRootSchema)?.fileName || ''}`;
+    this.counters[name] = (this.counters[name] || 0) + 1;
+    return `${name}#${this.counters[name]}`;
+  }
+
+  has(key: string) {
+    return Object.prototype.hasOwnProperty.call(this.data, key);
+  }
+
+  /**
+   * 取出容器的数据，客户端只使用一次，之后重新挂载的容器正常请求
+   * @param key
+   */
+  take(key: string): Record<string, any> | undefined {
+    const data = this.data[key];
+    if (!isServerEnv()) {
+      delete this.data[key];
+    }
+    return data;
+  }
+
+  /**
+   * 等待容器的数据源请求，请求失败时容器以空数据渲染
+   * @param key
+   * @param request 返回容器 state 的请求
+   */
+  wait(key: string, request: Promise<Record<string, any>>) {
+    this.pending.push(request
+      .then((state) => {
+        this.data[key] = state || {};
+      })
+      .catch(() => {
+        this.data[key] = {};
+      }));
+  }
+
+  addCss(css: string) {
+    if (css && !this.css.includes(css)) {
+      this.css.push(css);
+    }
+  }
+
+  /**
+   * 渲染直到所有容器的数据源都已请求，返回最后一次渲染的结果
+   *
+   * 每一轮都会同步地完整渲染一次，渲染次数为嵌套的数据请求层数加一，
+   * 因此 render 需要是同步的渲染函数；使用流式渲染时请使用 prepare
+   *
+   * @param render 同步渲染函数，如 () => renderToString(element)
+   * @param maxPasses 最大渲染次数，数据请求后新出现的容器会在下一次渲染时请求
+   */
+  async render<T>(render: () => T, maxPasses = 5): Promise<T> {
+    let result: T;
+    let passes = 0;
+    do {
+      this.counters = {};
+      this.css = [];
+      result = render();
+      passes++;
+      const { pending } = this;
+      if (!pending.length) {
+        break;
+      }
+      this.pending = [];
+      // eslint-disable-next-line no-await-in-loop
+      await Promise.all(pending);
+    } while (passes < maxPasses);
+    return result;
+  }
+
+  /**
+   * 预取所有容器的数据源，之后可以使用任意方式（如 renderToPipeableStream 流式渲染）渲染，
+   * 渲染时容器直接使用预取的数据
+   *
+   * @param render 用于收集请求的同步渲染函数，结果会被丢弃，如 () => renderToStaticMarkup(element)
+   * @param maxPasses 最大渲染次数
+   */
+  async prepare(render: () => unknown, maxPasses = 5): Promise<void> {
+    await this.render(render, maxPasses);
+    this.counters = {};
+  }
+
+  /**
+   * 序列化后的数据，用于注入到页面中
+   */
+  serialize() {
+    const ssrData: ISSRData = { data: this.data, breakpoint: this.breakpoint ?? null };
+    return serializeSSRData(ssrData);
+  }
+
+  /**
+   * 将数据注入到页面的 script 标签，客户端通过 window.__LOWCODE_SSR_DATA__ 读取
+   */
+  getScript() {
+    return `<script>window.${SSR_DATA_KEY}=${this.serialize()}</script>`;
+  }
+
+  /**
+   * 收集的 schema.css，需要放到页面的 style 标签中
+   */
+  getCss() {
+    return this.css.join('\n');
+  }
+}
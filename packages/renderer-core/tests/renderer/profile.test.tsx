@@ -0,0 +1,171 @@
+import React from 'react';
+import renderer from 'react-test-renderer';
+import '../utils/react-env-init';
+import rendererFactory from '../../src/renderer/renderer';
+import { functionEvaluator } from '../../src/utils/common';
+import { ExpressionCache } from '../../src/utils/expression-cache';
+import adapter from '../../src/adapter';
+
+const Renderer = rendererFactory();
+
+const Text = ({ _leaf, content, ...rest }: any) => <span {...rest}>{content}</span>;
+
+const getSchema = (): any => ({
+  componentName: 'Page',
+  fileName: 'profile',
+  props: {},
+  state: { list: [1, 2, 3], title: 'list' },
+  children: [
+    {
+      componentName: 'Text',
+      id: 'title',
+      props: { content: { type: 'JSExpression', value: 'this.state.title' } },
+    },
+    {
+      componentName: 'Text',
+      id: 'item',
+      loop: { type: 'JSExpression', value: 'this.state.list' },
+      props: { content: { type: 'JSExpression', value: 'this.item * this.index' } },
+    },
+  ],
+});
+
+describe('expression cache', () => {
+  it('compile expression once for the same schema', () => {
+    const cache = new ExpressionCache();
+    const compile = jest.spyOn(functionEvaluator, 'compile');
+    const schema = {};
+    cache.bind(schema);
+    const fn = cache.get(functionEvaluator, 'this.a + 1', true)!;
+    expect(fn({ a: 1 })).toBe(2);
+    expect(cache.get(functionEvaluator, 'this.a + 1', true)).toBe(fn);
+    expect(cache.get(functionEvaluator, 'this.a + 1', false)).not.toBe(fn);
+    expect(compile).toHaveBeenCalledTimes(2);
+
+    cache.bind(schema);
+    expect(cache.size).toBe(2);
+    cache.bind({});
+    expect(cache.size).toBe(0);
+    // 不支持编译的求值器不缓存
+    expect(cache.get({ evaluate: () => 1, toFunction: () => 1 }, 'this.a', true)).toBeUndefined();
+    compile.mockRestore();
+  });
+
+  it('reuse compiled expressions across renders until schema changes', () => {
+    const compile = jest.spyOn(functionEvaluator, 'compile');
+    const schema = getSchema();
+    const component = renderer.create(<Renderer schema={schema} components={{ Text }} />);
+    const contents = () => component.root.findAllByType(Text).map((item) => item.props.content);
+    expect(contents()).toEqual(['list', 0, 2, 6]);
+    const compileCount = compile.mock.calls.length;
+
+    component.update(<Renderer schema={schema} components={{ Text }} />);
+    expect(contents()).toEqual(['list', 0, 2, 6]);
+    expect(compile).toHaveBeenCalledTimes(compileCount);
+
+    const nextSchema = getSchema();
+    nextSchema.children[0].props.content.value = 'this.state.title + "!"';
+    component.update(<Renderer schema={nextSchema} components={{ Text }} />);
+    expect(contents()).toEqual(['list!', 0, 2, 6]);
+    expect(compile.mock.calls.length).toBeGreaterThan(compileCount);
+    compile.mockRestore();
+  });
+});
+
+// 测试环境使用 React 的生产构建，不会回调 Profiler，以组件模拟：统计从开始渲染到提交的耗时，包含子组件的渲染
+class MockProfiler extends React.Component<any> {
+  private start = 0;
+
+  componentDidMount() {
+    this.report('mount');
+  }
+
+  componentDidUpdate() {
+    this.report('update');
+  }
+
+  report(phase: string) {
+    this.props.onRender(this.props.id, phase, performance.now() - this.start);
+  }
+
+  render() {
+    this.start = performance.now();
+    return this.props.children;
+  }
+}
+
+describe('onRenderProfile', () => {
+  const runtime = adapter.getRuntime();
+
+  beforeAll(() => {
+    adapter.setRuntime({ ...runtime, Profiler: MockProfiler });
+  });
+
+  afterAll(() => {
+    adapter.setRuntime(runtime);
+  });
+
+  it('report render count and duration of each node', async () => {
+    const onRenderProfile = jest.fn();
+    renderer.create(<Renderer schema={getSchema()} components={{ Text }} onRenderProfile={onRenderProfile} />);
+    await Promise.resolve();
+
+    expect(onRenderProfile).toHaveBeenCalledTimes(1);
+    const profile = onRenderProfile.mock.calls[0][0];
+    const nodes: Record<string, any> = {};
+    profile.nodes.forEach((node: any) => {
+      nodes[node.id] = node;
+    });
+    expect(nodes.title).toMatchObject({ componentName: 'Text', createCount: 1, renderCount: 1, expressionCount: 1 });
+    // 循环渲染时每一项计一次
+    expect(nodes.item).toMatchObject({ componentName: 'Text', createCount: 3, renderCount: 3, expressionCount: 3 });
+    expect(profile.expressionCount).toBeGreaterThanOrEqual(5);
+    expect(profile.createDuration).toBeGreaterThanOrEqual(nodes.title.createDuration + nodes.item.createDuration);
+    expect(profile.renderDuration).toBeGreaterThanOrEqual(nodes.title.renderDuration + nodes.item.renderDuration);
+    expect(profile.nodes.map((node: any) => node.renderDuration)).toEqual(
+      profile.nodes.map((node: any) => node.renderDuration).sort((a: number, b: number) => b - a),
+    );
+  });
+
+  it('measure render duration with Profiler excluding child nodes', async () => {
+    const onRenderProfile = jest.fn();
+    const Slow = ({ _leaf, children, ...rest }: any) => {
+      const start = Date.now();
+      while (Date.now() - start < 20) {
+        // 模拟耗时的渲染
+      }
+      return <div {...rest}>{children}</div>;
+    };
+    const schema: any = {
+      componentName: 'Page',
+      fileName: 'profile',
+      props: {},
+      children: [{
+        componentName: 'Box',
+        id: 'box',
+        props: {},
+        children: [{ componentName: 'Slow', id: 'slow', props: {} }],
+      }],
+    };
+    const Box = ({ _leaf, children, ...rest }: any) => <section {...rest}>{children}</section>;
+    const component = renderer.create(<Renderer schema={schema} components={{ Box, Slow }} onRenderProfile={onRenderProfile} />);
+    await Promise.resolve();
+
+    const profile = onRenderProfile.mock.calls[0][0];
+    const nodes: Record<string, any> = {};
+    profile.nodes.forEach((node: any) => {
+      nodes[node.id] = node;
+    });
+    // 组件的实际渲染耗时计入组件所在节点，不计入父节点
+    expect(nodes.slow.renderDuration).toBeGreaterThanOrEqual(15);
+    expect(nodes.box.renderDuration).toBeLessThan(nodes.slow.renderDuration);
+    expect(profile.nodes[0].id).toBe('slow');
+    expect(nodes.slow.createDuration).toBeLessThan(15);
+    expect(component.root.findAllByType(Slow)).toHaveLength(1);
+  });
+
+  it('do not profile without onRenderProfile', async () => {
+    const component = renderer.create(<Renderer schema={getSchema()} components={{ Text }} />);
+    expect((component.getInstance() as any).getProfiler()).toBeUndefined();
+  });
+});
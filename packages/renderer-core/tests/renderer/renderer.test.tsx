@@ -446,4 +446,49 @@ describe("designMode", () => {
       done();
     });
   });
-})
\ No newline at end of file
+})
+describe('Responsive', () => {
+  const schema = {
+    componentName: 'Page',
+    props: {},
+    children: [
+      {
+        componentName: 'Div',
+        props: {
+          className: 'div-ut',
+          style: { color: 'red', width: '100px' },
+        },
+        responsive: {
+          mobile: {
+            className: 'div-ut-mobile',
+            style: { width: '50px' },
+          },
+        },
+      },
+    ],
+  };
+  const breakpoints = [{ name: 'mobile', maxWidth: 768 }];
+
+  it('resolve props by device', (done) => {
+    getComp(schema, components.Div, { device: 'mobile', breakpoints }).then(({ inst }) => {
+      expect(inst[0].props.className).toBe('div-ut-mobile');
+      expect(inst[0].props.style).toEqual({ color: 'red', width: '50px' });
+      done();
+    });
+  });
+
+  it('resolve props by viewport width', (done) => {
+    const { innerWidth } = window;
+    getComp(schema, components.Div, { breakpoints }).then(({ component, inst }) => {
+      expect(inst[0].props.className).toBe('div-ut');
+
+      (window as any).innerWidth = 375;
+      renderer.act(() => {
+        window.dispatchEvent(new Event('resize'));
+      });
+      expect(component.root.findAllByType(components.Div)[0].props.className).toBe('div-ut-mobile');
+      (window as any).innerWidth = innerWidth;
+      done();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import renderer from 'react-test-renderer';
+import '../utils/react-env-init';
+import rendererFactory from '../../src/renderer/renderer';
+import { SSRContext } from '../../src/utils/ssr';
+
+const Renderer = rendererFactory();
+
+const Text = ({ _leaf, content, ...rest }: any) => <span {...rest}>{content}</span>;
+
+const schema: any = {
+  componentName: 'Page',
+  fileName: 'ssr',
+  props: {},
+  state: { list: [] },
+  dataSource: {
+    list: [{ id: 'list', isInit: true, type: 'fetch', options: { uri: '/api/list' } }],
+  },
+  children: [
+    {
+      componentName: 'Text',
+      props: { content: { type: 'JSExpression', value: 'this.state.list.join(",")' } },
+    },
+  ],
+};
+
+describe('hydrate from server side rendering', () => {
+  it('use data of server side rendering instead of refetching', async () => {
+    const fetchHandler = jest.fn(() => Promise.resolve({ data: ['c'] }));
+    const ssrContext = new SSRContext({ data: { 'Page:ssr#1': { list: ['a', 'b'] } } });
+    const props: any = {
+      schema,
+      components: { Text },
+      appHelper: { requestHandlersMap: { fetch: fetchHandler } },
+      ssrContext,
+    };
+
+    const component = renderer.create(<Renderer {...props} />);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(component.root.findByType(Text).props.content).toBe('a,b');
+    expect(fetchHandler).not.toHaveBeenCalled();
+    // 数据只使用一次
+    expect(ssrContext.has('Page:ssr#1')).toBeFalsy();
+
+    const remounted = renderer.create(<Renderer {...props} />);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(fetchHandler).toHaveBeenCalledTimes(1);
+    expect(remounted.root.findByType(Text).props.content).toBe('c');
+  });
+
+  it('render with breakpoint of server side rendering before mounted', async () => {
+    const { innerWidth } = window;
+    (window as any).innerWidth = 1280;
+    const breakpoints = [{ name: 'mobile', maxWidth: 768 }, { name: 'desktop', minWidth: 769 }];
+    const responsiveSchema: any = {
+      componentName: 'Page',
+      fileName: 'responsive',
+      props: {},
+      children: [
+        {
+          componentName: 'Text',
+          props: { content: 'desktop' },
+          responsive: { mobile: { content: 'mobile' } },
+        },
+      ],
+    };
+    const contents: string[] = [];
+    const RecordText = (props: any) => {
+      contents.push(props.content);
+      return <Text {...props} />;
+    };
+    const component = renderer.create(
+      <Renderer
+        schema={responsiveSchema}
+        components={{ Text: RecordText }}
+        breakpoints={breakpoints}
+        ssrContext={new SSRContext({ breakpoint: 'mobile' })}
+      />,
+    );
+    expect(contents[0]).toBe('mobile');
+    expect(component.root.findByType(Text).props.content).toBe('desktop');
+    (window as any).innerWidth = innerWidth;
+  });
+});
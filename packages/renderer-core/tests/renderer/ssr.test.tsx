@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { Component, PureComponent, createElement, createContext, forwardRef } from 'react';
+import { renderToString, renderToStaticMarkup } from 'react-dom/server';
+import {
+  adapter,
+  pageRendererFactory,
+  componentRendererFactory,
+  blockRendererFactory,
+  addonRendererFactory,
+  tempRendererFactory,
+  rendererFactory,
+  SSRContext,
+} from '../../src';
+import { get } from '../../src/utils/request';
+
+jest.mock('../../src/utils/request', () => ({
+  ...jest.requireActual('../../src/utils/request'),
+  get: jest.fn(() => Promise.resolve(['c', 'd'])),
+}));
+
+adapter.setRuntime({
+  Component,
+  PureComponent,
+  createContext,
+  createElement,
+  forwardRef,
+  findDOMNode: () => null,
+});
+
+adapter.setRenderers({
+  PageRenderer: pageRendererFactory(),
+  ComponentRenderer: componentRendererFactory(),
+  BlockRenderer: blockRendererFactory(),
+  AddonRenderer: addonRendererFactory(),
+  TempRenderer: tempRendererFactory(),
+  DivRenderer: blockRendererFactory(),
+});
+
+const Renderer = rendererFactory();
+
+const Text = ({ _leaf, content, ...rest }: any) => createElement('span', rest, content);
+
+function getSchema(dataHandler?: any): any {
+  return {
+    componentName: 'Page',
+    fileName: 'ssr',
+    props: {},
+    state: { list: [] },
+    css: '.title { color: red; }',
+    dataSource: {
+      list: [
+        { id: 'list', isInit: true, type: 'fetch', options: { uri: '/api/list' }, dataHandler },
+        { id: 'detail', isInit: false, type: 'fetch', options: { uri: '/api/detail' } },
+      ],
+    },
+    children: [
+      {
+        componentName: 'Text',
+        props: {
+          className: 'title',
+          content: { type: 'JSExpression', value: 'this.state.list.join(",")' },
+        },
+      },
+    ],
+  };
+}
+
+describe('server side rendering', () => {
+  it('await isInit data sources before rendering', async () => {
+    const fetchHandler = jest.fn(() => Promise.resolve({ data: ['a', 'b'] }));
+    const ssrContext = new SSRContext();
+    const html = await ssrContext.render(() => renderToString(createElement(Renderer, {
+      schema: getSchema(),
+      components: { Text },
+      appHelper: { requestHandlersMap: { fetch: fetchHandler } },
+      ssrContext,
+    } as any)));
+
+    expect(html).toContain('a,b');
+    expect(fetchHandler).toHaveBeenCalledTimes(1);
+    expect(ssrContext.data).toEqual({ 'Page:ssr#1': expect.objectContaining({ list: ['a', 'b'] }) });
+    expect(ssrContext.getCss()).toBe('.title { color: red; }');
+    expect(ssrContext.getScript()).toMatch(/^<script>window.__LOWCODE_SSR_DATA__=\{.*\}<\/script>$/);
+  });
+
+  it('await data sources of default data helper', async () => {
+    const ssrContext = new SSRContext();
+    const html = await ssrContext.render(() => renderToString(createElement(Renderer, {
+      schema: getSchema({ type: 'JSFunction', value: 'function (data) { return data.concat("e"); }' }),
+      components: { Text },
+      ssrContext,
+    } as any)));
+
+    expect(html).toContain('c,d,e');
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(ssrContext.data['Page:ssr#1']).toEqual({ list: ['c', 'd', 'e'] });
+  });
+
+  it('prepare data before streaming rendering', async () => {
+    const fetchHandler = jest.fn(() => Promise.resolve({ data: ['a', 'b'] }));
+    const ssrContext = new SSRContext();
+    const element = createElement(Renderer, {
+      schema: getSchema(),
+      components: { Text },
+      appHelper: { requestHandlersMap: { fetch: fetchHandler } },
+      ssrContext,
+    } as any);
+    await ssrContext.prepare(() => renderToStaticMarkup(element));
+
+    expect(renderToString(element)).toContain('a,b');
+    expect(fetchHandler).toHaveBeenCalledTimes(1);
+    expect(ssrContext.getCss()).toBe('.title { color: red; }');
+  });
+
+  it('record breakpoint of server side rendering', async () => {
+    const ssrContext = new SSRContext();
+    await ssrContext.render(() => renderToString(createElement(Renderer, {
+      schema: getSchema(),
+      components: { Text },
+      device: 'mobile',
+      breakpoints: [{ name: 'mobile', maxWidth: 768 }],
+      ssrContext,
+    } as any)));
+
+    expect(ssrContext.breakpoint).toBe('mobile');
+    expect(JSON.parse(ssrContext.serialize()).breakpoint).toBe('mobile');
+  });
+
+  it('serialize data safely', () => {
+    const ssrContext = new SSRContext({ data: { key: { html: '</script><script>alert(1)</script>' } } });
+    expect(ssrContext.serialize()).not.toContain('</script>');
+    expect(JSON.parse(ssrContext.serialize())).toEqual({ data: ssrContext.data, breakpoint: null });
+  });
+});
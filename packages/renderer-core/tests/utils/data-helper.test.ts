@@ -28,7 +28,8 @@ jest.mock('../../src/utils/request', () => {
     };
   });
 
-import { DataHelper, doRequest } from '../../src/utils/data-helper';
+import { DataHelper, doRequest, getMockResponse } from '../../src/utils/data-helper';
+import { DataSourceRequestStore } from '../../src/utils/request-store';
 import { parseData } from '../../src/utils/common';
 
 describe('test DataHelper ', () => {
@@ -566,4 +567,354 @@ describe('test DataHelper ', () => {
       expect(callbackFn).toBeCalledTimes(1);
     });
   });
+
+  it('getMockResponse should work', async () => {
+    expect(await getMockResponse({ a: 1 }, {})).toEqual({ a: 1 });
+    expect(await getMockResponse((params) => ({ b: params.b }), { params: { b: 2 } })).toEqual({ b: 2 });
+    await expect(getMockResponse(() => { throw new Error('mock error'); }, {})).rejects.toThrow('mock error');
+  });
+
+  it('getInitData should resolve dataSource from mock when mock enabled', async () => {
+    const mockHost = {};
+    const mockDataSourceConfig = {
+      list: [
+        {
+          id: 'mocked',
+          isInit: true,
+          type: 'fetch',
+          options: {
+            params: { size: 2 },
+            method: 'GET',
+            uri: 'mock/mocked.json',
+          },
+          mock: {
+            type: 'JSFunction',
+            value: 'function(params) { return { size: params.size }; }',
+          },
+        },
+        {
+          id: 'notMocked',
+          isInit: true,
+          type: 'fetch',
+          options: {
+            params: {},
+            method: 'GET',
+            uri: 'mock/info.json',
+          },
+        },
+      ],
+    };
+    const mockAppHelper = {};
+    const mockParser = (config: any) => parseData(config);
+    mockGet.mockClear();
+    mockGet.mockReturnValueOnce({ real: true });
+    const dataHelper = new DataHelper(mockHost, mockDataSourceConfig, mockAppHelper, mockParser, true);
+
+    const res = await dataHelper.getInitData();
+    expect(res.mocked).toEqual({ size: 2 });
+    expect(res.notMocked).toEqual({ real: true });
+    expect(mockGet).toBeCalledTimes(1);
+    expect(mockGet).toBeCalledWith('mock/info.json', {}, undefined, expect.anything());
+    // 只记录真实请求的响应
+    expect(dataHelper.responses).toEqual({ notMocked: { real: true } });
+  });
+
+  it('getInitData should ignore mock when mock disabled', async () => {
+    const mockHost = {};
+    const mockDataSourceConfig = {
+      list: [
+        {
+          id: 'mocked',
+          isInit: true,
+          type: 'fetch',
+          options: {
+            params: {},
+            method: 'GET',
+            uri: 'mock/mocked.json',
+          },
+          mock: { size: 2 },
+        },
+      ],
+    };
+    const mockAppHelper = {};
+    const mockParser = (config: any) => parseData(config);
+    mockGet.mockClear();
+    mockGet.mockReturnValueOnce({ real: true });
+    const dataHelper = new DataHelper(mockHost, mockDataSourceConfig, mockAppHelper, mockParser);
+
+    const res = await dataHelper.getInitData();
+    expect(res.mocked).toEqual({ real: true });
+    expect(mockGet).toBeCalledTimes(1);
+    expect(dataHelper.responses).toEqual({ mocked: { real: true } });
+  });
+});
+
+describe('DataHelper request policies', () => {
+  const createDataHelper = (item, host = {}) => new DataHelper(host, {
+    list: [{
+      id: 'list',
+      isInit: true,
+      type: 'fetch',
+      options: { uri: `mock/${item.uri || 'list'}.json`, params: {}, method: 'GET' },
+      ...item,
+    }],
+  }, { dataSourceRequestStore: requestStore }, (config: any) => parseData(config));
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  let requestStore: DataSourceRequestStore;
+
+  beforeEach(() => {
+    mockGet.mockReset();
+    requestStore = new DataSourceRequestStore();
+  });
+
+  it('cache responses within ttl', async () => {
+    mockGet.mockReturnValueOnce([1]).mockReturnValueOnce([2]);
+    expect(await createDataHelper({ uri: 'cache', cache: true }).getInitData()).toEqual({ list: [1] });
+    expect(await createDataHelper({ uri: 'cache', cache: true }).getInitData()).toEqual({ list: [1] });
+    expect(mockGet).toBeCalledTimes(1);
+    // 未开启缓存时不使用缓存
+    expect(await createDataHelper({ uri: 'cache' }).getInitData()).toEqual({ list: [2] });
+  });
+
+  it('revalidate stale responses in background', async () => {
+    mockGet.mockReturnValueOnce([1]).mockReturnValueOnce([2]);
+    const cache = { ttl: 0, staleWhileRevalidate: true };
+    await createDataHelper({ uri: 'swr', cache }).getInitData();
+    const host = { setState: jest.fn() };
+    const dataHelper = createDataHelper({ uri: 'swr', cache }, host);
+    expect(await dataHelper.getInitData()).toEqual({ list: [1] });
+    await sleep(0);
+    expect(mockGet).toBeCalledTimes(2);
+    expect(host.setState).toBeCalledWith({ list: [2] });
+    expect(dataHelper.dataSourceMap.list.data).toEqual([2]);
+  });
+
+  it('dedupe identical requests in flight', async () => {
+    mockGet.mockReturnValue([1]);
+    const dataHelper = createDataHelper({ uri: 'dedupe', dedupe: true });
+    const [a, b] = await Promise.all([
+      dataHelper.dataSourceMap.list.load(),
+      createDataHelper({ uri: 'dedupe', dedupe: true }).dataSourceMap.list.load(),
+    ]);
+    expect(a).toEqual([1]);
+    expect(b).toEqual([1]);
+    expect(mockGet).toBeCalledTimes(1);
+  });
+
+  it('retry failed requests with backoff', async () => {
+    mockGet
+      .mockImplementationOnce(() => { throw new Error('first'); })
+      .mockImplementationOnce(() => { throw new Error('second'); })
+      .mockReturnValueOnce([1]);
+    expect(await createDataHelper({ uri: 'retry', retry: { count: 2, delay: 1 } }).getInitData()).toEqual({ list: [1] });
+    expect(mockGet).toBeCalledTimes(3);
+
+    mockGet.mockReset();
+    mockGet.mockImplementation(() => { throw new Error('always'); });
+    const dataHelper = createDataHelper({ uri: 'retry', retry: { count: 1, delay: 1 } });
+    await dataHelper.getInitData();
+    expect(mockGet).toBeCalledTimes(2);
+    expect(dataHelper.dataSourceMap.list.status).toBe('error');
+  });
+
+  it('poll data sources and emit status changes', async () => {
+    mockGet.mockReturnValueOnce([1]).mockReturnValue([2]);
+    const host = { setState: jest.fn() };
+    const dataHelper = createDataHelper({ uri: 'poll', pollInterval: 20 }, host);
+    const events: string[] = [];
+    dataHelper.onStatusChange(({ id, status, prevStatus }) => events.push(`${id}:${prevStatus}->${status}`));
+    expect(await dataHelper.getInitData()).toEqual({ list: [1] });
+    await sleep(50);
+    expect(host.setState).toBeCalledWith({ list: [2] });
+    expect(events.slice(0, 4)).toEqual([
+      'list:init->loading',
+      'list:loading->loaded',
+      'list:loaded->loading',
+      'list:loading->loaded',
+    ]);
+
+    dataHelper.destroy();
+    const count = mockGet.mock.calls.length;
+    await sleep(50);
+    expect(mockGet).toBeCalledTimes(count);
+  });
+
+  it('call global dataHandler with all results when polling', async () => {
+    mockGet.mockImplementation((uri) => (uri === 'mock/poll.json' ? mockGet.mock.calls.length : uri));
+    const host = { setState: jest.fn() };
+    const dataHandler = jest.fn((res) => ({ ...res, count: Object.keys(res).length }));
+    const item = (id: string, extra = {}) => ({
+      id,
+      isInit: true,
+      type: 'fetch',
+      options: { uri: `mock/${id}.json`, params: {}, method: 'GET' },
+      ...extra,
+    });
+    const dataHelper = new DataHelper(host, {
+      list: [item('poll', { pollInterval: 20 }), item('config')],
+      dataHandler,
+    }, { dataSourceRequestStore: requestStore }, (config: any) => parseData(config));
+    const res = await dataHelper.getInitData();
+    expect(res).toEqual({ poll: expect.any(Number), config: 'mock/config.json', count: 2 });
+    await sleep(30);
+    dataHelper.destroy();
+    expect(dataHandler).toHaveBeenLastCalledWith({ poll: expect.any(Number), config: 'mock/config.json' }, null);
+    expect(host.setState).toBeCalledWith({ poll: expect.any(Number), config: 'mock/config.json', count: 2 });
+  });
+
+  it('abort requests in flight when destroyed', async () => {
+    let resolveRequest;
+    mockGet.mockReturnValue(new Promise((resolve) => { resolveRequest = resolve; }));
+    const dataHelper = createDataHelper({ uri: 'abort' });
+    const promise = dataHelper.getInitData();
+    await sleep(0);
+    const { signal } = mockGet.mock.calls[0][3];
+    expect(signal.aborted).toBe(false);
+    dataHelper.destroy();
+    expect(signal.aborted).toBe(true);
+    resolveRequest([1]);
+    expect(await promise).toEqual({});
+    expect(dataHelper.dataSourceMap.list.status).toBe('loading');
+  });
+});
+
+describe('DataSourceRequestStore', () => {
+  it('evict expired responses and least recently used ones', () => {
+    const store = new DataSourceRequestStore({ maxSize: 2 });
+    store.setCache('expired', 1, { ttl: 0 });
+    store.setCache('stale', 2, { ttl: 0, staleWhileRevalidate: true });
+    expect(store.getCache('expired')).toBeUndefined();
+    expect(store.getCache('stale')?.data).toBe(2);
+
+    store.setCache('a', 3);
+    store.setCache('b', 4);
+    expect(store.size).toBe(2);
+    expect(store.getCache('stale')).toBeUndefined();
+    store.getCache('a');
+    store.setCache('c', 5);
+    expect(store.getCache('b')).toBeUndefined();
+    expect(store.getCache('a')?.data).toBe(3);
+    expect(store.getCache('c')?.data).toBe(5);
+  });
+
+  it('remove abort listeners after requests settled', async () => {
+    const store = new DataSourceRequestStore();
+    const controller = new AbortController();
+    const addEventListener = jest.spyOn(controller.signal, 'addEventListener');
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+    expect(await store.dedupe('key', () => Promise.resolve(1), controller.signal)).toBe(1);
+    await Promise.resolve();
+    expect(addEventListener).toBeCalledTimes(2);
+    expect(removeEventListener).toBeCalledTimes(2);
+    addEventListener.mock.calls.forEach(([, listener], index) => {
+      expect(removeEventListener.mock.calls[index]).toEqual(['abort', listener]);
+    });
+  });
+});
+
+describe('DataHelper dependent data sources', () => {
+  const createDataHelper = (list, host: any = {}) => {
+    const dataHelper = new DataHelper(host, { list }, {}, (config: any) => parseData(config, host));
+    host.dataSourceMap = dataHelper.dataSourceMap;
+    return dataHelper;
+  };
+  const fetchItem = (id: string, extra = {}) => ({
+    id,
+    isInit: true,
+    type: 'fetch',
+    options: { uri: `mock/${id}.json`, params: {}, method: 'GET' },
+    ...extra,
+  });
+
+  beforeEach(() => {
+    mockGet.mockReset();
+  });
+
+  it('request in topological order and parallelise independent ones', async () => {
+    let resolveUser;
+    mockGet.mockImplementation((uri, params) => {
+      if (uri === 'mock/user.json') {
+        return new Promise((resolve) => { resolveUser = resolve; });
+      }
+      return { uri, params };
+    });
+    const dataHelper = createDataHelper([
+      fetchItem('orders', {
+        dependsOn: ['user'],
+        options: {
+          uri: 'mock/orders.json',
+          method: 'GET',
+          params: { userId: { type: 'JSExpression', value: 'this.dataSourceMap.user.data.id' } },
+        },
+      }),
+      fetchItem('user'),
+      fetchItem('config'),
+    ]);
+    const promise = dataHelper.getInitData();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(mockGet.mock.calls.map((call) => call[0])).toEqual(['mock/user.json', 'mock/config.json']);
+    expect(dataHelper.dataSourceMap.orders.status).toBe('loading');
+
+    resolveUser({ id: 7 });
+    expect(await promise).toEqual({
+      user: { id: 7 },
+      config: { uri: 'mock/config.json', params: {} },
+      orders: { uri: 'mock/orders.json', params: { userId: 7 } },
+    });
+  });
+
+  it('do not request data sources in circles or depending on failed ones', async () => {
+    mockGet.mockImplementation((uri) => {
+      if (uri === 'mock/broken.json') {
+        throw new Error('broken');
+      }
+      return uri;
+    });
+    const dataHelper = createDataHelper([
+      fetchItem('a', { dependsOn: ['b'] }),
+      fetchItem('b', { dependsOn: ['a'] }),
+      fetchItem('c', { dependsOn: ['a'] }),
+      fetchItem('broken'),
+      fetchItem('d', { dependsOn: ['broken'] }),
+      fetchItem('e', { dependsOn: ['notInit'] }),
+      fetchItem('notInit', { isInit: false }),
+    ]);
+    expect(await dataHelper.getInitData()).toEqual({ broken: undefined, e: 'mock/e.json' });
+    expect(mockGet.mock.calls.map((call) => call[0]).sort()).toEqual(['mock/broken.json', 'mock/e.json']);
+    ['a', 'b', 'c', 'broken', 'd'].forEach((id) => {
+      expect(dataHelper.dataSourceMap[id].status).toBe('error');
+    });
+    expect(dataHelper.dataSourceMap.a.error.message).toMatch('Circular dependencies');
+  });
+
+  it('reload dependents when upstream reloads', async () => {
+    let version = 1;
+    mockGet.mockImplementation((uri, params) => (uri === 'mock/user.json' ? { id: version } : params));
+    const host = { setState: jest.fn() };
+    const dataHelper = createDataHelper([
+      fetchItem('user'),
+      fetchItem('orders', {
+        dependsOn: ['user'],
+        options: {
+          uri: 'mock/orders.json',
+          method: 'GET',
+          params: { userId: { type: 'JSExpression', value: 'this.dataSourceMap.user.data.id' } },
+        },
+      }),
+    ], host);
+    expect((await dataHelper.getInitData()).orders).toEqual({ userId: 1 });
+
+    version = 2;
+    await dataHelper.dataSourceMap.user.load();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(host.setState).toBeCalledWith({ orders: { userId: 2 } });
+    expect(dataHelper.dataSourceMap.orders.data).toEqual({ userId: 2 });
+
+    // 重新请求时保留 load 时传入的参数
+    await dataHelper.dataSourceMap.orders.load({ page: 2 });
+    version = 3;
+    await dataHelper.dataSourceMap.user.load();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(dataHelper.dataSourceMap.orders.data).toEqual({ userId: 3, page: 2 });
+  });
 });
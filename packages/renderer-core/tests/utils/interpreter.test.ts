@@ -0,0 +1,222 @@
+import { ExpressionInterpreter, INTERPRETER_GLOBALS } from '../../src/utils/interpreter';
+import { parseData, parseExpression, transformStringToFunction, functionEvaluator, getExpressionEvaluator } from '../../src/utils/common';
+import adapter from '../../src/adapter';
+
+const interpreter = new ExpressionInterpreter();
+const evaluate = (code: string, self: any = {}, thisRequired = true) => interpreter.evaluate(code, self, thisRequired);
+
+describe('ExpressionInterpreter', () => {
+  it('literals and operators', () => {
+    expect(evaluate('1 + 2 * 3 ** 2')).toBe(19);
+    expect(evaluate('2 ** 3 ** 2')).toBe(512);
+    expect(evaluate('0x10 + .5 + 1e2')).toBe(116.5);
+    expect(evaluate('"a\\nb" + \'c\'')).toBe('a\nbc');
+    expect(evaluate('!0 && (null ?? "x") || 1')).toBe('x');
+    expect(evaluate('typeof notDefined')).toBe('undefined');
+    expect(evaluate('void 0')).toBeUndefined();
+    expect(evaluate('"a" in { a: 1 } && [] instanceof Array')).toBe(true);
+    expect(evaluate('1 < 2 ? 3 : 4, 5')).toBe(5);
+    expect(evaluate('this.a ? .5 : 0', { a: true })).toBe(0.5);
+    expect(evaluate('/a(b+)/gi.exec("xABB")[1]')).toBe('BB');
+    expect(evaluate('10 / 2 / 5')).toBe(1);
+  });
+
+  it('this, template, object and array', () => {
+    const self = { state: { list: [1, 2, 3], name: 'lowcode' }, utils: { upper: (s: string) => s.toUpperCase() } };
+    expect(evaluate('`${this.state.name}: ${this.state.list.length} items`', self)).toBe('lowcode: 3 items');
+    expect(evaluate('this.utils.upper(`a${`b${1 + 1}`}`)', self)).toBe('AB2');
+    expect(evaluate('({ a: 1, ...this.state, [`k${1}`]: 2, "b-c": 3, 4: 4 })', self)).toEqual({
+      a: 1, list: [1, 2, 3], name: 'lowcode', k1: 2, 'b-c': 3, 4: 4,
+    });
+    expect(evaluate('[0, ...this.state.list, , 5]', self)).toEqual([0, 1, 2, 3, undefined, 5]);
+    expect(evaluate('Math.max(...this.state.list)', self)).toBe(3);
+  });
+
+  it('optional chaining', () => {
+    const self = { a: null, b: { c: () => 1 } };
+    expect(evaluate('this.a?.b.c.d', self)).toBeUndefined();
+    expect(evaluate('this.b?.c()', self)).toBe(1);
+    expect(evaluate('this.b.d?.()', self)).toBeUndefined();
+    expect(evaluate('this.a?.[0]', self)).toBeUndefined();
+    expect(() => evaluate('this.a.b', self)).toThrow(TypeError);
+  });
+
+  it('omit this when thisRequired is false', () => {
+    const self = { state: { count: 1 } };
+    expect(evaluate('state.count + 1', self, false)).toBe(2);
+    expect(() => evaluate('state.count', self, true)).toThrow('state is not defined');
+    // 局部变量优先于 self 上的属性
+    expect(evaluate('((state) => state)(2)', self, false)).toBe(2);
+  });
+
+  it('functions', () => {
+    const self = { state: { list: [1, 2, 3] }, setState: jest.fn() };
+    const fn = evaluate(`function onClick(e, ...rest) {
+      const { a = 1, b: { c } = { c: 2 }, ...others } = e;
+      let [x, , y = 3] = rest;
+      this.setState({ sum: a + c + x + y, others });
+      return arguments.length;
+    }`, self);
+    expect(fn.name).toBe('onClick');
+    expect(fn.call(null, { d: 4 }, 5)).toBe(2);
+    expect(self.setState).toHaveBeenCalledWith({ sum: 11, others: { d: 4 } });
+
+    expect(evaluate('this.state.list.filter((item) => item > 1).map(item => ({ item }))', self)).toEqual([{ item: 2 }, { item: 3 }]);
+    expect(evaluate('(function fib(n) { return n < 2 ? n : fib(n - 1) + fib(n - 2); })(10)')).toBe(55);
+  });
+
+  it('statements', () => {
+    const fn = evaluate(`function (list) {
+      var result = []
+      for (let i = 0; i < list.length; i++) {
+        if (i === 1) continue
+        if (i > 3) break
+        result.push(() => list[i])
+      }
+      let total = 0
+      for (const item of list) total += item
+      for (const key in { a: 1, b: 2 }) { result.push(key) }
+      let n = 0
+      while (n < 3) { n++ }
+      do { n-- } while (n > 10)
+      switch (n) {
+        case 1:
+          total += 100
+        case 2:
+          total += 1000
+          break
+        default:
+          total = 0
+      }
+      try {
+        throw new Error('oops')
+      } catch ({ message }) {
+        result.push(message)
+      } finally {
+        result.push('finally')
+      }
+      return [result.map((item) => typeof item === 'function' ? item() : item), total, n]
+    }`);
+    expect(fn([1, 2, 3, 4, 5])).toEqual([[1, 3, 4, 'a', 'b', 'oops', 'finally'], 1015, 2]);
+  });
+
+  it('this of functions', () => {
+    const self = { name: 'self' };
+    // 与 new Function 求值时一致，this 指向 self
+    expect(evaluate('function () { return this.name; }', self).call({ name: 'other' })).toBe('self');
+    // 转换为函数时 this 为调用时的 this
+    expect(interpreter.toFunction('function () { return this.name; }').call({ name: 'other' })).toBe('other');
+    expect(interpreter.toFunction('function (data) { return data.list; }')({ list: [1] })).toEqual([1]);
+  });
+
+  it('only access whitelisted globals', () => {
+    expect(evaluate('JSON.stringify({ a: Math.floor(1.5) })')).toBe('{"a":1}');
+    expect(() => evaluate('window')).toThrow(ReferenceError);
+    expect(() => evaluate('document.cookie')).toThrow(ReferenceError);
+    expect(() => evaluate('(() => {}).constructor("return window")')).toThrow(TypeError);
+    expect(() => evaluate('this.__proto__', {})).toThrow(TypeError);
+    expect(() => evaluate('({})["__proto__"].polluted = 1')).toThrow(TypeError);
+
+    const custom = new ExpressionInterpreter({ globals: { ...INTERPRETER_GLOBALS, answer: 42 } });
+    expect(custom.evaluate('answer', {}, true)).toBe(42);
+  });
+
+  it('can not escape the sandbox through built-ins', () => {
+    (global as any).SECRET = 'secret';
+    expect(() => evaluate(
+      "Object.values(Object.getOwnPropertyDescriptor(Object.getPrototypeOf(() => 1), 'constructor')).find(v => typeof v === 'function')('return globalThis.SECRET')()",
+    )).toThrow(TypeError);
+    expect(() => evaluate('Object.values(Object.getOwnPropertyDescriptors(Object.getPrototypeOf(() => 1))).map(d => d.value)')).toThrow(TypeError);
+    expect(() => evaluate('[Object.getPrototypeOf(() => 1)].map(p => Object.getOwnPropertyNames(p).map(k => p[k]))')).toThrow(TypeError);
+    // 通过调用返回值、回调参数、展开取得函数构造器
+    expect(() => evaluate('[() => 1].map(f => f.constructor)')).toThrow(TypeError);
+    expect(() => evaluate('((...args) => args)(...[this.fn.constructor])', { fn: () => 1 })).toThrow(TypeError);
+    expect(() => evaluate('this.fn.constructor', { fn: async () => 1 })).toThrow(TypeError);
+    expect(() => evaluate('this.list.find(() => true)', { list: [Function] })).toThrow(TypeError);
+    expect(() => evaluate('this.list.forEach((F) => F("return 1"))', { list: [Function] })).toThrow(TypeError);
+    expect(() => evaluate('[...this.list]', { list: [Function] })).toThrow(TypeError);
+    // 定时器不接受字符串
+    expect(() => evaluate('setTimeout("globalThis.SECRET = 1")')).toThrow(TypeError);
+    expect(() => evaluate('setInterval("globalThis.SECRET = 1")')).toThrow(TypeError);
+    delete (global as any).SECRET;
+  });
+
+  it('can not modify shared built-in objects', () => {
+    expect(() => evaluate('(Object.prototype.polluted = 1, ({}).polluted)')).toThrow(TypeError);
+    expect(() => evaluate('Object.assign(Object.getPrototypeOf({}), { polluted: 1 })')).toThrow(TypeError);
+    expect(() => evaluate("Object.defineProperty(Array.prototype, 'polluted', { value: 1 })")).toThrow(TypeError);
+    expect(() => evaluate('[].constructor.prototype.polluted = 1')).toThrow(TypeError);
+    expect(() => evaluate('Array.prototype.push.call(Array.prototype, 1)')).toThrow(TypeError);
+    expect(() => evaluate('delete Array.prototype.map')).toThrow(TypeError);
+    expect(() => evaluate('Math.floor = () => 0')).toThrow(TypeError);
+    expect(() => evaluate('JSON.parse = null')).toThrow(TypeError);
+    expect(() => evaluate('Error.prepareStackTrace = () => 1')).toThrow(TypeError);
+    expect(() => evaluate('Object.setPrototypeOf(Object.prototype, null)')).toThrow(TypeError);
+    expect(({} as any).polluted).toBeUndefined();
+    expect(([] as any).polluted).toBeUndefined();
+    expect(Math.floor(1.5)).toBe(1);
+
+    // 内置对象仍然可以正常使用
+    expect(evaluate("Object.prototype.hasOwnProperty.call({ a: 1 }, 'a')")).toBe(true);
+    expect(evaluate('Array.prototype.slice.call([1, 2, 3], 1)')).toEqual([2, 3]);
+    expect(evaluate('[] instanceof Array && Object.getPrototypeOf([]) === Array.prototype')).toBe(true);
+    expect(evaluate('new Map([[1, 2]]).get(1) + new Date(0).getTime()')).toBe(2);
+    expect(evaluate('Object.create(Object.prototype, {}).a = 1')).toBe(1);
+    expect(evaluate("Object.getOwnPropertyDescriptor({ a: 1 }, 'a').value")).toBe(1);
+    expect(evaluate('Promise.resolve(1)')).toBeInstanceOf(Promise);
+    expect(evaluate('Array.from(new Set([1, 1, 2]))')).toEqual([1, 2]);
+  });
+
+  it('report syntax errors and unsupported features', () => {
+    expect(() => evaluate('1 +')).toThrow(SyntaxError);
+    expect(() => evaluate('a b')).toThrow(SyntaxError);
+    expect(() => evaluate('async function () {}')).toThrow('Async function is not supported');
+    expect(() => evaluate('class A {}')).toThrow('Class is not supported');
+    expect(() => evaluate('({ get a() { return 1; } })')).toThrow('Getter and setter is not supported');
+  });
+
+  it('cache compiled expressions', () => {
+    const local = new ExpressionInterpreter();
+    expect(local.parse('this.a + 1')).toBe(local.parse('this.a + 1'));
+    expect(local.evaluate('this.a + 1', { a: 1 })).toBe(2);
+    const compiled = local.compile('a + 1', false);
+    expect(compiled({ a: 2 })).toBe(3);
+    expect(compiled({ a: 3 })).toBe(4);
+  });
+});
+
+describe('expression evaluator', () => {
+  afterEach(() => {
+    adapter.setExpressionEvaluator(undefined);
+  });
+
+  it('use function evaluator by default', () => {
+    expect(getExpressionEvaluator()).toBe(functionEvaluator);
+    expect(getExpressionEvaluator('interpreter')).toBeInstanceOf(ExpressionInterpreter);
+  });
+
+  it('select evaluator by options or adapter', () => {
+    const spy = jest.spyOn(global, 'Function');
+    const self = { state: { a: 1 }, i18n: (key: string) => `i18n:${key}` };
+    expect(parseExpression({ str: { type: 'JSExpression', value: 'this.state.a + 1' }, self, evaluator: 'interpreter' })).toBe(2);
+    expect(parseData({
+      a: { type: 'JSExpression', value: 'state.a' },
+      b: { type: 'i18n', key: 'hello' },
+    }, self, { thisRequiredInJSE: false, expressionEvaluator: 'interpreter' })).toEqual({ a: 1, b: 'i18n:hello' });
+
+    adapter.setExpressionEvaluator('interpreter');
+    expect(transformStringToFunction('function (a) { return a * 2; }')(2)).toBe(4);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('use custom evaluator', () => {
+    const evaluator = {
+      evaluate: jest.fn(() => 'evaluated'),
+      toFunction: jest.fn(() => () => 'function'),
+    };
+    expect(parseExpression({ str: { type: 'JSExpression', value: ' this.a ' }, self: {}, thisRequired: true, evaluator })).toBe('evaluated');
+    expect(evaluator.evaluate).toHaveBeenCalledWith('this.a', {}, true);
+    expect(transformStringToFunction('() => 1', evaluator)()).toBe('function');
+  });
+});
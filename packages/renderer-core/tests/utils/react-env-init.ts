@@ -1,4 +1,4 @@
-import React, { Component, PureComponent, createElement, createContext, forwardRef, ReactInstance, ContextType } from 'react';
+import React, { Component, PureComponent, createElement, createContext, forwardRef, Profiler, ReactInstance, ContextType } from 'react';
 import ReactDOM from 'react-dom';
 import {
   adapter,
@@ -22,6 +22,7 @@ adapter.setRuntime({
   createElement,
   forwardRef,
   findDOMNode: ReactDOM.findDOMNode,
+  Profiler,
 });
 
 adapter.setRenderers({
@@ -9,13 +9,22 @@ import {
   IPublicModelDragon,
   IPublicModelActiveTracker,
   IPublicModelClipboard,
+  IPublicModelNode,
+  IPublicTypeNodeAlignment,
+  IPublicTypeNodeDistribution,
 } from '@alilc/lowcode-types';
 import {
   ScrollTarget as InnerScrollTarget,
   IDesigner,
+  INode,
+  alignNodes,
+  distributeNodes,
+  groupNodes,
+  ungroupNode,
 } from '@alilc/lowcode-designer';
 import { editorSymbol, designerSymbol, nodeSymbol } from '../symbols';
 import {
+  Node as ShellNode,
   Dragon as ShellDragon,
   DropLocation as ShellDropLocation,
   ActiveTracker as ShellActiveTracker,
@@ -50,6 +59,14 @@ export class Canvas implements IPublicApiCanvas {
     return this[clipboardInstanceSymbol];
   }
 
+  get zoom(): number {
+    return this.viewport?.zoom ?? 1;
+  }
+
+  private get viewport() {
+    return this[designerSymbol].project.simulator?.viewport;
+  }
+
   constructor(editor: IPublicModelEditor, readonly workspaceMode: boolean = false) {
     this[editorSymbol] = editor;
     this[clipboardInstanceSymbol] = new ShellClipboard();
@@ -73,6 +90,52 @@ export class Canvas implements IPublicApiCanvas {
     }));
   }
 
+  alignNodes(alignment: IPublicTypeNodeAlignment, nodes?: IPublicModelNode[]): boolean {
+    return alignNodes(this.getNodes(nodes), alignment);
+  }
+
+  distributeNodes(direction: IPublicTypeNodeDistribution, nodes?: IPublicModelNode[]): boolean {
+    return distributeNodes(this.getNodes(nodes), direction);
+  }
+
+  groupNodes(nodes?: IPublicModelNode[], componentName?: string): IPublicModelNode | null {
+    return ShellNode.create(groupNodes(this.getNodes(nodes), componentName));
+  }
+
+  ungroupNode(node?: IPublicModelNode): IPublicModelNode[] {
+    const innerNode = node ? (node as any)[nodeSymbol] || node : this.getNodes()[0];
+    if (!innerNode) {
+      return [];
+    }
+    return ungroupNode(innerNode).map((child) => ShellNode.create(child)!);
+  }
+
+  setZoom(zoom: number): void {
+    this.viewport?.setZoom(zoom);
+  }
+
+  zoomIn(): void {
+    this.viewport?.zoomIn();
+  }
+
+  zoomOut(): void {
+    this.viewport?.zoomOut();
+  }
+
+  fitToScreen(): void {
+    this.viewport?.fitToScreen();
+  }
+
+  /**
+   * 未指定节点时取当前选中的顶层节点
+   */
+  private getNodes(nodes?: IPublicModelNode[]): INode[] {
+    if (nodes) {
+      return nodes.map((node) => (node as any)[nodeSymbol] || node);
+    }
+    return this[designerSymbol].project.currentDocument?.selection.getTopNodes() || [];
+  }
+
   /**
    * @deprecated
    */
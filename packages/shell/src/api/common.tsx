@@ -25,6 +25,9 @@ import {
   IPublicTypeLocationDetailType as InnerLocationDetailType,
   IPublicApiCommonEditorCabin,
   IPublicModelDragon,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeRootSchema,
+  IPublicTypeSchemaDiffHunk,
 } from '@alilc/lowcode-types';
 import {
   SettingField as InnerSettingField,
@@ -35,6 +38,8 @@ import {
   getConvertedExtraKey as innerGetConvertedExtraKey,
   getOriginalExtraKey as innerGetOriginalExtraKey,
   IDesigner,
+  importHtml as innerImportHtml,
+  diffSchema as innerDiffSchema,
 } from '@alilc/lowcode-designer';
 import {
   Skeleton as InnerSkeleton,
@@ -225,6 +230,14 @@ class Utils implements IPublicApiCommonUtils {
     transactionManager.executeTransaction(fn, type);
   }
 
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeRootSchema {
+    return innerImportHtml(html, options);
+  }
+
+  diffSchema(before: IPublicTypeNodeSchema, after: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    return innerDiffSchema(before, after);
+  }
+
   createIntl(instance: string | object): {
       intlNode(id: string, params?: object): ReactNode;
       intl(id: string, params?: object): string;
@@ -14,10 +14,24 @@ import {
   IPublicEnumTransformStage,
   IPublicTypeDisposable,
   IPublicTypeAppConfig,
+  IPublicTypeSchemaMigration,
+  IPublicTypeSchemaMigrationResult,
+  IPublicTypeSchemaMigrationReport,
+  IPublicTypeSchemaValidationResult,
+  IPublicTypeLintRule,
+  IPublicTypeReferenceTarget,
+  IPublicTypeReferenceUsage,
+  IPublicTypeRenameResult,
+  IPublicTypeBreakpoint,
+  IPublicTypeExtractComponentOptions,
+  IPublicTypeExtractComponentResult,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeNodeSchema,
+  IPublicModelNode,
 } from '@alilc/lowcode-types';
 import { DocumentModel as ShellDocumentModel } from '../model';
 import { SimulatorHost } from './simulator-host';
-import { editorSymbol, projectSymbol, simulatorHostSymbol, documentSymbol } from '../symbols';
+import { editorSymbol, projectSymbol, simulatorHostSymbol, documentSymbol, nodeSymbol } from '../symbols';
 
 const innerProjectSymbol = Symbol('innerProject');
 export class Project implements IPublicApiProject {
@@ -70,6 +84,20 @@ export class Project implements IPublicApiProject {
     return SimulatorHost.create(this[projectSymbol].simulator as any || this[simulatorHostSymbol]);
   }
 
+  /**
+   * 获取项目的响应式断点定义
+   */
+  get breakpoints(): IPublicTypeBreakpoint[] {
+    return this[projectSymbol].breakpoints;
+  }
+
+  /**
+   * 获取当前编辑的断点
+   */
+  get currentBreakpoint(): IPublicTypeBreakpoint | null {
+    return this[projectSymbol].currentBreakpoint;
+  }
+
   /**
    * @deprecated use .simulatorHost instead.
    */
@@ -132,7 +160,12 @@ export class Project implements IPublicApiProject {
    * @returns
    */
   exportSchema(stage: IPublicEnumTransformStage = IPublicEnumTransformStage.Render) {
-    return this[projectSymbol].getSchema(stage);
+    const schema = this[projectSymbol].getSchema(stage);
+    // 导出用于保存的 schema 时进行校验
+    if (stage === IPublicEnumTransformStage.Save) {
+      this[projectSymbol].checkSchema(schema);
+    }
+    return schema;
   }
 
   /**
@@ -143,6 +176,113 @@ export class Project implements IPublicApiProject {
     this[projectSymbol].load(schema, true);
   }
 
+  /**
+   * 注册 schema 版本迁移
+   * @param migration
+   */
+  registerSchemaMigration(migration: IPublicTypeSchemaMigration): IPublicTypeDisposable {
+    return this[projectSymbol].registerSchemaMigration(migration);
+  }
+
+  /**
+   * 对 schema 执行已注册的迁移
+   * @param schema
+   */
+  migrateSchema(schema: IPublicTypeProjectSchema): IPublicTypeSchemaMigrationResult {
+    return this[projectSymbol].migrateSchema(schema);
+  }
+
+  /**
+   * 批量试运行迁移
+   * @param schemas
+   */
+  dryRunSchemaMigrations(schemas: IPublicTypeProjectSchema[]): IPublicTypeSchemaMigrationReport[] {
+    return this[projectSymbol].dryRunSchemaMigrations(schemas);
+  }
+
+  /**
+   * 校验 schema 是否符合搭建协议
+   * @param schema
+   */
+  validateSchema(schema?: IPublicTypeProjectSchema): IPublicTypeSchemaValidationResult {
+    return this[projectSymbol].validateSchema(schema);
+  }
+
+  /**
+   * 注册 lint 规则
+   * @param rule
+   */
+  registerLintRule(rule: IPublicTypeLintRule): IPublicTypeDisposable {
+    return this[projectSymbol].registerLintRule(rule);
+  }
+
+  /**
+   * 查找组件、state、方法、数据源或 util 在所有文档中的引用
+   * @param target
+   */
+  findUsages(target: IPublicTypeReferenceTarget): IPublicTypeReferenceUsage[] {
+    return this[projectSymbol].findUsages(target);
+  }
+
+  /**
+   * 重命名并改写所有文档中的引用
+   * @param target
+   * @param newName
+   */
+  renameReference(target: IPublicTypeReferenceTarget, newName: string): IPublicTypeRenameResult {
+    return this[projectSymbol].renameReference(target, newName);
+  }
+
+  /**
+   * 将同一父节点下的节点提取为低代码组件
+   * @param nodes
+   * @param options
+   */
+  extractComponent(
+    nodes: IPublicModelNode[],
+    options?: IPublicTypeExtractComponentOptions,
+  ): IPublicTypeExtractComponentResult {
+    return this[projectSymbol].extractComponent(nodes.map((node) => (node as any)[nodeSymbol] || node), options);
+  }
+
+  /**
+   * 将 HTML 文档导入为新的文档并打开
+   * @param html
+   * @param options
+   */
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): IPublicModelDocumentModel | null {
+    const documentModel = this[projectSymbol].importHtml(html, options);
+    if (!documentModel) {
+      return null;
+    }
+    return ShellDocumentModel.create(documentModel);
+  }
+
+  /**
+   * 将 HTML 片段转换为节点 schema
+   * @param html
+   * @param options
+   */
+  htmlToSchema(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeNodeSchema[] {
+    return this[projectSymbol].htmlToSchema(html, options);
+  }
+
+  /**
+   * 设置项目的响应式断点定义
+   * @param breakpoints
+   */
+  setBreakpoints(breakpoints: IPublicTypeBreakpoint[]): void {
+    this[projectSymbol].setBreakpoints(breakpoints);
+  }
+
+  /**
+   * 切换当前编辑的断点
+   * @param name 断点名称，传入 null 切换回默认属性
+   */
+  setCurrentBreakpoint(name: string | null): void {
+    this[projectSymbol].setCurrentBreakpoint(name);
+  }
+
   /**
    * 获取当前的 document
    * @returns
@@ -1,5 +1,11 @@
-import { IPublicModelClipboard } from '@alilc/lowcode-types';
-import { clipboardSymbol } from '../symbols';
+import {
+  IPublicModelClipboard,
+  IPublicModelDocumentModel,
+  IPublicModelNode,
+  IPublicTypeClipboardData,
+  IPublicTypeClipboardMergeResult,
+} from '@alilc/lowcode-types';
+import { clipboardSymbol, documentSymbol, nodeSymbol } from '../symbols';
 import { IClipboard, clipboard } from '@alilc/lowcode-designer';
 
 export class Clipboard implements IPublicModelClipboard {
@@ -19,4 +25,15 @@ export class Clipboard implements IPublicModelClipboard {
     ): void {
     this[clipboardSymbol].waitPasteData(keyboardEvent, cb);
   }
-}
\ No newline at end of file
+
+  createData(nodes: IPublicModelNode[]): IPublicTypeClipboardData {
+    return this[clipboardSymbol].createData(nodes.map((node) => (node as any)[nodeSymbol] || node));
+  }
+
+  mergeReferences(
+      document: IPublicModelDocumentModel,
+      data: IPublicTypeClipboardData,
+    ): IPublicTypeClipboardMergeResult {
+    return this[clipboardSymbol].mergeReferences((document as any)[documentSymbol] || document, data);
+  }
+}
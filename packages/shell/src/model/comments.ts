@@ -0,0 +1,130 @@
+import type { IDocumentModel as InnerDocumentModel, IDocumentComments as InnerComments } from '@alilc/lowcode-designer';
+import { commentsSymbol, documentSymbol } from '../symbols';
+import { IPublicModelComments, IPublicTypeCommentThread, IPublicTypeDisposable } from '@alilc/lowcode-types';
+
+export class Comments implements IPublicModelComments {
+  private readonly [documentSymbol]: InnerDocumentModel;
+
+  private get [commentsSymbol](): InnerComments {
+    return this[documentSymbol].comments;
+  }
+
+  constructor(document: InnerDocumentModel) {
+    this[documentSymbol] = document;
+  }
+
+  /**
+   * 全部评论串
+   */
+  get threads(): IPublicTypeCommentThread[] {
+    return this[commentsSymbol].threads;
+  }
+
+  /**
+   * 获取节点上的评论串
+   * @param nodeId
+   * @returns
+   */
+  getThreads(nodeId: string): IPublicTypeCommentThread[] {
+    return this[commentsSymbol].getThreads(nodeId);
+  }
+
+  /**
+   * 获取孤立评论串
+   * @returns
+   */
+  getOrphanedThreads(): IPublicTypeCommentThread[] {
+    return this[commentsSymbol].getOrphanedThreads();
+  }
+
+  /**
+   * 评论串的节点是否已被删除
+   * @param threadId
+   * @returns
+   */
+  isOrphaned(threadId: string): boolean {
+    return this[commentsSymbol].isOrphaned(threadId);
+  }
+
+  /**
+   * 在节点上发起评论
+   * @param nodeId
+   * @param content
+   * @param author
+   * @returns
+   */
+  addThread(nodeId: string, content: string, author?: string): IPublicTypeCommentThread | null {
+    return this[commentsSymbol].addThread(nodeId, content, author);
+  }
+
+  /**
+   * 回复评论串
+   * @param threadId
+   * @param content
+   * @param author
+   * @returns
+   */
+  reply(threadId: string, content: string, author?: string): IPublicTypeCommentThread | null {
+    return this[commentsSymbol].reply(threadId, content, author);
+  }
+
+  /**
+   * 标记评论串为已解决或未解决
+   * @param threadId
+   * @param resolved
+   */
+  resolve(threadId: string, resolved?: boolean): void {
+    this[commentsSymbol].resolve(threadId, resolved);
+  }
+
+  /**
+   * 将评论串挂载到另一个节点上
+   * @param threadId
+   * @param nodeId
+   */
+  attach(threadId: string, nodeId: string): void {
+    this[commentsSymbol].attach(threadId, nodeId);
+  }
+
+  /**
+   * 删除评论串
+   * @param threadId
+   */
+  removeThread(threadId: string): void {
+    this[commentsSymbol].removeThread(threadId);
+  }
+
+  /**
+   * 删除评论串中的一条评论
+   * @param threadId
+   * @param commentId
+   */
+  removeComment(threadId: string, commentId: string): void {
+    this[commentsSymbol].removeComment(threadId, commentId);
+  }
+
+  /**
+   * 导出评论串
+   * @returns
+   */
+  export(): IPublicTypeCommentThread[] {
+    return this[commentsSymbol].export();
+  }
+
+  /**
+   * 导入评论串
+   * @param threads
+   */
+  import(threads: IPublicTypeCommentThread[]): void {
+    this[commentsSymbol].import(threads);
+  }
+
+  /**
+   * 监听评论变更事件
+   * @param fn
+   * @returns
+   */
+  onChange(fn: () => void): IPublicTypeDisposable {
+    return this[commentsSymbol].onChange(fn);
+  }
+}
@@ -14,6 +14,7 @@ import {
   IPublicModelSelection,
   IPublicModelDetecting,
   IPublicModelHistory,
+  IPublicModelComments,
   IPublicApiProject,
   IPublicModelModalNodesManager,
   IPublicTypePropChangeOptions,
@@ -22,12 +23,21 @@ import {
   IPublicTypeDisposable,
   IPublicModelEditor,
   IPublicTypeNodeSchema,
+  IPublicTypeLintProblem,
+  IPublicTypeExpressionVariable,
+  IPublicTypeExpressionCompletionResult,
+  IPublicTypeExpressionHover,
+  IPublicTypeExpressionDiagnostic,
+  IPublicTypeFieldValidationError,
+  IPublicTypeDataSourceMock,
+  IPublicTypeSchemaDiffHunk,
 } from '@alilc/lowcode-types';
 import { isDragNodeObject } from '@alilc/lowcode-utils';
 import { Node as ShellNode } from './node';
 import { Selection as ShellSelection } from './selection';
 import { Detecting as ShellDetecting } from './detecting';
 import { History as ShellHistory } from './history';
+import { Comments as ShellComments } from './comments';
 import { DropLocation as ShellDropLocation } from './drop-location';
 import { Project as ShellProject, Canvas as ShellCanvas } from '../api';
 import { Prop as ShellProp } from './prop';
@@ -43,6 +53,7 @@ export class DocumentModel implements IPublicModelDocumentModel {
   selection: IPublicModelSelection;
   detecting: IPublicModelDetecting;
   history: IPublicModelHistory;
+  comments: IPublicModelComments;
 
   /**
    * @deprecated use canvas API instead
@@ -55,6 +66,7 @@ export class DocumentModel implements IPublicModelDocumentModel {
     this.selection = new ShellSelection(document);
     this.detecting = new ShellDetecting(document);
     this.history = new ShellHistory(document);
+    this.comments = new ShellComments(document);
     this.canvas = new ShellCanvas(this[editorSymbol]);
 
     this._focusNode = ShellNode.create(this[documentSymbol].focusNode);
@@ -377,4 +389,121 @@ export class DocumentModel implements IPublicModelDocumentModel {
       },
     );
   }
+
+  /**
+   * 使用 project 中注册的 lint 规则检查当前文档
+   */
+  lint(): IPublicTypeLintProblem[] {
+    return this[documentSymbol].lint();
+  }
+
+  /**
+   * 获取表达式的作用域
+   * @param node 表达式所在节点
+   */
+  getExpressionScope(node?: IPublicModelNode | null): IPublicTypeExpressionVariable[] {
+    return this[documentSymbol].getExpressionScope((node as any)?.[nodeSymbol] || node);
+  }
+
+  /**
+   * 获取表达式在 offset 处的补全项
+   */
+  getExpressionCompletions(expression: string, offset: number, node?: IPublicModelNode | null): IPublicTypeExpressionCompletionResult {
+    return this[documentSymbol].getExpressionCompletions(expression, offset, (node as any)?.[nodeSymbol] || node);
+  }
+
+  /**
+   * 获取表达式在 offset 处的悬浮提示
+   */
+  getExpressionHover(expression: string, offset: number, node?: IPublicModelNode | null): IPublicTypeExpressionHover | null {
+    return this[documentSymbol].getExpressionHover(expression, offset, (node as any)?.[nodeSymbol] || node);
+  }
+
+  /**
+   * 检查表达式
+   */
+  getExpressionDiagnostics(expression: string, node?: IPublicModelNode | null): IPublicTypeExpressionDiagnostic[] {
+    return this[documentSymbol].getExpressionDiagnostics(expression, (node as any)?.[nodeSymbol] || node);
+  }
+
+  /**
+   * 获取文档内所有节点的属性校验错误
+   */
+  async getValidationErrors(): Promise<IPublicTypeFieldValidationError[]> {
+    return await this[documentSymbol].getValidationErrors();
+  }
+
+  /**
+   * 设计态下数据源是否使用 mock 响应
+   */
+  get dataSourceMockEnabled(): boolean {
+    return this[documentSymbol].dataSourceMockEnabled;
+  }
+
+  set dataSourceMockEnabled(enabled: boolean) {
+    this[documentSymbol].dataSourceMockEnabled = enabled;
+  }
+
+  /**
+   * 设置数据源的 mock 响应，传入 undefined 时移除
+   * @param id 数据源 id
+   * @param mock mock 响应
+   */
+  setDataSourceMock(id: string, mock: IPublicTypeDataSourceMock | undefined): boolean {
+    return this[documentSymbol].setDataSourceMock(id, mock);
+  }
+
+  /**
+   * 将画布中数据源最近一次的真实响应记录为 mock
+   * @param id 数据源 id
+   */
+  recordDataSourceMock(id: string): boolean {
+    return this[documentSymbol].recordDataSourceMock(id);
+  }
+
+  /**
+   * 对比当前文档与新版本 schema
+   * @param schema 新版本 schema
+   */
+  diffSchema(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    return this[documentSymbol].diffSchema(schema);
+  }
+
+  /**
+   * 开始对比新版本 schema
+   * @param schema 新版本 schema
+   */
+  startDiffReview(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[] {
+    return this[documentSymbol].startDiffReview(schema);
+  }
+
+  /**
+   * 对比中待处理的变化
+   */
+  get diffHunks(): IPublicTypeSchemaDiffHunk[] {
+    return this[documentSymbol].diffHunks;
+  }
+
+  /**
+   * 接受变化并应用到文档
+   * @param id 变化 id
+   */
+  acceptDiffHunk(id: string): boolean {
+    return this[documentSymbol].acceptDiffHunk(id);
+  }
+
+  /**
+   * 拒绝变化
+   * @param id 变化 id
+   */
+  rejectDiffHunk(id: string): void {
+    this[documentSymbol].rejectDiffHunk(id);
+  }
+
+  /**
+   * 结束对比
+   */
+  stopDiffReview(): void {
+    this[documentSymbol].stopDiffReview();
+  }
 }
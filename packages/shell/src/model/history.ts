@@ -1,6 +1,6 @@
 import type { IDocumentModel as InnerDocumentModel, IHistory as InnerHistory } from '@alilc/lowcode-designer';
 import { historySymbol, documentSymbol } from '../symbols';
-import { IPublicModelHistory, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { IPublicModelHistory, IPublicTypeDisposable, IPublicTypeHistoryRecord } from '@alilc/lowcode-types';
 
 export class History implements IPublicModelHistory {
   private readonly [documentSymbol]: InnerDocumentModel;
@@ -58,6 +58,33 @@ export class History implements IPublicModelHistory {
     return this[historySymbol].getState();
   }
 
+  /**
+   * 获取全部历史记录
+   * @returns
+   */
+  getRecords(): IPublicTypeHistoryRecord[] {
+    return this[historySymbol].getRecords();
+  }
+
+  /**
+   * 将当前记录标记为检查点
+   * @param name
+   */
+  createCheckpoint(name: string): void {
+    this[historySymbol].createCheckpoint(name);
+  }
+
+  /**
+   * 在一条单独的历史记录中执行变更
+   * @param label
+   * @param fn
+   * @param nodeIds
+   * @returns
+   */
+  transact<T>(label: string, fn: () => T, nodeIds?: string[]): T {
+    return this[historySymbol].transact(label, fn, nodeIds);
+  }
+
   /**
    * 监听 state 变更事件
    * @param func
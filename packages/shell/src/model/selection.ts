@@ -5,7 +5,7 @@ import {
 } from '@alilc/lowcode-designer';
 import { Node as ShellNode } from './node';
 import { selectionSymbol } from '../symbols';
-import { IPublicModelSelection, IPublicModelNode, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { IPublicModelSelection, IPublicModelNode, IPublicTypeDisposable, IPublicTypeRemoteSelection } from '@alilc/lowcode-types';
 
 export class Selection implements IPublicModelSelection {
   private readonly [selectionSymbol]: ISelection;
@@ -115,4 +115,16 @@ export class Selection implements IPublicModelSelection {
   onSelectionChange(fn: (ids: string[]) => void): IPublicTypeDisposable {
     return this[selectionSymbol].onSelectionChange(fn);
   }
+
+  /**
+   * 获取协同编辑时其他用户的选区
+   * @returns
+   */
+  getRemoteSelections(): IPublicTypeRemoteSelection[] {
+    return this[selectionSymbol].getRemoteSelections();
+  }
+
+  onRemoteSelectionChange(fn: (selections: IPublicTypeRemoteSelection[]) => void): IPublicTypeDisposable {
+    return this[selectionSymbol].onRemoteSelectionChange(fn);
+  }
 }
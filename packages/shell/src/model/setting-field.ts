@@ -297,6 +297,20 @@ export class SettingField implements IPublicModelSettingField {
     return this[settingFieldSymbol].onEffect(action);
   }
 
+  /**
+   * 最近一次校验的错误信息
+   */
+  get validationErrors(): string[] {
+    return this[settingFieldSymbol].validationErrors;
+  }
+
+  /**
+   * 校验当前值
+   */
+  validate(): Promise<string[]> {
+    return this[settingFieldSymbol].validate();
+  }
+
   /**
    * 返回 shell 模型，兼容某些场景下 field 已经是 shell field 了
    * @returns
@@ -22,6 +22,13 @@ export class SettingTopEntry implements IPublicModelSettingTopEntry {
     return ShellNode.create(this[settingTopEntrySymbol].getNode());
   }
 
+  /**
+   * 返回所有选中的节点实例
+   */
+  get nodes(): IPublicModelNode[] {
+    return this[settingTopEntrySymbol].nodes.map((node) => ShellNode.create(node)!);
+  }
+
   /**
    * 获取子级属性对象
    * @param propName
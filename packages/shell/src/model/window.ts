@@ -1,5 +1,5 @@
 import { windowSymbol } from '../symbols';
-import { IPublicModelResource, IPublicModelWindow, IPublicTypeDisposable } from '@alilc/lowcode-types';
+import { IPublicModelResource, IPublicModelWindow, IPublicTypeDisposable, IPublicTypeFieldValidationError } from '@alilc/lowcode-types';
 import { IEditorWindow } from '@alilc/lowcode-workspace';
 import { Resource as ShellResource } from './resource';
 
@@ -41,4 +41,8 @@ export class Window implements IPublicModelWindow {
   async save() {
     return await this[windowSymbol].save();
   }
+
+  async getValidationErrors(): Promise<IPublicTypeFieldValidationError[]> {
+    return await this[windowSymbol].getValidationErrors();
+  }
 }
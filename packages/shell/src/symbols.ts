@@ -34,3 +34,4 @@ export const resourceSymbol = Symbol('resource');
 export const clipboardSymbol = Symbol('clipboard');
 export const configSymbol = Symbol('configSymbol');
 export const conditionGroupSymbol = Symbol('conditionGroup');
+export const commentsSymbol = Symbol('comments');
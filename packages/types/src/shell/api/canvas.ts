@@ -1,5 +1,5 @@
-import { IPublicModelDragon, IPublicModelDropLocation, IPublicModelScrollTarget, IPublicModelScroller, IPublicModelActiveTracker, IPublicModelClipboard } from '../model';
-import { IPublicTypeLocationData, IPublicTypeScrollable } from '../type';
+import { IPublicModelDragon, IPublicModelDropLocation, IPublicModelScrollTarget, IPublicModelScroller, IPublicModelActiveTracker, IPublicModelClipboard, IPublicModelNode } from '../model';
+import { IPublicTypeLocationData, IPublicTypeScrollable, IPublicTypeNodeAlignment, IPublicTypeNodeDistribution } from '../type';
 
 /**
  * canvas - 画布 API
@@ -70,4 +70,88 @@ export interface IPublicApiCanvas {
    * @since v1.1.0
    */
   get clipboard(): IPublicModelClipboard;
+
+  /**
+   * 画布缩放比例，1 表示 100%，画布未初始化时为 1
+   *
+   * zoom level of canvas, 1 means 100%
+   * @since v1.1.7
+   */
+  get zoom(): number;
+
+  /**
+   * 对齐绝对定位（自由布局）的节点，多个节点时相对于它们的外接矩形对齐，只有一个节点时相对于父节点对齐
+   *
+   * align nodes in absolute (free) layout, nodes are aligned to their bounding box,
+   * a single node is aligned to its parent
+   * @param alignment 对齐方式
+   * @param nodes 默认为当前选中的节点
+   * @returns 节点不是自由布局或无法计算位置时返回 false
+   * @since v1.1.7
+   */
+  alignNodes(alignment: IPublicTypeNodeAlignment, nodes?: IPublicModelNode[]): boolean;
+
+  /**
+   * 均匀分布绝对定位（自由布局）的节点，首尾节点位置不变，至少需要三个节点
+   *
+   * distribute nodes in absolute (free) layout evenly, at least three nodes are required
+   * @param direction 分布方向
+   * @param nodes 默认为当前选中的节点
+   * @since v1.1.7
+   */
+  distributeNodes(direction: IPublicTypeNodeDistribution, nodes?: IPublicModelNode[]): boolean;
+
+  /**
+   * 将同一父节点下的节点编组到一个新的容器中，自由布局的节点会保持在画布中的位置
+   *
+   * group nodes with the same parent into a new container
+   * @param nodes 默认为当前选中的节点
+   * @param componentName 容器组件名，默认为 Div
+   * @returns 新建的容器节点
+   * @since v1.1.7
+   */
+  groupNodes(nodes?: IPublicModelNode[], componentName?: string): IPublicModelNode | null;
+
+  /**
+   * 解散编组，将子节点移动到编组所在位置并删除编组节点
+   *
+   * ungroup a container, move its children to its position and remove it
+   * @param node 默认为当前选中的第一个节点
+   * @returns 被移出的子节点
+   * @since v1.1.7
+   */
+  ungroupNode(node?: IPublicModelNode): IPublicModelNode[];
+
+  /**
+   * 设置画布缩放比例，范围为 0.1 ~ 4，缩放时页面的设计宽度保持不变，超出视口的部分可通过平移查看
+   *
+   * set zoom level of canvas, range from 0.1 to 4
+   * @param zoom 缩放比例，1 表示 100%
+   * @since v1.1.7
+   */
+  setZoom(zoom: number): void;
+
+  /**
+   * 放大到下一级缩放比例
+   *
+   * zoom in to the next zoom level
+   * @since v1.1.7
+   */
+  zoomIn(): void;
+
+  /**
+   * 缩小到上一级缩放比例
+   *
+   * zoom out to the previous zoom level
+   * @since v1.1.7
+   */
+  zoomOut(): void;
+
+  /**
+   * 缩放到能完整显示整个页面，最大不超过 100%
+   *
+   * zoom to fit the whole page into the canvas, no more than 100%
+   * @since v1.1.7
+   */
+  fitToScreen(): void;
 }
@@ -1,6 +1,12 @@
 
 import { Component, ReactNode } from 'react';
-import { IPublicTypeNodeSchema, IPublicTypeTitleContent } from '../type';
+import {
+  IPublicTypeNodeSchema,
+  IPublicTypeTitleContent,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeRootSchema,
+  IPublicTypeSchemaDiffHunk,
+} from '../type';
 import { IPublicEnumTransitionType } from '../enum';
 
 export interface IPublicApiCommonUtils {
@@ -50,6 +56,30 @@ export interface IPublicApiCommonUtils {
    */
   executeTransaction(fn: () => void, type: IPublicEnumTransitionType): void;
 
+  /**
+   * 将 HTML 文档转换为容器 schema，元素按规则映射为组件，样式表合并到容器的 css 字段
+   * convert html document to container schema, elements are mapped to components by rules,
+   * stylesheets are merged into css of container
+   *
+   * @param {string} html
+   * @param {IPublicTypeHtmlImportOptions} options
+   * @returns {IPublicTypeRootSchema}
+   * @since v1.1.7
+   */
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeRootSchema;
+
+  /**
+   * 对比两个版本的 schema，节点优先按 id 匹配，没有 id 的节点按结构匹配，返回新增、删除、移动及属性变化的节点
+   * diff two versions of schema, nodes are matched by id first and fall back to structural matching,
+   * returns added, removed, moved and changed nodes
+   *
+   * @param {IPublicTypeNodeSchema} before 旧版本 / base version
+   * @param {IPublicTypeNodeSchema} after 新版本 / target version
+   * @returns {IPublicTypeSchemaDiffHunk[]}
+   * @since v1.1.7
+   */
+  diffSchema(before: IPublicTypeNodeSchema, after: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[];
+
   /**
    * i18n 相关工具
    * i18n tools
@@ -1,7 +1,26 @@
-import { IPublicTypeProjectSchema, IPublicTypeDisposable, IPublicTypeRootSchema, IPublicTypePropsTransducer, IPublicTypeAppConfig } from '../type';
+import {
+  IPublicTypeProjectSchema,
+  IPublicTypeDisposable,
+  IPublicTypeRootSchema,
+  IPublicTypePropsTransducer,
+  IPublicTypeAppConfig,
+  IPublicTypeSchemaMigration,
+  IPublicTypeSchemaMigrationResult,
+  IPublicTypeSchemaMigrationReport,
+  IPublicTypeSchemaValidationResult,
+  IPublicTypeLintRule,
+  IPublicTypeReferenceTarget,
+  IPublicTypeReferenceUsage,
+  IPublicTypeRenameResult,
+  IPublicTypeBreakpoint,
+  IPublicTypeExtractComponentOptions,
+  IPublicTypeExtractComponentResult,
+  IPublicTypeHtmlImportOptions,
+  IPublicTypeNodeSchema,
+} from '../type';
 import { IPublicEnumTransformStage } from '../enum';
 import { IPublicApiSimulatorHost } from './';
-import { IPublicModelDocumentModel } from '../model';
+import { IPublicModelDocumentModel, IPublicModelNode } from '../model';
 
 export interface IBaseApiProject<
   DocumentModel
@@ -26,6 +45,20 @@ export interface IBaseApiProject<
    */
   get simulatorHost(): IPublicApiSimulatorHost | null;
 
+  /**
+   * 获取项目的响应式断点定义
+   * get responsive breakpoints of this project
+   * @since v1.1.7
+   */
+  get breakpoints(): IPublicTypeBreakpoint[];
+
+  /**
+   * 获取当前编辑的断点，即名称与画布 device 相同的断点，为 null 时编辑默认属性
+   * get breakpoint being edited, whose name equals to device of simulator, null means editing default props
+   * @since v1.1.7
+   */
+  get currentBreakpoint(): IPublicTypeBreakpoint | null;
+
   /**
    * 打开一个 document
    * open a document
@@ -73,12 +106,120 @@ export interface IBaseApiProject<
   exportSchema(stage: IPublicEnumTransformStage): IPublicTypeProjectSchema;
 
   /**
-   * 导入 project schema
-   * import schema to project
+   * 导入 project schema，导入前会根据 schema.version 自动执行已注册的迁移
+   * import schema to project, registered migrations will be run according to schema.version before importing
    * @param schema 待导入的 project 数据
    */
   importSchema(schema?: IPublicTypeProjectSchema): void;
 
+  /**
+   * 注册 schema 版本迁移
+   * register a schema migration
+   * @param migration
+   * @since v1.1.7
+   */
+  registerSchemaMigration(migration: IPublicTypeSchemaMigration): IPublicTypeDisposable;
+
+  /**
+   * 对 schema 执行已注册的迁移，不会修改传入的 schema，也不会导入到 project
+   * run registered migrations on the schema, the schema passed in will not be modified nor imported
+   * @param schema
+   * @since v1.1.7
+   */
+  migrateSchema(schema: IPublicTypeProjectSchema): IPublicTypeSchemaMigrationResult;
+
+  /**
+   * 批量试运行迁移，返回每个 schema 的迁移报告，可用于检查哪些 schema 无法升级
+   * dry run migrations on schemas, returns the migration report of each schema
+   * @param schemas
+   * @since v1.1.7
+   */
+  dryRunSchemaMigrations(schemas: IPublicTypeProjectSchema[]): IPublicTypeSchemaMigrationReport[];
+
+  /**
+   * 校验 schema 是否符合搭建协议，未传入 schema 时校验当前 project 的 schema
+   * validate schema against the low code protocol, validate the schema of current project if schema is not passed
+   * @param schema
+   * @since v1.1.7
+   */
+  validateSchema(schema?: IPublicTypeProjectSchema): IPublicTypeSchemaValidationResult;
+
+  /**
+   * 注册 lint 规则，同名规则会覆盖已有规则，document.lint() 时生效
+   * register a lint rule, rule with the same name will be replaced, takes effect in document.lint()
+   * @param rule
+   * @since v1.1.7
+   */
+  registerLintRule(rule: IPublicTypeLintRule): IPublicTypeDisposable;
+
+  /**
+   * 查找组件、state、方法、数据源或 util 在所有文档中的引用，包括声明、使用组件的节点以及 JSExpression / JSFunction 中的引用
+   * find usages of component, state, method, data source or util across documents
+   * @param target
+   * @since v1.1.7
+   */
+  findUsages(target: IPublicTypeReferenceTarget): IPublicTypeReferenceUsage[];
+
+  /**
+   * 重命名组件、state、方法、数据源或 util，并改写所有文档中的引用，每个文档内的修改只产生一条历史记录
+   * rename component, state, method, data source or util and rewrite all references across documents,
+   * changes in each document are recorded as one history record
+   * @param target
+   * @param newName
+   * @since v1.1.7
+   */
+  renameReference(target: IPublicTypeReferenceTarget, newName: string): IPublicTypeRenameResult;
+
+  /**
+   * 将同一父节点下的一个或多个节点提取为低代码组件：新建组件文档，移动子树引用的 state 和方法，
+   * 注册组件物料，并用组件节点替换原子树，可以通过撤销还原
+   * extract sibling nodes into a low-code component: create a component document, move state and methods referenced
+   * by the subtree, register the component material and replace the subtree with an instance, undoable
+   * @param nodes
+   * @param options
+   * @since v1.1.7
+   */
+  extractComponent(
+    nodes: IPublicModelNode[],
+    options?: IPublicTypeExtractComponentOptions,
+  ): IPublicTypeExtractComponentResult;
+
+  /**
+   * 将 HTML 文档导入为新的文档并打开：元素按规则映射为已注册的组件，内联样式转换为 style 属性，
+   * 样式表合并到容器的 css 字段
+   * import html document as a new document and open it: elements are mapped to registered components by rules,
+   * inline styles are converted to style props and stylesheets are merged into css of container
+   * @param html
+   * @param options
+   * @since v1.1.7
+   */
+  importHtml(html: string, options?: IPublicTypeHtmlImportOptions): DocumentModel | null;
+
+  /**
+   * 将 HTML 片段转换为节点 schema，转换规则同 importHtml，可用于粘贴 HTML 等场景
+   * convert html fragment to node schemas with the same rules as importHtml, e.g. pasting html
+   * @param html
+   * @param options
+   * @since v1.1.7
+   */
+  htmlToSchema(html: string, options?: IPublicTypeHtmlImportOptions): IPublicTypeNodeSchema[];
+
+  /**
+   * 设置项目的响应式断点定义
+   * set responsive breakpoints of this project
+   * @param breakpoints
+   * @since v1.1.7
+   */
+  setBreakpoints(breakpoints: IPublicTypeBreakpoint[]): void;
+
+  /**
+   * 切换当前编辑的断点，画布会切换到对应的 device，传入 null 切换回默认属性
+   * switch breakpoint being edited, simulator will switch to the device, pass null to edit default props
+   * @param name 断点名称
+   * @since v1.1.7
+   */
+  setCurrentBreakpoint(name: string | null): void;
+
   /**
    * 获取当前的 document
    * get current document
@@ -1,3 +1,5 @@
+import { IPublicModelNode, IPublicModelDocumentModel } from './';
+import { IPublicTypeClipboardData, IPublicTypeClipboardMergeResult } from '../type';
 
 export interface IPublicModelClipboard {
 
@@ -22,4 +24,24 @@ export interface IPublicModelClipboard {
       keyboardEvent: KeyboardEvent,
       cb: (data: any, clipboardEvent: ClipboardEvent) => void,
     ): void;
+
+  /**
+   * 生成复制节点时写入剪贴板的数据，包含节点使用的组件及引用的 state、方法和数据源
+   * create clipboard data of nodes, including components used and state, methods and data sources referenced
+   *
+   * @param nodes
+   * @since v1.1.7
+   */
+  createData(nodes: IPublicModelNode[]): IPublicTypeClipboardData;
+
+  /**
+   * 将剪贴板数据引用的 state、方法和数据源合并到目标文档，与已有成员冲突时重命名并改写节点中的引用
+   * merge state, methods and data sources referenced by clipboard data into target document,
+   * conflicting members are renamed and references in nodes are rewritten
+   *
+   * @param document
+   * @param data
+   * @since v1.1.7
+   */
+  mergeReferences(document: IPublicModelDocumentModel, data: IPublicTypeClipboardData): IPublicTypeClipboardMergeResult;
 }
@@ -0,0 +1,112 @@
+import { IPublicTypeCommentThread, IPublicTypeDisposable } from '../type';
+
+export interface IPublicModelComments {
+
+  /**
+   * 全部评论串
+   * all comment threads
+   * @since v1.1.7
+   */
+  get threads(): IPublicTypeCommentThread[];
+
+  /**
+   * 获取节点上的评论串
+   * get comment threads of node
+   * @param nodeId 节点 id
+   * @since v1.1.7
+   */
+  getThreads(nodeId: string): IPublicTypeCommentThread[];
+
+  /**
+   * 获取孤立评论串，即评论的节点已被删除的评论串
+   * get orphaned comment threads, whose nodes have been deleted
+   * @since v1.1.7
+   */
+  getOrphanedThreads(): IPublicTypeCommentThread[];
+
+  /**
+   * 评论串的节点是否已被删除
+   * whether node of comment thread has been deleted
+   * @param threadId 评论串 id
+   * @since v1.1.7
+   */
+  isOrphaned(threadId: string): boolean;
+
+  /**
+   * 在节点上发起评论，节点不存在时返回 null
+   * start a comment thread on node, returns null if node not found
+   * @param nodeId 节点 id
+   * @param content 评论内容
+   * @param author 评论人
+   * @since v1.1.7
+   */
+  addThread(nodeId: string, content: string, author?: string): IPublicTypeCommentThread | null;
+
+  /**
+   * 回复评论串，评论串不存在时返回 null
+   * reply to comment thread, returns null if thread not found
+   * @param threadId 评论串 id
+   * @param content 评论内容
+   * @param author 评论人
+   * @since v1.1.7
+   */
+  reply(threadId: string, content: string, author?: string): IPublicTypeCommentThread | null;
+
+  /**
+   * 标记评论串为已解决或未解决
+   * mark comment thread as resolved or unresolved
+   * @param threadId 评论串 id
+   * @param resolved 是否已解决，默认为 true
+   * @since v1.1.7
+   */
+  resolve(threadId: string, resolved?: boolean): void;
+
+  /**
+   * 将评论串挂载到另一个节点上，可用于重新挂载孤立评论
+   * attach comment thread to another node, can be used to reattach orphaned threads
+   * @param threadId 评论串 id
+   * @param nodeId 节点 id
+   * @since v1.1.7
+   */
+  attach(threadId: string, nodeId: string): void;
+
+  /**
+   * 删除评论串
+   * remove comment thread
+   * @param threadId 评论串 id
+   * @since v1.1.7
+   */
+  removeThread(threadId: string): void;
+
+  /**
+   * 删除评论串中的一条评论，删除第一条评论时删除整个评论串
+   * remove a comment from thread, the whole thread is removed when removing the first comment
+   * @param threadId 评论串 id
+   * @param commentId 评论 id
+   * @since v1.1.7
+   */
+  removeComment(threadId: string, commentId: string): void;
+
+  /**
+   * 导出评论串，评论不属于文档 schema，随项目 schema 的 comments 保存
+   * export comment threads, comments are not part of document schema and are saved in comments of project schema
+   * @since v1.1.7
+   */
+  export(): IPublicTypeCommentThread[];
+
+  /**
+   * 导入评论串，覆盖已有的评论串
+   * import comment threads, existing threads are replaced
+   * @param threads 评论串
+   * @since v1.1.7
+   */
+  import(threads: IPublicTypeCommentThread[]): void;
+
+  /**
+   * 监听评论变更事件
+   * listen to changes of comments
+   * @param fn 回调
+   * @since v1.1.7
+   */
+  onChange(fn: () => void): IPublicTypeDisposable;
+}
@@ -1,7 +1,7 @@
-import { IPublicTypeRootSchema, IPublicTypeDragNodeDataObject, IPublicTypeDragNodeObject, IPublicTypePropChangeOptions, IPublicTypeDisposable } from '../type';
+import { IPublicTypeRootSchema, IPublicTypeDragNodeDataObject, IPublicTypeDragNodeObject, IPublicTypePropChangeOptions, IPublicTypeDisposable, IPublicTypeLintProblem, IPublicTypeExpressionVariable, IPublicTypeExpressionCompletionResult, IPublicTypeExpressionHover, IPublicTypeExpressionDiagnostic, IPublicTypeFieldValidationError, IPublicTypeDataSourceMock, IPublicTypeSchemaDiffHunk } from '../type';
 import { IPublicEnumTransformStage } from '../enum';
 import { IPublicApiProject } from '../api';
-import { IPublicModelDropLocation, IPublicModelDetecting, IPublicModelNode, IPublicModelSelection, IPublicModelHistory, IPublicModelModalNodesManager } from './';
+import { IPublicModelDropLocation, IPublicModelDetecting, IPublicModelNode, IPublicModelSelection, IPublicModelHistory, IPublicModelModalNodesManager, IPublicModelComments } from './';
 import { IPublicTypeNodeData, IPublicTypeNodeSchema, IPublicTypeOnChangeOptions } from '@alilc/lowcode-types';
 
 export interface IPublicModelDocumentModel<
@@ -31,6 +31,13 @@ export interface IPublicModelDocumentModel<
    */
   history: History;
 
+  /**
+   * 节点评论模型实例，评论不属于 schema，需要与文档分开保存
+   * instance of node comments, comments are not part of schema and should be saved alongside the document
+   * @since v1.1.7
+   */
+  comments: IPublicModelComments;
+
   /**
    * id
    */
@@ -233,4 +240,133 @@ export interface IPublicModelDocumentModel<
    * @since v1.1.0
    */
   onDropLocationChanged(fn: (doc: IPublicModelDocumentModel) => void): IPublicTypeDisposable;
+
+  /**
+   * 使用 project 中注册的 lint 规则检查当前文档，包括 state、methods、dataSource、lifeCycles 以及所有 JSExpression / JSFunction
+   * lint current document with the lint rules registered in project
+   * @since v1.1.7
+   */
+  lint(): IPublicTypeLintProblem[];
+
+  /**
+   * 获取表达式的作用域，即表达式中 this 上可访问的成员，包括 state、methods、dataSourceMap、utils、constants、i18n 以及节点所在循环的 item / index
+   * get scope of expressions, members accessible by this in expressions
+   * @param node 表达式所在节点，用于获取循环变量
+   * @since v1.1.7
+   */
+  getExpressionScope(node?: Node | null): IPublicTypeExpressionVariable[];
+
+  /**
+   * 获取表达式在 offset 处的补全项
+   * get completions of expression at offset
+   * @param expression 表达式代码
+   * @param offset 光标位置
+   * @param node 表达式所在节点
+   * @since v1.1.7
+   */
+  getExpressionCompletions(expression: string, offset: number, node?: Node | null): IPublicTypeExpressionCompletionResult;
+
+  /**
+   * 获取表达式在 offset 处的悬浮提示
+   * get hover info of expression at offset
+   * @param expression 表达式代码
+   * @param offset 光标位置
+   * @param node 表达式所在节点
+   * @since v1.1.7
+   */
+  getExpressionHover(expression: string, offset: number, node?: Node | null): IPublicTypeExpressionHover | null;
+
+  /**
+   * 检查表达式，包括语法错误、访问不存在的成员、调用非函数成员以及使用未声明的 i18n 文案
+   * get diagnostics of expression
+   * @param expression 表达式代码
+   * @param node 表达式所在节点
+   * @since v1.1.7
+   */
+  getExpressionDiagnostics(expression: string, node?: Node | null): IPublicTypeExpressionDiagnostic[];
+
+  /**
+   * 按属性配置中的 rules / validate 校验文档内所有节点的属性，不展示的属性不校验
+   * validate props of all nodes in document by rules / validate of field configs, hidden fields are skipped
+   * @since v1.1.7
+   */
+  getValidationErrors(): Promise<IPublicTypeFieldValidationError[]>;
+
+  /**
+   * 设计态下数据源是否使用 mock 响应，没有 mock 的数据源仍然发起真实请求，不会保存到 schema 中
+   * whether data sources are resolved from mocks in design mode, not saved in schema
+   * @since v1.1.7
+   */
+  get dataSourceMockEnabled(): boolean;
+
+  /**
+   * 开启或关闭数据源 mock，画布会重新请求数据源
+   * enable or disable data source mocks, data sources in canvas will be reloaded
+   * @since v1.1.7
+   */
+  set dataSourceMockEnabled(enabled: boolean);
+
+  /**
+   * 设置数据源的 mock 响应，传入 undefined 时移除，数据源不存在时返回 false
+   * set mock response of data source, remove it if mock is undefined, returns false if data source not found
+   * @param id 数据源 id
+   * @param mock mock 响应
+   * @since v1.1.7
+   */
+  setDataSourceMock(id: string, mock: IPublicTypeDataSourceMock | undefined): boolean;
+
+  /**
+   * 将画布中数据源最近一次的真实响应记录为 mock，没有响应时返回 false
+   * record latest real response of data source in canvas as its mock, returns false if there is no response
+   * @param id 数据源 id
+   * @since v1.1.7
+   */
+  recordDataSourceMock(id: string): boolean;
+
+  /**
+   * 对比当前文档与新版本 schema，节点优先按 id 匹配，没有 id 的节点按结构匹配
+   * diff current document with schema of new version, nodes are matched by id first and fall back to structural matching
+   * @param schema 新版本 schema
+   * @since v1.1.7
+   */
+  diffSchema(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[];
+
+  /**
+   * 开始对比新版本 schema，画布上标记新增、删除及修改的节点，文档保持不变直到逐个接受变化
+   * start reviewing diff with schema of new version, changes are marked in canvas and
+   * document stays unchanged until hunks are accepted
+   * @param schema 新版本 schema
+   * @since v1.1.7
+   */
+  startDiffReview(schema: IPublicTypeNodeSchema): IPublicTypeSchemaDiffHunk[];
+
+  /**
+   * 对比中待处理的变化
+   * pending hunks of diff review
+   * @since v1.1.7
+   */
+  get diffHunks(): IPublicTypeSchemaDiffHunk[];
+
+  /**
+   * 接受变化并应用到文档，无法应用时（如目标父节点不存在）返回 false
+   * accept hunk and apply it to document, returns false if it cannot be applied (e.g. target parent not found)
+   * @param id 变化 id
+   * @since v1.1.7
+   */
+  acceptDiffHunk(id: string): boolean;
+
+  /**
+   * 拒绝变化，文档保持不变
+   * reject hunk, document stays unchanged
+   * @param id 变化 id
+   * @since v1.1.7
+   */
+  rejectDiffHunk(id: string): void;
+
+  /**
+   * 结束对比，丢弃待处理的变化
+   * stop diff review, pending hunks are discarded
+   * @since v1.1.7
+   */
+  stopDiffReview(): void;
 }
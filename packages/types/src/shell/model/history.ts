@@ -1,4 +1,4 @@
-import { IPublicTypeDisposable } from '../type';
+import { IPublicTypeDisposable, IPublicTypeHistoryRecord } from '../type';
 
 export interface IPublicModelHistory {
 
@@ -46,6 +46,31 @@ export interface IPublicModelHistory {
    */
   getState(): number;
 
+  /**
+   * 获取全部历史记录
+   * get all records in history
+   * @since v1.1.7
+   */
+  getRecords(): IPublicTypeHistoryRecord[];
+
+  /**
+   * 将当前记录标记为检查点，之后的变更会产生新的记录
+   * mark current record as a named checkpoint, later changes will be recorded in a new record
+   * @param name 检查点名称
+   * @since v1.1.7
+   */
+  createCheckpoint(name: string): void;
+
+  /**
+   * 在一条单独的历史记录中执行变更，撤销时一次撤销
+   * run changes in a separate history record, which are undone at once
+   * @param label 历史记录的描述
+   * @param fn 执行变更的函数
+   * @param nodeIds 变更涉及的节点 id
+   * @since v1.1.7
+   */
+  transact<T>(label: string, fn: () => T, nodeIds?: string[]): T;
+
   /**
    * 监听 state 变更事件
    * monitor on stateChange event
@@ -54,8 +79,8 @@ export interface IPublicModelHistory {
   onChangeState(func: () => any): IPublicTypeDisposable;
 
   /**
-   * 监听历史记录游标位置变更事件
-   * monitor on cursorChange event
+   * 监听历史记录游标位置变更事件，跳转记录或产生新的记录时触发
+   * monitor on cursorChange event, triggered when jumping to a record or a new record is created
    * @param func
    */
   onChangeCursor(func: () => any): IPublicTypeDisposable;
@@ -5,6 +5,7 @@ export * from './drag-object';
 export * from './dragon';
 export * from './drop-location';
 export * from './history';
+export * from './comments';
 export * from './locate-event';
 export * from './modal-nodes-manager';
 export * from './node-children';
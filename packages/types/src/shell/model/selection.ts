@@ -1,5 +1,5 @@
 import { IPublicModelNode } from './';
-import { IPublicTypeDisposable } from '../type';
+import { IPublicTypeDisposable, IPublicTypeRemoteSelection } from '../type';
 
 export interface IPublicModelSelection<
   Node = IPublicModelNode
@@ -82,4 +82,18 @@ export interface IPublicModelSelection<
    * @since v1.1.0
    */
   onSelectionChange(fn: (ids: string[]) => void): IPublicTypeDisposable;
+
+  /**
+   * 获取协同编辑时其他用户的选区
+   * get selections of remote users in collaborative editing
+   * @since v1.1.7
+   */
+  getRemoteSelections(): IPublicTypeRemoteSelection[];
+
+  /**
+   * 注册其他用户选区变化事件回调
+   * set callback which will be called when selections of remote users are changed
+   * @since v1.1.7
+   */
+  onRemoteSelectionChange(fn: (selections: IPublicTypeRemoteSelection[]) => void): IPublicTypeDisposable;
 }
@@ -186,6 +186,20 @@ export interface IBaseModelSettingField<
    * @returns
    */
   onEffect(action: () => void): IPublicTypeDisposable;
+
+  /**
+   * 最近一次校验的错误信息
+   * error messages of the last validation
+   * @since v1.1.7
+   */
+  get validationErrors(): string[];
+
+  /**
+   * 按 extraProps 中的 rules / validate 校验当前值
+   * validate current value by rules / validate in extraProps
+   * @since v1.1.7
+   */
+  validate(): Promise<string[]>;
 }
 
 export interface IPublicModelSettingField extends IBaseModelSettingField<
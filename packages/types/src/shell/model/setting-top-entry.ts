@@ -10,6 +10,13 @@ export interface IPublicModelSettingTopEntry<
    */
   get node(): Node | null;
 
+  /**
+   * 返回所有选中的节点实例，多选时批量编辑会同时修改这些节点
+   * all selected nodes, changes are applied to each of them when editing multiple nodes
+   * @since v1.1.7
+   */
+  get nodes(): Node[];
+
   /**
    * 获取子级属性对象
    * @param propName
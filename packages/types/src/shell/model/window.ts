@@ -1,5 +1,5 @@
 import { ReactElement } from 'react';
-import { IPublicTypeDisposable, IPublicTypeNodeSchema } from '../type';
+import { IPublicTypeDisposable, IPublicTypeFieldValidationError, IPublicTypeNodeSchema } from '../type';
 import { IPublicModelResource } from './resource';
 
 export interface IPublicModelWindow<
@@ -24,9 +24,19 @@ export interface IPublicModelWindow<
   /** 修改当前窗口视图类型 */
   changeViewType(viewName: string): void;
 
-  /** 调用当前窗口视图保存钩子 */
+  /**
+   * 调用当前窗口视图保存钩子，存在属性校验错误时不保存，返回的 Promise 会 reject，错误对象上的 validationErrors 为校验错误
+   * call save hooks of editor views, rejects with an error carrying validationErrors when props are invalid
+   */
   save(): Promise<any>;
 
+  /**
+   * 获取当前窗口内所有文档的属性校验错误
+   * get validation errors of all documents in current window
+   * @since v1.1.7
+   */
+  getValidationErrors(): Promise<IPublicTypeFieldValidationError[]>;
+
   /** 窗口视图变更事件 */
   onChangeViewType(fn: (viewName: string) => void): IPublicTypeDisposable;
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { IPublicTypeI18nData, IPublicTypePropsMap } from './';
+
+/**
+ * 响应式断点定义
+ * definition of responsive breakpoint
+ */
+export interface IPublicTypeBreakpoint {
+
+  /**
+   * 断点名称，同时作为画布的 device，画布切换到该 device 时编辑该断点的属性
+   * name of breakpoint, also used as device of simulator
+   */
+  name: string;
+
+  /**
+   * 断点标题
+   * title of breakpoint
+   */
+  title?: string | IPublicTypeI18nData;
+
+  /**
+   * 运行时视口宽度不小于该值时生效
+   * effective when viewport width is not less than minWidth at runtime
+   */
+  minWidth?: number;
+
+  /**
+   * 运行时视口宽度不大于该值时生效
+   * effective when viewport width is not greater than maxWidth at runtime
+   */
+  maxWidth?: number;
+}
+
+/**
+ * 节点在各断点下的属性覆盖值，key 为断点名称
+ * props overrides of node for each breakpoint, keyed by breakpoint name
+ */
+export type IPublicTypeResponsiveProps = Record<string, IPublicTypePropsMap>;
@@ -0,0 +1,85 @@
+import { InterpretDataSource as DataSource } from '@alilc/lowcode-datasource-types';
+import { IPublicTypeComponentsMap } from './npm';
+import { IPublicTypeCompositeValue } from './composite-value';
+import { IPublicTypeJSFunction } from './value-type';
+import { IPublicTypeNodeSchema } from './node-schema';
+
+/**
+ * 复制的节点引用的容器成员，粘贴到其他文档时可以合并到目标文档中
+ */
+export interface IPublicTypeClipboardReferences {
+
+  /**
+   * 复制时节点所在的文档 id，粘贴到同一文档时不需要合并
+   * id of the document where nodes are copied from
+   */
+  documentId?: string;
+
+  /**
+   * 引用的 state
+   * referenced state
+   */
+  state?: Record<string, IPublicTypeCompositeValue>;
+
+  /**
+   * 引用的方法
+   * referenced methods
+   */
+  methods?: Record<string, IPublicTypeJSFunction>;
+
+  /**
+   * 引用的数据源
+   * referenced data sources
+   */
+  dataSource?: DataSource['list'];
+}
+
+/**
+ * 复制节点时写入剪贴板的数据
+ */
+export interface IPublicTypeClipboardData {
+  type: 'nodeSchema';
+
+  /**
+   * 节点使用的组件
+   * components used by the nodes
+   */
+  componentsMap: IPublicTypeComponentsMap;
+
+  componentsTree: IPublicTypeNodeSchema[];
+
+  references?: IPublicTypeClipboardReferences;
+}
+
+/**
+ * 合并到目标文档的容器成员
+ */
+export interface IPublicTypeClipboardMergedReference {
+  type: 'state' | 'method' | 'dataSource';
+
+  name: string;
+
+  /**
+   * 与目标文档中已有的成员冲突时重命名后的名称
+   * new name if renamed because of conflict with the target document
+   */
+  newName?: string;
+}
+
+/**
+ * 合并剪贴板引用的结果
+ */
+export interface IPublicTypeClipboardMergeResult {
+
+  /**
+   * 按重命名改写引用后的节点
+   * nodes with references rewritten by renames
+   */
+  componentsTree: IPublicTypeNodeSchema[];
+
+  /**
+   * 合并到目标文档的成员，与目标文档中完全相同的成员不会被合并
+   * members merged into the target document, identical members are skipped
+   */
+  merged: IPublicTypeClipboardMergedReference[];
+}
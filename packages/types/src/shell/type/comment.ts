@@ -0,0 +1,67 @@
+/**
+ * 节点评论
+ * comment of node
+ */
+export interface IPublicTypeComment {
+
+  /**
+   * 评论 id
+   * id of comment
+   */
+  id: string;
+
+  /**
+   * 评论内容
+   * content of comment
+   */
+  content: string;
+
+  /**
+   * 评论人
+   * author of comment
+   */
+  author?: string;
+
+  /**
+   * 创建时间戳
+   * timestamp when comment is created
+   */
+  createdAt: number;
+}
+
+/**
+ * 挂载在节点上的评论串，第一条评论为发起的评论，其余为回复
+ * comment thread attached to node, the first comment starts the thread and the rest are replies
+ */
+export interface IPublicTypeCommentThread {
+
+  /**
+   * 评论串 id
+   * id of thread
+   */
+  id: string;
+
+  /**
+   * 评论的节点 id，节点被删除后评论串成为孤立评论，不会被删除
+   * id of commented node, thread becomes orphaned instead of removed when node is deleted
+   */
+  nodeId: string;
+
+  /**
+   * 发起评论时节点的组件名，节点被删除后用于展示
+   * componentName of node when thread is started, used for display after node is deleted
+   */
+  componentName?: string;
+
+  /**
+   * 是否已解决
+   * whether thread is resolved
+   */
+  resolved: boolean;
+
+  /**
+   * 评论列表
+   * comments of thread
+   */
+  comments: IPublicTypeComment[];
+}
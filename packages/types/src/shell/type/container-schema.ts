@@ -5,6 +5,7 @@ import {
   IPublicTypeCompositeObject,
   IPublicTypeCompositeValue,
   IPublicTypeNodeSchema,
+  IPublicTypeGuide,
 } from './';
 
 /**
@@ -54,4 +55,9 @@ export interface IPublicTypeContainerSchema extends IPublicTypeNodeSchema {
    * 低代码业务组件默认属性
    */
   defaultProps?: IPublicTypeCompositeObject;
+  /**
+   * 画布参考线，开启画布吸附后可从标尺拖出
+   * @since v1.1.7
+   */
+  guides?: IPublicTypeGuide[];
 }
@@ -0,0 +1,9 @@
+import { IPublicTypeJSONValue, IPublicTypeJSExpression, IPublicTypeJSFunction } from './value-type';
+
+/**
+ * 数据源的 mock 响应，设计态下开启数据源 mock 时代替真实请求的响应，仍会经过 dataHandler 处理：
+ * - 静态 JSON 直接作为响应
+ * - JSExpression 的计算结果作为响应
+ * - JSFunction 作为生成函数，以请求参数 (params, options) 调用，返回值（可以是 Promise）作为响应
+ */
+export type IPublicTypeDataSourceMock = IPublicTypeJSONValue | IPublicTypeJSExpression | IPublicTypeJSFunction;
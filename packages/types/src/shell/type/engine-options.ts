@@ -1,5 +1,7 @@
 import { RequestHandlersMap } from '@alilc/lowcode-datasource-types';
 import { ComponentType } from 'react';
+import { IPublicTypeExpressionEvaluator, IPublicTypeExpressionEvaluatorType } from './expression-evaluator';
+import { IPublicTypeClipboardReferences } from './clipboard-data';
 
 export interface IPublicTypeEngineOptions {
   /**
@@ -81,16 +83,78 @@ export interface IPublicTypeEngineOptions {
    */
   disableDefaultSettingPanel?: boolean;
 
+  /**
+   * 开启问题面板，展示 document.lint() 检查出的问题，默认值：false
+   * @since v1.1.7
+   */
+  enableProblemsPane?: boolean;
+
+  /**
+   * 开启数据源 mock 面板，可编辑数据源的 mock 响应并切换画布是否使用 mock 数据，默认值：false
+   * @since v1.1.7
+   */
+  enableDataSourceMockPane?: boolean;
+
+  /**
+   * 开启评论面板，可在节点上发起评论、回复及解决评论，默认值：false
+   * @since v1.1.7
+   */
+  enableCommentsPane?: boolean;
+
+  /**
+   * 开启 schema 对比面板，可与新版本 schema 对比并在画布上标记变化，逐个接受或拒绝，默认值：false
+   * @since v1.1.7
+   */
+  enableSchemaDiffPane?: boolean;
+
   /**
    * 禁止默认的设置器，默认值：false
    */
   disableDefaultSetters?: boolean;
 
+  /**
+   * 关闭粘贴时合并节点引用的 state、方法及数据源，默认值：false
+   * @since v1.1.7
+   */
+  disableClipboardReferenceMerge?: boolean;
+
+  /**
+   * 粘贴从其他文档复制的节点前确认是否合并其引用的 state、方法及数据源，可在其中弹窗询问用户，
+   * 返回 false 时只粘贴节点，不合并引用；未配置时直接合并，默认值：undefined
+   * @since v1.1.7
+   */
+  confirmClipboardReferenceMerge?: (references: IPublicTypeClipboardReferences) => boolean | Promise<boolean>;
+
+  /**
+   * 粘贴的内容不是节点时，将剪贴板中的 HTML 转换为节点，只使用物料已注册的组件，默认值：false
+   * @since v1.1.7
+   */
+  enableHtmlPaste?: boolean;
+
   /**
    * 打开画布的锁定操作，默认值：false
    */
   enableCanvasLock?: boolean;
 
+  /**
+   * 在画布缩放工具条上方展示页面缩略图，默认值：false
+   * @since v1.1.7
+   */
+  enableCanvasMinimap?: boolean;
+
+  /**
+   * 开启画布标尺、参考线及吸附，拖动和缩放节点时吸附到兄弟节点、父节点及参考线，
+   * 此时拖动绝对定位（自由布局）的节点会直接修改其位置，默认值：false
+   * @since v1.1.7
+   */
+  enableCanvasSnapping?: boolean;
+
+  /**
+   * 吸附距离，单位为屏幕像素，默认值：5
+   * @since v1.1.7
+   */
+  canvasSnapThreshold?: number;
+
   /**
    * 容器锁定后，容器本身是否可以设置属性，仅当画布锁定特性开启时生效，默认值为：false
    */
@@ -153,6 +217,13 @@ export interface IPublicTypeEngineOptions {
    */
   thisRequiredInJSE?: boolean;
 
+  /**
+   * 画布中 JSExpression / JSFunction 的求值器，默认值：'function'
+   * 设置为 'interpreter' 时不使用 new Function，可在开启严格 Content-Security-Policy 的环境中使用
+   * @since v1.1.7
+   */
+  expressionEvaluator?: IPublicTypeExpressionEvaluatorType | IPublicTypeExpressionEvaluator;
+
   /**
    * @default false
    * 当开启组件未找到严格模式时，渲染模块不会默认给一个容器组件
@@ -168,6 +239,14 @@ export interface IPublicTypeEngineOptions {
    * 开启应用级设计模式
    */
   enableWorkspaceMode?: boolean;
+
+  /**
+   * 历史记录模式，默认值：'snapshot'
+   *  - snapshot: 每次变更记录整个文档的快照，撤销时重新导入整个文档
+   *  - patch: 记录节点增删移动、属性设置等结构化操作，撤销时增量应用，适合节点较多的页面
+   * @default 'snapshot'
+   */
+  historyMode?: 'snapshot' | 'patch';
 }
 
 /**
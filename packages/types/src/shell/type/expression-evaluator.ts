@@ -0,0 +1,31 @@
+/**
+ * 表达式求值器，用于对 JSExpression / JSFunction 求值
+ * evaluator of JSExpression / JSFunction
+ */
+export interface IPublicTypeExpressionEvaluator {
+
+  /**
+   * 对表达式求值，表达式中的 this 指向 self，thisRequired 为 false 时可以省略 this 直接访问 self 上的属性
+   * evaluate expression, `this` in expression refers to self, properties of self can be accessed without `this` if thisRequired is false
+   */
+  evaluate(code: string, self: any, thisRequired?: boolean): any;
+
+  /**
+   * 将函数字符串转换为函数，函数中的 this 为调用时的 this
+   * transform function in string form to a function, `this` in function is the one when it is called
+   */
+  toFunction(code: string): any;
+
+  /**
+   * 将表达式编译为以 self 为参数的求值函数，渲染模块会按表达式缓存编译结果，未实现时每次调用 evaluate 求值
+   * compile expression into a function which takes self as argument, the compiled function will be cached by renderer
+   * @since v1.1.7
+   */
+  compile?(code: string, thisRequired?: boolean): (self: any) => any;
+}
+
+/**
+ * 内置的表达式求值器，function 使用 new Function 求值，interpreter 使用解释器求值，不依赖 new Function，只能访问白名单中的全局变量
+ * builtin evaluators, `function` evaluates with new Function, `interpreter` evaluates without new Function and can only access whitelisted globals
+ */
+export type IPublicTypeExpressionEvaluatorType = 'function' | 'interpreter';
@@ -0,0 +1,124 @@
+/**
+ * 表达式作用域中变量的来源
+ */
+export type IPublicTypeExpressionVariableKind =
+  'state' |
+  'method' |
+  'dataSource' |
+  'util' |
+  'constant' |
+  'i18n' |
+  'loop' |
+  'slot' |
+  'context';
+
+/**
+ * 表达式作用域中的变量，即 this 上可访问的成员
+ */
+export interface IPublicTypeExpressionVariable {
+
+  /**
+   * 变量名
+   * name of the variable
+   */
+  name: string;
+
+  /**
+   * 变量来源
+   * where the variable comes from
+   */
+  kind: IPublicTypeExpressionVariableKind;
+
+  /**
+   * 变量类型，如 string、number、boolean、array、object、function，无法推断时为 any
+   * type of the variable, any if it can not be inferred
+   */
+  type: string;
+
+  /**
+   * 变量描述
+   * description of the variable
+   */
+  description?: string;
+
+  /**
+   * 成员，未声明时表示成员未知，不会对其成员做检查
+   * members of the variable, undefined means members are unknown and will not be checked
+   */
+  members?: IPublicTypeExpressionVariable[];
+}
+
+/**
+ * 表达式中的位置区间，start 包含，end 不包含
+ */
+export interface IPublicTypeExpressionRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 表达式补全项
+ */
+export interface IPublicTypeExpressionCompletionItem {
+
+  /**
+   * 展示及插入的文本
+   * text to display and insert
+   */
+  label: string;
+
+  kind: IPublicTypeExpressionVariableKind;
+
+  type: string;
+
+  description?: string;
+}
+
+/**
+ * 表达式补全结果，选中补全项后使用 label 替换 range 内的文本
+ */
+export interface IPublicTypeExpressionCompletionResult {
+
+  /**
+   * 需要被替换的区间，即光标前已输入的部分
+   * range to be replaced by the label of the selected item
+   */
+  range: IPublicTypeExpressionRange;
+
+  items: IPublicTypeExpressionCompletionItem[];
+}
+
+/**
+ * 表达式悬浮提示
+ */
+export interface IPublicTypeExpressionHover {
+
+  /**
+   * 悬浮的访问路径所在区间
+   * range of the hovered identifier
+   */
+  range: IPublicTypeExpressionRange;
+
+  /**
+   * 访问路径，如 this.state.list
+   * access path, such as this.state.list
+   */
+  path: string;
+
+  variable: IPublicTypeExpressionVariable;
+}
+
+/**
+ * 表达式诊断信息
+ */
+export interface IPublicTypeExpressionDiagnostic {
+  range: IPublicTypeExpressionRange;
+
+  message: string;
+
+  /**
+   * 语法错误为 error，其余为 warning
+   * syntax errors are error, others are warning
+   */
+  level: 'error' | 'warning';
+}
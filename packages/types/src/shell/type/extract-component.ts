@@ -0,0 +1,96 @@
+/**
+ * 提取为组件时，将子树内节点的属性转为组件的属性
+ */
+export interface IPublicTypeExtractComponentProp {
+
+  /**
+   * 属性所在节点 id
+   * id of the node in the subtree
+   */
+  nodeId: string;
+
+  /**
+   * 节点上的属性名
+   * prop name on the node
+   */
+  prop: string;
+
+  /**
+   * 组件的属性名，默认与节点上的属性名相同
+   * prop name of the new component, defaults to the prop name on the node
+   */
+  name?: string;
+}
+
+export interface IPublicTypeExtractComponentOptions {
+
+  /**
+   * 新组件的组件名，同时作为组件文档的 fileName，默认自动生成
+   * componentName of the new component, also used as fileName of the component document
+   */
+  componentName?: string;
+
+  /**
+   * 新组件的标题
+   * title of the new component
+   */
+  title?: string;
+
+  /**
+   * 转为组件属性的节点属性
+   * node props to be turned into component props
+   */
+  props?: IPublicTypeExtractComponentProp[];
+}
+
+/**
+ * 提取为组件的结果
+ */
+export interface IPublicTypeExtractComponentResult {
+
+  /**
+   * 是否提取成功，失败时不会做任何修改
+   * whether the extraction succeeded, nothing is changed if failed
+   */
+  success: boolean;
+
+  /**
+   * 新组件的组件名
+   */
+  componentName?: string;
+
+  /**
+   * 新组件文档的 id
+   * id of the component document
+   */
+  documentId?: string;
+
+  /**
+   * 替换原子树的组件节点 id
+   * id of the node that replaces the subtree
+   */
+  nodeId?: string;
+
+  /**
+   * 移动到组件中的 state
+   * state moved into the component
+   */
+  state?: string[];
+
+  /**
+   * 移动到组件中的方法
+   * methods moved into the component
+   */
+  methods?: string[];
+
+  /**
+   * 复制到组件中的数据源 id，源文档中不再被引用的数据源会被移除
+   * ids of data sources copied into the component, the ones no longer referenced are removed from the source document
+   */
+  dataSource?: string[];
+
+  /**
+   * 失败原因
+   */
+  error?: string;
+}
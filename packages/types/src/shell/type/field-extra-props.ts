@@ -1,5 +1,5 @@
 import { IPublicModelSettingField } from '../model';
-import { IPublicTypeLiveTextEditingConfig } from './';
+import { IPublicTypeLiveTextEditingConfig, IPublicTypeFieldValidationRule, IPublicTypeFieldValidator } from './';
 
 /**
  * extra props for field
@@ -83,4 +83,18 @@ export interface IPublicTypeFieldExtraProps {
    * onChange 事件
    */
   onChange?: (value: any, field: any) => void;
+
+  /**
+   * 校验规则，值变化时校验，错误信息会展示在 setter 下方
+   * validation rules, evaluated when value changes and errors are shown under the setter
+   * @since v1.1.7
+   */
+  rules?: IPublicTypeFieldValidationRule[];
+
+  /**
+   * 自定义校验，等同于只包含 validator 的 rules
+   * custom validator, same as a rule with only validator
+   * @since v1.1.7
+   */
+  validate?: IPublicTypeFieldValidator;
 }
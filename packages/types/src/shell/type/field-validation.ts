@@ -0,0 +1,85 @@
+import { IPublicModelSettingField } from '../model';
+
+/**
+ * 属性校验器，返回字符串或 false 表示校验不通过，字符串会作为错误信息展示
+ * validator of prop value, return a string or false when the value is invalid,
+ * the string will be used as error message
+ */
+export type IPublicTypeFieldValidator = (
+  value: any,
+  field: IPublicModelSettingField,
+) => string | boolean | undefined | Promise<string | boolean | undefined>;
+
+/**
+ * 属性校验规则
+ * validation rule of prop value
+ */
+export interface IPublicTypeFieldValidationRule {
+
+  /**
+   * 是否必填，值为 undefined、null、空字符串或空数组时不通过
+   * required, undefined / null / empty string / empty array are invalid
+   */
+  required?: boolean;
+
+  /**
+   * 最小值，值为字符串或数组时校验长度
+   * minimum value, validate length when value is a string or an array
+   */
+  min?: number;
+
+  /**
+   * 最大值，值为字符串或数组时校验长度
+   * maximum value, validate length when value is a string or an array
+   */
+  max?: number;
+
+  /**
+   * 正则校验
+   * regular expression to test the value
+   */
+  pattern?: RegExp | string;
+
+  /**
+   * 可选值列表
+   * allowed values
+   */
+  enum?: any[];
+
+  /**
+   * 自定义校验，支持异步
+   * custom validator, can be async
+   */
+  validator?: IPublicTypeFieldValidator;
+
+  /**
+   * 校验不通过时的错误信息
+   * error message when the rule fails
+   */
+  message?: string;
+}
+
+/**
+ * 文档校验错误
+ * validation error of document
+ */
+export interface IPublicTypeFieldValidationError {
+
+  /**
+   * 节点 id
+   * id of the node
+   */
+  nodeId: string;
+
+  /**
+   * 属性路径
+   * path of the prop, like `style.width`
+   */
+  path: string;
+
+  /**
+   * 错误信息
+   * error message
+   */
+  message: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * 画布参考线，horizontal 为水平线，position 为其在页面中的 y 坐标，vertical 为垂直线，position 为 x 坐标
+ * guide line of canvas, position is y of a horizontal guide or x of a vertical guide in page
+ */
+export interface IPublicTypeGuide {
+
+  /**
+   * 参考线方向
+   * direction of guide
+   */
+  direction: 'horizontal' | 'vertical';
+
+  /**
+   * 参考线在页面中的位置，单位为 px
+   * position of guide in page, in px
+   */
+  position: number;
+}
@@ -0,0 +1,41 @@
+/**
+ * 历史记录
+ */
+export interface IPublicTypeHistoryRecord {
+
+  /**
+   * 记录所在的游标位置，可传给 history.go 跳转到该记录
+   * cursor of the record, can be passed to history.go
+   */
+  cursor: number;
+
+  /**
+   * 变更描述，如 "Set prop title on Button_1"
+   * description of the changes in the record
+   */
+  label: string;
+
+  /**
+   * 记录最后一次变更的时间戳
+   * timestamp of the last change in the record
+   */
+  timestamp: number;
+
+  /**
+   * 受影响的节点 id
+   * ids of the nodes affected by the record
+   */
+  nodeIds: string[];
+
+  /**
+   * 检查点名称，通过 history.createCheckpoint 设置
+   * name of the checkpoint, set by history.createCheckpoint
+   */
+  checkpoint?: string;
+
+  /**
+   * 是否为当前所在的记录
+   * whether the record is the current one
+   */
+  isCurrent: boolean;
+}
@@ -0,0 +1,61 @@
+import { IPublicTypePropsMap } from './props-map';
+
+/**
+ * HTML 元素到组件的映射规则
+ */
+export interface IPublicTypeHtmlImportRule {
+
+  /**
+   * 匹配元素的 CSS 选择器
+   * css selector of elements to match
+   */
+  selector: string;
+
+  /**
+   * 匹配的元素转换为的组件名
+   * component name of matched elements
+   */
+  componentName: string;
+
+  /**
+   * 生成组件属性，默认将元素属性及内联样式转换为组件属性
+   * create props of component, attributes and inline style of element are converted by default
+   */
+  props?: (element: Element) => IPublicTypePropsMap;
+
+  /**
+   * 元素只包含文本时，文本内容对应的属性名，默认为 children
+   * prop name of text content when element contains text only, default to children
+   */
+  textProp?: string;
+}
+
+/**
+ * 导入 HTML 的配置
+ */
+export interface IPublicTypeHtmlImportOptions {
+
+  /**
+   * 元素到组件的映射规则，按顺序匹配，使用第一个匹配的规则
+   * rules mapping elements to components, the first matched rule is used
+   */
+  rules?: IPublicTypeHtmlImportRule[];
+
+  /**
+   * 没有匹配规则的元素转换为的组件名，默认为 Div
+   * component name of elements without matched rules, default to Div
+   */
+  defaultComponentName?: string;
+
+  /**
+   * 容器组件名，默认为 Page
+   * component name of container, default to Page
+   */
+  componentName?: string;
+
+  /**
+   * 容器的文件名
+   * file name of container
+   */
+  fileName?: string;
+}
@@ -90,3 +90,21 @@ export * from './editor-view-config';
 export * from './hotkey-callback-config';
 export * from './hotkey-callbacks';
 export * from './scrollable';
+export * from './history-record';
+export * from './remote-selection';
+export * from './schema-migration';
+export * from './schema-diagnostic';
+export * from './lint';
+export * from './expression-service';
+export * from './reference-usage';
+export * from './node-layout';
+export * from './field-validation';
+export * from './breakpoint';
+export * from './guide';
+export * from './extract-component';
+export * from './clipboard-data';
+export * from './html-import';
+export * from './data-source-mock';
+export * from './comment';
+export * from './schema-diff';
+export * from './expression-evaluator';
@@ -0,0 +1,117 @@
+import { IPublicTypeContainerSchema, IPublicTypeNodeSchema } from './';
+import { IPublicTypeSchemaDiagnostic } from './schema-diagnostic';
+
+/**
+ * lint 检查出的问题
+ */
+export interface IPublicTypeLintProblem extends IPublicTypeSchemaDiagnostic {
+
+  /**
+   * 问题所在的节点 id，容器上的 state、methods 等问题对应容器节点
+   * id of the node where the problem is
+   */
+  nodeId?: string;
+}
+
+/**
+ * schema 中的节点
+ */
+export interface IPublicTypeLintNode {
+
+  /**
+   * 节点 schema
+   */
+  schema: IPublicTypeNodeSchema;
+
+  /**
+   * 节点在容器 schema 中的 JSON 路径
+   */
+  path: string;
+}
+
+/**
+ * schema 中的 JSExpression / JSFunction
+ */
+export interface IPublicTypeLintExpression {
+  type: 'JSExpression' | 'JSFunction';
+
+  /**
+   * 表达式代码
+   */
+  value: string;
+
+  /**
+   * 所在节点 id
+   */
+  nodeId?: string;
+
+  /**
+   * 在容器 schema 中的 JSON 路径
+   */
+  path: string;
+}
+
+/**
+ * lint 规则的执行上下文
+ */
+export interface IPublicTypeLintContext {
+
+  /**
+   * 被检查的容器 schema，包括 state、methods、dataSource、lifeCycles
+   * the container schema being linted
+   */
+  schema: IPublicTypeContainerSchema;
+
+  /**
+   * 容器内的所有节点，包括插槽内的节点
+   * all nodes in the container, including nodes in slots
+   */
+  nodes: IPublicTypeLintNode[];
+
+  /**
+   * 容器内的所有 JSExpression / JSFunction，包括 state、methods、lifeCycles、dataSource 中的
+   * all JSExpression / JSFunction values in the container
+   */
+  expressions: IPublicTypeLintExpression[];
+
+  /**
+   * 报告问题，level 默认为规则的 level
+   * report a problem, level defaults to the level of the rule
+   */
+  report(problem: {
+    message: string;
+    nodeId?: string;
+    path?: string;
+    level?: 'error' | 'warning';
+  }): void;
+}
+
+/**
+ * lint 规则
+ */
+export interface IPublicTypeLintRule {
+
+  /**
+   * 规则名，注册同名规则会覆盖已有规则
+   * name of the rule, rule with the same name will be replaced
+   */
+  name: string;
+
+  /**
+   * 规则描述
+   * description of the rule
+   */
+  description?: string;
+
+  /**
+   * 问题的默认级别，默认为 warning
+   * default level of the problems, defaults to warning
+   */
+  level?: 'error' | 'warning';
+
+  /**
+   * 检查函数
+   * lint function
+   */
+  lint(context: IPublicTypeLintContext): void;
+}
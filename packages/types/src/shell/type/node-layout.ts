@@ -0,0 +1,11 @@
+/**
+ * 节点对齐方式，left / center / right 为水平方向，top / middle / bottom 为垂直方向
+ * alignment of nodes, left / center / right are horizontal, top / middle / bottom are vertical
+ */
+export type IPublicTypeNodeAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * 节点均匀分布的方向
+ * direction to distribute nodes evenly
+ */
+export type IPublicTypeNodeDistribution = 'horizontal' | 'vertical';
@@ -1,4 +1,4 @@
-import { IPublicTypeCompositeValue, IPublicTypePropsMap, IPublicTypeNodeData } from './';
+import { IPublicTypeCompositeValue, IPublicTypePropsMap, IPublicTypeNodeData, IPublicTypeResponsiveProps } from './';
 
 // 转换成一个 .jsx 文件内 React Class 类 render 函数返回的 jsx 代码
 /**
@@ -41,6 +41,10 @@ export interface IPublicTypeNodeSchema {
    * 是否锁定
    */
   isLocked?: boolean;
+  /**
+   * 各断点下的属性覆盖值，对象类型的属性（如 style）与默认值浅合并，其他属性直接覆盖
+   */
+  responsive?: IPublicTypeResponsiveProps;
 
   // @todo
   // ------- future support -----
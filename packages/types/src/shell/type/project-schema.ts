@@ -1,5 +1,5 @@
 import { InterpretDataSource as DataSource } from '@alilc/lowcode-datasource-types';
-import { IPublicTypeJSONObject, IPublicTypeRootSchema, IPublicTypeI18nMap, IPublicTypeAppConfig, IPublicTypeComponentsMap, IPublicTypeJSExpression, IPublicTypeJSFunction, IPublicTypeNpmInfo } from './';
+import { IPublicTypeJSONObject, IPublicTypeRootSchema, IPublicTypeI18nMap, IPublicTypeAppConfig, IPublicTypeComponentsMap, IPublicTypeJSExpression, IPublicTypeJSFunction, IPublicTypeNpmInfo, IPublicTypeBreakpoint, IPublicTypeCommentThread } from './';
 
 export interface IPublicTypeInternalUtils {
   name: string;
@@ -65,4 +65,13 @@ export interface IPublicTypeProjectSchema<T = IPublicTypeRootSchema> {
    * 当前应用元数据信息
    */
   meta?: Record<string, any>;
+  /**
+   * 响应式断点定义
+   */
+  breakpoints?: IPublicTypeBreakpoint[];
+  /**
+   * 节点评论，以文档的 fileName 为 key，不参与渲染
+   * @since v1.1.7
+   */
+  comments?: Record<string, IPublicTypeCommentThread[]>;
 }
@@ -0,0 +1,90 @@
+/**
+ * 可被引用的目标
+ * - component: 组件，按 componentName 匹配节点，包括由其他文档定义的区块、低代码组件
+ * - state / method / dataSource: 文档容器上的 state、methods、dataSource，按 this.state.xxx、this.xxx、this.dataSourceMap.xxx 匹配表达式
+ * - util: 项目的 utils，按 this.utils.xxx 匹配表达式
+ */
+export interface IPublicTypeReferenceTarget {
+  type: 'component' | 'state' | 'method' | 'dataSource' | 'util';
+
+  /**
+   * 组件名、state 名、方法名、数据源 id 或 util 名
+   * name of the target
+   */
+  name: string;
+
+  /**
+   * state、method、dataSource 所属的文档 id，不传时查找所有文档
+   * id of the document where state, method or dataSource is declared, all documents are searched if not passed
+   */
+  documentId?: string;
+}
+
+/**
+ * 引用位置
+ */
+export interface IPublicTypeReferenceUsage {
+
+  /**
+   * 引用所在文档 id
+   * id of the document where the reference is
+   */
+  documentId: string;
+
+  /**
+   * 引用所在文档的 fileName
+   */
+  fileName: string;
+
+  /**
+   * 引用所在节点 id
+   * id of the node where the reference is
+   */
+  nodeId?: string;
+
+  /**
+   * 引用在文档 schema 中的 JSON 路径（JSON Pointer）
+   * JSON path (JSON Pointer) of the reference in document schema
+   */
+  path: string;
+
+  /**
+   * 引用类型
+   * - declaration: 声明，如 state 中的 key、数据源的 id、定义组件的文档
+   * - node: 使用组件的节点
+   * - expression: JSExpression / JSFunction 中的引用
+   */
+  kind: 'declaration' | 'node' | 'expression';
+
+  /**
+   * kind 为 expression 时，引用在表达式代码中的位置，start 包含，end 不包含
+   * position of the reference in expression code
+   */
+  range?: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * 重命名结果
+ */
+export interface IPublicTypeRenameResult {
+
+  /**
+   * 是否重命名成功，新名称不合法或已被占用时失败，此时不会做任何修改
+   * whether the rename succeeded, nothing is changed if failed
+   */
+  success: boolean;
+
+  /**
+   * 被改写的引用
+   * usages that have been rewritten
+   */
+  usages: IPublicTypeReferenceUsage[];
+
+  /**
+   * 失败原因
+   */
+  error?: string;
+}
@@ -0,0 +1,29 @@
+/**
+ * 协同编辑时其他用户的选区
+ */
+export interface IPublicTypeRemoteSelection {
+
+  /**
+   * 用户 id
+   * id of the remote user
+   */
+  userId: string;
+
+  /**
+   * 用户名称
+   * name of the remote user
+   */
+  userName?: string;
+
+  /**
+   * 用户标识色，用于绘制光标和选区
+   * color of the remote user, used to draw cursor and selection
+   */
+  color?: string;
+
+  /**
+   * 选中的节点 id
+   * ids of nodes selected by the remote user
+   */
+  selected: string[];
+}
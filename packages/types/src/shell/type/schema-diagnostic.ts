@@ -0,0 +1,47 @@
+/**
+ * schema 校验问题
+ */
+export interface IPublicTypeSchemaDiagnostic {
+
+  /**
+   * 问题所在位置的 JSON 路径（JSON Pointer），如 /componentsTree/0/children/1/props/loopArgs
+   * JSON path (JSON Pointer) of the problem
+   */
+  path: string;
+
+  /**
+   * 问题描述
+   * description of the problem
+   */
+  message: string;
+
+  /**
+   * 问题级别，error 会导致 schema 无法正常加载，warning 不影响加载
+   * severity of the problem
+   */
+  level: 'error' | 'warning';
+
+  /**
+   * 产生问题的规则，如 protocol、unique-id、components-map
+   * rule that reported the problem
+   */
+  rule: string;
+}
+
+/**
+ * schema 校验结果
+ */
+export interface IPublicTypeSchemaValidationResult {
+
+  /**
+   * 是否不存在 error 级别的问题
+   * whether there is no error level diagnostic
+   */
+  valid: boolean;
+
+  /**
+   * 所有问题
+   * all diagnostics
+   */
+  diagnostics: IPublicTypeSchemaDiagnostic[];
+}
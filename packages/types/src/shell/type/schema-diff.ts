@@ -0,0 +1,90 @@
+import { IPublicTypeNodeSchema } from './node-schema';
+
+/**
+ * 差异类型，added 为新增的节点，removed 为删除的节点，moved 为移动的节点，changed 为属性有变化的节点
+ */
+export type IPublicTypeSchemaDiffHunkType = 'added' | 'removed' | 'moved' | 'changed';
+
+/**
+ * 节点属性的变化
+ * change of node prop
+ */
+export interface IPublicTypeSchemaDiffPropChange {
+
+  /**
+   * 属性名，extra 为 true 时为 condition、loop、state 等 props 之外的字段
+   * name of prop, or name of field outside props like condition, loop and state if extra is true
+   */
+  name: string;
+
+  /**
+   * 是否为 props 之外的字段
+   * whether it is a field outside props
+   */
+  extra?: boolean;
+
+  /**
+   * 变化前的值，不存在时为 undefined
+   * value before change, undefined if not exists
+   */
+  before?: any;
+
+  /**
+   * 变化后的值，不存在时为 undefined
+   * value after change, undefined if not exists
+   */
+  after?: any;
+}
+
+/**
+ * schema 差异中的一处变化，可单独接受或拒绝
+ * a change in schema diff, can be accepted or rejected individually
+ */
+export interface IPublicTypeSchemaDiffHunk {
+
+  /**
+   * 变化 id
+   * id of hunk
+   */
+  id: string;
+
+  type: IPublicTypeSchemaDiffHunkType;
+
+  /**
+   * 节点 id，新增节点为新版本中的 id，其余为旧版本中的 id
+   * id of node, id in new version for added node and id in old version for others
+   */
+  nodeId: string;
+
+  componentName: string;
+
+  /**
+   * 新增、移动节点在新版本中的父节点 id，父节点在旧版本中存在时为旧版本中的 id
+   * parent id in new version for added and moved nodes, id in old version if parent exists in old version
+   */
+  parentId?: string;
+
+  /**
+   * 新增、移动节点在新版本中的前一个兄弟节点 id，规则同 parentId
+   * previous sibling id in new version for added and moved nodes, same rule as parentId
+   */
+  prevSiblingId?: string;
+
+  /**
+   * 新增、移动节点在新版本父节点中的位置
+   * index in parent of new version for added and moved nodes
+   */
+  index?: number;
+
+  /**
+   * 新增、删除的节点 schema，包含子节点
+   * schema of added or removed node, including children
+   */
+  schema?: IPublicTypeNodeSchema;
+
+  /**
+   * 属性有变化的节点的属性变化
+   * prop changes of changed node
+   */
+  changes?: IPublicTypeSchemaDiffPropChange[];
+}
@@ -0,0 +1,73 @@
+import { IPublicTypeProjectSchema } from './project-schema';
+
+/**
+ * schema 版本迁移
+ */
+export interface IPublicTypeSchemaMigration {
+
+  /**
+   * 迁移前的 schema 版本，与 IPublicTypeProjectSchema.version 完全匹配时执行
+   * version of the schema before migration
+   */
+  from: string;
+
+  /**
+   * 迁移后的 schema 版本
+   * version of the schema after migration
+   */
+  to: string;
+
+  /**
+   * 迁移函数，传入的 schema 为副本，可以直接修改后返回
+   * migrate function, the schema passed in is a copy and can be modified and returned directly
+   */
+  migrate: (schema: IPublicTypeProjectSchema) => IPublicTypeProjectSchema;
+}
+
+/**
+ * schema 迁移报告
+ */
+export interface IPublicTypeSchemaMigrationReport {
+
+  /**
+   * 是否迁移成功，没有可执行的迁移时也视为成功
+   * whether the migration succeeded
+   */
+  success: boolean;
+
+  /**
+   * 迁移前的版本
+   * version before migration
+   */
+  fromVersion: string;
+
+  /**
+   * 迁移后的版本，迁移失败时为最后一次成功迁移的版本
+   * version after migration
+   */
+  toVersion: string;
+
+  /**
+   * 执行过的迁移步骤，如 ['1.0.0 -> 1.1.0', '1.1.0 -> 2.0.0']
+   * migration steps that have been run
+   */
+  steps: string[];
+
+  /**
+   * 迁移失败的原因
+   * error message when migration failed
+   */
+  error?: string;
+}
+
+/**
+ * schema 迁移结果
+ */
+export interface IPublicTypeSchemaMigrationResult extends IPublicTypeSchemaMigrationReport {
+
+  /**
+   * 迁移后的 schema，迁移失败时为原始 schema
+   * the migrated schema, or the original schema when migration failed
+   */
+  schema: IPublicTypeProjectSchema;
+}
@@ -30,3 +30,6 @@ export * from './is-plugin-event-name';
 export * as css from './css-helper';
 export { transactionManager } from './transaction-manager';
 export * from './check-types';
+export * from './schema-walker';
+export * from './schema-validator';
+export * from './responsive';
@@ -149,7 +149,7 @@ class Logger {
   targetLevel: string;
   constructor(options: Options) {
     options = { ...defaultOptions, ...options };
-    const _location = location || {} as any;
+    const _location = typeof location !== 'undefined' ? location : {} as any;
     // __logConf__ 格式为 logLevel[:bizName], bizName is used as: targetBizName like '%bizName%'
     //   1. __logConf__=log  or __logConf__=warn,  etc.
     //   2. __logConf__=log:*  or __logConf__=warn:*,  etc.
@@ -7,8 +7,10 @@ const preventSelection = (e: Event) => {
   e.stopPropagation();
   return false;
 };
-document.addEventListener('selectstart', preventSelection, true);
-document.addEventListener('dragstart', preventSelection, true);
+if (typeof document !== 'undefined') {
+  document.addEventListener('selectstart', preventSelection, true);
+  document.addEventListener('dragstart', preventSelection, true);
+}
 
 export function setNativeSelection(enableFlag: boolean) {
   nativeSelectionEnabled = enableFlag;
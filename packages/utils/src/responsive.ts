@@ -0,0 +1,62 @@
+import { IPublicTypeBreakpoint, IPublicTypePropsMap } from '@alilc/lowcode-types';
+import { isPlainObject } from './is-plain-object';
+import { isI18nData, isJSBlock, isJSExpression, isJSFunction, isJSSlot } from './check-types';
+
+function isMergeableValue(value: any): boolean {
+  return isPlainObject(value) &&
+    !isJSExpression(value) &&
+    !isJSFunction(value) &&
+    !isJSSlot(value) &&
+    !isJSBlock(value) &&
+    !isI18nData(value);
+}
+
+/**
+ * 匹配断点，优先匹配名称与 device 相同的断点，否则按视口宽度匹配第一个符合的断点
+ */
+export function matchBreakpoint(
+  breakpoints: IPublicTypeBreakpoint[] | undefined | null,
+  device?: string,
+  width?: number,
+): IPublicTypeBreakpoint | null {
+  if (!breakpoints?.length) {
+    return null;
+  }
+  const matched = device ? breakpoints.find((breakpoint) => breakpoint.name === device) : undefined;
+  if (matched || width == null) {
+    return matched || null;
+  }
+  return breakpoints.find(({ minWidth, maxWidth }) => {
+    if (minWidth == null && maxWidth == null) {
+      return false;
+    }
+    return (minWidth == null || width >= minWidth) && (maxWidth == null || width <= maxWidth);
+  }) || null;
+}
+
+/**
+ * 合并属性值与断点下的覆盖值，对象类型的值（如 style）浅合并，其他值直接覆盖
+ */
+export function mergeResponsiveValue(value: any, override: any): any {
+  if (override === undefined) {
+    return value;
+  }
+  if (isMergeableValue(value) && isMergeableValue(override)) {
+    return { ...value, ...override };
+  }
+  return override;
+}
+
+/**
+ * 合并属性与断点下的覆盖属性
+ */
+export function mergeResponsiveProps<T = IPublicTypePropsMap>(props: T, overrides?: IPublicTypePropsMap | null): T {
+  if (!overrides || !isPlainObject(props || {})) {
+    return props;
+  }
+  const merged: any = { ...props };
+  Object.keys(overrides).forEach((key) => {
+    merged[key] = mergeResponsiveValue(merged[key], overrides[key]);
+  });
+  return merged;
+}
@@ -0,0 +1,191 @@
+import Ajv from 'ajv';
+import type {
+  IPublicTypeSchemaDiagnostic,
+  IPublicTypeSchemaValidationResult,
+} from '@alilc/lowcode-types';
+import { isPlainObject } from '../is-plain-object';
+import { joinSchemaPath, walkNodeSchema } from '../schema-walker';
+import { protocolSchema } from './protocol-schema';
+
+/**
+ * 校验器不依赖 React 等浏览器相关模块，出码等场景可以通过 @alilc/lowcode-utils/schema-validator 单独引入
+ */
+
+/**
+ * 不需要在 componentsMap 中声明的组件
+ */
+const BUILTIN_COMPONENTS = ['Page', 'Block', 'Component', 'Slot', 'Leaf'];
+
+let ajv: Ajv.Ajv | null = null;
+const validators: { [key: string]: Ajv.ValidateFunction } = {};
+
+function getValidator(definition: 'ProjectSchema' | 'NodeSchema'): Ajv.ValidateFunction {
+  if (!validators[definition]) {
+    if (!ajv) {
+      ajv = new Ajv({ jsonPointers: true, allErrors: true, verbose: true });
+      ajv.addSchema(protocolSchema);
+    }
+    validators[definition] = ajv.compile({ $ref: `${protocolSchema.$id}#/definitions/${definition}` });
+  }
+  return validators[definition];
+}
+
+function describeSchema(schema: any): string {
+  if (schema.$ref) {
+    return schema.$ref.split('/').pop();
+  }
+  return schema.const !== undefined ? JSON.stringify(schema.const) : schema.type;
+}
+
+interface IValidateContext {
+  diagnostics: IPublicTypeSchemaDiagnostic[];
+
+  /**
+   * 当前文档内已出现的节点 id
+   */
+  ids: Map<string, string>;
+
+  /**
+   * 用到的组件及其首次出现的位置
+   */
+  componentNames: Map<string, string>;
+}
+
+function runValidator(definition: 'ProjectSchema' | 'NodeSchema', data: any, path: string, ctx: IValidateContext) {
+  const validate = getValidator(definition);
+  if (validate(data)) {
+    return;
+  }
+  const errors = validate.errors || [];
+  // anyOf 各分支的错误由 anyOf 统一描述
+  const anyOfPaths = errors.filter((error) => error.keyword === 'anyOf').map((error) => error.dataPath);
+  errors.forEach((error) => {
+    if (error.keyword !== 'anyOf' && anyOfPaths.some((item) => error.dataPath === item || error.dataPath.startsWith(`${item}/`))) {
+      return;
+    }
+    let errorPath = path + error.dataPath;
+    let { message = '' } = error;
+    if (error.keyword === 'required') {
+      const { missingProperty } = error.params as Ajv.RequiredParams;
+      errorPath = joinSchemaPath(errorPath, missingProperty);
+      message = `${missingProperty} is required`;
+    } else if (error.keyword === 'anyOf') {
+      message = `should be ${(error.parentSchema as any).anyOf.map(describeSchema).join(' or ')}`;
+    }
+    ctx.diagnostics.push({
+      path: errorPath,
+      message,
+      level: 'error',
+      rule: 'protocol',
+    });
+  });
+}
+
+function validateNode(node: any, path: string, ctx: IValidateContext) {
+  runValidator('NodeSchema', node, path, ctx);
+  if (!isPlainObject(node)) {
+    return;
+  }
+  const { id, componentName } = node;
+  if (typeof id === 'string' && id) {
+    if (ctx.ids.has(id)) {
+      ctx.diagnostics.push({
+        path: joinSchemaPath(path, 'id'),
+        message: `duplicated node id ${id}, first declared at ${ctx.ids.get(id)}`,
+        level: 'error',
+        rule: 'unique-id',
+      });
+    } else {
+      ctx.ids.set(id, joinSchemaPath(path, 'id'));
+    }
+  }
+  if (typeof componentName === 'string' && !ctx.componentNames.has(componentName)) {
+    ctx.componentNames.set(componentName, joinSchemaPath(path, 'componentName'));
+  }
+}
+
+function walkNode(node: any, path: string, ctx: IValidateContext) {
+  walkNodeSchema(node, {
+    node: (item, itemPath) => validateNode(item, itemPath, ctx),
+    expression: (value, valuePath) => {
+      if (typeof value.value !== 'string') {
+        ctx.diagnostics.push({
+          path: joinSchemaPath(valuePath, 'value'),
+          message: `value of ${value.type} should be string`,
+          level: 'error',
+          rule: 'expression',
+        });
+      }
+    },
+    invalidChild: (data, childPath) => {
+      ctx.diagnostics.push({
+        path: childPath,
+        message: 'should be a node schema, string or JSExpression',
+        level: 'error',
+        rule: 'protocol',
+      });
+    },
+  }, path);
+}
+
+function createContext(): IValidateContext {
+  return {
+    diagnostics: [],
+    ids: new Map(),
+    componentNames: new Map(),
+  };
+}
+
+function toResult(diagnostics: IPublicTypeSchemaDiagnostic[]): IPublicTypeSchemaValidationResult {
+  return {
+    valid: diagnostics.every((item) => item.level !== 'error'),
+    diagnostics,
+  };
+}
+
+/**
+ * 校验节点 schema，如页面、区块、组件的根节点
+ * @param path 节点在整体 schema 中的 JSON 路径
+ */
+export function validateNodeSchema(schema: unknown, path = ''): IPublicTypeSchemaValidationResult {
+  const ctx = createContext();
+  walkNode(schema, path, ctx);
+  return toResult(ctx.diagnostics);
+}
+
+/**
+ * 校验项目 schema，包括协议结构、JSExpression 结构、loopArgs、节点 id 唯一性以及 componentsMap 是否覆盖所有组件
+ */
+export function validateProjectSchema(schema: unknown): IPublicTypeSchemaValidationResult {
+  const ctx = createContext();
+  runValidator('ProjectSchema', schema, '', ctx);
+  if (!isPlainObject(schema)) {
+    return toResult(ctx.diagnostics);
+  }
+  const { componentsTree, componentsMap } = schema as any;
+  if (Array.isArray(componentsTree)) {
+    componentsTree.forEach((tree, index) => {
+      if (!isPlainObject(tree)) {
+        return;
+      }
+      // 节点 id 只需要在文档内唯一
+      ctx.ids = new Map();
+      walkNode(tree, joinSchemaPath('/componentsTree', index), ctx);
+    });
+  }
+  if (Array.isArray(componentsMap)) {
+    const declared = new Set(componentsMap.map((item: any) => item?.componentName));
+    ctx.componentNames.forEach((path, componentName) => {
+      if (BUILTIN_COMPONENTS.indexOf(componentName) > -1 || declared.has(componentName)) {
+        return;
+      }
+      ctx.diagnostics.push({
+        path,
+        message: `component ${componentName} is not declared in componentsMap`,
+        level: 'warning',
+        rule: 'components-map',
+      });
+    });
+  }
+  return toResult(ctx.diagnostics);
+}
@@ -0,0 +1,86 @@
+/**
+ * 低代码搭建协议的 JSON Schema 描述，只描述单个节点的结构，子节点及 props 中的插槽由校验器递归校验
+ */
+export const protocolSchema = {
+  $id: 'lowcode-protocol-schema',
+  description: 'json schema for low code protocol',
+  definitions: {
+    JSExpression: {
+      type: 'object',
+      required: ['type', 'value'],
+      properties: {
+        type: { const: 'JSExpression' },
+        value: { type: 'string' },
+      },
+    },
+    ComponentsMapItem: {
+      type: 'object',
+      required: ['componentName'],
+      properties: {
+        componentName: { type: 'string', minLength: 1 },
+        package: { type: 'string' },
+        version: { type: 'string' },
+        destructuring: { type: 'boolean' },
+        exportName: { type: 'string' },
+        subName: { type: 'string' },
+        main: { type: 'string' },
+        devMode: { type: 'string' },
+      },
+    },
+    NodeSchema: {
+      type: 'object',
+      required: ['componentName'],
+      properties: {
+        id: { type: 'string' },
+        componentName: { type: 'string', minLength: 1 },
+        props: { type: 'object' },
+        condition: {
+          anyOf: [
+            { type: 'boolean' },
+            { $ref: '#/definitions/JSExpression' },
+          ],
+        },
+        conditionGroup: { type: 'string' },
+        loop: {
+          anyOf: [
+            { type: 'array' },
+            { $ref: '#/definitions/JSExpression' },
+          ],
+        },
+        loopArgs: {
+          type: 'array',
+          maxItems: 2,
+          items: { type: 'string' },
+        },
+        fileName: { type: 'string' },
+        state: { type: 'object' },
+        lifeCycles: { type: 'object' },
+        methods: { type: 'object' },
+        dataSource: { type: 'object' },
+        css: { type: 'string' },
+      },
+    },
+    ProjectSchema: {
+      type: 'object',
+      required: ['componentsTree'],
+      properties: {
+        version: { type: 'string' },
+        componentsMap: {
+          type: 'array',
+          items: { $ref: '#/definitions/ComponentsMapItem' },
+        },
+        componentsTree: {
+          type: 'array',
+          items: { type: 'object' },
+        },
+        i18n: { type: 'object' },
+        utils: { type: 'array' },
+        constants: { type: 'object' },
+        css: { type: 'string' },
+        dataSource: { type: 'object' },
+        config: { type: 'object' },
+        meta: { type: 'object' },
+      },
+    },
+  },
+};
@@ -0,0 +1,105 @@
+import { isPlainObject } from './is-plain-object';
+
+/**
+ * 节点上可能包含 JSExpression / JSFunction 的字段，props 另外处理
+ */
+const NODE_VALUE_KEYS = ['condition', 'loop', 'state', 'lifeCycles', 'methods', 'dataSource'];
+
+export interface ISchemaWalkVisitor {
+
+  /**
+   * 访问节点，路径为节点在 schema 中的 JSON 路径
+   */
+  node?: (node: any, path: string) => void;
+
+  /**
+   * 访问 JSExpression / JSFunction，nodeId 为所在节点的 id
+   */
+  expression?: (value: any, path: string, nodeId?: string) => void;
+
+  /**
+   * 访问 children 中既不是节点，也不是字符串、数字、布尔值或 JSExpression 等的数据
+   */
+  invalidChild?: (data: any, path: string) => void;
+}
+
+/**
+ * 拼接 JSON 路径，按 JSON Pointer 规则转义 key 中的 ~ 和 /
+ */
+export function joinSchemaPath(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function walkValue(value: any, path: string, nodeId: string | undefined, visitor: ISchemaWalkVisitor) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => walkValue(item, joinSchemaPath(path, index), nodeId, visitor));
+    return;
+  }
+  if (!isPlainObject(value)) {
+    return;
+  }
+  if (value.type === 'JSExpression' || value.type === 'JSFunction') {
+    visitor.expression?.(value, path, nodeId);
+    return;
+  }
+  if (value.type === 'JSSlot') {
+    if (value.value != null) {
+      walkChildren(value.value, joinSchemaPath(path, 'value'), nodeId, visitor);
+    }
+    return;
+  }
+  Object.keys(value).forEach((key) => walkValue(value[key], joinSchemaPath(path, key), nodeId, visitor));
+}
+
+function walkChild(data: any, path: string, nodeId: string | undefined, visitor: ISchemaWalkVisitor) {
+  if (data == null || ['string', 'number', 'boolean'].indexOf(typeof data) > -1) {
+    return;
+  }
+  if (!isPlainObject(data)) {
+    visitor.invalidChild?.(data, path);
+    return;
+  }
+  if (typeof data.type === 'string' && data.componentName === undefined) {
+    walkValue(data, path, nodeId, visitor);
+  } else {
+    walkNodeSchema(data, visitor, path);
+  }
+}
+
+function walkChildren(children: any, path: string, nodeId: string | undefined, visitor: ISchemaWalkVisitor) {
+  if (Array.isArray(children)) {
+    children.forEach((child, index) => walkChild(child, joinSchemaPath(path, index), nodeId, visitor));
+  } else {
+    walkChild(children, path, nodeId, visitor);
+  }
+}
+
+/**
+ * 深度优先遍历节点 schema，依次访问节点、props 及节点字段中的 JSExpression / JSFunction 以及子节点，JSSlot 中的节点同样会被访问
+ * @param path 节点在整体 schema 中的 JSON 路径
+ */
+export function walkNodeSchema(node: any, visitor: ISchemaWalkVisitor, path = '') {
+  visitor.node?.(node, path);
+  if (!isPlainObject(node)) {
+    return;
+  }
+  const { id, props, children } = node;
+  if (isPlainObject(props)) {
+    const propsPath = joinSchemaPath(path, 'props');
+    Object.keys(props).forEach((key) => {
+      if (key === 'children') {
+        walkChildren(props.children, joinSchemaPath(propsPath, key), id, visitor);
+      } else {
+        walkValue(props[key], joinSchemaPath(propsPath, key), id, visitor);
+      }
+    });
+  }
+  NODE_VALUE_KEYS.forEach((key) => {
+    if (node[key] != null) {
+      walkValue(node[key], joinSchemaPath(path, key), id, visitor);
+    }
+  });
+  if (children != null) {
+    walkChildren(children, joinSchemaPath(path, 'children'), id, visitor);
+  }
+}
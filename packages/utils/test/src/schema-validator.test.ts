@@ -0,0 +1,113 @@
+import { validateNodeSchema, validateProjectSchema } from '../../src/schema-validator';
+
+describe('validateProjectSchema', () => {
+  const createProjectSchema = (tree: any) => ({
+    version: '1.0.0',
+    componentsMap: [{ componentName: 'Button', package: '@alifd/next' }],
+    componentsTree: [tree],
+  });
+
+  it('valid schema', () => {
+    const result = validateProjectSchema(createProjectSchema({
+      componentName: 'Page',
+      id: 'page',
+      props: {},
+      lifeCycles: {
+        componentDidMount: { type: 'JSFunction', value: 'function() {}' },
+      },
+      children: [{
+        componentName: 'Button',
+        id: 'button',
+        loop: { type: 'JSExpression', value: 'this.state.list' },
+        loopArgs: ['item', 'index'],
+        children: 'text',
+      }],
+    }));
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('protocol structure', () => {
+    expect(validateProjectSchema(null).diagnostics).toEqual([
+      { path: '', message: 'should be object', level: 'error', rule: 'protocol' },
+    ]);
+    expect(validateProjectSchema({ componentsMap: [{}] }).diagnostics).toEqual([
+      { path: '/componentsMap/0/componentName', message: 'componentName is required', level: 'error', rule: 'protocol' },
+      { path: '/componentsTree', message: 'componentsTree is required', level: 'error', rule: 'protocol' },
+    ]);
+  });
+
+  it('node structure, JSExpression shape and loopArgs', () => {
+    const result = validateProjectSchema(createProjectSchema({
+      componentName: 'Page',
+      children: [
+        { id: 'a' },
+        {
+          componentName: 'Button',
+          condition: 'true',
+          loopArgs: ['item', 'index', 'extra'],
+          props: {
+            onClick: { type: 'JSFunction' },
+            children: {
+              type: 'JSSlot',
+              value: [{ componentName: 'Button', props: { title: { type: 'JSExpression', value: 1 } } }],
+            },
+          },
+        },
+      ],
+    }));
+    expect(result.valid).toBeFalsy();
+    expect(result.diagnostics).toEqual([
+      { path: '/componentsTree/0/children/0/componentName', message: 'componentName is required', level: 'error', rule: 'protocol' },
+      { path: '/componentsTree/0/children/1/condition', message: 'should be boolean or JSExpression', level: 'error', rule: 'protocol' },
+      { path: '/componentsTree/0/children/1/loopArgs', message: 'should NOT have more than 2 items', level: 'error', rule: 'protocol' },
+      { path: '/componentsTree/0/children/1/props/onClick/value', message: 'value of JSFunction should be string', level: 'error', rule: 'expression' },
+      { path: '/componentsTree/0/children/1/props/children/value/0/props/title/value', message: 'value of JSExpression should be string', level: 'error', rule: 'expression' },
+    ]);
+  });
+
+  it('unique node ids in each document', () => {
+    const tree = {
+      componentName: 'Page',
+      id: 'page',
+      children: [
+        { componentName: 'Button', id: 'button' },
+        { componentName: 'Button', id: 'button' },
+      ],
+    };
+    const schema = createProjectSchema(tree);
+    schema.componentsTree.push({ componentName: 'Page', id: 'page' });
+    expect(validateProjectSchema(schema).diagnostics).toEqual([{
+      path: '/componentsTree/0/children/1/id',
+      message: 'duplicated node id button, first declared at /componentsTree/0/children/0/id',
+      level: 'error',
+      rule: 'unique-id',
+    }]);
+  });
+
+  it('componentsMap coverage', () => {
+    const result = validateProjectSchema(createProjectSchema({
+      componentName: 'Page',
+      children: [{ componentName: 'Form', children: [{ componentName: 'Form' }] }],
+    }));
+    expect(result).toEqual({
+      valid: true,
+      diagnostics: [{
+        path: '/componentsTree/0/children/0/componentName',
+        message: 'component Form is not declared in componentsMap',
+        level: 'warning',
+        rule: 'components-map',
+      }],
+    });
+  });
+});
+
+describe('validateNodeSchema', () => {
+  it('validates with base path', () => {
+    expect(validateNodeSchema({ componentName: 'Page', children: [1, () => {}] }, '/componentsTree/1').diagnostics).toEqual([{
+      path: '/componentsTree/1/children/1',
+      message: 'should be a node schema, string or JSExpression',
+      level: 'error',
+      rule: 'protocol',
+    }]);
+  });
+});
@@ -0,0 +1,51 @@
+import { joinSchemaPath, walkNodeSchema } from '../../src/schema-walker';
+
+describe('walkNodeSchema', () => {
+  it('escape path', () => {
+    expect(joinSchemaPath('/props', 'a/b~c')).toBe('/props/a~1b~0c');
+  });
+
+  it('visit nodes, expressions and invalid children', () => {
+    const nodes: string[] = [];
+    const expressions: any[] = [];
+    const invalidChildren: string[] = [];
+    walkNodeSchema({
+      componentName: 'Page',
+      id: 'page',
+      state: { title: { type: 'JSExpression', value: 'this.props.title' } },
+      children: [
+        'text',
+        { type: 'JSExpression', value: 'this.state.title' },
+        {
+          componentName: 'Button',
+          id: 'button',
+          props: {
+            onClick: { type: 'JSFunction', value: 'function() {}' },
+            icon: {
+              type: 'JSSlot',
+              value: [{ componentName: 'Icon', id: 'icon', props: { type: { type: 'JSExpression', value: 'this.type' } } }],
+            },
+          },
+        },
+        () => {},
+      ],
+    }, {
+      node: (node, path) => nodes.push(`${node.id}:${path}`),
+      expression: (value, path, nodeId) => expressions.push({ value: value.value, path, nodeId }),
+      invalidChild: (data, path) => invalidChildren.push(path),
+    });
+
+    expect(nodes).toEqual([
+      'page:',
+      'button:/children/2',
+      'icon:/children/2/props/icon/value/0',
+    ]);
+    expect(expressions).toEqual([
+      { value: 'this.props.title', path: '/state/title', nodeId: 'page' },
+      { value: 'this.state.title', path: '/children/1', nodeId: 'page' },
+      { value: 'function() {}', path: '/children/2/props/onClick', nodeId: 'button' },
+      { value: 'this.type', path: '/children/2/props/icon/value/0/props/type', nodeId: 'icon' },
+    ]);
+    expect(invalidChildren).toEqual(['/children/3']);
+  });
+});
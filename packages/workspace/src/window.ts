@@ -4,7 +4,7 @@ import { Context } from './context/view-context';
 import { IWorkspace } from './workspace';
 import { IResource } from './resource';
 import { IPublicTypeDisposable } from '../../types/es/shell/type/disposable';
-import { IPublicModelWindow } from '@alilc/lowcode-types';
+import { IPublicModelWindow, IPublicTypeFieldValidationError } from '@alilc/lowcode-types';
 
 interface IWindowCOnfig {
   title: string | undefined;
@@ -56,7 +56,22 @@ export class EditorWindow implements IEditorWindow {
     });
   }
 
+  async getValidationErrors(): Promise<IPublicTypeFieldValidationError[]> {
+    const errors: IPublicTypeFieldValidationError[] = [];
+    for (const editorView of this.editorViews.values()) {
+      const documents = editorView.innerProject?.documents || [];
+      for (const document of documents) {
+        errors.push(...await document.getValidationErrors());
+      }
+    }
+    return errors;
+  }
+
   async save() {
+    const validationErrors = await this.getValidationErrors();
+    if (validationErrors.length) {
+      throw Object.assign(new Error(`Can not save with ${validationErrors.length} invalid props`), { validationErrors });
+    }
     const value: any = {};
     const editorViews = this.resource.editorViews;
     for (let i = 0; i < editorViews.length; i++) {